@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useState } from 'react';
+import { History, Loader2, RotateCcw, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { adminApi } from '@/lib/adminApi';
+
+interface AuditEvent {
+  id: string;
+  actor_type: 'admin' | 'pm';
+  actor_id: string;
+  actor_label: string | null;
+  action: string;
+  table_name: string;
+  record_id: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+  created_at: string;
+}
+
+// Every table admin-api, pm-api or email-templates writes audit events for
+const TABLES = [
+  'service_requests', 'payment_requests', 'project_managers', 'pm_assignment_settings', 'services',
+  'portfolio_items', 'team_members', 'contact_messages', 'email_templates', 'outbound_messages',
+  'request_messages', 'request_files', 'project_milestones', 'project_tasks', 'time_entries',
+  'invoices', 'invoice_items', 'billing_settings', 'two_factor_policies',
+];
+
+const EMPTY_FILTERS = { actor: '', table: 'all', from: '', to: '' };
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'string') return value.length > 120 ? `${value.slice(0, 120)}…` : value;
+  return JSON.stringify(value);
+};
+
+const actionColor = (action: string) => {
+  if (action === 'delete') return 'bg-red-500/10 text-red-500 border-red-500/20';
+  if (action === 'insert') return 'bg-green-500/10 text-green-500 border-green-500/20';
+  return 'bg-blue-500/10 text-blue-500 border-blue-500/20';
+};
+
+const ActivityLog = () => {
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const { toast } = useToast();
+
+  const fetchEvents = useCallback(async (current: typeof EMPTY_FILTERS) => {
+    setLoading(true);
+    try {
+      const eq: Record<string, string> = {};
+      if (current.actor.trim()) eq.actor_label = current.actor.trim();
+      if (current.table !== 'all') eq.table_name = current.table;
+
+      const data = await adminApi('select', 'audit_events', {
+        filters: {
+          eq,
+          gte: current.from ? { created_at: new Date(`${current.from}T00:00:00`).toISOString() } : undefined,
+          lte: current.to ? { created_at: new Date(`${current.to}T23:59:59.999`).toISOString() } : undefined,
+          order: { column: 'created_at', ascending: false },
+          limit: 200,
+        },
+      });
+      setEvents(data || []);
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    fetchEvents(EMPTY_FILTERS);
+  }, [fetchEvents]);
+
+  return (
+    <div className="space-y-4">
+      <Card className="glass-card">
+        <CardContent className="p-4 grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+          <div>
+            <Label>Actor email</Label>
+            <Input
+              placeholder="admin@example.com"
+              value={filters.actor}
+              onChange={(e) => setFilters({ ...filters, actor: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label>Table</Label>
+            <Select value={filters.table} onValueChange={(value) => setFilters({ ...filters, table: value })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All tables</SelectItem>
+                {TABLES.map((table) => (
+                  <SelectItem key={table} value={table}>{table.replace(/_/g, ' ')}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>From</Label>
+            <Input type="date" value={filters.from} onChange={(e) => setFilters({ ...filters, from: e.target.value })} />
+          </div>
+          <div>
+            <Label>To</Label>
+            <Input type="date" value={filters.to} onChange={(e) => setFilters({ ...filters, to: e.target.value })} />
+          </div>
+          <div className="flex gap-2">
+            <Button className="flex-1" onClick={() => fetchEvents(filters)}>
+              <Search className="w-4 h-4 mr-2" />Filter
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => { setFilters(EMPTY_FILTERS); fetchEvents(EMPTY_FILTERS); }}>
+              <RotateCcw className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : events.length === 0 ? (
+        <Card className="glass-card">
+          <CardContent className="py-12 text-center">
+            <History className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No activity matches these filters</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-3">
+          {events.map((event) => {
+            const fields = Array.from(new Set([
+              ...Object.keys(event.before || {}),
+              ...Object.keys(event.after || {}),
+            ]));
+            return (
+              <Card key={event.id} className="glass-card">
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex flex-col md:flex-row md:items-center justify-between gap-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge className={actionColor(event.action)}>{event.action.replace(/_/g, ' ')}</Badge>
+                      <span className="text-sm font-medium">{event.table_name.replace(/_/g, ' ')}</span>
+                      {event.record_id && (
+                        <span className="text-xs font-mono text-muted-foreground">{event.record_id.slice(0, 8)}</span>
+                      )}
+                    </div>
+                    <div className="text-xs text-muted-foreground">
+                      <Badge variant="outline" className="mr-2 uppercase">{event.actor_type}</Badge>
+                      {event.actor_label || event.actor_id} · {new Date(event.created_at).toLocaleString()}
+                    </div>
+                  </div>
+                  {fields.length > 0 && (
+                    <div className="bg-muted/30 rounded-lg p-3 space-y-1 text-xs">
+                      {fields.map((field) => (
+                        <div key={field} className="grid grid-cols-[140px_1fr] gap-2">
+                          <span className="text-muted-foreground">{field}</span>
+                          <span className="break-all">
+                            {event.before && <span className="line-through text-red-400 mr-2">{formatValue(event.before[field])}</span>}
+                            {event.after && <span className="text-green-500">{formatValue(event.after[field])}</span>}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ActivityLog;
@@ -0,0 +1,134 @@
+import { useEffect, useState } from 'react';
+import { Building2, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { adminApi } from '@/lib/adminApi';
+import type { BillingSettings } from '@/lib/invoices';
+
+const EMPTY_FORM = {
+  legal_name: '', gstin: '', address: '', state: '', email: '', phone: '',
+  invoice_prefix: 'INV', quote_prefix: 'QT', default_payment_terms_days: '7', default_hourly_rate: '0',
+};
+
+// Seller details printed on quotes and invoices. Issued documents keep the details they were issued with.
+const BillingSettingsCard = () => {
+  const [settingsId, setSettingsId] = useState<string | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const applySettings = (settings: BillingSettings) => {
+    setSettingsId(settings.id);
+    setForm({
+      legal_name: settings.legal_name,
+      gstin: settings.gstin ?? '',
+      address: settings.address ?? '',
+      state: settings.state ?? '',
+      email: settings.email ?? '',
+      phone: settings.phone ?? '',
+      invoice_prefix: settings.invoice_prefix,
+      quote_prefix: settings.quote_prefix,
+      default_payment_terms_days: String(settings.default_payment_terms_days),
+      default_hourly_rate: String(settings.default_hourly_rate),
+    });
+  };
+
+  useEffect(() => {
+    adminApi('select', 'billing_settings', { filters: { limit: 1 } })
+      .then((data) => data?.[0] && applySettings(data[0]))
+      .catch((error: Error) => toast({ title: 'Error', description: error.message, variant: 'destructive' }));
+  }, [toast]);
+
+  const save = async () => {
+    if (!settingsId) return;
+    setSaving(true);
+    try {
+      const data = await adminApi('update', 'billing_settings', {
+        id: settingsId,
+        data: {
+          legal_name: form.legal_name,
+          gstin: form.gstin || null,
+          address: form.address || null,
+          state: form.state || null,
+          email: form.email || null,
+          phone: form.phone || null,
+          invoice_prefix: form.invoice_prefix.toUpperCase(),
+          quote_prefix: form.quote_prefix.toUpperCase(),
+          default_payment_terms_days: parseInt(form.default_payment_terms_days, 10),
+          default_hourly_rate: parseFloat(form.default_hourly_rate) || 0,
+        },
+      });
+      applySettings(data[0]);
+      toast({ title: 'Billing details saved' });
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setSaving(false);
+  };
+
+  const field = (key: keyof typeof EMPTY_FORM, label: string, placeholder?: string) => (
+    <div className="space-y-1">
+      <Label htmlFor={`billing-${key}`}>{label}</Label>
+      <Input
+        id={`billing-${key}`}
+        value={form[key]}
+        placeholder={placeholder}
+        onChange={(e) => setForm({ ...form, [key]: e.target.value })}
+      />
+    </div>
+  );
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Building2 className="w-5 h-5 text-primary" />
+          Billing Details
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {!settingsId ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+              {field('legal_name', 'Legal name')}
+              {field('gstin', 'GSTIN', '22AAAAA0000A1Z5')}
+              {field('state', 'State', 'Karnataka')}
+              {field('email', 'Email')}
+              {field('phone', 'Phone')}
+              {field('default_payment_terms_days', 'Payment terms (days)')}
+              {field('invoice_prefix', 'Invoice prefix')}
+              {field('quote_prefix', 'Quote prefix')}
+              {field('default_hourly_rate', 'Default hourly rate (₹)')}
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="billing-address">Address</Label>
+              <Textarea
+                id="billing-address"
+                rows={2}
+                value={form.address}
+                onChange={(e) => setForm({ ...form, address: e.target.value })}
+              />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Documents whose place of supply matches this state are taxed as CGST + SGST; all others as IGST.
+            </p>
+            <Button onClick={save} disabled={saving || !form.legal_name}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BillingSettingsCard;
@@ -0,0 +1,191 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, MailX, RotateCcw, Search, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { adminApi } from '@/lib/adminApi';
+
+type MessageStatus = 'pending' | 'sending' | 'sent' | 'dead';
+
+interface OutboundMessage {
+  id: string;
+  template: string;
+  recipient: string;
+  status: MessageStatus;
+  attempts: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  last_error: string | null;
+  sent_at: string | null;
+  created_at: string;
+}
+
+const STATUS_LABELS: Record<MessageStatus, string> = {
+  pending: 'Queued',
+  sending: 'Sending',
+  sent: 'Sent',
+  dead: 'Failed',
+};
+
+const STATUS_COLORS: Record<MessageStatus, string> = {
+  pending: 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20',
+  sending: 'bg-blue-500/10 text-blue-500 border-blue-500/20',
+  sent: 'bg-green-500/10 text-green-500 border-green-500/20',
+  dead: 'bg-red-500/10 text-red-500 border-red-500/20',
+};
+
+const EMPTY_FILTERS = { recipient: '', status: 'all', from: '', to: '' };
+
+// Notification emails in the outbox: what was sent, what is waiting for a retry and what gave up
+const EmailLog = () => {
+  const [messages, setMessages] = useState<OutboundMessage[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const [resending, setResending] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const fetchMessages = useCallback(async (current: typeof EMPTY_FILTERS) => {
+    setLoading(true);
+    try {
+      const eq: Record<string, string> = {};
+      if (current.recipient.trim()) eq.recipient = current.recipient.trim();
+      if (current.status !== 'all') eq.status = current.status;
+
+      const data = await adminApi('select', 'outbound_messages', {
+        data: { select: 'id, template, recipient, status, attempts, max_attempts, next_attempt_at, last_error, sent_at, created_at' },
+        filters: {
+          eq,
+          gte: current.from ? { created_at: new Date(`${current.from}T00:00:00`).toISOString() } : undefined,
+          lte: current.to ? { created_at: new Date(`${current.to}T23:59:59.999`).toISOString() } : undefined,
+          order: { column: 'created_at', ascending: false },
+          limit: 200,
+        },
+      });
+      setMessages(data || []);
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    fetchMessages(EMPTY_FILTERS);
+  }, [fetchMessages]);
+
+  const resend = async (message: OutboundMessage) => {
+    setResending(message.id);
+    try {
+      const updated: OutboundMessage = await adminApi('resend', 'outbound_messages', { id: message.id });
+      setMessages((prev) => prev.map((m) => (m.id === message.id ? { ...m, ...updated } : m)));
+      toast({ title: 'Email queued', description: `It will be sent to ${message.recipient} shortly.` });
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setResending(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="glass-card">
+        <CardContent className="p-4 grid grid-cols-1 md:grid-cols-5 gap-3 items-end">
+          <div>
+            <Label>Recipient</Label>
+            <Input
+              placeholder="client@example.com"
+              value={filters.recipient}
+              onChange={(e) => setFilters({ ...filters, recipient: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label>Status</Label>
+            <Select value={filters.status} onValueChange={(value) => setFilters({ ...filters, status: value })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                {Object.entries(STATUS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>From</Label>
+            <Input type="date" value={filters.from} onChange={(e) => setFilters({ ...filters, from: e.target.value })} />
+          </div>
+          <div>
+            <Label>To</Label>
+            <Input type="date" value={filters.to} onChange={(e) => setFilters({ ...filters, to: e.target.value })} />
+          </div>
+          <div className="flex gap-2">
+            <Button className="flex-1" onClick={() => fetchMessages(filters)}>
+              <Search className="w-4 h-4 mr-2" />Filter
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => { setFilters(EMPTY_FILTERS); fetchMessages(EMPTY_FILTERS); }}>
+              <RotateCcw className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : messages.length === 0 ? (
+        <Card className="glass-card">
+          <CardContent className="py-12 text-center">
+            <MailX className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No emails match these filters</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {messages.map((message) => (
+            <Card key={message.id} className="glass-card">
+              <CardContent className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                <div className="space-y-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge className={STATUS_COLORS[message.status]}>{STATUS_LABELS[message.status]}</Badge>
+                    <span className="text-sm font-medium capitalize">{message.template.replace(/_/g, ' ')}</span>
+                    <span className="text-sm text-muted-foreground">{message.recipient}</span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Attempt {message.attempts} of {message.max_attempts}
+                    {' · '}
+                    {message.status === 'sent' && message.sent_at
+                      ? `Sent ${new Date(message.sent_at).toLocaleString()}`
+                      : message.status === 'pending'
+                        ? `Next attempt ${new Date(message.next_attempt_at).toLocaleString()}`
+                        : `Queued ${new Date(message.created_at).toLocaleString()}`}
+                  </p>
+                  {message.last_error && (
+                    <p className="text-xs text-destructive break-words">{message.last_error}</p>
+                  )}
+                </div>
+                {(message.status === 'sent' || message.status === 'dead') && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => resend(message)}
+                    disabled={resending !== null}
+                  >
+                    {resending === message.id
+                      ? <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      : <Send className="w-4 h-4 mr-2" />}
+                    Resend
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EmailLog;
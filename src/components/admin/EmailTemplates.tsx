@@ -0,0 +1,290 @@
+import { useEffect, useMemo, useState } from 'react';
+import { AlertTriangle, Loader2, Mail, RotateCcw, Save, Send } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  fetchEmailTemplates, fillPlaceholders, placeholdersIn, resetEmailTemplate, saveEmailTemplate, sendTestEmail,
+  type EmailTemplate, type TemplateBody,
+} from '@/lib/emailTemplates';
+
+const sameBody = (a: TemplateBody, b: TemplateBody) => a.subject === b.subject && a.html === b.html && a.text === b.text;
+
+// Editor for the emails the platform sends. Saved versions replace the built-in defaults; the preview
+// fills the {{variables}} with sample values the same way the mail functions do.
+const EmailTemplates = () => {
+  const [templates, setTemplates] = useState<EmailTemplate[] | null>(null);
+  const [selectedKey, setSelectedKey] = useState('');
+  const [draft, setDraft] = useState<TemplateBody>({ subject: '', html: '', text: '' });
+  const [busy, setBusy] = useState<'save' | 'reset' | 'test' | null>(null);
+  const [confirmReset, setConfirmReset] = useState(false);
+  const { toast } = useToast();
+
+  const selected = templates?.find((template) => template.key === selectedKey) ?? null;
+  const current = selected ? selected.saved ?? selected.default : null;
+
+  const select = (template: EmailTemplate) => {
+    setSelectedKey(template.key);
+    const { subject, html, text } = template.saved ?? template.default;
+    setDraft({ subject, html, text });
+  };
+
+  useEffect(() => {
+    fetchEmailTemplates()
+      .then((data) => {
+        setTemplates(data);
+        if (!data.length) return;
+        setSelectedKey(data[0].key);
+        const { subject, html, text } = data[0].saved ?? data[0].default;
+        setDraft({ subject, html, text });
+      })
+      .catch((error: Error) => toast({ title: 'Error', description: error.message, variant: 'destructive' }));
+  }, [toast]);
+
+  const samples = useMemo(
+    () => Object.fromEntries(Object.entries(selected?.variables ?? {}).map(([key, variable]) => [key, variable.sample])),
+    [selected],
+  );
+
+  // Mirrors the checks the server makes on save
+  const problems = useMemo(() => {
+    if (!selected) return [];
+    const used = new Set([...placeholdersIn(draft.subject), ...placeholdersIn(draft.html), ...placeholdersIn(draft.text)]);
+    const unknown = [...used].filter((key) => !(key in selected.variables));
+    const missing = Object.entries(selected.variables)
+      .filter(([key, variable]) => variable.required && !(placeholdersIn(draft.html).includes(key) && placeholdersIn(draft.text).includes(key)))
+      .map(([key]) => key);
+    return [
+      ...(unknown.length ? [`Unknown variables: ${unknown.map((key) => `{{${key}}}`).join(', ')}`] : []),
+      ...(missing.length ? [`Both bodies must include ${missing.map((key) => `{{${key}}}`).join(', ')}`] : []),
+    ];
+  }, [selected, draft]);
+
+  const dirty = !!current && !sameBody(draft, current);
+
+  const updateTemplate = (key: string, saved: EmailTemplate['saved']) =>
+    setTemplates((prev) => prev?.map((template) => (template.key === key ? { ...template, saved } : template)) ?? null);
+
+  const save = async () => {
+    if (!selected) return;
+    setBusy('save');
+    try {
+      const { updatedAt } = await saveEmailTemplate(selected.key, draft);
+      updateTemplate(selected.key, { ...draft, subject: draft.subject.trim(), updatedAt });
+      toast({ title: 'Template saved', description: 'New emails will use this version.' });
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setBusy(null);
+  };
+
+  const reset = async () => {
+    if (!selected) return;
+    setConfirmReset(false);
+    setBusy('reset');
+    try {
+      await resetEmailTemplate(selected.key);
+      updateTemplate(selected.key, null);
+      const { subject, html, text } = selected.default;
+      setDraft({ subject, html, text });
+      toast({ title: 'Template reset', description: 'The built-in default is used again.' });
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setBusy(null);
+  };
+
+  const sendTest = async () => {
+    if (!selected) return;
+    setBusy('test');
+    try {
+      const { sentTo } = await sendTestEmail(selected.key, draft);
+      toast({ title: 'Test email sent', description: `Sent to ${sentTo} with sample values.` });
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setBusy(null);
+  };
+
+  if (!templates) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card className="glass-card">
+        <CardContent className="p-4 flex flex-col md:flex-row md:items-end gap-4">
+          <div className="md:w-80">
+            <Label>Template</Label>
+            <Select
+              value={selectedKey}
+              onValueChange={(key) => {
+                const template = templates.find((t) => t.key === key);
+                if (template) select(template);
+              }}
+            >
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {templates.map((template) => (
+                  <SelectItem key={template.key} value={template.key}>
+                    {template.name}{template.saved ? ' (edited)' : ''}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {selected && (
+            <div className="flex-1 text-sm text-muted-foreground">
+              {selected.description}
+              {selected.saved && (
+                <span className="block text-xs">Edited {new Date(selected.saved.updatedAt).toLocaleString()}</span>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {selected && (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+          <Card className="glass-card">
+            <CardContent className="p-4 space-y-4">
+              <div>
+                <Label>Variables</Label>
+                <div className="flex flex-wrap gap-2 mt-2">
+                  {Object.entries(selected.variables).length === 0 && (
+                    <span className="text-xs text-muted-foreground">This template has no variables</span>
+                  )}
+                  {Object.entries(selected.variables).map(([key, variable]) => (
+                    <Badge key={key} variant={variable.required ? 'default' : 'secondary'} title={variable.description}>
+                      {`{{${key}}}`}
+                    </Badge>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground mt-2">
+                  Hover a variable for what it holds. Highlighted ones must appear in both bodies.
+                </p>
+              </div>
+
+              <div>
+                <Label htmlFor="template-subject">Subject</Label>
+                <Input
+                  id="template-subject"
+                  value={draft.subject}
+                  onChange={(e) => setDraft({ ...draft, subject: e.target.value })}
+                />
+              </div>
+
+              <Tabs defaultValue="html">
+                <TabsList>
+                  <TabsTrigger value="html">HTML</TabsTrigger>
+                  <TabsTrigger value="text">Plain text</TabsTrigger>
+                </TabsList>
+                <TabsContent value="html">
+                  <Textarea
+                    className="font-mono text-xs min-h-[420px]"
+                    value={draft.html}
+                    onChange={(e) => setDraft({ ...draft, html: e.target.value })}
+                  />
+                </TabsContent>
+                <TabsContent value="text">
+                  <Textarea
+                    className="font-mono text-xs min-h-[420px]"
+                    value={draft.text}
+                    onChange={(e) => setDraft({ ...draft, text: e.target.value })}
+                  />
+                </TabsContent>
+              </Tabs>
+
+              {problems.length > 0 && (
+                <div className="flex gap-2 text-sm text-destructive">
+                  <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                  <div>{problems.map((problem) => <p key={problem}>{problem}</p>)}</div>
+                </div>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                <Button onClick={save} disabled={busy !== null || !dirty || problems.length > 0}>
+                  {busy === 'save' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+                  Save
+                </Button>
+                <Button variant="outline" onClick={sendTest} disabled={busy !== null || problems.length > 0}>
+                  {busy === 'test' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+                  Send Test
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={() => setConfirmReset(true)}
+                  disabled={busy !== null || (!selected.saved && !dirty)}
+                >
+                  {busy === 'reset' ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RotateCcw className="w-4 h-4 mr-2" />}
+                  Reset to Default
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="glass-card">
+            <CardContent className="p-4 space-y-3">
+              <div className="flex items-center gap-2 text-sm">
+                <Mail className="w-4 h-4 text-primary" />
+                <span className="font-medium truncate">{fillPlaceholders(draft.subject, samples)}</span>
+              </div>
+              <Tabs defaultValue="html">
+                <TabsList>
+                  <TabsTrigger value="html">Preview</TabsTrigger>
+                  <TabsTrigger value="text">Plain text</TabsTrigger>
+                </TabsList>
+                <TabsContent value="html">
+                  {/* Sandboxed without scripts: the preview only needs to lay out the markup */}
+                  <iframe
+                    title="Email preview"
+                    sandbox=""
+                    className="w-full h-[560px] rounded-md border border-border bg-white"
+                    srcDoc={fillPlaceholders(draft.html, samples, true)}
+                  />
+                </TabsContent>
+                <TabsContent value="text">
+                  <pre className="whitespace-pre-wrap text-sm bg-secondary/30 rounded-md p-4 min-h-[200px]">
+                    {fillPlaceholders(draft.text, samples)}
+                  </pre>
+                </TabsContent>
+              </Tabs>
+              <p className="text-xs text-muted-foreground">Shown with sample values for each variable.</p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      <AlertDialog open={confirmReset} onOpenChange={setConfirmReset}>
+        <AlertDialogContent className="glass-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Reset to the default?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your edits to this template are discarded and emails go out with the built-in version again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={reset}>Reset</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default EmailTemplates;
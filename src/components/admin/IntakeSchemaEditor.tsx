@@ -0,0 +1,200 @@
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { INTAKE_FIELD_TYPES, type IntakeField, type IntakeFieldType } from '@/lib/intake';
+
+interface IntakeSchemaEditorProps {
+  fields: IntakeField[];
+  onChange: (fields: IntakeField[]) => void;
+}
+
+const ALWAYS = 'always';
+
+const nextId = (fields: IntakeField[]) => {
+  let n = fields.length + 1;
+  while (fields.some((f) => f.id === `question_${n}`)) n++;
+  return `question_${n}`;
+};
+
+// Builds the questionnaire clients answer when they request a service. cleanIntakeSchema tidies
+// the result before it is saved.
+const IntakeSchemaEditor = ({ fields, onChange }: IntakeSchemaEditorProps) => {
+  const update = (index: number, changes: Partial<IntakeField>) =>
+    onChange(fields.map((f, i) => (i === index ? { ...f, ...changes } : f)));
+
+  // Renaming a question keeps the conditions that look at it
+  const rename = (index: number, id: string) => {
+    const previous = fields[index].id;
+    onChange(fields.map((f, i) => {
+      if (i === index) return { ...f, id };
+      return f.show_if?.field === previous ? { ...f, show_if: { ...f.show_if, field: id } } : f;
+    }));
+  };
+
+  const move = (index: number, offset: number) => {
+    const next = [...fields];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const add = () => onChange([...fields, { id: nextId(fields), label: '', type: 'text', required: false }]);
+
+  const changeType = (index: number, type: IntakeFieldType) => {
+    const hasOptions = type === 'choice' || type === 'multi';
+    update(index, { type, options: hasOptions ? fields[index].options ?? [] : undefined });
+  };
+
+  return (
+    <div className="space-y-3">
+      {fields.length === 0 && (
+        <p className="text-xs text-muted-foreground">
+          No questions yet; clients only fill in the general request details.
+        </p>
+      )}
+      {fields.map((field, index) => {
+        // Conditions may look at any earlier choice question
+        const sources = fields.slice(0, index).filter((f) => f.type === 'choice' || f.type === 'multi');
+        const source = sources.find((f) => f.id === field.show_if?.field);
+        return (
+          <div key={index} className="space-y-3 rounded-md border border-border/40 bg-background/40 p-3">
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-xs text-muted-foreground">Question {index + 1}</span>
+              <div className="flex gap-1">
+                <Button type="button" variant="ghost" size="icon" className="h-7 w-7" title="Move up" disabled={index === 0} onClick={() => move(index, -1)}>
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" className="h-7 w-7" title="Move down" disabled={index === fields.length - 1} onClick={() => move(index, 1)}>
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
+                <Button type="button" variant="ghost" size="icon" className="h-7 w-7 text-destructive" title="Delete" onClick={() => onChange(fields.filter((_, i) => i !== index))}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              <div className="sm:col-span-2">
+                <Label>Question</Label>
+                <Input value={field.label} maxLength={200} onChange={(e) => update(index, { label: e.target.value })} />
+              </div>
+              <div>
+                <Label>Type</Label>
+                <Select value={field.type} onValueChange={(value) => changeType(index, value as IntakeFieldType)}>
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {INTAKE_FIELD_TYPES.map((type) => <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Answer key</Label>
+                <Input
+                  value={field.id}
+                  maxLength={50}
+                  onChange={(e) => rename(index, e.target.value.toLowerCase().replace(/[^a-z0-9_]/g, '_'))}
+                />
+              </div>
+              <div className="sm:col-span-2">
+                <Label>Help text</Label>
+                <Input value={field.help ?? ''} maxLength={500} onChange={(e) => update(index, { help: e.target.value })} />
+              </div>
+            </div>
+
+            {(field.type === 'choice' || field.type === 'multi') && (
+              <div>
+                <Label>Options (one per line)</Label>
+                <Textarea
+                  rows={3}
+                  value={(field.options ?? []).join('\n')}
+                  onChange={(e) => update(index, { options: e.target.value.split('\n') })}
+                />
+              </div>
+            )}
+
+            {field.type === 'number' && (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <Label>Minimum</Label>
+                  <Input
+                    type="number"
+                    value={field.min ?? ''}
+                    onChange={(e) => update(index, { min: e.target.value === '' ? undefined : Number(e.target.value) })}
+                  />
+                </div>
+                <div>
+                  <Label>Maximum</Label>
+                  <Input
+                    type="number"
+                    value={field.max ?? ''}
+                    onChange={(e) => update(index, { max: e.target.value === '' ? undefined : Number(e.target.value) })}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-4">
+              <label className="flex items-center gap-2 text-sm">
+                <Switch checked={field.required} onCheckedChange={(checked) => update(index, { required: checked })} />
+                Required
+              </label>
+              {field.type === 'text' && (
+                <label className="flex items-center gap-2 text-sm">
+                  <Switch checked={!!field.multiline} onCheckedChange={(checked) => update(index, { multiline: checked })} />
+                  Long answer
+                </label>
+              )}
+            </div>
+
+            {sources.length > 0 && (
+              <div className="space-y-2">
+                <Label>Ask this question</Label>
+                <Select
+                  value={source?.id ?? ALWAYS}
+                  onValueChange={(value) => update(index, { show_if: value === ALWAYS ? undefined : { field: value, values: [] } })}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALWAYS}>Always</SelectItem>
+                    {sources.map((f) => (
+                      <SelectItem key={f.id} value={f.id}>When "{f.label || f.id}" is answered with…</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {source && field.show_if && (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                    {(source.options ?? []).filter((o) => o.trim()).map((option) => {
+                      const values = field.show_if?.values ?? [];
+                      return (
+                        <label key={option} className="flex items-center gap-2 text-sm">
+                          <Checkbox
+                            checked={values.includes(option.trim())}
+                            onCheckedChange={(checked) => update(index, {
+                              show_if: {
+                                field: source.id,
+                                values: checked ? [...values, option.trim()] : values.filter((v) => v !== option.trim()),
+                              },
+                            })}
+                          />
+                          {option}
+                        </label>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      <Button type="button" variant="outline" size="sm" onClick={add}>
+        <Plus className="w-4 h-4 mr-1" /> Add Question
+      </Button>
+    </div>
+  );
+};
+
+export default IntakeSchemaEditor;
@@ -0,0 +1,490 @@
+import { useCallback, useEffect, useState } from 'react';
+import { ArrowLeft, Download, FileText, Loader2, Pencil, Plus, Receipt, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { adminApi } from '@/lib/adminApi';
+import {
+  GST_RATES, INVOICE_STATUS_COLORS, INVOICE_STATUS_LABELS, documentLabel, downloadInvoicePdf, formatAmount,
+  type Invoice, type InvoiceItem,
+} from '@/lib/invoices';
+
+interface InvoiceManagerProps {
+  request: {
+    id: string;
+    user_id: string;
+    title: string;
+    user_name?: string;
+    company_name?: string;
+  };
+  onPaymentRequested?: () => void;
+}
+
+const EMPTY_ITEM = { description: '', hsn_sac: '', quantity: '1', unit_price: '', discount: '0', gst_rate: '18' };
+
+const headerForm = (invoice: Invoice) => ({
+  buyer_name: invoice.buyer_name,
+  buyer_gstin: invoice.buyer_gstin ?? '',
+  buyer_address: invoice.buyer_address ?? '',
+  place_of_supply: invoice.place_of_supply,
+  due_date: invoice.due_date ?? '',
+  notes: invoice.notes ?? '',
+});
+
+// Quotes and invoices for one request: draft, issue, convert, bill and download
+const InvoiceManager = ({ request, onPaymentRequested }: InvoiceManagerProps) => {
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [items, setItems] = useState<InvoiceItem[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [header, setHeader] = useState<ReturnType<typeof headerForm> | null>(null);
+  const [itemForm, setItemForm] = useState(EMPTY_ITEM);
+  const [editingItemId, setEditingItemId] = useState<string | null>(null);
+  const [upiId, setUpiId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const selected = invoices.find((invoice) => invoice.id === selectedId) ?? null;
+  const isDraft = selected?.status === 'draft';
+
+  const showError = useCallback((error: unknown) => {
+    toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+  }, [toast]);
+
+  const fetchInvoices = useCallback(async () => {
+    try {
+      const data = await adminApi('select', 'invoices', {
+        filters: { eq: { service_request_id: request.id }, order: { column: 'created_at', ascending: false } },
+      });
+      setInvoices(data || []);
+    } catch (error) {
+      showError(error);
+    }
+    setLoading(false);
+  }, [request.id, showError]);
+
+  const fetchItems = useCallback(async (invoiceId: string) => {
+    try {
+      const data = await adminApi('select', 'invoice_items', {
+        filters: { eq: { invoice_id: invoiceId }, order: { column: 'position', ascending: true } },
+      });
+      setItems(data || []);
+    } catch (error) {
+      showError(error);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    fetchInvoices();
+  }, [fetchInvoices]);
+
+  useEffect(() => {
+    if (selectedId) fetchItems(selectedId);
+  }, [selectedId, fetchItems]);
+
+  const open = (invoice: Invoice) => {
+    setSelectedId(invoice.id);
+    setHeader(headerForm(invoice));
+    setItemForm(EMPTY_ITEM);
+    setEditingItemId(null);
+    setItems([]);
+  };
+
+  // Runs a mutation, then reloads the document list so totals and numbers reflect the database
+  const run = async (action: () => Promise<unknown>, success?: string) => {
+    setBusy(true);
+    try {
+      await action();
+      if (success) toast({ title: success });
+      await fetchInvoices();
+    } catch (error) {
+      showError(error);
+    }
+    setBusy(false);
+  };
+
+  const createDocument = (kind: 'quote' | 'invoice', source?: Invoice) => run(async () => {
+    const [settings] = await adminApi('select', 'billing_settings', { filters: { limit: 1 } });
+    const [created] = await adminApi('insert', 'invoices', {
+      data: {
+        kind,
+        service_request_id: request.id,
+        user_id: request.user_id,
+        quote_id: source?.id ?? null,
+        buyer_name: source?.buyer_name ?? request.company_name ?? request.user_name ?? 'Client',
+        buyer_gstin: source?.buyer_gstin ?? null,
+        buyer_address: source?.buyer_address ?? null,
+        place_of_supply: source?.place_of_supply ?? settings?.state ?? 'Not specified',
+        notes: source?.notes ?? null,
+      },
+    });
+    if (source) {
+      const sourceItems: InvoiceItem[] = await adminApi('select', 'invoice_items', {
+        filters: { eq: { invoice_id: source.id }, order: { column: 'position', ascending: true } },
+      });
+      for (const item of sourceItems) {
+        await adminApi('insert', 'invoice_items', {
+          data: {
+            invoice_id: created.id,
+            position: item.position,
+            description: item.description,
+            hsn_sac: item.hsn_sac,
+            quantity: Number(item.quantity),
+            unit_price: Number(item.unit_price),
+            discount: Number(item.discount),
+            gst_rate: Number(item.gst_rate),
+          },
+        });
+      }
+    }
+    open(created);
+  }, source ? 'Invoice drafted from quote' : `Draft ${kind} created`);
+
+  const saveHeader = () => selected && header && run(() => adminApi('update', 'invoices', {
+    id: selected.id,
+    data: {
+      buyer_name: header.buyer_name,
+      buyer_gstin: header.buyer_gstin || null,
+      buyer_address: header.buyer_address || null,
+      place_of_supply: header.place_of_supply,
+      due_date: header.due_date || null,
+      notes: header.notes || null,
+    },
+  }), 'Saved');
+
+  const saveItem = () => {
+    if (!selected || !itemForm.description || !itemForm.unit_price) return;
+    const data = {
+      invoice_id: selected.id,
+      description: itemForm.description,
+      hsn_sac: itemForm.hsn_sac || null,
+      quantity: parseFloat(itemForm.quantity),
+      unit_price: parseFloat(itemForm.unit_price),
+      discount: parseFloat(itemForm.discount || '0'),
+      gst_rate: parseFloat(itemForm.gst_rate),
+    };
+    run(async () => {
+      if (editingItemId) {
+        await adminApi('update', 'invoice_items', { id: editingItemId, data });
+      } else {
+        await adminApi('insert', 'invoice_items', {
+          data: { ...data, position: items.length ? Math.max(...items.map((item) => item.position)) + 1 : 0 },
+        });
+      }
+      setItemForm(EMPTY_ITEM);
+      setEditingItemId(null);
+      await fetchItems(selected.id);
+    });
+  };
+
+  const editItem = (item: InvoiceItem) => {
+    setEditingItemId(item.id);
+    setItemForm({
+      description: item.description,
+      hsn_sac: item.hsn_sac ?? '',
+      quantity: String(item.quantity),
+      unit_price: String(item.unit_price),
+      discount: String(item.discount),
+      gst_rate: String(item.gst_rate),
+    });
+  };
+
+  const setStatus = (status: string, success: string) => selected && run(
+    () => adminApi('update', 'invoices', { id: selected.id, data: { status } }),
+    success,
+  );
+
+  const deleteDraft = () => selected && run(async () => {
+    await adminApi('delete', 'invoices', { id: selected.id });
+    setSelectedId(null);
+  }, 'Draft deleted');
+
+  const requestPayment = () => {
+    if (!selected) return;
+    if (!upiId) {
+      toast({ title: 'Error', description: 'UPI ID is required to generate QR code', variant: 'destructive' });
+      return;
+    }
+    run(async () => {
+      const [payment] = await adminApi('insert', 'payment_requests', {
+        data: {
+          service_request_id: request.id,
+          user_id: request.user_id,
+          amount: Number(selected.grand_total),
+          upi_id: upiId,
+          payment_note: `Payment for ${documentLabel(selected)}`,
+          status: 'pending',
+        },
+      });
+      await adminApi('update', 'invoices', { id: selected.id, data: { payment_request_id: payment.id } });
+      onPaymentRequested?.();
+    }, 'Payment request sent!');
+  };
+
+  const download = async (invoice: Invoice) => {
+    try {
+      await downloadInvoicePdf(invoice.id);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!selected || !header) {
+    return (
+      <div className="space-y-4">
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" onClick={() => createDocument('quote')} disabled={busy}>
+            <Plus className="w-4 h-4 mr-1" />New Quote
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => createDocument('invoice')} disabled={busy}>
+            <Plus className="w-4 h-4 mr-1" />New Invoice
+          </Button>
+        </div>
+        {invoices.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No quotes or invoices for this request yet</p>
+        ) : (
+          <div className="space-y-2">
+            {invoices.map((invoice) => (
+              <div
+                key={invoice.id}
+                className="flex items-center justify-between gap-2 rounded-lg border border-border/50 bg-muted/30 p-3"
+              >
+                <button className="flex items-center gap-2 text-left" onClick={() => open(invoice)}>
+                  {invoice.kind === 'quote' ? <FileText className="w-4 h-4 text-primary" /> : <Receipt className="w-4 h-4 text-primary" />}
+                  <span className="font-medium text-sm">{documentLabel(invoice)}</span>
+                  <Badge className={INVOICE_STATUS_COLORS[invoice.status]}>{INVOICE_STATUS_LABELS[invoice.status]}</Badge>
+                </button>
+                <div className="flex items-center gap-2">
+                  <span className="text-sm font-semibold">{formatAmount(invoice.grand_total)}</span>
+                  <Button size="sm" variant="ghost" onClick={() => download(invoice)}>
+                    <Download className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <Button size="sm" variant="ghost" onClick={() => setSelectedId(null)}>
+          <ArrowLeft className="w-4 h-4 mr-1" />All documents
+        </Button>
+        <div className="flex items-center gap-2">
+          <span className="font-medium text-sm">{documentLabel(selected)}</span>
+          <Badge className={INVOICE_STATUS_COLORS[selected.status]}>{INVOICE_STATUS_LABELS[selected.status]}</Badge>
+          <Badge variant="outline">{selected.supply_type === 'intra' ? 'CGST + SGST' : 'IGST'}</Badge>
+        </div>
+      </div>
+
+      {/* Buyer */}
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div className="space-y-1">
+          <Label>Bill to</Label>
+          <Input value={header.buyer_name} disabled={!isDraft} onChange={(e) => setHeader({ ...header, buyer_name: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label>Buyer GSTIN</Label>
+          <Input value={header.buyer_gstin} disabled={!isDraft} placeholder="Unregistered" onChange={(e) => setHeader({ ...header, buyer_gstin: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label>Place of supply (state)</Label>
+          <Input value={header.place_of_supply} disabled={!isDraft} onChange={(e) => setHeader({ ...header, place_of_supply: e.target.value })} />
+        </div>
+        <div className="space-y-1">
+          <Label>{selected.kind === 'quote' ? 'Valid until' : 'Due date'}</Label>
+          <Input type="date" value={header.due_date} disabled={!isDraft} onChange={(e) => setHeader({ ...header, due_date: e.target.value })} />
+        </div>
+        <div className="space-y-1 md:col-span-2">
+          <Label>Buyer address</Label>
+          <Textarea rows={2} value={header.buyer_address} disabled={!isDraft} onChange={(e) => setHeader({ ...header, buyer_address: e.target.value })} />
+        </div>
+        <div className="space-y-1 md:col-span-2">
+          <Label>Notes</Label>
+          <Textarea rows={2} value={header.notes} disabled={!isDraft} onChange={(e) => setHeader({ ...header, notes: e.target.value })} />
+        </div>
+      </div>
+      {isDraft && (
+        <Button size="sm" variant="outline" onClick={saveHeader} disabled={busy || !header.buyer_name || !header.place_of_supply}>
+          Save details
+        </Button>
+      )}
+
+      {/* Line items */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-xs text-muted-foreground border-b border-border/50">
+              <th className="py-2 pr-2">Description</th>
+              <th className="py-2 pr-2">HSN/SAC</th>
+              <th className="py-2 pr-2 text-right">Qty</th>
+              <th className="py-2 pr-2 text-right">Rate</th>
+              <th className="py-2 pr-2 text-right">Disc.</th>
+              <th className="py-2 pr-2 text-right">GST</th>
+              <th className="py-2 pr-2 text-right">Total</th>
+              {isDraft && <th className="py-2" />}
+            </tr>
+          </thead>
+          <tbody>
+            {items.map((item) => (
+              <tr key={item.id} className="border-b border-border/30">
+                <td className="py-2 pr-2">{item.description}</td>
+                <td className="py-2 pr-2 font-mono text-xs">{item.hsn_sac || '-'}</td>
+                <td className="py-2 pr-2 text-right">{Number(item.quantity)}</td>
+                <td className="py-2 pr-2 text-right">{formatAmount(item.unit_price)}</td>
+                <td className="py-2 pr-2 text-right">{Number(item.discount) ? formatAmount(item.discount) : '-'}</td>
+                <td className="py-2 pr-2 text-right">{Number(item.gst_rate)}%</td>
+                <td className="py-2 pr-2 text-right">{formatAmount(item.line_total)}</td>
+                {isDraft && (
+                  <td className="py-2 text-right whitespace-nowrap">
+                    <Button size="sm" variant="ghost" onClick={() => editItem(item)}>
+                      <Pencil className="w-3 h-3" />
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => run(async () => {
+                      await adminApi('delete', 'invoice_items', { id: item.id });
+                      await fetchItems(selected.id);
+                    })}>
+                      <Trash2 className="w-3 h-3 text-destructive" />
+                    </Button>
+                  </td>
+                )}
+              </tr>
+            ))}
+            {items.length === 0 && (
+              <tr>
+                <td colSpan={8} className="py-4 text-center text-muted-foreground">No line items yet</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {isDraft && (
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end rounded-lg border border-border/50 p-3">
+          <div className="col-span-2 space-y-1">
+            <Label className="text-xs">Description</Label>
+            <Input value={itemForm.description} onChange={(e) => setItemForm({ ...itemForm, description: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">HSN/SAC</Label>
+            <Input value={itemForm.hsn_sac} placeholder="998314" onChange={(e) => setItemForm({ ...itemForm, hsn_sac: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Qty</Label>
+            <Input type="number" min="0" step="any" value={itemForm.quantity} onChange={(e) => setItemForm({ ...itemForm, quantity: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Rate (₹)</Label>
+            <Input type="number" min="0" step="any" value={itemForm.unit_price} onChange={(e) => setItemForm({ ...itemForm, unit_price: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Discount (₹)</Label>
+            <Input type="number" min="0" step="any" value={itemForm.discount} onChange={(e) => setItemForm({ ...itemForm, discount: e.target.value })} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">GST rate</Label>
+            <Select value={itemForm.gst_rate} onValueChange={(value) => setItemForm({ ...itemForm, gst_rate: value })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {GST_RATES.map((rate) => (
+                  <SelectItem key={rate} value={String(rate)}>{rate}%</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-2 md:col-span-5 flex gap-2 justify-end">
+            {editingItemId && (
+              <Button size="sm" variant="ghost" onClick={() => { setEditingItemId(null); setItemForm(EMPTY_ITEM); }}>
+                Cancel
+              </Button>
+            )}
+            <Button size="sm" onClick={saveItem} disabled={busy || !itemForm.description || !itemForm.unit_price}>
+              {editingItemId ? 'Update item' : <><Plus className="w-4 h-4 mr-1" />Add item</>}
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {/* Totals */}
+      <div className="ml-auto w-full md:w-72 space-y-1 text-sm">
+        <div className="flex justify-between"><span className="text-muted-foreground">Taxable value</span><span>{formatAmount(selected.taxable_total)}</span></div>
+        {selected.supply_type === 'intra' ? (
+          <>
+            <div className="flex justify-between"><span className="text-muted-foreground">CGST</span><span>{formatAmount(selected.cgst_total)}</span></div>
+            <div className="flex justify-between"><span className="text-muted-foreground">SGST</span><span>{formatAmount(selected.sgst_total)}</span></div>
+          </>
+        ) : (
+          <div className="flex justify-between"><span className="text-muted-foreground">IGST</span><span>{formatAmount(selected.igst_total)}</span></div>
+        )}
+        <div className="flex justify-between font-semibold border-t border-border/50 pt-1"><span>Total</span><span>{formatAmount(selected.grand_total)}</span></div>
+      </div>
+
+      {/* Lifecycle */}
+      <div className="flex flex-wrap gap-2 justify-end border-t border-border/50 pt-4">
+        <Button size="sm" variant="outline" onClick={() => download(selected)}>
+          <Download className="w-4 h-4 mr-1" />{isDraft ? 'Preview PDF' : 'Download PDF'}
+        </Button>
+        {isDraft && (
+          <>
+            <Button size="sm" variant="ghost" onClick={deleteDraft} disabled={busy}>
+              <Trash2 className="w-4 h-4 mr-1 text-destructive" />Delete draft
+            </Button>
+            <Button size="sm" onClick={() => setStatus('issued', `${selected.kind === 'quote' ? 'Quote' : 'Invoice'} issued`)} disabled={busy || items.length === 0}>
+              Issue
+            </Button>
+          </>
+        )}
+        {selected.kind === 'quote' && selected.status === 'issued' && (
+          <Button size="sm" variant="outline" onClick={() => setStatus('accepted', 'Quote marked accepted')} disabled={busy}>
+            Mark accepted
+          </Button>
+        )}
+        {selected.kind === 'quote' && selected.status === 'accepted' && (
+          <Button size="sm" onClick={() => createDocument('invoice', selected)} disabled={busy}>
+            Convert to invoice
+          </Button>
+        )}
+        {(selected.status === 'issued' || selected.status === 'accepted') && (
+          <Button size="sm" variant="outline" className="border-red-500/30 text-red-500 hover:bg-red-500/10" onClick={() => setStatus('void', 'Document voided')} disabled={busy}>
+            Void
+          </Button>
+        )}
+      </div>
+
+      {selected.kind === 'invoice' && selected.status === 'issued' && !selected.payment_request_id && (
+        <div className="flex flex-col md:flex-row gap-2 md:items-end rounded-lg border border-green-500/30 p-3">
+          <div className="flex-1 space-y-1">
+            <Label className="text-xs">UPI ID for the payment request</Label>
+            <Input value={upiId} placeholder="business@upi" onChange={(e) => setUpiId(e.target.value)} />
+          </div>
+          <Button size="sm" className="bg-green-600 hover:bg-green-700" onClick={requestPayment} disabled={busy}>
+            Request {formatAmount(selected.grand_total)}
+          </Button>
+        </div>
+      )}
+      {selected.payment_request_id && (
+        <p className="text-xs text-muted-foreground text-right">
+          Linked to a UPI payment request. The invoice is marked paid when that payment is received.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default InvoiceManager;
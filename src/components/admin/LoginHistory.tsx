@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useState } from 'react';
+import { KeyRound, Loader2, RotateCcw, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { adminApi } from '@/lib/adminApi';
+import { LOGIN_EVENT_LABELS, describeUserAgent, type LoginEventType } from '@/lib/accountSecurity';
+
+interface LoginEvent {
+  id: string;
+  user_id: string | null;
+  pm_id: string | null;
+  email: string | null;
+  event: LoginEventType;
+  success: boolean;
+  failure_reason: string | null;
+  ip: string | null;
+  user_agent: string | null;
+  location: string | null;
+  created_at: string;
+}
+
+const EMPTY_FILTERS = { email: '', event: 'all', outcome: 'all', from: '', to: '' };
+
+// Sign-in attempts across clients, admins and PMs, successful or not
+const LoginHistory = () => {
+  const [events, setEvents] = useState<LoginEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const { toast } = useToast();
+
+  const fetchEvents = useCallback(async (current: typeof EMPTY_FILTERS) => {
+    setLoading(true);
+    try {
+      const eq: Record<string, string | boolean> = {};
+      if (current.email.trim()) eq.email = current.email.trim().toLowerCase();
+      if (current.event !== 'all') eq.event = current.event;
+      if (current.outcome !== 'all') eq.success = current.outcome === 'success';
+
+      const data = await adminApi('select', 'login_events', {
+        filters: {
+          eq,
+          gte: current.from ? { created_at: new Date(`${current.from}T00:00:00`).toISOString() } : undefined,
+          lte: current.to ? { created_at: new Date(`${current.to}T23:59:59.999`).toISOString() } : undefined,
+          order: { column: 'created_at', ascending: false },
+          limit: 200,
+        },
+      });
+      setEvents(data || []);
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    fetchEvents(EMPTY_FILTERS);
+  }, [fetchEvents]);
+
+  return (
+    <div className="space-y-4">
+      <Card className="glass-card">
+        <CardContent className="p-4 grid grid-cols-1 md:grid-cols-6 gap-3 items-end">
+          <div>
+            <Label>Email</Label>
+            <Input
+              placeholder="client@example.com"
+              value={filters.email}
+              onChange={(e) => setFilters({ ...filters, email: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label>Type</Label>
+            <Select value={filters.event} onValueChange={(value) => setFilters({ ...filters, event: value })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All types</SelectItem>
+                {Object.entries(LOGIN_EVENT_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Outcome</Label>
+            <Select value={filters.outcome} onValueChange={(value) => setFilters({ ...filters, outcome: value })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                <SelectItem value="success">Succeeded</SelectItem>
+                <SelectItem value="failure">Failed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>From</Label>
+            <Input type="date" value={filters.from} onChange={(e) => setFilters({ ...filters, from: e.target.value })} />
+          </div>
+          <div>
+            <Label>To</Label>
+            <Input type="date" value={filters.to} onChange={(e) => setFilters({ ...filters, to: e.target.value })} />
+          </div>
+          <div className="flex gap-2">
+            <Button className="flex-1" onClick={() => fetchEvents(filters)}>
+              <Search className="w-4 h-4 mr-2" />Filter
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => { setFilters(EMPTY_FILTERS); fetchEvents(EMPTY_FILTERS); }}>
+              <RotateCcw className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : events.length === 0 ? (
+        <Card className="glass-card">
+          <CardContent className="py-12 text-center">
+            <KeyRound className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No sign-in attempts match these filters</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <div className="space-y-2">
+          {events.map((event) => (
+            <Card key={event.id} className="glass-card">
+              <CardContent className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-2">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge className={event.success
+                    ? 'bg-green-500/10 text-green-500 border-green-500/20'
+                    : 'bg-red-500/10 text-red-500 border-red-500/20'}
+                  >
+                    {event.success ? 'Succeeded' : 'Failed'}
+                  </Badge>
+                  <span className="text-sm font-medium">{LOGIN_EVENT_LABELS[event.event] ?? event.event}</span>
+                  <span className="text-sm text-muted-foreground">{event.email || '—'}</span>
+                  {event.pm_id && <Badge variant="outline" className="uppercase">pm</Badge>}
+                  {event.failure_reason && (
+                    <span className="text-xs text-muted-foreground">({event.failure_reason.replace(/_/g, ' ')})</span>
+                  )}
+                </div>
+                <div className="text-xs text-muted-foreground md:text-right">
+                  {describeUserAgent(event.user_agent)} · {event.location || event.ip || 'Unknown location'}
+                  <br />
+                  {new Date(event.created_at).toLocaleString()}
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LoginHistory;
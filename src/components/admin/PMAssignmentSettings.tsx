@@ -0,0 +1,85 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Shuffle } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { adminApi } from '@/lib/adminApi';
+
+interface AssignmentSettings {
+  id: string;
+  auto_assign: boolean;
+  strategy: 'least_loaded' | 'round_robin';
+}
+
+const PMAssignmentSettings = () => {
+  const [settings, setSettings] = useState<AssignmentSettings | null>(null);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    adminApi('select', 'pm_assignment_settings', { filters: { limit: 1 } })
+      .then((data) => setSettings(data?.[0] ?? null))
+      .catch((error: Error) => toast({ title: 'Error', description: error.message, variant: 'destructive' }));
+  }, [toast]);
+
+  const save = async (changes: Partial<AssignmentSettings>) => {
+    if (!settings) return;
+    setSaving(true);
+    try {
+      const data = await adminApi('update', 'pm_assignment_settings', { id: settings.id, data: changes });
+      setSettings(data[0]);
+      toast({ title: 'Assignment settings saved' });
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setSaving(false);
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardContent className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
+            <Shuffle className="w-5 h-5 text-primary" />
+          </div>
+          <div>
+            <p className="font-medium">Auto-assignment</p>
+            <p className="text-xs text-muted-foreground">
+              Assign new requests to the top-ranked available PM as soon as they are submitted
+            </p>
+          </div>
+        </div>
+        {!settings ? (
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        ) : (
+          <div className="flex items-center gap-4">
+            <Select
+              value={settings.strategy}
+              onValueChange={(value) => save({ strategy: value as AssignmentSettings['strategy'] })}
+              disabled={saving}
+            >
+              <SelectTrigger className="w-[160px]"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="least_loaded">Least loaded</SelectItem>
+                <SelectItem value="round_robin">Round robin</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="auto-assign"
+                checked={settings.auto_assign}
+                onCheckedChange={(checked) => save({ auto_assign: checked })}
+                disabled={saving}
+              />
+              <Label htmlFor="auto-assign">Auto-assign</Label>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PMAssignmentSettings;
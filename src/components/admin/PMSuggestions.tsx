@@ -0,0 +1,86 @@
+import { useEffect, useState } from 'react';
+import { Loader2, Sparkles, UserCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+type Suggestion = Database['public']['Functions']['suggest_project_managers']['Returns'][number];
+
+interface PMSuggestionsProps {
+  requestId: string;
+  assignedPmId: string | null | undefined;
+  onAssign: (pmId: string) => void;
+}
+
+// Ranked PM suggestions for one request, with the reasons behind each score
+const PMSuggestions = ({ requestId, assignedPmId, onAssign }: PMSuggestionsProps) => {
+  const [suggestions, setSuggestions] = useState<Suggestion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const load = async () => {
+      setLoading(true);
+      const { data, error } = await supabase.rpc('suggest_project_managers', { _request_id: requestId });
+      if (error) {
+        toast({ title: 'Error', description: error.message, variant: 'destructive' });
+      } else {
+        setSuggestions(data || []);
+      }
+      setLoading(false);
+    };
+    load();
+  }, [requestId, toast]);
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (suggestions.length === 0) {
+    return <p className="text-sm text-muted-foreground text-center py-8">No project managers added yet</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {suggestions.map((suggestion, index) => {
+        const isAssigned = suggestion.pm_id === assignedPmId;
+        return (
+          <div
+            key={suggestion.pm_id}
+            className={`rounded-lg border p-3 ${suggestion.eligible ? 'border-border/50 bg-muted/30' : 'border-border/30 opacity-60'}`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                {index === 0 && suggestion.eligible && <Sparkles className="w-4 h-4 text-primary" />}
+                <span className="font-medium text-sm">{suggestion.pm_name}</span>
+                <Badge variant="outline" className="text-xs">{suggestion.score} pts</Badge>
+              </div>
+              {isAssigned ? (
+                <Badge className="bg-green-500/10 text-green-500 border-green-500/20">
+                  <UserCheck className="w-3 h-3 mr-1" />Assigned
+                </Badge>
+              ) : (
+                <Button size="sm" variant="outline" disabled={!suggestion.eligible} onClick={() => onAssign(suggestion.pm_id)}>
+                  Assign
+                </Button>
+              )}
+            </div>
+            <ul className="mt-2 space-y-0.5 text-xs text-muted-foreground list-disc list-inside">
+              {suggestion.reasons.map((reason) => (
+                <li key={reason}>{reason}</li>
+              ))}
+            </ul>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PMSuggestions;
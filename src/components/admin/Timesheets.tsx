@@ -0,0 +1,333 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Clock, IndianRupee, Loader2, RotateCcw, Search } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { adminApi } from '@/lib/adminApi';
+import {
+  billTime, billedAmount, formatMinutes, groupMinutes, isBilled, totalMinutes, type TimeEntry,
+} from '@/lib/timeTracking';
+
+const EMPTY_FILTERS = { pm: 'all', project: 'all', billing: 'all', from: '', to: '' };
+
+interface BillForm {
+  requestId: string;
+  entryIds: string[];
+  minutes: number;
+  hourly_rate: string;
+  upi_id: string;
+  payment_note: string;
+}
+
+// Timesheet reports per PM, project and date range. Unbilled time on a project becomes a payment request.
+const Timesheets = () => {
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [pms, setPms] = useState<Record<string, string>>({});
+  const [projects, setProjects] = useState<Record<string, string>>({});
+  const [defaultRate, setDefaultRate] = useState(0);
+  const [filters, setFilters] = useState(EMPTY_FILTERS);
+  const [loading, setLoading] = useState(true);
+  const [bill, setBill] = useState<BillForm | null>(null);
+  const [billing, setBilling] = useState(false);
+  const { toast } = useToast();
+
+  const fetchEntries = useCallback(async (current: typeof EMPTY_FILTERS) => {
+    setLoading(true);
+    try {
+      const eq: Record<string, string> = {};
+      if (current.pm !== 'all') eq.pm_id = current.pm;
+      if (current.project !== 'all') eq.service_request_id = current.project;
+
+      const data: TimeEntry[] = await adminApi('select', 'time_entries', {
+        filters: {
+          eq,
+          gte: current.from ? { started_at: new Date(`${current.from}T00:00:00`).toISOString() } : undefined,
+          lte: current.to ? { started_at: new Date(`${current.to}T23:59:59.999`).toISOString() } : undefined,
+          order: { column: 'started_at', ascending: false },
+          limit: 1000,
+        },
+      });
+      // Running timers have nothing to report or bill yet
+      setEntries((data || []).filter((e) => e.ended_at && (
+        current.billing === 'all' || (current.billing === 'billed') === isBilled(e)
+      )));
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    Promise.all([
+      adminApi('select', 'project_managers', { data: { select: 'id, name' } }),
+      adminApi('select', 'service_requests', {
+        data: { select: 'id, title' },
+        filters: { order: { column: 'created_at', ascending: false } },
+      }),
+      adminApi('select', 'billing_settings', { data: { select: 'default_hourly_rate' }, filters: { limit: 1 } }),
+    ])
+      .then(([pmRows, requestRows, settings]) => {
+        setPms(Object.fromEntries((pmRows || []).map((pm: { id: string; name: string }) => [pm.id, pm.name])));
+        setProjects(Object.fromEntries((requestRows || []).map((r: { id: string; title: string }) => [r.id, r.title])));
+        setDefaultRate(Number(settings?.[0]?.default_hourly_rate ?? 0));
+      })
+      .catch((error: Error) => toast({ title: 'Error', description: error.message, variant: 'destructive' }));
+    fetchEntries(EMPTY_FILTERS);
+  }, [fetchEntries, toast]);
+
+  const byPm = useMemo(() => groupMinutes(entries, (e) => e.pm_id), [entries]);
+  const byProject = useMemo(() => groupMinutes(entries, (e) => e.service_request_id), [entries]);
+
+  const openBill = (requestId: string) => {
+    const unbilled = (byProject.get(requestId)?.entries ?? []).filter((e) => !isBilled(e));
+    setBill({
+      requestId,
+      entryIds: unbilled.map((e) => e.id),
+      minutes: totalMinutes(unbilled),
+      hourly_rate: defaultRate ? String(defaultRate) : '',
+      upi_id: '',
+      payment_note: '',
+    });
+  };
+
+  const submitBill = async () => {
+    if (!bill) return;
+    const rate = parseFloat(bill.hourly_rate);
+    if (!rate || rate <= 0) {
+      toast({ title: 'Error', description: 'Enter an hourly rate', variant: 'destructive' });
+      return;
+    }
+    if (!bill.upi_id) {
+      toast({ title: 'Error', description: 'UPI ID is required to generate QR code', variant: 'destructive' });
+      return;
+    }
+    setBilling(true);
+    try {
+      await billTime(bill.requestId, {
+        hourly_rate: rate,
+        upi_id: bill.upi_id,
+        payment_note: bill.payment_note || undefined,
+        entry_ids: bill.entryIds,
+      });
+      toast({ title: 'Payment request sent!', description: `${formatMinutes(bill.minutes)} billed to the client.` });
+      setBill(null);
+      await fetchEntries(filters);
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setBilling(false);
+  };
+
+  const total = totalMinutes(entries);
+  const unbilled = totalMinutes(entries.filter((e) => !isBilled(e)));
+
+  return (
+    <div className="space-y-4">
+      <Card className="glass-card">
+        <CardContent className="p-4 grid grid-cols-1 md:grid-cols-6 gap-3 items-end">
+          <div>
+            <Label>Project manager</Label>
+            <Select value={filters.pm} onValueChange={(value) => setFilters({ ...filters, pm: value })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                {Object.entries(pms).map(([id, name]) => <SelectItem key={id} value={id}>{name}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Project</Label>
+            <Select value={filters.project} onValueChange={(value) => setFilters({ ...filters, project: value })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                {Object.entries(projects).map(([id, title]) => <SelectItem key={id} value={id}>{title}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Billing</Label>
+            <Select value={filters.billing} onValueChange={(value) => setFilters({ ...filters, billing: value })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All</SelectItem>
+                <SelectItem value="unbilled">Unbilled</SelectItem>
+                <SelectItem value="billed">Billed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>From</Label>
+            <Input type="date" value={filters.from} onChange={(e) => setFilters({ ...filters, from: e.target.value })} />
+          </div>
+          <div>
+            <Label>To</Label>
+            <Input type="date" value={filters.to} onChange={(e) => setFilters({ ...filters, to: e.target.value })} />
+          </div>
+          <div className="flex gap-2">
+            <Button className="flex-1" onClick={() => fetchEntries(filters)}>
+              <Search className="w-4 h-4 mr-2" />Filter
+            </Button>
+            <Button variant="outline" size="icon" onClick={() => { setFilters(EMPTY_FILTERS); fetchEntries(EMPTY_FILTERS); }}>
+              <RotateCcw className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {loading ? (
+        <div className="flex justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        </div>
+      ) : entries.length === 0 ? (
+        <Card className="glass-card">
+          <CardContent className="py-12 text-center">
+            <Clock className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No time logged for these filters</p>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 gap-4">
+            <Card className="glass-card">
+              <CardContent className="p-4">
+                <p className="text-xs text-muted-foreground uppercase">Logged</p>
+                <p className="text-2xl font-semibold">{formatMinutes(total)}</p>
+              </CardContent>
+            </Card>
+            <Card className="glass-card">
+              <CardContent className="p-4">
+                <p className="text-xs text-muted-foreground uppercase">Unbilled</p>
+                <p className="text-2xl font-semibold">{formatMinutes(unbilled)}</p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            <Card className="glass-card">
+              <CardHeader><CardTitle className="text-base">By project manager</CardTitle></CardHeader>
+              <CardContent className="space-y-2">
+                {[...byPm.entries()].map(([pmId, group]) => (
+                  <div key={pmId} className="flex justify-between text-sm">
+                    <span>{pms[pmId] || 'Former PM'}</span>
+                    <span className="text-muted-foreground">
+                      {formatMinutes(group.total)}
+                      {group.unbilled > 0 && ` · ${formatMinutes(group.unbilled)} unbilled`}
+                    </span>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+            <Card className="glass-card">
+              <CardHeader><CardTitle className="text-base">By project</CardTitle></CardHeader>
+              <CardContent className="space-y-2">
+                {[...byProject.entries()].map(([requestId, group]) => (
+                  <div key={requestId} className="flex items-center justify-between gap-2 text-sm">
+                    <span className="truncate">{projects[requestId] || 'Unknown project'}</span>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <span className="text-muted-foreground">
+                        {formatMinutes(group.total)}
+                        {group.unbilled > 0 && ` · ${formatMinutes(group.unbilled)} unbilled`}
+                      </span>
+                      {group.unbilled > 0 && (
+                        <Button size="sm" variant="outline" className="h-7" onClick={() => openBill(requestId)}>
+                          <IndianRupee className="w-3.5 h-3.5 mr-1" /> Bill
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          </div>
+
+          <div className="space-y-2">
+            {entries.map((entry) => (
+              <Card key={entry.id} className="glass-card">
+                <CardContent className="p-3 flex flex-col md:flex-row md:items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm">
+                      <span className="font-medium">{formatMinutes(entry.duration_minutes ?? 0)}</span>
+                      <span className="text-muted-foreground"> · {projects[entry.service_request_id] || 'Unknown project'}</span>
+                    </p>
+                    <p className="text-xs text-muted-foreground truncate">
+                      {[
+                        new Date(entry.started_at).toLocaleString(),
+                        entry.pm_id ? pms[entry.pm_id] : 'Former PM',
+                        entry.source === 'manual' ? 'Manual' : null,
+                        entry.description,
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                  {isBilled(entry)
+                    ? <Badge variant="secondary">Billed at ₹{entry.billed_hourly_rate}/h</Badge>
+                    : <Badge variant="outline">Unbilled</Badge>}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </>
+      )}
+
+      <Dialog open={!!bill} onOpenChange={(open) => { if (!open) setBill(null); }}>
+        <DialogContent className="glass-card border-border">
+          <DialogHeader><DialogTitle>Bill Hours</DialogTitle></DialogHeader>
+          {bill && (
+            <div className="space-y-4">
+              <div className="bg-muted/30 p-3 rounded-lg">
+                <p className="font-medium text-sm">{projects[bill.requestId]}</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {formatMinutes(bill.minutes)} of unbilled time in this report
+                </p>
+              </div>
+              <div>
+                <Label>Hourly rate (₹)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={bill.hourly_rate}
+                  onChange={(e) => setBill({ ...bill, hourly_rate: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>UPI ID *</Label>
+                <Input
+                  placeholder="yourname@upi"
+                  value={bill.upi_id}
+                  onChange={(e) => setBill({ ...bill, upi_id: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Payment note</Label>
+                <Input
+                  placeholder="Defaults to the hours and rate"
+                  value={bill.payment_note}
+                  onChange={(e) => setBill({ ...bill, payment_note: e.target.value })}
+                />
+              </div>
+              <p className="text-sm">
+                Amount: <span className="font-semibold">
+                  ₹{billedAmount(bill.minutes, parseFloat(bill.hourly_rate) || 0).toLocaleString('en-IN')}
+                </span>
+              </p>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBill(null)} disabled={billing}>Cancel</Button>
+            <Button onClick={submitBill} disabled={billing}>
+              {billing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Send Payment Request
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default Timesheets;
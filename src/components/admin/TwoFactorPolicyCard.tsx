@@ -0,0 +1,83 @@
+import { useEffect, useState } from 'react';
+import { Loader2, ShieldCheck } from 'lucide-react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/hooks/use-toast';
+import { adminApi } from '@/lib/adminApi';
+
+interface TwoFactorPolicy {
+  id: string;
+  role: 'client' | 'project_manager' | 'admin';
+  required: boolean;
+}
+
+const ROLE_LABELS: Record<TwoFactorPolicy['role'], string> = {
+  client: 'Clients',
+  project_manager: 'Project managers',
+  admin: 'Admins',
+};
+
+const ROLE_ORDER: TwoFactorPolicy['role'][] = ['client', 'project_manager', 'admin'];
+
+// Per-role switch making authenticator 2FA mandatory. Accounts without one are asked to set it up at their next sign-in.
+const TwoFactorPolicyCard = () => {
+  const [policies, setPolicies] = useState<TwoFactorPolicy[] | null>(null);
+  const [saving, setSaving] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    adminApi('select', 'two_factor_policies')
+      .then((data: TwoFactorPolicy[]) => setPolicies(data.sort((a, b) => ROLE_ORDER.indexOf(a.role) - ROLE_ORDER.indexOf(b.role))))
+      .catch((error: Error) => toast({ title: 'Error', description: error.message, variant: 'destructive' }));
+  }, [toast]);
+
+  const save = async (policy: TwoFactorPolicy, required: boolean) => {
+    setSaving(policy.id);
+    try {
+      const data = await adminApi('update', 'two_factor_policies', { id: policy.id, data: { required } });
+      setPolicies((prev) => prev?.map((p) => (p.id === policy.id ? data[0] : p)) ?? null);
+      toast({ title: `Two-factor ${required ? 'required' : 'optional'} for ${ROLE_LABELS[policy.role].toLowerCase()}` });
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setSaving(null);
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardContent className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <div className="w-10 h-10 rounded-full bg-primary/10 flex items-center justify-center">
+            <ShieldCheck className="w-5 h-5 text-primary" />
+          </div>
+          <div>
+            <p className="font-medium">Require two-factor authentication</p>
+            <p className="text-xs text-muted-foreground">
+              Accounts without an authenticator app must set one up before they can continue
+            </p>
+          </div>
+        </div>
+        {!policies ? (
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        ) : (
+          <div className="flex flex-wrap items-center gap-4">
+            {policies.map((policy) => (
+              <div key={policy.id} className="flex items-center gap-2">
+                <Switch
+                  id={`2fa-${policy.role}`}
+                  checked={policy.required}
+                  onCheckedChange={(checked) => save(policy, checked)}
+                  disabled={saving !== null}
+                />
+                <Label htmlFor={`2fa-${policy.role}`}>{ROLE_LABELS[policy.role]}</Label>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TwoFactorPolicyCard;
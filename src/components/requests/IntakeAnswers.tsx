@@ -0,0 +1,45 @@
+import { Paperclip } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { formatIntakeValue, parseIntakeAnswers, type IntakeFileAnswer } from '@/lib/intake';
+import type { Json } from '@/integrations/supabase/types';
+
+interface IntakeAnswersProps {
+  answers: Json | null | undefined;
+}
+
+// The questionnaire answers a request was submitted with; uploaded files are listed under Files
+const IntakeAnswers = ({ answers }: IntakeAnswersProps) => {
+  const parsed = parseIntakeAnswers(answers);
+  if (parsed.length === 0) return null;
+
+  return (
+    <dl className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-2 text-sm">
+      {parsed.map((answer) => (
+        <div key={answer.id} className="min-w-0">
+          <dt className="text-xs text-muted-foreground">{answer.label}</dt>
+          <dd className="break-words">
+            {answer.type === 'file' ? (
+              <span className="flex flex-wrap gap-1 mt-0.5">
+                {(answer.value as IntakeFileAnswer[]).map((file) => (
+                  <Badge key={file.file_id} variant="secondary" className="font-normal">
+                    <Paperclip className="w-3 h-3 mr-1" />{file.name}
+                  </Badge>
+                ))}
+              </span>
+            ) : answer.type === 'multi' ? (
+              <span className="flex flex-wrap gap-1 mt-0.5">
+                {(answer.value as string[]).map((value) => (
+                  <Badge key={value} variant="outline" className="font-normal">{value}</Badge>
+                ))}
+              </span>
+            ) : (
+              <span className="whitespace-pre-wrap">{formatIntakeValue(answer)}</span>
+            )}
+          </dd>
+        </div>
+      ))}
+    </dl>
+  );
+};
+
+export default IntakeAnswers;
@@ -0,0 +1,131 @@
+import { X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { visibleIntakeFields, type IntakeField, type IntakeValues } from '@/lib/intake';
+import { REQUEST_FILE_ACCEPT, formatFileSize } from '@/lib/requestFiles';
+
+interface IntakeFormProps {
+  fields: IntakeField[];
+  values: IntakeValues;
+  onChange: (values: IntakeValues) => void;
+  // From intakeErrors, shown once the client has tried to submit
+  errors?: Record<string, string>;
+}
+
+// Renders a service's questionnaire; questions hidden by show_if disappear as the answers change
+const IntakeForm = ({ fields, values, onChange, errors = {} }: IntakeFormProps) => {
+  const set = (id: string, value: IntakeValues[string]) => onChange({ ...values, [id]: value });
+
+  const input = (field: IntakeField) => {
+    const inputId = `intake-${field.id}`;
+    switch (field.type) {
+      case 'text':
+        return field.multiline ? (
+          <Textarea
+            id={inputId}
+            rows={3}
+            maxLength={5000}
+            value={(values[field.id] as string) ?? ''}
+            onChange={(e) => set(field.id, e.target.value)}
+          />
+        ) : (
+          <Input
+            id={inputId}
+            maxLength={5000}
+            value={(values[field.id] as string) ?? ''}
+            onChange={(e) => set(field.id, e.target.value)}
+          />
+        );
+      case 'number':
+        return (
+          <Input
+            id={inputId}
+            type="number"
+            min={field.min}
+            max={field.max}
+            value={(values[field.id] as string) ?? ''}
+            onChange={(e) => set(field.id, e.target.value)}
+          />
+        );
+      case 'choice':
+        return (
+          <Select value={(values[field.id] as string) ?? ''} onValueChange={(value) => set(field.id, value)}>
+            <SelectTrigger id={inputId}><SelectValue placeholder="Select an option" /></SelectTrigger>
+            <SelectContent>
+              {field.options?.map((option) => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        );
+      case 'multi': {
+        const picked = (values[field.id] as string[]) ?? [];
+        return (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {field.options?.map((option) => (
+              <label key={option} className="flex items-center gap-2 text-sm">
+                <Checkbox
+                  checked={picked.includes(option)}
+                  onCheckedChange={(checked) => set(
+                    field.id,
+                    checked ? [...picked, option] : picked.filter((p) => p !== option),
+                  )}
+                />
+                {option}
+              </label>
+            ))}
+          </div>
+        );
+      }
+      case 'file': {
+        const files = (values[field.id] as File[]) ?? [];
+        return (
+          <div className="space-y-2">
+            <Input
+              id={inputId}
+              type="file"
+              multiple
+              accept={REQUEST_FILE_ACCEPT}
+              onChange={(e) => {
+                set(field.id, [...files, ...Array.from(e.target.files ?? [])]);
+                e.target.value = '';
+              }}
+            />
+            {files.map((file, index) => (
+              <div key={`${file.name}-${index}`} className="flex items-center justify-between gap-2 text-xs">
+                <span className="truncate">{file.name} <span className="text-muted-foreground">{formatFileSize(file.size)}</span></span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  title="Remove"
+                  onClick={() => set(field.id, files.filter((_, i) => i !== index))}
+                >
+                  <X className="w-3.5 h-3.5" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        );
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {visibleIntakeFields(fields, values).map((field) => (
+        <div key={field.id} className="space-y-1">
+          <Label htmlFor={`intake-${field.id}`}>{field.label}{field.required && ' *'}</Label>
+          {input(field)}
+          {field.help && <p className="text-xs text-muted-foreground">{field.help}</p>}
+          {errors[field.id] && <p className="text-xs text-destructive">{errors[field.id]}</p>}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default IntakeForm;
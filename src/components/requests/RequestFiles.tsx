@@ -0,0 +1,170 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Download, ExternalLink, FileArchive, FileImage, FileText, Loader2, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import {
+  REQUEST_FILE_ACCEPT, formatFileSize, requestFileError, type RequestFile, type RequestFilesApi,
+} from '@/lib/requestFiles';
+
+interface RequestFilesProps {
+  api: RequestFilesApi;
+  // Changing the request reloads the list
+  requestId: string;
+}
+
+const UPLOADER_LABELS: Record<RequestFile['uploaded_by_type'], string> = {
+  client: 'Client',
+  pm: 'Project Manager',
+  admin: 'THRYLOS',
+};
+
+const fileIcon = (type: string | null) => {
+  if (type?.startsWith('image/')) return FileImage;
+  if (type?.includes('zip')) return FileArchive;
+  return FileText;
+};
+
+// Briefs, logos and documents attached to a request. Links are signed on demand and expire after a few minutes.
+const RequestFiles = ({ api, requestId }: RequestFilesProps) => {
+  const [files, setFiles] = useState<RequestFile[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [uploading, setUploading] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  // Callers build a new api object on every render; keep the latest without reloading
+  const apiRef = useRef(api);
+  apiRef.current = api;
+
+  const load = useCallback(async () => {
+    try {
+      setFiles(await apiRef.current.list());
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    setLoading(true);
+    load();
+  }, [requestId, load]);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (selected.length === 0) return;
+
+    const invalid = selected.map(requestFileError).filter(Boolean);
+    if (invalid.length) {
+      toast({ title: 'Upload failed', description: invalid.join('. '), variant: 'destructive' });
+      return;
+    }
+
+    setUploading(true);
+    try {
+      for (const file of selected) await apiRef.current.upload(file);
+      toast({ title: selected.length === 1 ? 'File uploaded' : `${selected.length} files uploaded` });
+    } catch (error) {
+      toast({ title: 'Upload failed', description: (error as Error).message, variant: 'destructive' });
+    }
+    await load();
+    setUploading(false);
+  };
+
+  const open = async (file: RequestFile, download: boolean) => {
+    // Open the tab before awaiting so popup blockers treat it as user-initiated
+    const tab = download ? null : window.open('', '_blank');
+    setBusyId(file.id);
+    try {
+      const url = await apiRef.current.url(file, download);
+      if (tab) tab.location.href = url;
+      else window.location.assign(url);
+    } catch (error) {
+      tab?.close();
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setBusyId(null);
+  };
+
+  const remove = async (file: RequestFile) => {
+    setBusyId(file.id);
+    try {
+      await apiRef.current.remove(file);
+      setFiles((current) => current.filter((f) => f.id !== file.id));
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setBusyId(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      {loading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : files.length === 0 ? (
+        <p className="text-xs text-muted-foreground">No files yet</p>
+      ) : (
+        <div className="space-y-1.5">
+          {files.map((file) => {
+            const Icon = fileIcon(file.content_type);
+            return (
+              <div key={file.id} className="flex items-center justify-between gap-2 rounded-md bg-background/40 px-2.5 py-2">
+                <div className="flex items-center gap-2 min-w-0">
+                  <Icon className="w-4 h-4 text-primary shrink-0" />
+                  <div className="min-w-0">
+                    <p className="text-sm truncate">{file.name}</p>
+                    <p className="text-[11px] text-muted-foreground">
+                      {[
+                        formatFileSize(file.size_bytes),
+                        file.uploaded_by_name || UPLOADER_LABELS[file.uploaded_by_type],
+                        new Date(file.created_at).toLocaleDateString(),
+                      ].filter(Boolean).join(' · ')}
+                    </p>
+                  </div>
+                </div>
+                <div className="flex items-center shrink-0">
+                  {busyId === file.id ? (
+                    <Loader2 className="w-4 h-4 m-2 animate-spin text-primary" />
+                  ) : (
+                    <>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" title="Open" onClick={() => open(file, false)}>
+                        <ExternalLink className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" title="Download" onClick={() => open(file, true)}>
+                        <Download className="w-4 h-4" />
+                      </Button>
+                      {api.canRemove(file) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-destructive"
+                          title="Delete"
+                          onClick={() => remove(file)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      )}
+                    </>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+      <Button type="button" variant="outline" size="sm" disabled={uploading} asChild>
+        <label className="cursor-pointer">
+          {uploading ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Upload className="w-4 h-4 mr-1" />}
+          Upload Files
+          <input type="file" multiple accept={REQUEST_FILE_ACCEPT} className="hidden" onChange={handleFiles} disabled={uploading} />
+        </label>
+      </Button>
+      <p className="text-[11px] text-muted-foreground">PDF, ZIP, Office documents and images, up to 25 MB each</p>
+    </div>
+  );
+};
+
+export default RequestFiles;
@@ -0,0 +1,375 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CalendarDays, Check, FileText, Loader2, Pencil, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import type { RequestFile } from '@/lib/requestFiles';
+import {
+  MILESTONE_STATUS_COLORS, MILESTONE_STATUS_LABELS, PM_MILESTONE_STATUSES, isOverdue, milestoneProgress,
+  type Milestone, type MilestoneDecision, type MilestoneFields, type MilestonesApi,
+} from '@/lib/milestones';
+
+interface RequestMilestonesProps {
+  api: MilestonesApi;
+  // Changing the request reloads the plan
+  requestId: string;
+  viewer: 'client' | 'pm';
+}
+
+const EMPTY_FORM: MilestoneFields = { title: '', description: null, due_date: null, status: 'planned', file_ids: [] };
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+// A request's plan as a timeline. Clients approve delivered milestones or send them back;
+// PMs add milestones, move them along and attach deliverables.
+const RequestMilestones = ({ api, requestId, viewer }: RequestMilestonesProps) => {
+  const [milestones, setMilestones] = useState<Milestone[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Milestone being edited, 'new' for the add form
+  const [editing, setEditing] = useState<string | null>(null);
+  const [form, setForm] = useState<MilestoneFields>(EMPTY_FORM);
+  const [files, setFiles] = useState<RequestFile[]>([]);
+  const [saving, setSaving] = useState(false);
+  const [review, setReview] = useState<{ milestone: Milestone; decision: MilestoneDecision } | null>(null);
+  const [comment, setComment] = useState('');
+  const { toast } = useToast();
+
+  // Callers build a new api object on every render; keep the latest without reloading
+  const apiRef = useRef(api);
+  apiRef.current = api;
+
+  const load = useCallback(async () => {
+    try {
+      setMilestones(await apiRef.current.list());
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    setLoading(true);
+    setEditing(null);
+    load();
+  }, [requestId, load]);
+
+  const startEditing = async (milestone: Milestone | null) => {
+    setForm(milestone
+      ? {
+        title: milestone.title,
+        description: milestone.description,
+        due_date: milestone.due_date,
+        status: milestone.status,
+        file_ids: milestone.request_files.map((f) => f.id),
+      }
+      : EMPTY_FORM);
+    setEditing(milestone?.id ?? 'new');
+    try {
+      setFiles((await apiRef.current.files?.()) ?? []);
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const save = async () => {
+    if (!form.title.trim()) {
+      toast({ title: 'Error', description: 'Give the milestone a title', variant: 'destructive' });
+      return;
+    }
+    setSaving(true);
+    try {
+      await apiRef.current.save?.(editing === 'new' ? null : editing, { ...form, title: form.title.trim() });
+      setEditing(null);
+      await load();
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setSaving(false);
+  };
+
+  const remove = async (milestone: Milestone) => {
+    setSaving(true);
+    try {
+      await apiRef.current.remove?.(milestone);
+      setMilestones((current) => current.filter((m) => m.id !== milestone.id));
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setSaving(false);
+  };
+
+  const submitReview = async () => {
+    if (!review) return;
+    setSaving(true);
+    try {
+      await apiRef.current.review?.(review.milestone, review.decision, comment);
+      toast({ title: review.decision === 'approved' ? 'Milestone approved' : 'Changes requested' });
+      setReview(null);
+      setComment('');
+      await load();
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setSaving(false);
+  };
+
+  const openFile = async (file: RequestFile) => {
+    // Open the tab before awaiting so popup blockers treat it as user-initiated
+    const tab = window.open('', '_blank');
+    try {
+      const url = await apiRef.current.url(file);
+      if (tab) tab.location.href = url;
+    } catch (error) {
+      tab?.close();
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const renderForm = () => (
+    <div className="space-y-3 rounded-md border border-border/40 bg-background/40 p-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <div className="sm:col-span-2">
+          <Label>Title</Label>
+          <Input value={form.title} maxLength={200} onChange={(e) => setForm({ ...form, title: e.target.value })} />
+        </div>
+        <div>
+          <Label>Due date</Label>
+          <Input
+            type="date"
+            value={form.due_date ?? ''}
+            onChange={(e) => setForm({ ...form, due_date: e.target.value || null })}
+          />
+        </div>
+        <div>
+          <Label>Status</Label>
+          <Select
+            value={form.status}
+            onValueChange={(value) => setForm({ ...form, status: value as MilestoneFields['status'] })}
+          >
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {/* A milestone sent back keeps its status until the PM moves it on */}
+              {[...new Set([...PM_MILESTONE_STATUSES, form.status])].map((status) => (
+                <SelectItem key={status} value={status}>{MILESTONE_STATUS_LABELS[status]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="sm:col-span-2">
+          <Label>Description</Label>
+          <Textarea
+            rows={2}
+            maxLength={2000}
+            value={form.description ?? ''}
+            onChange={(e) => setForm({ ...form, description: e.target.value || null })}
+          />
+        </div>
+      </div>
+      <div>
+        <Label>Deliverables</Label>
+        {files.length === 0 ? (
+          <p className="text-xs text-muted-foreground mt-1">Upload files to the request to attach them here</p>
+        ) : (
+          <div className="mt-1 space-y-1 max-h-40 overflow-y-auto">
+            {files.map((file) => (
+              <label key={file.id} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={form.file_ids.includes(file.id)}
+                  onCheckedChange={(checked) => setForm({
+                    ...form,
+                    file_ids: checked ? [...form.file_ids, file.id] : form.file_ids.filter((id) => id !== file.id),
+                  })}
+                />
+                <span className="truncate">{file.name}</span>
+              </label>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="flex gap-2 justify-end">
+        <Button variant="outline" size="sm" onClick={() => setEditing(null)} disabled={saving}>Cancel</Button>
+        <Button size="sm" onClick={save} disabled={saving}>
+          {saving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+          Save
+        </Button>
+      </div>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const progress = milestoneProgress(milestones);
+
+  return (
+    <div className="space-y-3">
+      {milestones.length === 0 ? (
+        <p className="text-xs text-muted-foreground">
+          {viewer === 'client' ? 'Your project manager has not planned any milestones yet' : 'No milestones yet'}
+        </p>
+      ) : (
+        <>
+          <div className="space-y-1">
+            <div className="flex justify-between text-xs text-muted-foreground">
+              <span>{progress.approved} of {progress.total} milestones approved</span>
+              <span>{progress.percent}%</span>
+            </div>
+            <Progress value={progress.percent} className="h-2" />
+          </div>
+
+          <ol className="relative border-l border-border/60 ml-2 space-y-4">
+            {milestones.map((milestone) => {
+              const latestReview = milestone.milestone_reviews[0];
+              return (
+                <li key={milestone.id} className="ml-4">
+                  <span
+                    className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-background ${
+                      milestone.status === 'approved' ? 'bg-green-500' : 'bg-primary/60'
+                    }`}
+                  />
+                  {editing === milestone.id ? renderForm() : (
+                    <div className="space-y-1.5">
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm font-medium">{milestone.title}</span>
+                        <Badge className={MILESTONE_STATUS_COLORS[milestone.status]}>
+                          {MILESTONE_STATUS_LABELS[milestone.status]}
+                        </Badge>
+                        {milestone.due_date && (
+                          <span className={`text-xs flex items-center gap-1 ${isOverdue(milestone) ? 'text-red-500' : 'text-muted-foreground'}`}>
+                            <CalendarDays className="w-3 h-3" /> Due {formatDate(milestone.due_date)}
+                          </span>
+                        )}
+                      </div>
+                      {milestone.description && (
+                        <p className="text-sm text-muted-foreground whitespace-pre-wrap">{milestone.description}</p>
+                      )}
+                      {milestone.request_files.length > 0 && (
+                        <div className="flex flex-wrap gap-1.5">
+                          {milestone.request_files.map((file) => (
+                            <Button
+                              key={file.id}
+                              variant="outline"
+                              size="sm"
+                              className="h-7 text-xs"
+                              onClick={() => openFile(file)}
+                            >
+                              <FileText className="w-3 h-3 mr-1" />{file.name}
+                            </Button>
+                          ))}
+                        </div>
+                      )}
+                      {latestReview && (
+                        <div className="text-xs text-muted-foreground">
+                          {latestReview.decision === 'approved' ? 'Approved' : 'Changes requested'}
+                          {viewer === 'client' ? ' by you' : ' by the client'}
+                          {' on '}{new Date(latestReview.created_at).toLocaleString()}
+                          {latestReview.comment && (
+                            <p className="text-sm text-foreground mt-0.5 whitespace-pre-wrap">{latestReview.comment}</p>
+                          )}
+                        </div>
+                      )}
+
+                      {api.review && milestone.status === 'delivered' && (
+                        <div className="flex flex-wrap gap-2 pt-1">
+                          <Button size="sm" onClick={() => setReview({ milestone, decision: 'approved' })}>
+                            <Check className="w-4 h-4 mr-1" /> Approve
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setReview({ milestone, decision: 'changes_requested' })}
+                          >
+                            <RotateCcw className="w-4 h-4 mr-1" /> Request Changes
+                          </Button>
+                        </div>
+                      )}
+
+                      {api.save && milestone.status !== 'approved' && (
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7"
+                            disabled={editing !== null || saving}
+                            onClick={() => startEditing(milestone)}
+                          >
+                            <Pencil className="w-3.5 h-3.5 mr-1" /> Edit
+                          </Button>
+                          {api.remove && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="h-7 text-destructive"
+                              disabled={editing !== null || saving}
+                              onClick={() => remove(milestone)}
+                            >
+                              <Trash2 className="w-3.5 h-3.5 mr-1" /> Delete
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        </>
+      )}
+
+      {api.save && (editing === 'new' ? renderForm() : (
+        <Button variant="outline" size="sm" disabled={editing !== null} onClick={() => startEditing(null)}>
+          <Plus className="w-4 h-4 mr-1" /> Add Milestone
+        </Button>
+      ))}
+
+      <Dialog open={!!review} onOpenChange={(open) => { if (!open) { setReview(null); setComment(''); } }}>
+        <DialogContent className="glass-card">
+          <DialogHeader>
+            <DialogTitle>
+              {review?.decision === 'approved' ? 'Approve' : 'Request changes to'} {review?.milestone.title}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {review?.decision === 'approved'
+                ? 'Approving signs off this milestone and its deliverables. This cannot be undone.'
+                : 'Tell your project manager what needs to change.'}
+            </p>
+            <Textarea
+              rows={4}
+              maxLength={2000}
+              placeholder={review?.decision === 'approved' ? 'Comment (optional)' : 'What should change?'}
+              value={comment}
+              onChange={(e) => setComment(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => { setReview(null); setComment(''); }} disabled={saving}>Cancel</Button>
+            <Button
+              onClick={submitReview}
+              disabled={saving || (review?.decision === 'changes_requested' && !comment.trim())}
+            >
+              {saving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+              {review?.decision === 'approved' ? 'Approve' : 'Send'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default RequestMilestones;
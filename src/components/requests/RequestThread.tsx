@@ -0,0 +1,295 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Check, CheckCheck, EyeOff, FileText, Loader2, MessageSquare, Paperclip, Pencil, Send, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import type { MessageAttachment, RequestMessage, ThreadApi, ThreadParty } from '@/lib/requestThreads';
+
+interface RequestThreadProps {
+  requestId: string;
+  viewer: ThreadParty;
+  api: ThreadApi;
+  // Restricts editing to the viewer's own messages; admins share one "THRYLOS" identity
+  authorId?: string;
+}
+
+const PARTY_LABELS: Record<ThreadParty, string> = {
+  client: 'Client',
+  pm: 'Project Manager',
+  admin: 'THRYLOS',
+};
+
+const readAt = (message: RequestMessage, party: ThreadParty) => message[`read_by_${party}_at`];
+
+// Who, other than the author, has seen a message. Clients only learn that the team has read it.
+const readReceipt = (message: RequestMessage, viewer: ThreadParty) => {
+  const readers = (['client', 'pm', 'admin'] as ThreadParty[])
+    .filter((party) => party !== message.author_type && readAt(message, party))
+    .filter((party) => message.visibility === 'client_visible' || party !== 'client');
+  if (readers.length === 0) return null;
+  if (viewer === 'client') return 'Seen';
+  return `Seen by ${readers.map((party) => PARTY_LABELS[party]).join(', ')}`;
+};
+
+const RequestThread = ({ requestId, viewer, api, authorId }: RequestThreadProps) => {
+  const [messages, setMessages] = useState<RequestMessage[]>([]);
+  // Signed links for attachment previews, by path; refreshed with every load
+  const [attachmentUrls, setAttachmentUrls] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [body, setBody] = useState('');
+  const [internal, setInternal] = useState(false);
+  const [attachments, setAttachments] = useState<MessageAttachment[]>([]);
+  const [uploading, setUploading] = useState(false);
+  const [sending, setSending] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editBody, setEditBody] = useState('');
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const { toast } = useToast();
+
+  // Callers build a new api object on every render; keep the latest without re-subscribing
+  const apiRef = useRef(api);
+  apiRef.current = api;
+
+  const load = useCallback(async () => {
+    try {
+      const data = await apiRef.current.list();
+      setMessages(data);
+      const paths = data.flatMap((m) => (m.attachments ?? []).map((a) => a.path));
+      setAttachmentUrls(await apiRef.current.attachmentUrls(paths));
+      if (data.some((m) => m.author_type !== viewer && !readAt(m, viewer))) {
+        await apiRef.current.markRead();
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setLoading(false);
+  }, [viewer, toast]);
+
+  useEffect(() => {
+    setLoading(true);
+    load();
+
+    // A database trigger pings this topic whenever a message in the thread changes
+    const channel = supabase
+      .channel(`request-thread:${requestId}`)
+      .on('broadcast', { event: 'changed' }, () => load())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [requestId, load]);
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages.length]);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setUploading(true);
+    try {
+      const uploaded = await Promise.all(files.map((file) => apiRef.current.upload(file)));
+      setAttachments((current) => [...current, ...uploaded].slice(0, 10));
+    } catch (error) {
+      toast({ title: 'Upload failed', description: (error as Error).message, variant: 'destructive' });
+    }
+    setUploading(false);
+  };
+
+  const send = async () => {
+    if (!body.trim()) return;
+    setSending(true);
+    try {
+      await apiRef.current.send({
+        body: body.trim(),
+        visibility: viewer !== 'client' && internal ? 'internal' : 'client_visible',
+        attachments,
+      });
+      setBody('');
+      setAttachments([]);
+      await load();
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setSending(false);
+  };
+
+  const openAttachment = async (attachment: MessageAttachment) => {
+    // Open the tab before awaiting so popup blockers treat it as user-initiated; the preview
+    // link may have expired, so sign a fresh one
+    const tab = window.open('', '_blank');
+    try {
+      const urls = await apiRef.current.attachmentUrls([attachment.path]);
+      if (!urls[attachment.path]) throw new Error('Attachment not found');
+      if (tab) tab.location.href = urls[attachment.path];
+    } catch (error) {
+      tab?.close();
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const saveEdit = async () => {
+    if (!editingId || !editBody.trim() || !apiRef.current.edit) return;
+    try {
+      await apiRef.current.edit(editingId, editBody.trim());
+      setEditingId(null);
+      await load();
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const canEdit = (message: RequestMessage) =>
+    !!api.edit && message.author_type === viewer && (!authorId || message.author_id === authorId);
+
+  return (
+    <div className="space-y-3">
+      <div className="max-h-[360px] overflow-y-auto space-y-3 pr-1">
+        {loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="w-5 h-5 animate-spin text-primary" />
+          </div>
+        ) : messages.length === 0 ? (
+          <div className="text-center py-6 text-sm text-muted-foreground">
+            <MessageSquare className="w-8 h-8 mx-auto mb-2 opacity-50" />
+            No messages yet
+          </div>
+        ) : (
+          messages.map((message) => {
+            const own = message.author_type === viewer;
+            const receipt = own ? readReceipt(message, viewer) : null;
+            return (
+              <div key={message.id} className={`flex ${own ? 'justify-end' : 'justify-start'}`}>
+                <div
+                  className={`max-w-[85%] rounded-lg p-3 text-sm ${
+                    message.visibility === 'internal'
+                      ? 'bg-amber-500/10 border border-amber-500/20'
+                      : own ? 'bg-primary/10 border border-primary/20' : 'bg-muted/40 border border-border/50'
+                  }`}
+                >
+                  <div className="flex items-center gap-2 mb-1 text-xs text-muted-foreground">
+                    <span className="font-medium text-foreground">
+                      {message.author_name || PARTY_LABELS[message.author_type]}
+                    </span>
+                    {message.author_type !== 'client' && viewer !== 'client' && (
+                      <span>{PARTY_LABELS[message.author_type]}</span>
+                    )}
+                    {message.visibility === 'internal' && (
+                      <Badge variant="outline" className="text-amber-500 border-amber-500/30 text-[10px] px-1.5 py-0">
+                        <EyeOff className="w-3 h-3 mr-1" />Internal
+                      </Badge>
+                    )}
+                  </div>
+
+                  {editingId === message.id ? (
+                    <div className="space-y-2">
+                      <Textarea rows={3} value={editBody} onChange={(e) => setEditBody(e.target.value)} />
+                      <div className="flex justify-end gap-2">
+                        <Button size="sm" variant="ghost" onClick={() => setEditingId(null)}>Cancel</Button>
+                        <Button size="sm" onClick={saveEdit}>Save</Button>
+                      </div>
+                    </div>
+                  ) : (
+                    <p className="whitespace-pre-wrap leading-relaxed">{message.body}</p>
+                  )}
+
+                  {message.attachments?.length > 0 && (
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {message.attachments.map((attachment) => (
+                        <button
+                          key={attachment.path}
+                          type="button"
+                          onClick={() => openAttachment(attachment)}
+                          className="flex items-center gap-1 text-xs text-primary hover:underline"
+                        >
+                          {attachment.type?.startsWith('image/') && attachmentUrls[attachment.path] ? (
+                            <img src={attachmentUrls[attachment.path]} alt={attachment.name} className="w-16 h-16 object-cover rounded border border-border/50" />
+                          ) : (
+                            <><FileText className="w-3 h-3" />{attachment.name}</>
+                          )}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
+                  <div className="flex items-center justify-end gap-2 mt-1 text-[10px] text-muted-foreground">
+                    {canEdit(message) && editingId !== message.id && (
+                      <button
+                        type="button"
+                        className="hover:text-foreground"
+                        onClick={() => { setEditingId(message.id); setEditBody(message.body); }}
+                      >
+                        <Pencil className="w-3 h-3" />
+                      </button>
+                    )}
+                    <span>
+                      {new Date(message.created_at).toLocaleString()}
+                      {message.edited_at && ' · edited'}
+                    </span>
+                    {own && (receipt ? (
+                      <span className="flex items-center gap-0.5 text-primary"><CheckCheck className="w-3 h-3" />{receipt}</span>
+                    ) : (
+                      <Check className="w-3 h-3" />
+                    ))}
+                  </div>
+                </div>
+              </div>
+            );
+          })
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <div className="space-y-2">
+        <Textarea
+          rows={3}
+          placeholder="Write a message..."
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+        />
+        {attachments.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {attachments.map((attachment, index) => (
+              <Badge key={attachment.path} variant="secondary" className="gap-1">
+                <Paperclip className="w-3 h-3" />{attachment.name}
+                <button type="button" onClick={() => setAttachments(attachments.filter((_, i) => i !== index))}>
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-3">
+            <Button type="button" variant="outline" size="sm" disabled={uploading} asChild>
+              <label className="cursor-pointer">
+                {uploading ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Paperclip className="w-4 h-4 mr-1" />}
+                Attach
+                <input type="file" multiple accept="image/*,application/pdf" className="hidden" onChange={handleFiles} />
+              </label>
+            </Button>
+            {viewer !== 'client' && (
+              <div className="flex items-center gap-2">
+                <Switch id={`internal-${requestId}`} checked={internal} onCheckedChange={setInternal} />
+                <Label htmlFor={`internal-${requestId}`} className="text-xs">Internal note</Label>
+              </div>
+            )}
+          </div>
+          <Button size="sm" onClick={send} disabled={sending || uploading || !body.trim()}>
+            {sending ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Send className="w-4 h-4 mr-1" />}
+            Send
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RequestThread;
@@ -0,0 +1,42 @@
+import { Badge } from '@/components/ui/badge';
+import { statusColor, statusLabel, type StatusHistoryEntry } from '@/lib/requestStatus';
+
+interface StatusTimelineProps {
+  entries: StatusHistoryEntry[];
+  // Clients see who acted by role; staff also see the actor's email
+  viewer: 'client' | 'admin';
+}
+
+const actorName = (entry: StatusHistoryEntry, viewer: StatusTimelineProps['viewer']) => {
+  if (entry.actor_type === 'system') return null;
+  if (viewer === 'client') {
+    return { client: 'You', pm: 'Project Manager', admin: 'THRYLOS' }[entry.actor_type];
+  }
+  const role = { client: 'Client', pm: 'PM', admin: 'Admin' }[entry.actor_type];
+  return entry.actor_label ? `${role} · ${entry.actor_label}` : role;
+};
+
+const StatusTimeline = ({ entries, viewer }: StatusTimelineProps) => {
+  if (entries.length === 0) return null;
+
+  return (
+    <ol className="relative border-l border-border/60 ml-2 space-y-4">
+      {entries.map((entry) => {
+        const actor = actorName(entry, viewer);
+        return (
+          <li key={entry.id} className="ml-4">
+            <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-primary/60 border border-background" />
+            <div className="flex flex-wrap items-center gap-2">
+              <Badge className={statusColor(entry.to_status)}>{statusLabel(entry.to_status)}</Badge>
+              <span className="text-xs text-muted-foreground">{new Date(entry.created_at).toLocaleString()}</span>
+            </div>
+            {actor && <p className="text-xs text-muted-foreground mt-1">by {actor}</p>}
+            {entry.reason && <p className="text-sm mt-1">{entry.reason}</p>}
+          </li>
+        );
+      })}
+    </ol>
+  );
+};
+
+export default StatusTimeline;
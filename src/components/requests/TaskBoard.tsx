@@ -0,0 +1,393 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { CalendarDays, CheckSquare, Loader2, Plus, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  TASK_COLUMNS, isTaskOverdue, positionBetween, sortTasks,
+  type ProjectTask, type TaskBoardApi, type TaskFields, type TaskStatus,
+} from '@/lib/projectTasks';
+
+interface TaskBoardProps {
+  api: TaskBoardApi;
+  // Changing the request reloads the board
+  requestId: string;
+  // Offered when assigning a card, e.g. the PM's own name
+  assigneeSuggestions?: string[];
+}
+
+const EMPTY_FIELDS: TaskFields = { title: '', description: null, status: 'todo', assignees: [], checklist: [], due_date: null };
+
+const formatDate = (date: string) => new Date(`${date}T00:00:00`).toLocaleDateString();
+
+// A request's kanban board. Cards are dragged between columns; without api.save the board is read-only.
+const TaskBoard = ({ api, requestId, assigneeSuggestions = [] }: TaskBoardProps) => {
+  const [tasks, setTasks] = useState<ProjectTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Card open in the dialog: a task, 'new', or null when closed
+  const [open, setOpen] = useState<ProjectTask | 'new' | null>(null);
+  const [fields, setFields] = useState<TaskFields>(EMPTY_FIELDS);
+  const [assignee, setAssignee] = useState('');
+  const [checklistItem, setChecklistItem] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<TaskStatus | null>(null);
+  const { toast } = useToast();
+
+  const editable = !!api.save;
+
+  // Callers build a new api object on every render; keep the latest without reloading
+  const apiRef = useRef(api);
+  apiRef.current = api;
+
+  const load = useCallback(async () => {
+    try {
+      setTasks(sortTasks(await apiRef.current.list()));
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    setLoading(true);
+    load();
+  }, [requestId, load]);
+
+  const openTask = (task: ProjectTask | null, status: TaskStatus = 'todo') => {
+    setFields(task
+      ? {
+        title: task.title,
+        description: task.description,
+        status: task.status,
+        assignees: task.assignees,
+        checklist: task.checklist,
+        due_date: task.due_date,
+      }
+      : { ...EMPTY_FIELDS, status });
+    setAssignee('');
+    setChecklistItem('');
+    setOpen(task ?? 'new');
+  };
+
+  const save = async () => {
+    if (!fields.title.trim()) {
+      toast({ title: 'Error', description: 'Give the task a title', variant: 'destructive' });
+      return;
+    }
+    setSaving(true);
+    try {
+      await apiRef.current.save?.(open === 'new' ? null : open?.id ?? null, { ...fields, title: fields.title.trim() });
+      setOpen(null);
+      await load();
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setSaving(false);
+  };
+
+  const remove = async () => {
+    if (!open || open === 'new') return;
+    setSaving(true);
+    try {
+      await apiRef.current.remove?.(open);
+      setTasks((current) => current.filter((t) => t.id !== open.id));
+      setOpen(null);
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setSaving(false);
+  };
+
+  // Drops a card before `beforeId`, or at the bottom of the column without one
+  const drop = async (status: TaskStatus, beforeId: string | null) => {
+    const task = tasks.find((t) => t.id === dragging);
+    setDragging(null);
+    setDropTarget(null);
+    if (!task || task.id === beforeId || !apiRef.current.move) return;
+
+    const column = tasks.filter((t) => t.status === status && t.id !== task.id);
+    const index = beforeId ? column.findIndex((t) => t.id === beforeId) : column.length;
+    const position = positionBetween(column[index - 1], column[index]);
+    if (task.status === status && task.position === position) return;
+
+    const previous = tasks;
+    setTasks(sortTasks(tasks.map((t) => (t.id === task.id ? { ...t, status, position } : t))));
+    try {
+      await apiRef.current.move(task, status, position);
+    } catch (error) {
+      setTasks(previous);
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const addAssignee = () => {
+    const name = assignee.trim();
+    if (name && !fields.assignees.includes(name)) setFields({ ...fields, assignees: [...fields.assignees, name] });
+    setAssignee('');
+  };
+
+  const addChecklistItem = () => {
+    const text = checklistItem.trim();
+    if (text) setFields({ ...fields, checklist: [...fields.checklist, { id: crypto.randomUUID(), text, done: false }] });
+    setChecklistItem('');
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+        {TASK_COLUMNS.map((column) => {
+          const columnTasks = tasks.filter((t) => t.status === column.status);
+          return (
+            <div
+              key={column.status}
+              className={`rounded-lg bg-background/40 p-2 space-y-2 min-h-[6rem] border ${
+                dropTarget === column.status ? 'border-primary/60' : 'border-transparent'
+              }`}
+              onDragOver={(e) => {
+                if (!dragging) return;
+                e.preventDefault();
+                setDropTarget(column.status);
+              }}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={(e) => {
+                e.preventDefault();
+                drop(column.status, null);
+              }}
+            >
+              <div className="flex items-center justify-between px-1">
+                <span className="text-xs font-medium uppercase text-muted-foreground">{column.label}</span>
+                <span className="text-xs text-muted-foreground">{columnTasks.length}</span>
+              </div>
+
+              {columnTasks.map((task) => {
+                const done = task.checklist.filter((item) => item.done).length;
+                return (
+                  <div
+                    key={task.id}
+                    draggable={editable}
+                    onDragStart={(e) => {
+                      e.dataTransfer.effectAllowed = 'move';
+                      // Firefox only starts a drag that carries data
+                      e.dataTransfer.setData('text/plain', task.id);
+                      setDragging(task.id);
+                    }}
+                    onDragEnd={() => { setDragging(null); setDropTarget(null); }}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      e.stopPropagation();
+                      drop(column.status, task.id);
+                    }}
+                    onClick={() => openTask(task)}
+                    className={`rounded-md border border-border/40 bg-card p-2 space-y-1.5 cursor-pointer hover:border-primary/40 ${
+                      dragging === task.id ? 'opacity-50' : ''
+                    }`}
+                  >
+                    <p className="text-sm break-words">{task.title}</p>
+                    <div className="flex flex-wrap items-center gap-1.5 text-[11px] text-muted-foreground">
+                      {task.due_date && (
+                        <span className={`flex items-center gap-0.5 ${isTaskOverdue(task) ? 'text-red-500' : ''}`}>
+                          <CalendarDays className="w-3 h-3" />{formatDate(task.due_date)}
+                        </span>
+                      )}
+                      {task.checklist.length > 0 && (
+                        <span className="flex items-center gap-0.5">
+                          <CheckSquare className="w-3 h-3" />{done}/{task.checklist.length}
+                        </span>
+                      )}
+                    </div>
+                    {task.assignees.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {task.assignees.map((name) => (
+                          <Badge key={name} variant="secondary" className="text-[10px] px-1.5 py-0">{name}</Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+
+              {editable && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="w-full h-7 text-xs text-muted-foreground"
+                  onClick={() => openTask(null, column.status)}
+                >
+                  <Plus className="w-3.5 h-3.5 mr-1" /> Add task
+                </Button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <Dialog open={!!open} onOpenChange={(isOpen) => { if (!isOpen) setOpen(null); }}>
+        <DialogContent className="glass-card max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{open === 'new' ? 'New task' : editable ? 'Edit task' : fields.title}</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-3">
+            {editable && (
+              <div>
+                <Label>Title</Label>
+                <Input value={fields.title} maxLength={200} onChange={(e) => setFields({ ...fields, title: e.target.value })} />
+              </div>
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label>Column</Label>
+                <Select
+                  value={fields.status}
+                  onValueChange={(value) => setFields({ ...fields, status: value as TaskStatus })}
+                  disabled={!editable}
+                >
+                  <SelectTrigger><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {TASK_COLUMNS.map((column) => (
+                      <SelectItem key={column.status} value={column.status}>{column.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Due date</Label>
+                <Input
+                  type="date"
+                  value={fields.due_date ?? ''}
+                  disabled={!editable}
+                  onChange={(e) => setFields({ ...fields, due_date: e.target.value || null })}
+                />
+              </div>
+            </div>
+            <div>
+              <Label>Description</Label>
+              {editable ? (
+                <Textarea
+                  rows={3}
+                  maxLength={4000}
+                  value={fields.description ?? ''}
+                  onChange={(e) => setFields({ ...fields, description: e.target.value || null })}
+                />
+              ) : (
+                <p className="text-sm text-muted-foreground whitespace-pre-wrap">{fields.description || '—'}</p>
+              )}
+            </div>
+
+            <div>
+              <Label>Assignees</Label>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {fields.assignees.map((name) => (
+                  <Badge key={name} variant="secondary" className="gap-1">
+                    {name}
+                    {editable && (
+                      <button
+                        type="button"
+                        onClick={() => setFields({ ...fields, assignees: fields.assignees.filter((a) => a !== name) })}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    )}
+                  </Badge>
+                ))}
+                {!editable && fields.assignees.length === 0 && <span className="text-sm text-muted-foreground">—</span>}
+              </div>
+              {editable && (
+                <div className="flex gap-2 mt-2">
+                  <Input
+                    list={`assignees-${requestId}`}
+                    placeholder="Name"
+                    maxLength={100}
+                    value={assignee}
+                    onChange={(e) => setAssignee(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); addAssignee(); } }}
+                  />
+                  <datalist id={`assignees-${requestId}`}>
+                    {assigneeSuggestions.map((name) => <option key={name} value={name} />)}
+                  </datalist>
+                  <Button type="button" variant="outline" size="icon" onClick={addAssignee}>
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <Label>Checklist</Label>
+              <div className="space-y-1.5 mt-1">
+                {fields.checklist.map((item) => (
+                  <div key={item.id} className="flex items-center gap-2">
+                    <Checkbox
+                      checked={item.done}
+                      disabled={!editable}
+                      onCheckedChange={(checked) => setFields({
+                        ...fields,
+                        checklist: fields.checklist.map((i) => (i.id === item.id ? { ...i, done: !!checked } : i)),
+                      })}
+                    />
+                    <span className={`text-sm flex-1 break-words ${item.done ? 'line-through text-muted-foreground' : ''}`}>
+                      {item.text}
+                    </span>
+                    {editable && (
+                      <button
+                        type="button"
+                        className="text-muted-foreground hover:text-destructive"
+                        onClick={() => setFields({ ...fields, checklist: fields.checklist.filter((i) => i.id !== item.id) })}
+                      >
+                        <X className="w-3.5 h-3.5" />
+                      </button>
+                    )}
+                  </div>
+                ))}
+                {!editable && fields.checklist.length === 0 && <span className="text-sm text-muted-foreground">—</span>}
+              </div>
+              {editable && (
+                <div className="flex gap-2 mt-2">
+                  <Input
+                    placeholder="Add an item"
+                    maxLength={500}
+                    value={checklistItem}
+                    onChange={(e) => setChecklistItem(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); addChecklistItem(); } }}
+                  />
+                  <Button type="button" variant="outline" size="icon" onClick={addChecklistItem}>
+                    <Plus className="w-4 h-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          </div>
+          {editable && (
+            <DialogFooter className="gap-2 sm:justify-between">
+              {open !== 'new' && api.remove ? (
+                <Button variant="outline" className="text-destructive" onClick={remove} disabled={saving}>
+                  <Trash2 className="w-4 h-4 mr-1" /> Delete
+                </Button>
+              ) : <span />}
+              <Button onClick={save} disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+                Save
+              </Button>
+            </DialogFooter>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default TaskBoard;
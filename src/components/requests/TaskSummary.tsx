@@ -0,0 +1,66 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { TASK_COLUMNS, fetchTaskSummary, type TaskSummary as Summary } from '@/lib/projectTasks';
+
+interface TaskSummaryProps {
+  requestId: string;
+}
+
+// The client's view of the project board: how the work is spread over the columns, not the cards themselves
+const TaskSummary = ({ requestId }: TaskSummaryProps) => {
+  const [summary, setSummary] = useState<Summary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSummary(null);
+    setError(null);
+    fetchTaskSummary(requestId)
+      .then((result) => { if (!cancelled) setSummary(result); })
+      .catch((e: Error) => { if (!cancelled) setError(e.message); });
+    return () => { cancelled = true; };
+  }, [requestId]);
+
+  if (error) return <p className="text-xs text-destructive">{error}</p>;
+  if (!summary) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const total = summary.todo + summary.doing + summary.review + summary.done;
+  if (total === 0) return <p className="text-xs text-muted-foreground">Your project manager has not planned any tasks yet</p>;
+
+  const percent = Math.round((summary.done / total) * 100);
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-1">
+        <div className="flex justify-between text-xs text-muted-foreground">
+          <span>{summary.done} of {total} tasks done</span>
+          <span>{percent}%</span>
+        </div>
+        <Progress value={percent} className="h-2" />
+      </div>
+      <div className="grid grid-cols-4 gap-2 text-center">
+        {TASK_COLUMNS.map((column) => (
+          <div key={column.status} className="rounded-md bg-background/40 py-2">
+            <p className="text-lg font-semibold">{summary[column.status]}</p>
+            <p className="text-[11px] text-muted-foreground">{column.label}</p>
+          </div>
+        ))}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {summary.overdue > 0 && <span className="text-red-500">{summary.overdue} overdue · </span>}
+        {summary.last_completed_at
+          ? `Last task finished ${new Date(summary.last_completed_at).toLocaleDateString()}`
+          : 'No tasks finished yet'}
+      </p>
+    </div>
+  );
+};
+
+export default TaskSummary;
@@ -0,0 +1,249 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { Loader2, Play, Plus, Square, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import {
+  formatElapsed, formatMinutes, isBilled, totalMinutes, type TimeEntry, type TimeTrackerApi,
+} from '@/lib/timeTracking';
+
+interface TimeTrackerProps {
+  api: TimeTrackerApi;
+  // Changing the request reloads the entries
+  requestId: string;
+  // The signed-in PM, who may delete their own unbilled entries
+  pmId: string | undefined;
+}
+
+const NO_TASK = 'none';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const EMPTY_MANUAL = { date: today(), start: '09:00', hours: '1', minutes: '0', task: NO_TASK, description: '' };
+
+// Timer and manual time entries for one project; admins bill the logged time from Timesheets
+const TimeTracker = ({ api, requestId, pmId }: TimeTrackerProps) => {
+  const [entries, setEntries] = useState<TimeEntry[]>([]);
+  const [running, setRunning] = useState<TimeEntry | null>(null);
+  const [tasks, setTasks] = useState<{ id: string; title: string }[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [task, setTask] = useState(NO_TASK);
+  const [description, setDescription] = useState('');
+  const [manualOpen, setManualOpen] = useState(false);
+  const [manual, setManual] = useState(EMPTY_MANUAL);
+  const [now, setNow] = useState(Date.now());
+  const { toast } = useToast();
+
+  // Callers build a new api object on every render; keep the latest without reloading
+  const apiRef = useRef(api);
+  apiRef.current = api;
+
+  const load = useCallback(async () => {
+    try {
+      const [result, projectTasks] = await Promise.all([apiRef.current.list(), apiRef.current.tasks()]);
+      setEntries(result.entries);
+      setRunning(result.running);
+      setTasks(projectTasks);
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setLoading(false);
+  }, [toast]);
+
+  useEffect(() => {
+    setLoading(true);
+    load();
+  }, [requestId, load]);
+
+  // Tick the running timer's clock
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [running]);
+
+  const act = async (action: () => Promise<void>) => {
+    setBusy(true);
+    try {
+      await action();
+      await load();
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setBusy(false);
+  };
+
+  const start = () => act(async () => {
+    await apiRef.current.start(task === NO_TASK ? null : task, description);
+    setDescription('');
+  });
+
+  const stop = () => act(() => apiRef.current.stop());
+
+  const addManual = () => {
+    const minutes = parseInt(manual.hours || '0', 10) * 60 + parseInt(manual.minutes || '0', 10);
+    if (!minutes) {
+      toast({ title: 'Error', description: 'Enter how long you worked', variant: 'destructive' });
+      return;
+    }
+    act(async () => {
+      await apiRef.current.add({
+        started_at: new Date(`${manual.date}T${manual.start}`).toISOString(),
+        minutes,
+        task_id: manual.task === NO_TASK ? null : manual.task,
+        description: manual.description.trim() || null,
+      });
+      setManual(EMPTY_MANUAL);
+      setManualOpen(false);
+    });
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-4">
+        <Loader2 className="w-5 h-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const taskTitle = (id: string | null) => tasks.find((t) => t.id === id)?.title;
+  const finished = entries.filter((e) => e.ended_at);
+  const unbilled = totalMinutes(finished.filter((e) => !isBilled(e)));
+  const runningHere = running?.service_request_id === requestId;
+
+  const taskSelect = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger><SelectValue /></SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NO_TASK}>No task</SelectItem>
+        {tasks.map((t) => <SelectItem key={t.id} value={t.id}>{t.title}</SelectItem>)}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-muted-foreground">
+        {formatMinutes(totalMinutes(finished))} logged · {formatMinutes(unbilled)} not yet billed
+      </p>
+
+      {runningHere && running ? (
+        <div className="flex items-center justify-between gap-2 rounded-md bg-primary/10 p-2.5">
+          <div className="min-w-0">
+            <p className="font-mono text-lg">{formatElapsed(running.started_at, now)}</p>
+            <p className="text-xs text-muted-foreground truncate">
+              {[taskTitle(running.task_id), running.description].filter(Boolean).join(' · ') || 'Timer running'}
+            </p>
+          </div>
+          <Button size="sm" variant="destructive" onClick={stop} disabled={busy}>
+            <Square className="w-4 h-4 mr-1" /> Stop
+          </Button>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {running && (
+            <p className="text-xs text-yellow-500">
+              Your timer is running on another project; starting one here stops it.
+            </p>
+          )}
+          <div className="grid grid-cols-1 sm:grid-cols-[1fr_1fr_auto] gap-2">
+            {taskSelect(task, setTask)}
+            <Input
+              placeholder="What are you working on?"
+              maxLength={1000}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+            <Button size="sm" className="h-10" onClick={start} disabled={busy}>
+              <Play className="w-4 h-4 mr-1" /> Start
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {manualOpen ? (
+        <div className="space-y-2 rounded-md border border-border/40 bg-background/40 p-3">
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+            <div>
+              <Label>Date</Label>
+              <Input type="date" max={today()} value={manual.date} onChange={(e) => setManual({ ...manual, date: e.target.value })} />
+            </div>
+            <div>
+              <Label>Start</Label>
+              <Input type="time" value={manual.start} onChange={(e) => setManual({ ...manual, start: e.target.value })} />
+            </div>
+            <div>
+              <Label>Hours</Label>
+              <Input type="number" min={0} max={24} value={manual.hours} onChange={(e) => setManual({ ...manual, hours: e.target.value })} />
+            </div>
+            <div>
+              <Label>Minutes</Label>
+              <Input type="number" min={0} max={59} value={manual.minutes} onChange={(e) => setManual({ ...manual, minutes: e.target.value })} />
+            </div>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+            {taskSelect(manual.task, (value) => setManual({ ...manual, task: value }))}
+            <Input
+              placeholder="Description"
+              maxLength={1000}
+              value={manual.description}
+              onChange={(e) => setManual({ ...manual, description: e.target.value })}
+            />
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setManualOpen(false)} disabled={busy}>Cancel</Button>
+            <Button size="sm" onClick={addManual} disabled={busy}>
+              {busy && <Loader2 className="w-4 h-4 mr-1 animate-spin" />}
+              Add Time
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <Button variant="outline" size="sm" onClick={() => setManualOpen(true)}>
+          <Plus className="w-4 h-4 mr-1" /> Add Time Manually
+        </Button>
+      )}
+
+      {finished.length > 0 && (
+        <div className="space-y-1.5">
+          {finished.map((entry) => (
+            <div key={entry.id} className="flex items-center justify-between gap-2 rounded-md bg-background/40 px-2.5 py-2">
+              <div className="min-w-0">
+                <p className="text-sm">
+                  <span className="font-medium">{formatMinutes(entry.duration_minutes ?? 0)}</span>
+                  <span className="text-muted-foreground"> · {new Date(entry.started_at).toLocaleDateString()}</span>
+                  {taskTitle(entry.task_id) && <span className="text-muted-foreground"> · {taskTitle(entry.task_id)}</span>}
+                </p>
+                <p className="text-[11px] text-muted-foreground truncate">
+                  {[entry.project_managers?.name, entry.source === 'manual' ? 'Manual' : null, entry.description]
+                    .filter(Boolean).join(' · ')}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 shrink-0">
+                {isBilled(entry) && <Badge variant="secondary" className="text-[10px]">Billed</Badge>}
+                {!isBilled(entry) && entry.pm_id === pmId && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-destructive"
+                    title="Delete"
+                    disabled={busy}
+                    onClick={() => act(() => apiRef.current.remove(entry))}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TimeTracker;
@@ -0,0 +1,151 @@
+import { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, Download, Loader2, ShieldAlert, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import {
+  cancelAccountDeletion, downloadAccountData, fetchDeletionRequest, requestAccountDeletion, type AccountDeletionRequest,
+} from '@/lib/accountData';
+import StepUpVerification from './StepUpVerification';
+
+interface AccountDataCardProps {
+  email: string;
+  twoFactorEnabled: boolean;
+}
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString('en-IN', { day: 'numeric', month: 'long', year: 'numeric' });
+
+// Personal data rights: download a copy of everything, or delete the account after a grace period
+const AccountDataCard = ({ email, twoFactorEnabled }: AccountDataCardProps) => {
+  const [deletion, setDeletion] = useState<AccountDeletionRequest | null | undefined>(undefined);
+  const [exporting, setExporting] = useState(false);
+  const [cancelling, setCancelling] = useState(false);
+  const [dialogStep, setDialogStep] = useState<'confirm' | 'verify' | null>(null);
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  // Bumped to start verification over when a token turns out to be expired
+  const [verifyAttempt, setVerifyAttempt] = useState(0);
+  const { toast } = useToast();
+
+  const loadDeletion = useCallback(() => {
+    fetchDeletionRequest()
+      .then(setDeletion)
+      .catch((error: Error) => toast({ title: 'Error', description: error.message, variant: 'destructive' }));
+  }, [toast]);
+
+  useEffect(() => { loadDeletion(); }, [loadDeletion]);
+
+  const exportData = async () => {
+    setExporting(true);
+    try {
+      await downloadAccountData();
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setExporting(false);
+  };
+
+  const scheduleDeletion = async (stepUpToken: string) => {
+    setSubmitting(true);
+    try {
+      const scheduledFor = await requestAccountDeletion(stepUpToken, reason);
+      if (!scheduledFor) {
+        toast({ title: 'Verification expired', description: 'Please verify again', variant: 'destructive' });
+        setVerifyAttempt((attempt) => attempt + 1);
+      } else {
+        toast({ title: 'Account deletion scheduled', description: `Your account will be deleted on ${formatDate(scheduledFor)}.` });
+        setDialogStep(null);
+        setReason('');
+        loadDeletion();
+      }
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setSubmitting(false);
+  };
+
+  const cancelDeletion = async () => {
+    setCancelling(true);
+    try {
+      await cancelAccountDeletion();
+      toast({ title: 'Deletion cancelled', description: 'Your account will stay open.' });
+      loadDeletion();
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setCancelling(false);
+  };
+
+  return (
+    <div className="glass-card rounded-xl p-6 space-y-4">
+      <h2 className="text-lg font-semibold flex items-center gap-2"><ShieldAlert className="w-5 h-5" /> Your Data</h2>
+      <p className="text-sm text-muted-foreground">
+        Download a copy of your profile, requests, payments and messages, or delete your account.
+      </p>
+
+      <Button variant="outline" className="w-full" onClick={exportData} disabled={exporting}>
+        {exporting
+          ? <><Loader2 className="w-4 h-4 mr-2 animate-spin" />Preparing download...</>
+          : <><Download className="w-4 h-4 mr-2" />Download My Data</>}
+      </Button>
+
+      {deletion === undefined ? (
+        <div className="flex justify-center"><Loader2 className="w-5 h-5 animate-spin text-primary" /></div>
+      ) : deletion ? (
+        <div className="rounded-lg border border-destructive/30 bg-destructive/10 p-4 space-y-3">
+          <p className="text-sm flex items-start gap-2">
+            <AlertTriangle className="w-4 h-4 text-destructive shrink-0 mt-0.5" />
+            Your account is scheduled for deletion on <span className="font-medium">{formatDate(deletion.scheduled_for)}</span>.
+          </p>
+          <Button variant="outline" className="w-full" onClick={cancelDeletion} disabled={cancelling}>
+            {cancelling ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Keep My Account'}
+          </Button>
+        </div>
+      ) : (
+        <Button variant="outline" className="w-full text-destructive" onClick={() => setDialogStep('confirm')}>
+          <Trash2 className="w-4 h-4 mr-2" /> Delete My Account
+        </Button>
+      )}
+
+      <Dialog open={dialogStep !== null} onOpenChange={(open) => { if (!open) setDialogStep(null); }}>
+        <DialogContent className="glass-card border-border max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2"><Trash2 className="w-5 h-5" /> Delete Account</DialogTitle>
+          </DialogHeader>
+
+          {dialogStep === 'confirm' && (
+            <div className="space-y-4">
+              <ul className="text-sm text-muted-foreground list-disc pl-5 space-y-1">
+                <li>Your account is deleted 14 days from now. Until then you can sign in and cancel.</li>
+                <li>Your profile, requests, messages and uploaded files are erased.</li>
+                <li>Payments and issued invoices are kept without your personal details, as the law requires for accounting.</li>
+              </ul>
+              <div>
+                <Label>Why are you leaving? (optional)</Label>
+                <Textarea value={reason} onChange={(e) => setReason(e.target.value)} maxLength={1000} rows={3} />
+              </div>
+              <Button variant="destructive" className="w-full" onClick={() => setDialogStep('verify')}>Continue</Button>
+            </div>
+          )}
+
+          {dialogStep === 'verify' && (submitting ? (
+            <div className="flex justify-center py-8"><Loader2 className="w-6 h-6 animate-spin text-primary" /></div>
+          ) : (
+            <StepUpVerification
+              key={verifyAttempt}
+              purpose="delete_account"
+              email={email}
+              twoFactorEnabled={twoFactorEnabled}
+              onVerified={scheduleDeletion}
+            />
+          ))}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AccountDataCard;
@@ -0,0 +1,69 @@
+import { useEffect, useState } from 'react';
+import { History, Loader2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { LOGIN_EVENT_LABELS, describeUserAgent, type LoginEventType } from '@/lib/accountSecurity';
+
+interface LoginEvent {
+  id: string;
+  event: string;
+  success: boolean;
+  ip: string | null;
+  user_agent: string | null;
+  location: string | null;
+  created_at: string;
+}
+
+// Recent sign-in attempts on the account, including ones that failed
+const LoginHistoryCard = () => {
+  const [events, setEvents] = useState<LoginEvent[] | null>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    supabase
+      .from('login_events')
+      .select('id, event, success, ip, user_agent, location, created_at')
+      .order('created_at', { ascending: false })
+      .limit(30)
+      .then(({ data, error }) => {
+        if (error) toast({ title: 'Error', description: error.message, variant: 'destructive' });
+        setEvents(data ?? []);
+      });
+  }, [toast]);
+
+  return (
+    <div className="glass-card rounded-xl p-6 space-y-4">
+      <h2 className="text-lg font-semibold flex items-center gap-2"><History className="w-5 h-5" /> Login History</h2>
+      <p className="text-sm text-muted-foreground">
+        The last 30 sign-ins and security checks. If you don't recognise one, change your password and sign out everywhere.
+      </p>
+
+      {!events ? (
+        <div className="flex justify-center"><Loader2 className="w-5 h-5 animate-spin text-primary" /></div>
+      ) : events.length === 0 ? (
+        <p className="text-sm text-muted-foreground text-center">No sign-ins recorded yet</p>
+      ) : (
+        <div className="divide-y divide-border">
+          {events.map((event) => (
+            <div key={event.id} className="py-2 flex items-start justify-between gap-3 text-sm">
+              <div className="min-w-0">
+                <p className="font-medium">
+                  {LOGIN_EVENT_LABELS[event.event as LoginEventType] ?? event.event}
+                  <span className={`ml-2 text-xs ${event.success ? 'text-green-500' : 'text-destructive'}`}>
+                    {event.success ? 'Succeeded' : 'Failed'}
+                  </span>
+                </p>
+                <p className="text-xs text-muted-foreground truncate">
+                  {describeUserAgent(event.user_agent)} · {event.location || event.ip || 'Unknown location'}
+                </p>
+              </div>
+              <span className="text-xs text-muted-foreground shrink-0">{new Date(event.created_at).toLocaleString()}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LoginHistoryCard;
@@ -0,0 +1,40 @@
+import { Copy, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+
+// Freshly generated recovery codes. They are only ever shown once, so offer copy and download.
+const RecoveryCodes = ({ codes }: { codes: string[] }) => {
+  const { toast } = useToast();
+  const text = codes.join('\n');
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(text);
+    toast({ title: 'Recovery codes copied' });
+  };
+
+  const download = () => {
+    const url = URL.createObjectURL(new Blob([`THRYLOS recovery codes\n\n${text}\n`], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'thrylos-recovery-codes.txt';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground">
+        Each code works once if you lose access to your authenticator app. Store them somewhere safe; they won't be shown again.
+      </p>
+      <div className="grid grid-cols-2 gap-2 rounded-lg bg-muted/50 border border-border p-4 font-mono text-sm text-center">
+        {codes.map((code) => <span key={code}>{code}</span>)}
+      </div>
+      <div className="flex gap-2">
+        <Button variant="outline" size="sm" className="flex-1" onClick={copy}><Copy className="w-4 h-4 mr-2" />Copy</Button>
+        <Button variant="outline" size="sm" className="flex-1" onClick={download}><Download className="w-4 h-4 mr-2" />Download</Button>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryCodes;
@@ -0,0 +1,104 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, LogOut, Monitor, Smartphone } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription,
+  AlertDialogFooter, AlertDialogHeader, AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+import { describeUserAgent, fetchSessions, revokeSession, type ActiveSession } from '@/lib/accountSecurity';
+
+const isMobile = (userAgent: string | null) => !!userAgent && /Mobile|Android|iPhone|iPad/.test(userAgent);
+
+// Devices signed in to this account, with per-session and global sign-out
+const SessionsCard = () => {
+  const [sessions, setSessions] = useState<ActiveSession[] | null>(null);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [confirmGlobal, setConfirmGlobal] = useState(false);
+  const { toast } = useToast();
+
+  const loadSessions = useCallback(() => {
+    fetchSessions()
+      .then(setSessions)
+      .catch((error: Error) => toast({ title: 'Error', description: error.message, variant: 'destructive' }));
+  }, [toast]);
+
+  useEffect(() => { loadSessions(); }, [loadSessions]);
+
+  const revoke = async (sessionId: string) => {
+    setRevoking(sessionId);
+    try {
+      await revokeSession(sessionId);
+      toast({ title: 'Session signed out', description: 'That device will need to sign in again within the hour.' });
+      loadSessions();
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setRevoking(null);
+  };
+
+  // Ends every session including this one; useAuth then sends the user back to sign in
+  const signOutEverywhere = async () => {
+    const { error } = await supabase.auth.signOut({ scope: 'global' });
+    if (error) toast({ title: 'Error', description: error.message, variant: 'destructive' });
+  };
+
+  return (
+    <div className="glass-card rounded-xl p-6 space-y-4">
+      <h2 className="text-lg font-semibold flex items-center gap-2"><Monitor className="w-5 h-5" /> Active Sessions</h2>
+      <p className="text-sm text-muted-foreground">Devices currently signed in to your account. Locations are approximate.</p>
+
+      {!sessions ? (
+        <div className="flex justify-center"><Loader2 className="w-5 h-5 animate-spin text-primary" /></div>
+      ) : (
+        <div className="space-y-2">
+          {sessions.map((session) => {
+            const DeviceIcon = isMobile(session.user_agent) ? Smartphone : Monitor;
+            return (
+              <div key={session.id} className="flex items-center gap-3 rounded-lg border border-border p-3">
+                <DeviceIcon className="w-5 h-5 text-muted-foreground shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium flex items-center gap-2">
+                    {describeUserAgent(session.user_agent)}
+                    {session.is_current && <Badge variant="outline" className="text-green-500 border-green-500/30">This device</Badge>}
+                  </p>
+                  <p className="text-xs text-muted-foreground truncate">
+                    {session.location || session.ip || 'Unknown location'} · Last active {new Date(session.last_seen_at).toLocaleString()}
+                  </p>
+                </div>
+                {!session.is_current && (
+                  <Button variant="ghost" size="sm" onClick={() => revoke(session.id)} disabled={revoking === session.id}>
+                    {revoking === session.id ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Sign out'}
+                  </Button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Button variant="outline" className="w-full text-destructive" onClick={() => setConfirmGlobal(true)}>
+        <LogOut className="w-4 h-4 mr-2" /> Sign Out Everywhere
+      </Button>
+
+      <AlertDialog open={confirmGlobal} onOpenChange={setConfirmGlobal}>
+        <AlertDialogContent className="glass-card border-border">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Sign out everywhere?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every device, including this one, will have to sign in again.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={signOutEverywhere}>Sign Out Everywhere</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+};
+
+export default SessionsCard;
@@ -0,0 +1,118 @@
+import { useState } from 'react';
+import { KeyRound, Loader2, Mail } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { InputOTP, InputOTPGroup, InputOTPSlot, InputOTPSeparator } from '@/components/ui/input-otp';
+import { useToast } from '@/hooks/use-toast';
+import { requestStepUpCode, verifyStepUp, verifyStepUpWithTwoFactor, type StepUpPurpose } from '@/lib/stepUp';
+import type { TwoFactorProof } from '@/lib/twoFactor';
+import TwoFactorCodeForm from './TwoFactorCodeForm';
+
+interface StepUpVerificationProps {
+  purpose: StepUpPurpose;
+  email: string;
+  // Offer the authenticator app as an alternative to the emailed code
+  twoFactorEnabled: boolean;
+  onVerified: (stepUpToken: string) => void;
+}
+
+// "Confirm it's you" before a sensitive operation: an emailed code or an authenticator code
+const StepUpVerification = ({ purpose, email, twoFactorEnabled, onVerified }: StepUpVerificationProps) => {
+  const [step, setStep] = useState<'send' | 'otp' | 'authenticator'>('send');
+  const [otp, setOtp] = useState('');
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const sendCode = async () => {
+    setBusy(true);
+    try {
+      await requestStepUpCode(purpose);
+      toast({ title: 'OTP Sent!', description: 'Check your email for the verification code' });
+      setStep('otp');
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setBusy(false);
+  };
+
+  const verifyCode = async () => {
+    setBusy(true);
+    try {
+      onVerified(await verifyStepUp(purpose, otp));
+    } catch (error) {
+      setOtp('');
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setBusy(false);
+  };
+
+  const verifyAuthenticator = async (proof: TwoFactorProof) => {
+    try {
+      onVerified(await verifyStepUpWithTwoFactor(purpose, proof));
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  if (step === 'authenticator') {
+    return (
+      <div className="space-y-4">
+        <p className="text-sm text-muted-foreground text-center">Enter the code from your authenticator app</p>
+        <TwoFactorCodeForm submitLabel="Verify & Continue" onSubmit={verifyAuthenticator} />
+      </div>
+    );
+  }
+
+  if (step === 'otp') {
+    return (
+      <div className="space-y-5">
+        <div className="text-center">
+          <div className="w-14 h-14 rounded-2xl bg-primary/10 border border-primary/20 flex items-center justify-center mx-auto mb-3">
+            <KeyRound className="w-7 h-7 text-primary" />
+          </div>
+          <p className="text-sm text-muted-foreground mb-1">Code sent to</p>
+          <p className="font-medium">{email}</p>
+        </div>
+        <div className="flex justify-center">
+          <InputOTP maxLength={6} value={otp} onChange={setOtp}>
+            <InputOTPGroup>
+              <InputOTPSlot index={0} className="w-12 h-14 text-lg border-2 rounded-lg" />
+              <InputOTPSlot index={1} className="w-12 h-14 text-lg border-2 rounded-lg" />
+              <InputOTPSlot index={2} className="w-12 h-14 text-lg border-2 rounded-lg" />
+            </InputOTPGroup>
+            <InputOTPSeparator />
+            <InputOTPGroup>
+              <InputOTPSlot index={3} className="w-12 h-14 text-lg border-2 rounded-lg" />
+              <InputOTPSlot index={4} className="w-12 h-14 text-lg border-2 rounded-lg" />
+              <InputOTPSlot index={5} className="w-12 h-14 text-lg border-2 rounded-lg" />
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+        <Button onClick={verifyCode} className="w-full" disabled={otp.length !== 6 || busy}>
+          {busy ? <><Loader2 className="w-4 h-4 mr-2 animate-spin" />Verifying...</> : 'Verify & Continue'}
+        </Button>
+        <button onClick={sendCode} disabled={busy} className="w-full text-center text-sm text-primary hover:underline disabled:opacity-50">
+          Resend Code
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 text-center">
+      <div className="w-14 h-14 rounded-2xl bg-primary/10 border border-primary/20 flex items-center justify-center mx-auto">
+        <Mail className="w-7 h-7 text-primary" />
+      </div>
+      <p className="text-sm text-muted-foreground">We'll send a verification code to <span className="font-medium text-foreground">{email}</span></p>
+      <Button onClick={sendCode} className="w-full" disabled={busy}>
+        {busy ? <><Loader2 className="w-4 h-4 mr-2 animate-spin" />Sending...</> : 'Send Verification Code'}
+      </Button>
+      {twoFactorEnabled && (
+        <Button variant="outline" onClick={() => setStep('authenticator')} className="w-full" disabled={busy}>
+          Use Authenticator App Instead
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default StepUpVerification;
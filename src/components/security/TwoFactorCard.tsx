@@ -0,0 +1,130 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Loader2, ShieldCheck, ShieldOff, Smartphone } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/hooks/use-toast';
+import { twoFactorApi, type TwoFactorAuth, type TwoFactorProof, type TwoFactorStatus } from '@/lib/twoFactor';
+import TwoFactorCodeForm from './TwoFactorCodeForm';
+import TwoFactorEnroll from './TwoFactorEnroll';
+import RecoveryCodes from './RecoveryCodes';
+
+type DialogMode = 'enroll' | 'disable' | 'regenerate' | null;
+
+interface TwoFactorCardProps {
+  auth?: TwoFactorAuth;
+  // Lets the page refresh anything that depends on whether 2FA is on
+  onChange?: () => void;
+}
+
+// Authenticator app settings: turn 2FA on or off and replace recovery codes
+const TwoFactorCard = ({ auth, onChange }: TwoFactorCardProps) => {
+  const [status, setStatus] = useState<TwoFactorStatus | null>(null);
+  const [mode, setMode] = useState<DialogMode>(null);
+  const [newCodes, setNewCodes] = useState<string[] | null>(null);
+  const { toast } = useToast();
+
+  const pmSession = auth?.pmSession;
+
+  const fetchStatus = useCallback(() => {
+    twoFactorApi<TwoFactorStatus>('status', {}, pmSession ? { pmSession } : undefined)
+      .then(setStatus)
+      .catch((error: Error) => toast({ title: 'Error', description: error.message, variant: 'destructive' }));
+  }, [pmSession, toast]);
+
+  useEffect(() => { fetchStatus(); }, [fetchStatus]);
+
+  const closeDialog = () => { setMode(null); setNewCodes(null); fetchStatus(); onChange?.(); };
+
+  const disable = async (proof: TwoFactorProof) => {
+    try {
+      await twoFactorApi('disable', proof, auth);
+      toast({ title: 'Two-factor authentication turned off' });
+      closeDialog();
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const regenerate = async (proof: TwoFactorProof) => {
+    try {
+      const data = await twoFactorApi<{ recoveryCodes: string[] }>('recovery_codes', proof, auth);
+      setNewCodes(data.recoveryCodes);
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="glass-card rounded-xl p-6 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h2 className="text-lg font-semibold flex items-center gap-2"><Smartphone className="w-5 h-5" /> Two-Factor Authentication</h2>
+        {status && (
+          <Badge variant="outline" className={status.enabled ? 'text-green-500 border-green-500/30' : ''}>
+            {status.enabled ? 'On' : 'Off'}
+          </Badge>
+        )}
+      </div>
+      <p className="text-sm text-muted-foreground">
+        Ask for a code from an authenticator app each time you sign in.
+        {status?.required && ' Your account type requires it.'}
+      </p>
+
+      {!status ? (
+        <div className="flex justify-center"><Loader2 className="w-5 h-5 animate-spin text-primary" /></div>
+      ) : status.enabled ? (
+        <div className="space-y-3">
+          <p className="text-sm">
+            Recovery codes left: <span className="font-medium">{status.recoveryCodesLeft}</span>
+          </p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <Button variant="outline" className="flex-1" onClick={() => setMode('regenerate')}>New Recovery Codes</Button>
+            {!status.required && (
+              <Button variant="outline" className="flex-1 text-destructive" onClick={() => setMode('disable')}>
+                <ShieldOff className="w-4 h-4 mr-2" /> Turn Off
+              </Button>
+            )}
+          </div>
+        </div>
+      ) : (
+        <Button variant="outline" className="w-full" onClick={() => setMode('enroll')}>
+          <ShieldCheck className="w-4 h-4 mr-2" /> Set Up Authenticator App
+        </Button>
+      )}
+
+      <Dialog open={mode !== null} onOpenChange={(open) => { if (!open) closeDialog(); }}>
+        <DialogContent className="glass-card border-border max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {mode === 'enroll' ? 'Set Up Two-Factor Authentication' :
+               mode === 'disable' ? 'Turn Off Two-Factor Authentication' : 'New Recovery Codes'}
+            </DialogTitle>
+          </DialogHeader>
+
+          {mode === 'enroll' && <TwoFactorEnroll auth={auth} onEnabled={closeDialog} />}
+
+          {mode === 'disable' && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">Enter a code from your authenticator app to confirm.</p>
+              <TwoFactorCodeForm submitLabel="Turn Off" onSubmit={disable} />
+            </div>
+          )}
+
+          {mode === 'regenerate' && (newCodes ? (
+            <div className="space-y-4">
+              <RecoveryCodes codes={newCodes} />
+              <Button className="w-full" onClick={closeDialog}>Done</Button>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">Your old recovery codes will stop working. Enter a code to continue.</p>
+              <TwoFactorCodeForm submitLabel="Generate New Codes" onSubmit={regenerate} />
+            </div>
+          ))}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TwoFactorCard;
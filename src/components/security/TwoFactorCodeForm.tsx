@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { InputOTP, InputOTPGroup, InputOTPSlot, InputOTPSeparator } from '@/components/ui/input-otp';
+import type { TwoFactorProof } from '@/lib/twoFactor';
+
+interface TwoFactorCodeFormProps {
+  submitLabel: string;
+  onSubmit: (proof: TwoFactorProof) => Promise<void>;
+  // Recovery codes can stand in for the authenticator, except when confirming a new enrollment
+  allowRecoveryCode?: boolean;
+}
+
+// Six-digit authenticator code entry, with a switch to type a recovery code instead
+const TwoFactorCodeForm = ({ submitLabel, onSubmit, allowRecoveryCode = true }: TwoFactorCodeFormProps) => {
+  const [useRecovery, setUseRecovery] = useState(false);
+  const [code, setCode] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const canSubmit = useRecovery ? recoveryCode.trim().length >= 10 : code.length === 6;
+
+  const submit = async () => {
+    if (!canSubmit) return;
+    setSubmitting(true);
+    try {
+      await onSubmit(useRecovery ? { recoveryCode: recoveryCode.trim() } : { code });
+    } finally {
+      // A rejected code is cleared so the next attempt starts fresh
+      setCode('');
+      setRecoveryCode('');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {useRecovery ? (
+        <Input
+          placeholder="xxxxx-xxxxx"
+          value={recoveryCode}
+          onChange={(e) => setRecoveryCode(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && submit()}
+          className="text-center font-mono tracking-wider"
+          autoFocus
+        />
+      ) : (
+        <div className="flex justify-center">
+          <InputOTP maxLength={6} value={code} onChange={setCode} autoFocus>
+            <InputOTPGroup>
+              <InputOTPSlot index={0} className="w-12 h-14 text-lg border-2 rounded-lg" />
+              <InputOTPSlot index={1} className="w-12 h-14 text-lg border-2 rounded-lg" />
+              <InputOTPSlot index={2} className="w-12 h-14 text-lg border-2 rounded-lg" />
+            </InputOTPGroup>
+            <InputOTPSeparator />
+            <InputOTPGroup>
+              <InputOTPSlot index={3} className="w-12 h-14 text-lg border-2 rounded-lg" />
+              <InputOTPSlot index={4} className="w-12 h-14 text-lg border-2 rounded-lg" />
+              <InputOTPSlot index={5} className="w-12 h-14 text-lg border-2 rounded-lg" />
+            </InputOTPGroup>
+          </InputOTP>
+        </div>
+      )}
+
+      <Button onClick={submit} className="w-full" disabled={!canSubmit || submitting}>
+        {submitting ? <><Loader2 className="w-4 h-4 mr-2 animate-spin" />Verifying...</> : submitLabel}
+      </Button>
+
+      {allowRecoveryCode && (
+        <button
+          type="button"
+          onClick={() => setUseRecovery(!useRecovery)}
+          className="w-full text-center text-sm text-primary hover:underline"
+        >
+          {useRecovery ? 'Use authenticator app instead' : 'Lost your phone? Use a recovery code'}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default TwoFactorCodeForm;
@@ -0,0 +1,73 @@
+import { useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useToast } from '@/hooks/use-toast';
+import { twoFactorApi, type TwoFactorAuth, type TwoFactorEnrollment, type TwoFactorProof } from '@/lib/twoFactor';
+import TwoFactorCodeForm from './TwoFactorCodeForm';
+import RecoveryCodes from './RecoveryCodes';
+
+interface TwoFactorEnrollProps {
+  auth?: TwoFactorAuth;
+  // Called once the user has confirmed a code and seen their recovery codes
+  onEnabled: () => void;
+}
+
+// Authenticator setup: scan the QR code, confirm a code, save the recovery codes
+const TwoFactorEnroll = ({ auth, onEnabled }: TwoFactorEnrollProps) => {
+  const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const { toast } = useToast();
+
+  // Keyed on the token rather than the auth object so a parent re-render doesn't restart enrollment
+  const pmSession = auth?.pmSession;
+
+  useEffect(() => {
+    twoFactorApi<TwoFactorEnrollment>('enroll', {}, pmSession ? { pmSession } : undefined)
+      .then(setEnrollment)
+      .catch((error: Error) => toast({ title: 'Error', description: error.message, variant: 'destructive' }));
+  }, [pmSession, toast]);
+
+  const activate = async (proof: TwoFactorProof) => {
+    try {
+      const data = await twoFactorApi<{ recoveryCodes: string[] }>('activate', proof, auth);
+      setRecoveryCodes(data.recoveryCodes);
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  if (recoveryCodes) {
+    return (
+      <div className="space-y-4">
+        <p className="font-medium text-center">Two-factor authentication is on</p>
+        <RecoveryCodes codes={recoveryCodes} />
+        <Button className="w-full" onClick={onEnabled}>I've saved my recovery codes</Button>
+      </div>
+    );
+  }
+
+  if (!enrollment) {
+    return <div className="flex justify-center py-8"><Loader2 className="w-6 h-6 animate-spin text-primary" /></div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground text-center">
+        Scan this code with Google Authenticator, Microsoft Authenticator, 1Password or a similar app.
+      </p>
+      <img
+        src={`data:image/svg+xml;utf8,${encodeURIComponent(enrollment.qrSvg)}`}
+        alt="Authenticator QR code"
+        className="w-48 h-48 mx-auto rounded-lg bg-white p-2"
+      />
+      <div className="text-center">
+        <p className="text-xs text-muted-foreground mb-1">Can't scan? Enter this key instead</p>
+        <code className="text-xs font-mono break-all select-all">{enrollment.secret}</code>
+      </div>
+      <p className="text-sm text-center">Then enter the 6-digit code it shows</p>
+      <TwoFactorCodeForm submitLabel="Turn On" onSubmit={activate} allowRecoveryCode={false} />
+    </div>
+  );
+};
+
+export default TwoFactorEnroll;
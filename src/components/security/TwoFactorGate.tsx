@@ -0,0 +1,56 @@
+import { ShieldCheck } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { twoFactorApi, type TwoFactorAuth, type TwoFactorProof } from '@/lib/twoFactor';
+import TwoFactorCodeForm from './TwoFactorCodeForm';
+import TwoFactorEnroll from './TwoFactorEnroll';
+
+interface TwoFactorGateProps {
+  auth?: TwoFactorAuth;
+  // Whether the account already has an authenticator; if not, 2FA is mandatory and must be set up now
+  enabled: boolean;
+  onVerified: () => void;
+  onCancel: () => void;
+}
+
+// Second step of sign-in: enter an authenticator code, or set one up when the account type requires it
+const TwoFactorGate = ({ auth, enabled, onVerified, onCancel }: TwoFactorGateProps) => {
+  const { toast } = useToast();
+
+  const verify = async (proof: TwoFactorProof) => {
+    try {
+      const data = await twoFactorApi<{ recoveryCodesLeft: number }>('verify', proof, auth);
+      if ('recoveryCode' in proof) {
+        toast({ title: 'Recovery code used', description: `${data.recoveryCodesLeft} left. Generate new ones from your security settings.` });
+      }
+      onVerified();
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="text-center">
+        <div className="w-14 h-14 rounded-2xl bg-primary/10 border border-primary/20 flex items-center justify-center mx-auto mb-3">
+          <ShieldCheck className="w-7 h-7 text-primary" />
+        </div>
+        <p className="font-medium">{enabled ? 'Two-factor authentication' : 'Set up two-factor authentication'}</p>
+        <p className="text-sm text-muted-foreground">
+          {enabled
+            ? 'Enter the 6-digit code from your authenticator app'
+            : 'Your account must use an authenticator app before you can continue'}
+        </p>
+      </div>
+
+      {enabled
+        ? <TwoFactorCodeForm submitLabel="Verify" onSubmit={verify} />
+        : <TwoFactorEnroll auth={auth} onEnabled={onVerified} />}
+
+      <button type="button" onClick={onCancel} className="w-full text-center text-sm text-muted-foreground hover:underline">
+        Sign out
+      </button>
+    </div>
+  );
+};
+
+export default TwoFactorGate;
@@ -1,55 +1,119 @@
-import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
-
-const ADMIN_PASSWORD = '628400@thrylosindia';
-const ADMIN_SESSION_KEY = 'thrylos_admin_session';
+import { useState, useEffect, useCallback, createContext, useContext, ReactNode } from 'react';
+import { Session } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { reportPasswordLogin } from '@/lib/accountSecurity';
+import { twoFactorApi, twoFactorPending, type TwoFactorStatus } from '@/lib/twoFactor';
 
 interface AdminAuthContextType {
   isAdminAuthenticated: boolean;
   loading: boolean;
-  adminLogin: (password: string) => boolean;
-  adminLogout: () => void;
+  // Set when an admin has signed in but still owes a second factor
+  pendingTwoFactor: TwoFactorStatus | null;
+  completeTwoFactor: () => Promise<void>;
+  adminLogin: (email: string, password: string) => Promise<{ error: Error | null; twoFactorPending?: boolean }>;
+  adminLogout: () => Promise<void>;
   getAdminToken: () => string | null;
 }
 
 const AdminAuthContext = createContext<AdminAuthContextType | undefined>(undefined);
 
+// Admin access is granted by the 'admin' row in user_roles, checked through has_role()
+const checkIsAdmin = async (userId: string): Promise<boolean> => {
+  const { data, error } = await supabase.rpc('has_role', { _user_id: userId, _role: 'admin' });
+  if (error) {
+    console.error('Error checking admin role:', error);
+    return false;
+  }
+  return data === true;
+};
+
+const fetchTwoFactorStatus = async (): Promise<TwoFactorStatus | null> => {
+  try {
+    return await twoFactorApi<TwoFactorStatus>('status');
+  } catch (error) {
+    console.error('Error loading two-factor status:', error);
+    return null;
+  }
+};
+
+// An admin session only counts once any required second factor has been passed
+const resolveAdminSession = async (session: Session | null) => {
+  const isAdmin = session ? await checkIsAdmin(session.user.id) : false;
+  const status = isAdmin ? await fetchTwoFactorStatus() : null;
+  return { isAdmin, pendingTwoFactor: twoFactorPending(status) ? status : null };
+};
+
 export const AdminAuthProvider = ({ children }: { children: ReactNode }) => {
+  const [session, setSession] = useState<Session | null>(null);
   const [isAdminAuthenticated, setIsAdminAuthenticated] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [pendingTwoFactor, setPendingTwoFactor] = useState<TwoFactorStatus | null>(null);
 
-  useEffect(() => {
-    const session = sessionStorage.getItem(ADMIN_SESSION_KEY);
-    if (session === 'authenticated') {
-      setIsAdminAuthenticated(true);
-    }
-    setLoading(false);
+  const applyAdminSession = useCallback(async (nextSession: Session | null) => {
+    const resolved = await resolveAdminSession(nextSession);
+    setSession(nextSession);
+    setPendingTwoFactor(resolved.pendingTwoFactor);
+    setIsAdminAuthenticated(resolved.isAdmin && !resolved.pendingTwoFactor);
+    return resolved;
   }, []);
 
-  const adminLogin = (password: string): boolean => {
-    if (password === ADMIN_PASSWORD) {
-      sessionStorage.setItem(ADMIN_SESSION_KEY, 'authenticated');
-      setIsAdminAuthenticated(true);
-      return true;
+  useEffect(() => {
+    const applySession = async (nextSession: Session | null) => {
+      await applyAdminSession(nextSession);
+      setLoading(false);
+    };
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(
+      (_event, nextSession) => {
+        // Defer the role lookup so it does not run inside the auth callback
+        setTimeout(() => applySession(nextSession), 0);
+      }
+    );
+
+    supabase.auth.getSession().then(({ data: { session } }) => applySession(session));
+
+    return () => subscription.unsubscribe();
+  }, [applyAdminSession]);
+
+  const adminLogin = async (email: string, password: string) => {
+    const { data, error } = await supabase.auth.signInWithPassword({ email, password });
+    await reportPasswordLogin(data.session);
+    if (error) return { error: error as Error };
+
+    const { isAdmin, pendingTwoFactor } = await applyAdminSession(data.session);
+    if (!isAdmin) {
+      await supabase.auth.signOut();
+      return { error: new Error('This account does not have admin access') };
     }
-    return false;
+
+    return { error: null, twoFactorPending: !!pendingTwoFactor };
+  };
+
+  const completeTwoFactor = async () => {
+    const { data: { session: current } } = await supabase.auth.getSession();
+    await applyAdminSession(current);
   };
 
-  const adminLogout = () => {
-    sessionStorage.removeItem(ADMIN_SESSION_KEY);
+  const adminLogout = async () => {
+    await supabase.auth.signOut();
+    setSession(null);
+    setPendingTwoFactor(null);
     setIsAdminAuthenticated(false);
   };
 
   const getAdminToken = (): string | null => {
-    return sessionStorage.getItem(ADMIN_SESSION_KEY) === 'authenticated' ? ADMIN_PASSWORD : null;
+    return isAdminAuthenticated ? session?.access_token ?? null : null;
   };
 
   return (
-    <AdminAuthContext.Provider value={{ 
-      isAdminAuthenticated, 
-      loading, 
-      adminLogin, 
+    <AdminAuthContext.Provider value={{
+      isAdminAuthenticated,
+      loading,
+      pendingTwoFactor,
+      completeTwoFactor,
+      adminLogin,
       adminLogout,
-      getAdminToken 
+      getAdminToken
     }}>
       {children}
     </AdminAuthContext.Provider>
@@ -1,11 +1,16 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { twoFactorApi, type TwoFactorStatus } from '@/lib/twoFactor';
+import { reportPasswordLogin } from '@/lib/accountSecurity';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   loading: boolean;
+  // Null while signed out or if the status couldn't be loaded
+  twoFactor: TwoFactorStatus | null;
+  refreshTwoFactor: () => Promise<void>;
   signUp: (email: string, password: string, fullName: string) => Promise<{ error: Error | null }>;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
@@ -13,29 +18,48 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+const fetchTwoFactorStatus = async (): Promise<TwoFactorStatus | null> => {
+  try {
+    return await twoFactorApi<TwoFactorStatus>('status');
+  } catch (error) {
+    console.error('Error loading two-factor status:', error);
+    return null;
+  }
+};
+
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const [twoFactor, setTwoFactor] = useState<TwoFactorStatus | null>(null);
 
   useEffect(() => {
+    // The user and their two-factor status are published together, so pages never see a
+    // signed-in user before knowing whether the session still owes a second factor
+    const applySession = async (nextSession: Session | null) => {
+      const status = nextSession ? await fetchTwoFactorStatus() : null;
+      setSession(nextSession);
+      setUser(nextSession?.user ?? null);
+      setTwoFactor(status);
+      setLoading(false);
+    };
+
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      (event, session) => {
-        setSession(session);
-        setUser(session?.user ?? null);
-        setLoading(false);
+      (_event, nextSession) => {
+        // Defer the status call so it does not run inside the auth callback
+        setTimeout(() => applySession(nextSession), 0);
       }
     );
 
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setSession(session);
-      setUser(session?.user ?? null);
-      setLoading(false);
-    });
+    supabase.auth.getSession().then(({ data: { session } }) => applySession(session));
 
     return () => subscription.unsubscribe();
   }, []);
 
+  const refreshTwoFactor = async () => {
+    setTwoFactor(await fetchTwoFactorStatus());
+  };
+
   const signUp = async (email: string, password: string, fullName: string) => {
     const redirectUrl = `${window.location.origin}/`;
     
@@ -53,10 +77,11 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   };
 
   const signIn = async (email: string, password: string) => {
-    const { error } = await supabase.auth.signInWithPassword({
+    const { data, error } = await supabase.auth.signInWithPassword({
       email,
       password,
     });
+    await reportPasswordLogin(data.session);
     return { error: error as Error | null };
   };
 
@@ -65,7 +90,7 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, loading, signUp, signIn, signOut }}>
+    <AuthContext.Provider value={{ user, session, loading, twoFactor, refreshTwoFactor, signUp, signIn, signOut }}>
       {children}
     </AuthContext.Provider>
   );
@@ -14,6 +14,114 @@ export type Database = {
   }
   public: {
     Tables: {
+      account_deletion_requests: {
+        Row: {
+          reason: string | null
+          requested_at: string
+          scheduled_for: string
+          user_id: string
+        }
+        Insert: {
+          reason?: string | null
+          requested_at?: string
+          scheduled_for: string
+          user_id: string
+        }
+        Update: {
+          reason?: string | null
+          requested_at?: string
+          scheduled_for?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      audit_events: {
+        Row: {
+          action: string
+          actor_id: string
+          actor_label: string | null
+          actor_type: string
+          after: Json | null
+          before: Json | null
+          created_at: string
+          id: string
+          record_id: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_id: string
+          actor_label?: string | null
+          actor_type: string
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          id?: string
+          record_id?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string
+          actor_label?: string | null
+          actor_type?: string
+          after?: Json | null
+          before?: Json | null
+          created_at?: string
+          id?: string
+          record_id?: string | null
+          table_name?: string
+        }
+        Relationships: []
+      }
+      billing_settings: {
+        Row: {
+          address: string | null
+          created_at: string
+          default_hourly_rate: number
+          default_payment_terms_days: number
+          email: string | null
+          gstin: string | null
+          id: string
+          invoice_prefix: string
+          legal_name: string
+          phone: string | null
+          quote_prefix: string
+          state: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string
+          default_hourly_rate?: number
+          default_payment_terms_days?: number
+          email?: string | null
+          gstin?: string | null
+          id?: string
+          invoice_prefix?: string
+          legal_name?: string
+          phone?: string | null
+          quote_prefix?: string
+          state?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          created_at?: string
+          default_hourly_rate?: number
+          default_payment_terms_days?: number
+          email?: string | null
+          gstin?: string | null
+          id?: string
+          invoice_prefix?: string
+          legal_name?: string
+          phone?: string | null
+          quote_prefix?: string
+          state?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       contact_messages: {
         Row: {
           created_at: string
@@ -50,82 +158,239 @@ export type Database = {
         }
         Relationships: []
       }
-      otp_verifications: {
+      email_templates: {
         Row: {
           created_at: string
-          email: string
-          expires_at: string
+          html_body: string
           id: string
-          otp_code: string
-          verified: boolean
+          key: string
+          subject: string
+          text_body: string
+          updated_at: string
+          updated_by: string | null
+          variables: Json
         }
         Insert: {
           created_at?: string
-          email: string
-          expires_at: string
+          html_body: string
           id?: string
-          otp_code: string
-          verified?: boolean
+          key: string
+          subject: string
+          text_body: string
+          updated_at?: string
+          updated_by?: string | null
+          variables?: Json
         }
         Update: {
           created_at?: string
-          email?: string
-          expires_at?: string
+          html_body?: string
           id?: string
-          otp_code?: string
-          verified?: boolean
+          key?: string
+          subject?: string
+          text_body?: string
+          updated_at?: string
+          updated_by?: string | null
+          variables?: Json
         }
         Relationships: []
       }
-      payment_requests: {
+      invoice_items: {
         Row: {
-          amount: number
+          cgst_amount: number
+          created_at: string
+          description: string
+          discount: number
+          gst_rate: number
+          hsn_sac: string | null
+          id: string
+          igst_amount: number
+          invoice_id: string
+          line_total: number
+          position: number
+          quantity: number
+          sgst_amount: number
+          taxable_amount: number
+          unit_price: number
+        }
+        Insert: {
+          cgst_amount?: number
+          created_at?: string
+          description: string
+          discount?: number
+          gst_rate?: number
+          hsn_sac?: string | null
+          id?: string
+          igst_amount?: number
+          invoice_id: string
+          line_total?: number
+          position?: number
+          quantity?: number
+          sgst_amount?: number
+          taxable_amount?: number
+          unit_price: number
+        }
+        Update: {
+          cgst_amount?: number
+          created_at?: string
+          description?: string
+          discount?: number
+          gst_rate?: number
+          hsn_sac?: string | null
+          id?: string
+          igst_amount?: number
+          invoice_id?: string
+          line_total?: number
+          position?: number
+          quantity?: number
+          sgst_amount?: number
+          taxable_amount?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_items_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_number_counters: {
+        Row: {
+          financial_year: string
+          kind: string
+          last_number: number
+        }
+        Insert: {
+          financial_year: string
+          kind: string
+          last_number?: number
+        }
+        Update: {
+          financial_year?: string
+          kind?: string
+          last_number?: number
+        }
+        Relationships: []
+      }
+      invoices: {
+        Row: {
+          buyer_address: string | null
+          buyer_gstin: string | null
+          buyer_name: string
+          cgst_total: number
           created_at: string
           currency: string
+          discount_total: number
+          due_date: string | null
+          grand_total: number
           id: string
-          paid_at: string | null
-          payment_note: string | null
-          qr_code_url: string | null
+          igst_total: number
+          invoice_number: string | null
+          issue_date: string | null
+          issued_at: string | null
+          kind: string
+          notes: string | null
+          payment_request_id: string | null
+          place_of_supply: string
+          quote_id: string | null
+          seller_address: string | null
+          seller_gstin: string | null
+          seller_name: string | null
+          seller_state: string | null
           service_request_id: string
+          sgst_total: number
           status: string
-          transaction_id: string | null
+          subtotal: number
+          supply_type: string
+          taxable_total: number
           updated_at: string
-          upi_id: string | null
-          user_id: string
+          user_id: string | null
         }
         Insert: {
-          amount: number
+          buyer_address?: string | null
+          buyer_gstin?: string | null
+          buyer_name: string
+          cgst_total?: number
           created_at?: string
           currency?: string
+          discount_total?: number
+          due_date?: string | null
+          grand_total?: number
           id?: string
-          paid_at?: string | null
-          payment_note?: string | null
-          qr_code_url?: string | null
+          igst_total?: number
+          invoice_number?: string | null
+          issue_date?: string | null
+          issued_at?: string | null
+          kind?: string
+          notes?: string | null
+          payment_request_id?: string | null
+          place_of_supply: string
+          quote_id?: string | null
+          seller_address?: string | null
+          seller_gstin?: string | null
+          seller_name?: string | null
+          seller_state?: string | null
           service_request_id: string
+          sgst_total?: number
           status?: string
-          transaction_id?: string | null
+          subtotal?: number
+          supply_type?: string
+          taxable_total?: number
           updated_at?: string
-          upi_id?: string | null
-          user_id: string
+          user_id?: string | null
         }
         Update: {
-          amount?: number
+          buyer_address?: string | null
+          buyer_gstin?: string | null
+          buyer_name?: string
+          cgst_total?: number
           created_at?: string
           currency?: string
+          discount_total?: number
+          due_date?: string | null
+          grand_total?: number
           id?: string
-          paid_at?: string | null
-          payment_note?: string | null
-          qr_code_url?: string | null
+          igst_total?: number
+          invoice_number?: string | null
+          issue_date?: string | null
+          issued_at?: string | null
+          kind?: string
+          notes?: string | null
+          payment_request_id?: string | null
+          place_of_supply?: string
+          quote_id?: string | null
+          seller_address?: string | null
+          seller_gstin?: string | null
+          seller_name?: string | null
+          seller_state?: string | null
           service_request_id?: string
+          sgst_total?: number
           status?: string
-          transaction_id?: string | null
+          subtotal?: number
+          supply_type?: string
+          taxable_total?: number
           updated_at?: string
-          upi_id?: string | null
-          user_id?: string
+          user_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "payment_requests_service_request_id_fkey"
+            foreignKeyName: "invoices_payment_request_id_fkey"
+            columns: ["payment_request_id"]
+            isOneToOne: false
+            referencedRelation: "payment_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_service_request_id_fkey"
             columns: ["service_request_id"]
             isOneToOne: false
             referencedRelation: "service_requests"
@@ -133,173 +398,906 @@ export type Database = {
           },
         ]
       }
-      portfolio_items: {
+      ip_locations: {
         Row: {
-          category: string | null
-          created_at: string
-          description: string | null
-          id: string
-          image_url: string | null
-          is_featured: boolean | null
-          project_url: string | null
-          technologies: string[] | null
-          title: string
+          ip: string
+          location: string | null
+          looked_up_at: string
         }
         Insert: {
-          category?: string | null
-          created_at?: string
-          description?: string | null
-          id?: string
-          image_url?: string | null
-          is_featured?: boolean | null
-          project_url?: string | null
-          technologies?: string[] | null
-          title: string
+          ip: string
+          location?: string | null
+          looked_up_at?: string
         }
         Update: {
-          category?: string | null
-          created_at?: string
-          description?: string | null
-          id?: string
-          image_url?: string | null
-          is_featured?: boolean | null
-          project_url?: string | null
-          technologies?: string[] | null
-          title?: string
+          ip?: string
+          location?: string | null
+          looked_up_at?: string
         }
         Relationships: []
       }
-      profiles: {
+      login_events: {
         Row: {
-          avatar_url: string | null
-          company: string | null
           created_at: string
           email: string | null
-          full_name: string | null
+          event: string
+          failure_reason: string | null
           id: string
-          phone: string | null
-          updated_at: string
-          user_id: string
-          username: string | null
+          ip: string | null
+          location: string | null
+          pm_id: string | null
+          success: boolean
+          user_agent: string | null
+          user_id: string | null
         }
         Insert: {
-          avatar_url?: string | null
-          company?: string | null
           created_at?: string
           email?: string | null
-          full_name?: string | null
+          event: string
+          failure_reason?: string | null
           id?: string
-          phone?: string | null
-          updated_at?: string
-          user_id: string
-          username?: string | null
+          ip?: string | null
+          location?: string | null
+          pm_id?: string | null
+          success: boolean
+          user_agent?: string | null
+          user_id?: string | null
         }
         Update: {
-          avatar_url?: string | null
-          company?: string | null
           created_at?: string
           email?: string | null
-          full_name?: string | null
+          event?: string
+          failure_reason?: string | null
           id?: string
-          phone?: string | null
-          updated_at?: string
-          user_id?: string
-          username?: string | null
+          ip?: string | null
+          location?: string | null
+          pm_id?: string | null
+          success?: boolean
+          user_agent?: string | null
+          user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "login_events_pm_id_fkey"
+            columns: ["pm_id"]
+            isOneToOne: false
+            referencedRelation: "project_managers"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      project_managers: {
+      milestone_reviews: {
         Row: {
+          comment: string | null
           created_at: string
-          email: string
+          decision: string
+          deliverables: Json
           id: string
-          is_available: boolean
-          name: string
-          password_hash: string | null
-          phone: string | null
-          specialization: string | null
-          updated_at: string
+          milestone_id: string
+          reviewer_id: string | null
         }
         Insert: {
+          comment?: string | null
           created_at?: string
-          email: string
+          decision: string
+          deliverables?: Json
           id?: string
-          is_available?: boolean
-          name: string
-          password_hash?: string | null
-          phone?: string | null
-          specialization?: string | null
-          updated_at?: string
+          milestone_id: string
+          reviewer_id?: string | null
         }
         Update: {
+          comment?: string | null
           created_at?: string
-          email?: string
+          decision?: string
+          deliverables?: Json
           id?: string
-          is_available?: boolean
-          name?: string
-          password_hash?: string | null
-          phone?: string | null
-          specialization?: string | null
-          updated_at?: string
+          milestone_id?: string
+          reviewer_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "milestone_reviews_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "project_milestones"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      service_requests: {
+      notification_events: {
         Row: {
-          admin_response: string | null
-          assigned_pm_id: string | null
-          budget_range: string | null
-          color_theme: string | null
-          company_name: string | null
-          contact_email: string | null
-          contact_phone: string | null
           created_at: string
-          description: string | null
+          error: string | null
+          event_type: string
           id: string
-          notes: string | null
-          pm_assigned_at: string | null
-          priority: string | null
-          service_id: string | null
-          service_type: string | null
-          status: Database["public"]["Enums"]["request_status"]
-          timeline: string | null
-          title: string
-          updated_at: string
-          user_id: string
+          payload: Json
+          payment_request_id: string | null
+          processed_at: string | null
+          service_request_id: string
         }
         Insert: {
-          admin_response?: string | null
-          assigned_pm_id?: string | null
-          budget_range?: string | null
-          color_theme?: string | null
-          company_name?: string | null
-          contact_email?: string | null
-          contact_phone?: string | null
           created_at?: string
-          description?: string | null
+          error?: string | null
+          event_type: string
           id?: string
-          notes?: string | null
-          pm_assigned_at?: string | null
-          priority?: string | null
-          service_id?: string | null
-          service_type?: string | null
-          status?: Database["public"]["Enums"]["request_status"]
-          timeline?: string | null
-          title: string
-          updated_at?: string
-          user_id: string
+          payload?: Json
+          payment_request_id?: string | null
+          processed_at?: string | null
+          service_request_id: string
         }
         Update: {
-          admin_response?: string | null
-          assigned_pm_id?: string | null
-          budget_range?: string | null
-          color_theme?: string | null
-          company_name?: string | null
-          contact_email?: string | null
-          contact_phone?: string | null
           created_at?: string
-          description?: string | null
+          error?: string | null
+          event_type?: string
           id?: string
+          payload?: Json
+          payment_request_id?: string | null
+          processed_at?: string | null
+          service_request_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_events_payment_request_id_fkey"
+            columns: ["payment_request_id"]
+            isOneToOne: false
+            referencedRelation: "payment_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notification_events_service_request_id_fkey"
+            columns: ["service_request_id"]
+            isOneToOne: false
+            referencedRelation: "service_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      otp_send_log: {
+        Row: {
+          created_at: string
+          email: string
+          id: string
+          ip: string
+        }
+        Insert: {
+          created_at?: string
+          email: string
+          id?: string
+          ip: string
+        }
+        Update: {
+          created_at?: string
+          email?: string
+          id?: string
+          ip?: string
+        }
+        Relationships: []
+      }
+      otp_verifications: {
+        Row: {
+          attempts: number
+          code_hash: string
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          locked_until: string | null
+          purpose: string
+          verified: boolean
+        }
+        Insert: {
+          attempts?: number
+          code_hash: string
+          created_at?: string
+          email: string
+          expires_at: string
+          id?: string
+          locked_until?: string | null
+          purpose: string
+          verified?: boolean
+        }
+        Update: {
+          attempts?: number
+          code_hash?: string
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          locked_until?: string | null
+          purpose?: string
+          verified?: boolean
+        }
+        Relationships: []
+      }
+      outbound_messages: {
+        Row: {
+          attempts: number
+          channel: string
+          created_at: string
+          data: Json
+          id: string
+          idempotency_key: string
+          last_error: string | null
+          locked_until: string | null
+          max_attempts: number
+          next_attempt_at: string
+          recipient: string
+          sent_at: string | null
+          service_request_id: string | null
+          status: string
+          template: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          channel?: string
+          created_at?: string
+          data?: Json
+          id?: string
+          idempotency_key: string
+          last_error?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          recipient: string
+          sent_at?: string | null
+          service_request_id?: string | null
+          status?: string
+          template: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          channel?: string
+          created_at?: string
+          data?: Json
+          id?: string
+          idempotency_key?: string
+          last_error?: string | null
+          locked_until?: string | null
+          max_attempts?: number
+          next_attempt_at?: string
+          recipient?: string
+          sent_at?: string | null
+          service_request_id?: string | null
+          status?: string
+          template?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "outbound_messages_service_request_id_fkey"
+            columns: ["service_request_id"]
+            isOneToOne: false
+            referencedRelation: "service_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_requests: {
+        Row: {
+          amount: number
+          created_at: string
+          currency: string
+          id: string
+          paid_at: string | null
+          payment_note: string | null
+          qr_code_url: string | null
+          rejected_at: string | null
+          rejection_reason: string | null
+          screenshot_path: string | null
+          service_request_id: string
+          status: string
+          submitted_at: string | null
+          transaction_id: string | null
+          updated_at: string
+          upi_id: string | null
+          user_id: string | null
+          verified_at: string | null
+          verified_by: string | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          currency?: string
+          id?: string
+          paid_at?: string | null
+          payment_note?: string | null
+          qr_code_url?: string | null
+          rejected_at?: string | null
+          rejection_reason?: string | null
+          screenshot_path?: string | null
+          service_request_id: string
+          status?: string
+          submitted_at?: string | null
+          transaction_id?: string | null
+          updated_at?: string
+          upi_id?: string | null
+          user_id?: string | null
+          verified_at?: string | null
+          verified_by?: string | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          currency?: string
+          id?: string
+          paid_at?: string | null
+          payment_note?: string | null
+          qr_code_url?: string | null
+          rejected_at?: string | null
+          rejection_reason?: string | null
+          screenshot_path?: string | null
+          service_request_id?: string
+          status?: string
+          submitted_at?: string | null
+          transaction_id?: string | null
+          updated_at?: string
+          upi_id?: string | null
+          user_id?: string | null
+          verified_at?: string | null
+          verified_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_requests_service_request_id_fkey"
+            columns: ["service_request_id"]
+            isOneToOne: false
+            referencedRelation: "service_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pm_assignment_settings: {
+        Row: {
+          auto_assign: boolean
+          created_at: string
+          id: string
+          last_assigned_pm_id: string | null
+          strategy: string
+          updated_at: string
+        }
+        Insert: {
+          auto_assign?: boolean
+          created_at?: string
+          id?: string
+          last_assigned_pm_id?: string | null
+          strategy?: string
+          updated_at?: string
+        }
+        Update: {
+          auto_assign?: boolean
+          created_at?: string
+          id?: string
+          last_assigned_pm_id?: string | null
+          strategy?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pm_assignment_settings_last_assigned_pm_id_fkey"
+            columns: ["last_assigned_pm_id"]
+            isOneToOne: false
+            referencedRelation: "project_managers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pm_sessions: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: string
+          last_used_at: string
+          pm_id: string
+          revoked_at: string | null
+          token_hash: string
+          two_factor_verified_at: string | null
+          user_agent: string | null
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          id?: string
+          last_used_at?: string
+          pm_id: string
+          revoked_at?: string | null
+          token_hash: string
+          two_factor_verified_at?: string | null
+          user_agent?: string | null
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          last_used_at?: string
+          pm_id?: string
+          revoked_at?: string | null
+          token_hash?: string
+          two_factor_verified_at?: string | null
+          user_agent?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pm_sessions_pm_id_fkey"
+            columns: ["pm_id"]
+            isOneToOne: false
+            referencedRelation: "project_managers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      portfolio_items: {
+        Row: {
+          category: string | null
+          created_at: string
+          description: string | null
+          id: string
+          image_url: string | null
+          is_featured: boolean | null
+          project_url: string | null
+          technologies: string[] | null
+          title: string
+        }
+        Insert: {
+          category?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          image_url?: string | null
+          is_featured?: boolean | null
+          project_url?: string | null
+          technologies?: string[] | null
+          title: string
+        }
+        Update: {
+          category?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          image_url?: string | null
+          is_featured?: boolean | null
+          project_url?: string | null
+          technologies?: string[] | null
+          title?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          company: string | null
+          created_at: string
+          email: string | null
+          full_name: string | null
+          id: string
+          phone: string | null
+          updated_at: string
+          user_id: string
+          username: string | null
+        }
+        Insert: {
+          avatar_url?: string | null
+          company?: string | null
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          phone?: string | null
+          updated_at?: string
+          user_id: string
+          username?: string | null
+        }
+        Update: {
+          avatar_url?: string | null
+          company?: string | null
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          phone?: string | null
+          updated_at?: string
+          user_id?: string
+          username?: string | null
+        }
+        Relationships: []
+      }
+      project_managers: {
+        Row: {
+          accepting_projects: boolean
+          active_project_count: number
+          created_at: string
+          email: string
+          id: string
+          is_available: boolean
+          max_concurrent_projects: number
+          name: string
+          password_hash: string | null
+          phone: string | null
+          specialization: string | null
+          updated_at: string
+        }
+        Insert: {
+          accepting_projects?: boolean
+          active_project_count?: number
+          created_at?: string
+          email: string
+          id?: string
+          is_available?: boolean
+          max_concurrent_projects?: number
+          name: string
+          password_hash?: string | null
+          phone?: string | null
+          specialization?: string | null
+          updated_at?: string
+        }
+        Update: {
+          accepting_projects?: boolean
+          active_project_count?: number
+          created_at?: string
+          email?: string
+          id?: string
+          is_available?: boolean
+          max_concurrent_projects?: number
+          name?: string
+          password_hash?: string | null
+          phone?: string | null
+          specialization?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      project_milestones: {
+        Row: {
+          created_at: string
+          created_by_pm_id: string | null
+          description: string | null
+          due_date: string | null
+          id: string
+          service_request_id: string
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by_pm_id?: string | null
+          description?: string | null
+          due_date?: string | null
+          id?: string
+          service_request_id: string
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by_pm_id?: string | null
+          description?: string | null
+          due_date?: string | null
+          id?: string
+          service_request_id?: string
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_milestones_created_by_pm_id_fkey"
+            columns: ["created_by_pm_id"]
+            isOneToOne: false
+            referencedRelation: "project_managers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_milestones_service_request_id_fkey"
+            columns: ["service_request_id"]
+            isOneToOne: false
+            referencedRelation: "service_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_tasks: {
+        Row: {
+          assignees: string[]
+          checklist: Json
+          completed_at: string | null
+          created_at: string
+          created_by_pm_id: string | null
+          description: string | null
+          due_date: string | null
+          id: string
+          position: number
+          service_request_id: string
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          assignees?: string[]
+          checklist?: Json
+          completed_at?: string | null
+          created_at?: string
+          created_by_pm_id?: string | null
+          description?: string | null
+          due_date?: string | null
+          id?: string
+          position?: number
+          service_request_id: string
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          assignees?: string[]
+          checklist?: Json
+          completed_at?: string | null
+          created_at?: string
+          created_by_pm_id?: string | null
+          description?: string | null
+          due_date?: string | null
+          id?: string
+          position?: number
+          service_request_id?: string
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_tasks_created_by_pm_id_fkey"
+            columns: ["created_by_pm_id"]
+            isOneToOne: false
+            referencedRelation: "project_managers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_tasks_service_request_id_fkey"
+            columns: ["service_request_id"]
+            isOneToOne: false
+            referencedRelation: "service_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      request_files: {
+        Row: {
+          content_type: string | null
+          created_at: string
+          id: string
+          milestone_id: string | null
+          name: string
+          path: string
+          service_request_id: string
+          size_bytes: number | null
+          uploaded_by_id: string | null
+          uploaded_by_name: string | null
+          uploaded_by_type: string
+        }
+        Insert: {
+          content_type?: string | null
+          created_at?: string
+          id?: string
+          milestone_id?: string | null
+          name: string
+          path: string
+          service_request_id: string
+          size_bytes?: number | null
+          uploaded_by_id?: string | null
+          uploaded_by_name?: string | null
+          uploaded_by_type: string
+        }
+        Update: {
+          content_type?: string | null
+          created_at?: string
+          id?: string
+          milestone_id?: string | null
+          name?: string
+          path?: string
+          service_request_id?: string
+          size_bytes?: number | null
+          uploaded_by_id?: string | null
+          uploaded_by_name?: string | null
+          uploaded_by_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "request_files_milestone_id_fkey"
+            columns: ["milestone_id"]
+            isOneToOne: false
+            referencedRelation: "project_milestones"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "request_files_service_request_id_fkey"
+            columns: ["service_request_id"]
+            isOneToOne: false
+            referencedRelation: "service_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      request_messages: {
+        Row: {
+          attachments: Json
+          author_id: string | null
+          author_name: string | null
+          author_type: string
+          body: string
+          created_at: string
+          edited_at: string | null
+          id: string
+          read_by_admin_at: string | null
+          read_by_client_at: string | null
+          read_by_pm_at: string | null
+          service_request_id: string
+          updated_at: string
+          visibility: string
+        }
+        Insert: {
+          attachments?: Json
+          author_id?: string | null
+          author_name?: string | null
+          author_type: string
+          body: string
+          created_at?: string
+          edited_at?: string | null
+          id?: string
+          read_by_admin_at?: string | null
+          read_by_client_at?: string | null
+          read_by_pm_at?: string | null
+          service_request_id: string
+          updated_at?: string
+          visibility?: string
+        }
+        Update: {
+          attachments?: Json
+          author_id?: string | null
+          author_name?: string | null
+          author_type?: string
+          body?: string
+          created_at?: string
+          edited_at?: string | null
+          id?: string
+          read_by_admin_at?: string | null
+          read_by_client_at?: string | null
+          read_by_pm_at?: string | null
+          service_request_id?: string
+          updated_at?: string
+          visibility?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "request_messages_service_request_id_fkey"
+            columns: ["service_request_id"]
+            isOneToOne: false
+            referencedRelation: "service_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      request_status_history: {
+        Row: {
+          actor_id: string | null
+          actor_label: string | null
+          actor_type: string
+          created_at: string
+          from_status: Database["public"]["Enums"]["request_status"] | null
+          id: string
+          reason: string | null
+          service_request_id: string
+          to_status: Database["public"]["Enums"]["request_status"]
+        }
+        Insert: {
+          actor_id?: string | null
+          actor_label?: string | null
+          actor_type: string
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["request_status"] | null
+          id?: string
+          reason?: string | null
+          service_request_id: string
+          to_status: Database["public"]["Enums"]["request_status"]
+        }
+        Update: {
+          actor_id?: string | null
+          actor_label?: string | null
+          actor_type?: string
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["request_status"] | null
+          id?: string
+          reason?: string | null
+          service_request_id?: string
+          to_status?: Database["public"]["Enums"]["request_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "request_status_history_service_request_id_fkey"
+            columns: ["service_request_id"]
+            isOneToOne: false
+            referencedRelation: "service_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      request_status_transitions: {
+        Row: {
+          from_status: Database["public"]["Enums"]["request_status"]
+          roles: string[]
+          to_status: Database["public"]["Enums"]["request_status"]
+        }
+        Insert: {
+          from_status: Database["public"]["Enums"]["request_status"]
+          roles: string[]
+          to_status: Database["public"]["Enums"]["request_status"]
+        }
+        Update: {
+          from_status?: Database["public"]["Enums"]["request_status"]
+          roles?: string[]
+          to_status?: Database["public"]["Enums"]["request_status"]
+        }
+        Relationships: []
+      }
+      service_requests: {
+        Row: {
+          admin_response: string | null
+          assigned_pm_id: string | null
+          budget_range: string | null
+          color_theme: string | null
+          company_name: string | null
+          contact_email: string | null
+          contact_phone: string | null
+          created_at: string
+          description: string | null
+          id: string
+          intake_answers: Json | null
+          notes: string | null
+          pm_assigned_at: string | null
+          priority: string | null
+          service_id: string | null
+          service_type: string | null
+          status: Database["public"]["Enums"]["request_status"]
+          timeline: string | null
+          title: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          admin_response?: string | null
+          assigned_pm_id?: string | null
+          budget_range?: string | null
+          color_theme?: string | null
+          company_name?: string | null
+          contact_email?: string | null
+          contact_phone?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          intake_answers?: Json | null
+          notes?: string | null
+          pm_assigned_at?: string | null
+          priority?: string | null
+          service_id?: string | null
+          service_type?: string | null
+          status?: Database["public"]["Enums"]["request_status"]
+          timeline?: string | null
+          title: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          admin_response?: string | null
+          assigned_pm_id?: string | null
+          budget_range?: string | null
+          color_theme?: string | null
+          company_name?: string | null
+          contact_email?: string | null
+          contact_phone?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          intake_answers?: Json | null
           notes?: string | null
           pm_assigned_at?: string | null
           priority?: string | null
@@ -309,97 +1307,334 @@ export type Database = {
           timeline?: string | null
           title?: string
           updated_at?: string
-          user_id?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "service_requests_assigned_pm_id_fkey"
+            columns: ["assigned_pm_id"]
+            isOneToOne: false
+            referencedRelation: "project_managers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "service_requests_service_id_fkey"
+            columns: ["service_id"]
+            isOneToOne: false
+            referencedRelation: "services"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      services: {
+        Row: {
+          created_at: string
+          description: string | null
+          features: string[] | null
+          icon: string | null
+          id: string
+          intake_schema: Json
+          is_active: boolean | null
+          price_range: string | null
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          features?: string[] | null
+          icon?: string | null
+          id?: string
+          intake_schema?: Json
+          is_active?: boolean | null
+          price_range?: string | null
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          features?: string[] | null
+          icon?: string | null
+          id?: string
+          intake_schema?: Json
+          is_active?: boolean | null
+          price_range?: string | null
+          title?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      step_up_tokens: {
+        Row: {
+          created_at: string
+          expires_at: string
+          id: string
+          method: string
+          purpose: string
+          token_hash: string
+          used_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at: string
+          id?: string
+          method?: string
+          purpose: string
+          token_hash: string
+          used_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string
+          id?: string
+          method?: string
+          purpose?: string
+          token_hash?: string
+          used_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      team_members: {
+        Row: {
+          bio: string | null
+          created_at: string
+          id: string
+          image_url: string | null
+          is_active: boolean
+          name: string
+          order_index: number
+          role: string
+          updated_at: string
+        }
+        Insert: {
+          bio?: string | null
+          created_at?: string
+          id?: string
+          image_url?: string | null
+          is_active?: boolean
+          name: string
+          order_index?: number
+          role: string
+          updated_at?: string
+        }
+        Update: {
+          bio?: string | null
+          created_at?: string
+          id?: string
+          image_url?: string | null
+          is_active?: boolean
+          name?: string
+          order_index?: number
+          role?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      time_entries: {
+        Row: {
+          billed_hourly_rate: number | null
+          created_at: string
+          description: string | null
+          duration_minutes: number | null
+          ended_at: string | null
+          id: string
+          payment_request_id: string | null
+          pm_id: string | null
+          service_request_id: string
+          source: string
+          started_at: string
+          task_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          billed_hourly_rate?: number | null
+          created_at?: string
+          description?: string | null
+          duration_minutes?: number | null
+          ended_at?: string | null
+          id?: string
+          payment_request_id?: string | null
+          pm_id?: string | null
+          service_request_id: string
+          source?: string
+          started_at?: string
+          task_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          billed_hourly_rate?: number | null
+          created_at?: string
+          description?: string | null
+          duration_minutes?: number | null
+          ended_at?: string | null
+          id?: string
+          payment_request_id?: string | null
+          pm_id?: string | null
+          service_request_id?: string
+          source?: string
+          started_at?: string
+          task_id?: string | null
+          updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "service_requests_assigned_pm_id_fkey"
-            columns: ["assigned_pm_id"]
+            foreignKeyName: "time_entries_payment_request_id_fkey"
+            columns: ["payment_request_id"]
+            isOneToOne: false
+            referencedRelation: "payment_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_pm_id_fkey"
+            columns: ["pm_id"]
             isOneToOne: false
             referencedRelation: "project_managers"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "service_requests_service_id_fkey"
-            columns: ["service_id"]
+            foreignKeyName: "time_entries_service_request_id_fkey"
+            columns: ["service_request_id"]
             isOneToOne: false
-            referencedRelation: "services"
+            referencedRelation: "service_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "time_entries_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "project_tasks"
             referencedColumns: ["id"]
           },
         ]
       }
-      services: {
+      totp_factors: {
         Row: {
           created_at: string
-          description: string | null
-          features: string[] | null
-          icon: string | null
+          enabled_at: string | null
+          failed_attempts: number
           id: string
-          is_active: boolean | null
-          price_range: string | null
-          title: string
+          last_used_step: number | null
+          locked_until: string | null
+          pm_id: string | null
+          secret_ciphertext: string
           updated_at: string
+          user_id: string | null
         }
         Insert: {
           created_at?: string
-          description?: string | null
-          features?: string[] | null
-          icon?: string | null
+          enabled_at?: string | null
+          failed_attempts?: number
           id?: string
-          is_active?: boolean | null
-          price_range?: string | null
-          title: string
+          last_used_step?: number | null
+          locked_until?: string | null
+          pm_id?: string | null
+          secret_ciphertext: string
           updated_at?: string
+          user_id?: string | null
         }
         Update: {
           created_at?: string
-          description?: string | null
-          features?: string[] | null
-          icon?: string | null
+          enabled_at?: string | null
+          failed_attempts?: number
           id?: string
-          is_active?: boolean | null
-          price_range?: string | null
-          title?: string
+          last_used_step?: number | null
+          locked_until?: string | null
+          pm_id?: string | null
+          secret_ciphertext?: string
           updated_at?: string
+          user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "totp_factors_pm_id_fkey"
+            columns: ["pm_id"]
+            isOneToOne: false
+            referencedRelation: "project_managers"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      team_members: {
+      totp_recovery_codes: {
         Row: {
-          bio: string | null
+          code_hash: string
           created_at: string
+          factor_id: string
           id: string
-          image_url: string | null
-          is_active: boolean
-          name: string
-          order_index: number
+          used_at: string | null
+        }
+        Insert: {
+          code_hash: string
+          created_at?: string
+          factor_id: string
+          id?: string
+          used_at?: string | null
+        }
+        Update: {
+          code_hash?: string
+          created_at?: string
+          factor_id?: string
+          id?: string
+          used_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "totp_recovery_codes_factor_id_fkey"
+            columns: ["factor_id"]
+            isOneToOne: false
+            referencedRelation: "totp_factors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      two_factor_policies: {
+        Row: {
+          created_at: string
+          id: string
+          required: boolean
           role: string
           updated_at: string
         }
         Insert: {
-          bio?: string | null
           created_at?: string
           id?: string
-          image_url?: string | null
-          is_active?: boolean
-          name: string
-          order_index?: number
+          required?: boolean
           role: string
           updated_at?: string
         }
         Update: {
-          bio?: string | null
           created_at?: string
           id?: string
-          image_url?: string | null
-          is_active?: boolean
-          name?: string
-          order_index?: number
+          required?: boolean
           role?: string
           updated_at?: string
         }
         Relationships: []
       }
+      two_factor_sessions: {
+        Row: {
+          method: string
+          session_id: string
+          user_id: string
+          verified_at: string
+        }
+        Insert: {
+          method: string
+          session_id: string
+          user_id: string
+          verified_at?: string
+        }
+        Update: {
+          method?: string
+          session_id?: string
+          user_id?: string
+          verified_at?: string
+        }
+        Relationships: []
+      }
       user_roles: {
         Row: {
           id: string
@@ -423,6 +1658,104 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      bill_time_entries: {
+        Args: {
+          _entry_ids?: string[]
+          _hourly_rate: number
+          _payment_note?: string
+          _request_id: string
+          _upi_id: string
+        }
+        Returns: {
+          amount: number
+          created_at: string
+          currency: string
+          id: string
+          paid_at: string | null
+          payment_note: string | null
+          qr_code_url: string | null
+          rejected_at: string | null
+          rejection_reason: string | null
+          screenshot_path: string | null
+          service_request_id: string
+          status: string
+          submitted_at: string | null
+          transaction_id: string | null
+          updated_at: string
+          upi_id: string | null
+          user_id: string | null
+          verified_at: string | null
+          verified_by: string | null
+        }
+      }
+      claim_outbound_messages: {
+        Args: {
+          _limit: number
+        }
+        Returns: {
+          attempts: number
+          channel: string
+          created_at: string
+          data: Json
+          id: string
+          idempotency_key: string
+          last_error: string | null
+          locked_until: string | null
+          max_attempts: number
+          next_attempt_at: string
+          recipient: string
+          sent_at: string | null
+          service_request_id: string | null
+          status: string
+          template: string
+          updated_at: string
+        }[]
+      }
+      client_transition_request_status: {
+        Args: {
+          _reason?: string
+          _request_id: string
+          _to_status: Database["public"]["Enums"]["request_status"]
+        }
+        Returns: {
+          actor_id: string | null
+          actor_label: string | null
+          actor_type: string
+          created_at: string
+          from_status: Database["public"]["Enums"]["request_status"] | null
+          id: string
+          reason: string | null
+          service_request_id: string
+          to_status: Database["public"]["Enums"]["request_status"]
+        }
+      }
+      consume_otp: {
+        Args: {
+          _code_hash: string
+          _email: string
+          _purpose: string
+        }
+        Returns: {
+          attempts_left: number
+          result: string
+          retry_after: number
+        }[]
+      }
+      erase_account_data: {
+        Args: {
+          _user_id: string
+        }
+        Returns: {
+          bucket: string
+          path: string
+        }[]
+      }
+      find_user_id_by_email: {
+        Args: {
+          _email: string
+        }
+        Returns: string
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -430,10 +1763,242 @@ export type Database = {
         }
         Returns: boolean
       }
+      hook_password_verification_attempt: {
+        Args: {
+          event: Json
+        }
+        Returns: Json
+      }
+      invoke_edge_function: {
+        Args: {
+          _body?: Json
+          _function: string
+        }
+        Returns: number
+      }
+      list_my_sessions: {
+        Args: never
+        Returns: {
+          created_at: string
+          id: string
+          ip: string
+          is_current: boolean
+          last_seen_at: string
+          user_agent: string
+        }[]
+      }
+      mark_request_messages_read: {
+        Args: {
+          _request_id: string
+        }
+        Returns: undefined
+      }
+      rank_project_managers: {
+        Args: {
+          _request_id: string
+        }
+        Returns: {
+          eligible: boolean
+          pm_id: string
+          pm_name: string
+          reasons: string[]
+          score: number
+        }[]
+      }
+      record_totp_failure: {
+        Args: {
+          _factor_id: string
+        }
+        Returns: {
+          attempts_left: number
+          retry_after: number
+        }[]
+      }
+      record_totp_success: {
+        Args: {
+          _factor_id: string
+          _step?: number
+        }
+        Returns: boolean
+      }
+      register_otp_send: {
+        Args: {
+          _email: string
+          _ip: string
+        }
+        Returns: number
+      }
+      request_task_summary: {
+        Args: {
+          _request_id: string
+        }
+        Returns: {
+          doing: number
+          done: number
+          last_completed_at: string
+          overdue: number
+          review: number
+          todo: number
+        }[]
+      }
+      requeue_outbound_message: {
+        Args: {
+          _message_id: string
+        }
+        Returns: {
+          attempts: number
+          channel: string
+          created_at: string
+          data: Json
+          id: string
+          idempotency_key: string
+          last_error: string | null
+          locked_until: string | null
+          max_attempts: number
+          next_attempt_at: string
+          recipient: string
+          sent_at: string | null
+          service_request_id: string | null
+          status: string
+          template: string
+          updated_at: string
+        }
+      }
+      review_milestone: {
+        Args: {
+          _comment?: string
+          _decision: string
+          _milestone_id: string
+        }
+        Returns: {
+          comment: string | null
+          created_at: string
+          decision: string
+          deliverables: Json
+          id: string
+          milestone_id: string
+          reviewer_id: string | null
+        }
+      }
+      review_payment: {
+        Args: {
+          _admin_id: string
+          _admin_label: string
+          _approve: boolean
+          _payment_id: string
+          _reason: string
+        }
+        Returns: {
+          amount: number
+          created_at: string
+          currency: string
+          id: string
+          paid_at: string | null
+          payment_note: string | null
+          qr_code_url: string | null
+          rejected_at: string | null
+          rejection_reason: string | null
+          screenshot_path: string | null
+          service_request_id: string
+          status: string
+          submitted_at: string | null
+          transaction_id: string | null
+          updated_at: string
+          upi_id: string | null
+          user_id: string
+          verified_at: string | null
+          verified_by: string | null
+        }
+      }
+      revoke_my_session: {
+        Args: {
+          _session_id: string
+        }
+        Returns: boolean
+      }
+      specialization_keywords: {
+        Args: {
+          _text: string
+        }
+        Returns: string[]
+      }
+      submit_payment_proof: {
+        Args: {
+          _payment_id: string
+          _screenshot_path?: string
+          _transaction_id: string
+        }
+        Returns: {
+          amount: number
+          created_at: string
+          currency: string
+          id: string
+          paid_at: string | null
+          payment_note: string | null
+          qr_code_url: string | null
+          rejected_at: string | null
+          rejection_reason: string | null
+          screenshot_path: string | null
+          service_request_id: string
+          status: string
+          submitted_at: string | null
+          transaction_id: string | null
+          updated_at: string
+          upi_id: string | null
+          user_id: string
+          verified_at: string | null
+          verified_by: string | null
+        }
+      }
+      suggest_project_managers: {
+        Args: {
+          _request_id: string
+        }
+        Returns: {
+          eligible: boolean
+          pm_id: string
+          pm_name: string
+          reasons: string[]
+          score: number
+        }[]
+      }
+      transition_request_status: {
+        Args: {
+          _actor_id: string
+          _actor_label: string
+          _actor_type: string
+          _reason?: string
+          _request_id: string
+          _to_status: Database["public"]["Enums"]["request_status"]
+        }
+        Returns: {
+          actor_id: string | null
+          actor_label: string | null
+          actor_type: string
+          created_at: string
+          from_status: Database["public"]["Enums"]["request_status"] | null
+          id: string
+          reason: string | null
+          service_request_id: string
+          to_status: Database["public"]["Enums"]["request_status"]
+        }
+      }
+      two_factor_satisfied: {
+        Args: never
+        Returns: boolean
+      }
     }
     Enums: {
       app_role: "admin" | "user"
-      request_status: "pending" | "in_progress" | "completed" | "cancelled"
+      request_status:
+        | "pending"
+        | "quoted"
+        | "awaiting_payment"
+        | "in_progress"
+        | "on_hold"
+        | "in_review"
+        | "completed"
+        | "cancelled"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -562,7 +2127,16 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "user"],
-      request_status: ["pending", "in_progress", "completed", "cancelled"],
+      request_status: [
+        "pending",
+        "quoted",
+        "awaiting_payment",
+        "in_progress",
+        "on_hold",
+        "in_review",
+        "completed",
+        "cancelled",
+      ],
     },
   },
 } as const
@@ -0,0 +1,64 @@
+import { supabase } from '@/integrations/supabase/client';
+import { STEP_UP_HEADER } from '@/lib/stepUp';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+
+export interface AccountDeletionRequest {
+  requested_at: string;
+  scheduled_for: string;
+}
+
+const accountDataCall = async (body: Record<string, unknown>, headers: Record<string, string> = {}) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return fetch(`${SUPABASE_URL}/functions/v1/account-data`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session?.access_token ?? ''}`,
+      ...headers,
+    },
+    body: JSON.stringify(body),
+  });
+};
+
+// Builds the ZIP of everything stored about the user (data.json plus uploaded files) and saves it
+export const downloadAccountData = async () => {
+  const response = await accountDataCall({ action: 'export' });
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to export your data');
+  }
+
+  const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? 'thrylos-data.zip';
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const fetchDeletionRequest = async (): Promise<AccountDeletionRequest | null> => {
+  const { data, error } = await supabase
+    .from('account_deletion_requests')
+    .select('requested_at, scheduled_for')
+    .maybeSingle();
+  if (error) throw error;
+  return data;
+};
+
+// Schedules deletion after the grace period. Resolves to null when the step-up token was expired
+// or already used, so the caller can verify again.
+export const requestAccountDeletion = async (stepUpToken: string, reason: string): Promise<string | null> => {
+  const response = await accountDataCall({ action: 'request_deletion', reason }, { [STEP_UP_HEADER]: stepUpToken });
+  const data = await response.json();
+  if (!response.ok && data.stepUpRequired) return null;
+  if (!response.ok) throw new Error(data.error || 'Failed to schedule deletion');
+  return data.scheduledFor;
+};
+
+export const cancelAccountDeletion = async () => {
+  const response = await accountDataCall({ action: 'cancel_deletion' });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || 'Failed to cancel deletion');
+};
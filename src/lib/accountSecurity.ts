@@ -0,0 +1,90 @@
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { otpErrorMessage } from '@/lib/otp';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+
+export type LoginEventType =
+  | 'password_login'
+  | 'otp_verification'
+  | 'password_reset'
+  | 'password_change'
+  | 'two_factor'
+  | 'step_up'
+  | 'pm_login';
+
+export const LOGIN_EVENT_LABELS: Record<LoginEventType, string> = {
+  password_login: 'Password sign-in',
+  otp_verification: 'Email code',
+  password_reset: 'Password reset',
+  password_change: 'Password change',
+  two_factor: 'Two-factor check',
+  step_up: 'Identity check',
+  pm_login: 'PM portal sign-in',
+};
+
+export interface ActiveSession {
+  id: string;
+  created_at: string;
+  last_seen_at: string;
+  user_agent: string | null;
+  ip: string | null;
+  location: string | null;
+  // The session this browser is using
+  is_current: boolean;
+}
+
+const accountSecurityCall = async <T,>(body: Record<string, unknown>, accessToken?: string): Promise<T> => {
+  const token = accessToken ?? (await supabase.auth.getSession()).data.session?.access_token;
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/account-security`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {}),
+    },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(otpErrorMessage(data, 'Request failed'));
+  return data as T;
+};
+
+// Password sign-ins go straight to Supabase Auth, so a successful one is reported afterwards for the
+// login history; failures are recorded by the password verification hook. Never blocks or fails the sign-in itself.
+export const reportPasswordLogin = async (session: Session | null) => {
+  if (!session) return;
+  try {
+    await accountSecurityCall({ action: 'record_login' }, session.access_token);
+  } catch (error) {
+    console.error('Error recording sign-in:', error);
+  }
+};
+
+export const fetchSessions = async () =>
+  (await accountSecurityCall<{ sessions: ActiveSession[] }>({ action: 'sessions' })).sessions;
+
+export const revokeSession = async (sessionId: string) => {
+  const { error } = await supabase.rpc('revoke_my_session', { _session_id: sessionId });
+  if (error) throw error;
+};
+
+// "Chrome on Windows" from a user agent string; good enough to tell devices apart
+export const describeUserAgent = (userAgent: string | null) => {
+  if (!userAgent) return 'Unknown device';
+
+  const browser =
+    /Edg\//.test(userAgent) ? 'Edge' :
+    /OPR\/|Opera/.test(userAgent) ? 'Opera' :
+    /Firefox\//.test(userAgent) ? 'Firefox' :
+    /Chrome\//.test(userAgent) ? 'Chrome' :
+    /Safari\//.test(userAgent) ? 'Safari' : null;
+  const os =
+    /iPhone|iPad/.test(userAgent) ? 'iOS' :
+    /Android/.test(userAgent) ? 'Android' :
+    /Windows/.test(userAgent) ? 'Windows' :
+    /Mac OS X|Macintosh/.test(userAgent) ? 'macOS' :
+    /Linux/.test(userAgent) ? 'Linux' : null;
+
+  if (browser && os) return `${browser} on ${os}`;
+  return browser ?? os ?? 'Unknown device';
+};
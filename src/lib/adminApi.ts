@@ -0,0 +1,36 @@
+import { supabase } from '@/integrations/supabase/client';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+
+// Auth headers for admin-only edge functions (the signed-in admin's JWT)
+export const adminHeaders = async () => {
+  const { data: { session } } = await supabase.auth.getSession();
+  return {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${session?.access_token ?? ''}`,
+  };
+};
+
+// Admin API helper
+export const adminApi = async (action: string, table: string, options: {
+  data?: Record<string, unknown>;
+  id?: string;
+  filters?: Record<string, unknown>;
+} = {}) => {
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/admin-api`, {
+    method: 'POST',
+    headers: await adminHeaders(),
+    body: JSON.stringify({ action, table, ...options }),
+  });
+  
+  if (!response.ok) {
+    const error = await response.json();
+    // Validation failures come back as { error, fields: { 'data.amount': ['...'] } }
+    const fieldErrors = error.fields
+      ? Object.entries(error.fields as Record<string, string[]>).map(([field, messages]) => `${field}: ${messages.join(', ')}`)
+      : [];
+    throw new Error([error.error || 'API request failed', ...fieldErrors].join(' — '));
+  }
+  
+  return response.json();
+};
@@ -0,0 +1,58 @@
+import { adminHeaders } from '@/lib/adminApi';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+
+export interface TemplateVariable {
+  description: string;
+  sample: string;
+  required?: boolean;
+}
+
+export interface TemplateBody {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export interface EmailTemplate {
+  key: string;
+  name: string;
+  description: string;
+  variables: Record<string, TemplateVariable>;
+  default: TemplateBody;
+  saved: (TemplateBody & { updatedAt: string }) | null;
+}
+
+const emailTemplatesApi = async <T = Record<string, unknown>>(action: string, body: Record<string, unknown> = {}): Promise<T> => {
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/email-templates`, {
+    method: 'POST',
+    headers: await adminHeaders(),
+    body: JSON.stringify({ action, ...body }),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(data.error || 'Email template request failed');
+  return data as T;
+};
+
+export const fetchEmailTemplates = async () =>
+  (await emailTemplatesApi<{ templates: EmailTemplate[] }>('catalog')).templates;
+
+export const saveEmailTemplate = (key: string, body: TemplateBody) =>
+  emailTemplatesApi<{ updatedAt: string }>('save', { key, ...body });
+
+export const resetEmailTemplate = (key: string) => emailTemplatesApi('reset', { key });
+
+// Sends the draft, filled with sample values, to the signed-in admin
+export const sendTestEmail = (key: string, body: TemplateBody) =>
+  emailTemplatesApi<{ sentTo: string }>('test_send', { key, ...body });
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const placeholdersIn = (source: string) => [...source.matchAll(PLACEHOLDER)].map((match) => match[1]);
+
+// Same substitution the mail functions do: values are escaped in HTML, unknown placeholders are dropped
+export const fillPlaceholders = (source: string, values: Record<string, string>, escape = false) =>
+  source.replace(PLACEHOLDER, (_, key: string) => (escape ? escapeHtml(values[key] ?? '') : values[key] ?? ''));
@@ -0,0 +1,167 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { requestFileError, uploadClientFile } from '@/lib/requestFiles';
+
+export type IntakeFieldType = 'text' | 'choice' | 'multi' | 'file' | 'number';
+
+export const INTAKE_FIELD_TYPES: { value: IntakeFieldType; label: string }[] = [
+  { value: 'text', label: 'Text' },
+  { value: 'choice', label: 'Single choice' },
+  { value: 'multi', label: 'Multiple choice' },
+  { value: 'number', label: 'Number' },
+  { value: 'file', label: 'File upload' },
+];
+
+// One question of a service's questionnaire (services.intake_schema)
+export interface IntakeField {
+  // Key of the answer, e.g. 'page_count'
+  id: string;
+  label: string;
+  type: IntakeFieldType;
+  required: boolean;
+  help?: string;
+  // Text questions only
+  multiline?: boolean;
+  // Choice and multiple choice questions only
+  options?: string[];
+  // Number questions only
+  min?: number;
+  max?: number;
+  // Asked only when an earlier choice question was answered with one of these values
+  show_if?: { field: string; values: string[] };
+}
+
+export interface IntakeFileAnswer {
+  file_id: string;
+  name: string;
+}
+
+// An answered question as stored in service_requests.intake_answers
+export interface IntakeAnswer {
+  id: string;
+  label: string;
+  type: IntakeFieldType;
+  value: string | number | string[] | IntakeFileAnswer[];
+}
+
+// What the form holds while it is filled in; picked files are uploaded once the request exists
+export type IntakeValue = string | string[] | File[];
+export type IntakeValues = Record<string, IntakeValue>;
+
+export const parseIntakeSchema = (schema: Json | null | undefined) =>
+  (Array.isArray(schema) ? schema : []) as unknown as IntakeField[];
+
+export const parseIntakeAnswers = (answers: Json | null | undefined) =>
+  (Array.isArray(answers) ? answers : []) as unknown as IntakeAnswer[];
+
+const isEmpty = (value: IntakeValue | undefined) =>
+  value === undefined || value.length === 0 || (typeof value === 'string' && !value.trim());
+
+// The questions currently asked; like the validate_intake_answers trigger, a condition only
+// holds when the question it looks at is itself asked and answered
+export const visibleIntakeFields = (fields: IntakeField[], values: IntakeValues) => {
+  const answered = new Set<string>();
+  return fields.filter((field) => {
+    if (field.show_if) {
+      const depends = values[field.show_if.field];
+      const picked = typeof depends === 'string' ? [depends] : (depends as string[] | undefined) ?? [];
+      if (!answered.has(field.show_if.field) || !picked.some((v) => field.show_if?.values.includes(v))) return false;
+    }
+    if (!isEmpty(values[field.id])) answered.add(field.id);
+    return true;
+  });
+};
+
+// Problems to fix before the request is sent, by question id
+export const intakeErrors = (fields: IntakeField[], values: IntakeValues) => {
+  const errors: Record<string, string> = {};
+  for (const field of visibleIntakeFields(fields, values)) {
+    const value = values[field.id];
+    if (isEmpty(value)) {
+      if (field.required) errors[field.id] = 'This question is required';
+      continue;
+    }
+    if (field.type === 'number') {
+      const number = Number(value);
+      if (Number.isNaN(number)) errors[field.id] = 'Enter a number';
+      else if (field.min !== undefined && number < field.min) errors[field.id] = `Enter at least ${field.min}`;
+      else if (field.max !== undefined && number > field.max) errors[field.id] = `Enter at most ${field.max}`;
+    }
+    if (field.type === 'file') {
+      const problem = (value as File[]).map(requestFileError).find(Boolean);
+      if (problem) errors[field.id] = problem;
+    }
+  }
+  return errors;
+};
+
+// Answers to store with a new request; file questions are added by attachIntakeFiles
+export const buildIntakeAnswers = (fields: IntakeField[], values: IntakeValues): IntakeAnswer[] =>
+  visibleIntakeFields(fields, values)
+    .filter((field) => field.type !== 'file' && !isEmpty(values[field.id]))
+    .map((field) => {
+      const value = values[field.id] as string | string[];
+      return {
+        id: field.id,
+        label: field.label,
+        type: field.type,
+        value: field.type === 'number' ? Number(value) : typeof value === 'string' ? value.trim() : value,
+      };
+    });
+
+// Uploads the files picked in the questionnaire to the new request and records them as answers
+export const attachIntakeFiles = async (
+  requestId: string,
+  fields: IntakeField[],
+  values: IntakeValues,
+  answers: IntakeAnswer[],
+  user: { id: string; name: string | null },
+) => {
+  const fileAnswers: IntakeAnswer[] = [];
+  for (const field of visibleIntakeFields(fields, values)) {
+    if (field.type !== 'file' || isEmpty(values[field.id])) continue;
+    const uploaded: IntakeFileAnswer[] = [];
+    for (const file of values[field.id] as File[]) {
+      const record = await uploadClientFile(requestId, file, user);
+      uploaded.push({ file_id: record.id, name: record.name });
+    }
+    fileAnswers.push({ id: field.id, label: field.label, type: 'file', value: uploaded });
+  }
+  if (!fileAnswers.length) return;
+
+  const { error } = await supabase
+    .from('service_requests')
+    .update({ intake_answers: [...answers, ...fileAnswers] as unknown as Json })
+    .eq('id', requestId);
+  if (error) throw error;
+};
+
+export const formatIntakeValue = (answer: IntakeAnswer) => {
+  if (answer.type === 'file') return (answer.value as IntakeFileAnswer[]).map((file) => file.name).join(', ');
+  if (Array.isArray(answer.value)) return answer.value.join(', ');
+  return String(answer.value);
+};
+
+// Tidies a questionnaire from the admin editor before it is saved: blank options and unset limits
+// are dropped, and conditions that no longer point at an earlier choice question are removed
+export const cleanIntakeSchema = (fields: IntakeField[]): IntakeField[] =>
+  fields.map((field, index) => {
+    const hasOptions = field.type === 'choice' || field.type === 'multi';
+    const options = hasOptions ? [...new Set((field.options ?? []).map((o) => o.trim()).filter(Boolean))] : undefined;
+    const source = field.show_if && fields.slice(0, index).find((f) => f.id === field.show_if?.field);
+    const showIfValues = field.show_if?.values.filter((v) => source?.options?.map((o) => o.trim()).includes(v)) ?? [];
+    const limit = (value: number | undefined) =>
+      field.type === 'number' && value !== undefined && !Number.isNaN(value) ? value : undefined;
+    return {
+      id: field.id.trim(),
+      label: field.label.trim(),
+      type: field.type,
+      required: field.required,
+      help: field.help?.trim() || undefined,
+      multiline: field.type === 'text' && field.multiline ? true : undefined,
+      options,
+      min: limit(field.min),
+      max: limit(field.max),
+      show_if: source && showIfValues.length ? { field: source.id, values: showIfValues } : undefined,
+    };
+  });
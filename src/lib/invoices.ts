@@ -0,0 +1,58 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+
+export type Invoice = Database['public']['Tables']['invoices']['Row'];
+export type InvoiceItem = Database['public']['Tables']['invoice_items']['Row'];
+export type BillingSettings = Database['public']['Tables']['billing_settings']['Row'];
+
+export const GST_RATES = [0, 0.25, 3, 5, 12, 18, 28];
+
+export const INVOICE_STATUS_LABELS: Record<string, string> = {
+  draft: 'Draft',
+  issued: 'Issued',
+  accepted: 'Accepted',
+  paid: 'Paid',
+  void: 'Void',
+};
+
+export const INVOICE_STATUS_COLORS: Record<string, string> = {
+  draft: 'bg-slate-500/10 text-slate-400 border-slate-500/20',
+  issued: 'bg-blue-500/10 text-blue-500 border-blue-500/20',
+  accepted: 'bg-purple-500/10 text-purple-500 border-purple-500/20',
+  paid: 'bg-green-500/10 text-green-500 border-green-500/20',
+  void: 'bg-red-500/10 text-red-500 border-red-500/20',
+};
+
+export const documentLabel = (invoice: Pick<Invoice, 'kind' | 'invoice_number'>) =>
+  `${invoice.kind === 'quote' ? 'Quote' : 'Invoice'} ${invoice.invoice_number ?? '(draft)'}`;
+
+export const formatAmount = (value: number) =>
+  `₹${Number(value).toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Renders the document through the invoice-pdf function and saves it in the browser
+export const downloadInvoicePdf = async (invoiceId: string) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/invoice-pdf`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session?.access_token ?? ''}`,
+    },
+    body: JSON.stringify({ invoiceId }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({}));
+    throw new Error(error.error || 'Failed to download PDF');
+  }
+
+  const fileName = response.headers.get('Content-Disposition')?.match(/filename="([^"]+)"/)?.[1] ?? 'invoice.pdf';
+  const url = URL.createObjectURL(await response.blob());
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
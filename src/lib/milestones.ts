@@ -0,0 +1,110 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { RequestFile } from '@/lib/requestFiles';
+
+export type MilestoneStatus = 'planned' | 'in_progress' | 'delivered' | 'changes_requested' | 'approved';
+export type MilestoneDecision = 'approved' | 'changes_requested';
+
+export const MILESTONE_STATUS_LABELS: Record<MilestoneStatus, string> = {
+  planned: 'Planned',
+  in_progress: 'In Progress',
+  delivered: 'Awaiting Approval',
+  changes_requested: 'Changes Requested',
+  approved: 'Approved',
+};
+
+export const MILESTONE_STATUS_COLORS: Record<MilestoneStatus, string> = {
+  planned: 'bg-slate-500/10 text-slate-400 border-slate-500/20',
+  in_progress: 'bg-blue-500/10 text-blue-500 border-blue-500/20',
+  delivered: 'bg-cyan-500/10 text-cyan-500 border-cyan-500/20',
+  changes_requested: 'bg-orange-500/10 text-orange-500 border-orange-500/20',
+  approved: 'bg-green-500/10 text-green-500 border-green-500/20',
+};
+
+// Approval and change requests come from the client's review; the database rejects them from anyone else
+export const PM_MILESTONE_STATUSES: MilestoneStatus[] = ['planned', 'in_progress', 'delivered'];
+
+export interface MilestoneReview {
+  id: string;
+  milestone_id: string;
+  decision: MilestoneDecision;
+  comment: string | null;
+  deliverables: { id: string; name: string }[];
+  reviewer_id: string | null;
+  created_at: string;
+}
+
+export interface Milestone {
+  id: string;
+  service_request_id: string;
+  title: string;
+  description: string | null;
+  due_date: string | null;
+  status: MilestoneStatus;
+  created_at: string;
+  updated_at: string;
+  milestone_reviews: MilestoneReview[];
+  // Deliverables: request files linked to the milestone
+  request_files: RequestFile[];
+}
+
+export interface MilestoneFields {
+  title: string;
+  description: string | null;
+  due_date: string | null;
+  status: MilestoneStatus;
+  file_ids: string[];
+}
+
+// How a portal loads and works on a request's milestones; like ThreadApi, each talks to a different backend.
+// Clients get review, PMs get save and remove.
+export interface MilestonesApi {
+  list: () => Promise<Milestone[]>;
+  url: (file: RequestFile, download?: boolean) => Promise<string>;
+  review?: (milestone: Milestone, decision: MilestoneDecision, comment: string) => Promise<void>;
+  // The request's files, to pick deliverables from
+  files?: () => Promise<RequestFile[]>;
+  save?: (milestoneId: string | null, fields: MilestoneFields) => Promise<void>;
+  remove?: (milestone: Milestone) => Promise<void>;
+}
+
+export const MILESTONE_SELECT = '*, milestone_reviews(*), request_files(*)';
+
+// Dated milestones first, then in the order they were added; newest review first
+export const sortMilestones = (milestones: Milestone[]) =>
+  [...milestones]
+    .sort((a, b) =>
+      (a.due_date ?? '9999-12-31').localeCompare(b.due_date ?? '9999-12-31') || a.created_at.localeCompare(b.created_at))
+    .map((m) => ({
+      ...m,
+      milestone_reviews: [...(m.milestone_reviews ?? [])].sort((a, b) => b.created_at.localeCompare(a.created_at)),
+      request_files: m.request_files ?? [],
+    }));
+
+export const milestoneProgress = (milestones: Milestone[]) => {
+  const approved = milestones.filter((m) => m.status === 'approved').length;
+  return { approved, total: milestones.length, percent: milestones.length ? Math.round((approved / milestones.length) * 100) : 0 };
+};
+
+export const isOverdue = (milestone: Milestone) =>
+  !!milestone.due_date && milestone.status !== 'approved' && milestone.due_date < new Date().toISOString().slice(0, 10);
+
+// Client portal: RLS limits this to the user's own requests; the review is recorded by review_milestone
+export const clientMilestonesApi = (requestId: string, url: MilestonesApi['url']): MilestonesApi => ({
+  list: async () => {
+    const { data, error } = await supabase
+      .from('project_milestones')
+      .select(MILESTONE_SELECT)
+      .eq('service_request_id', requestId);
+    if (error) throw error;
+    return sortMilestones((data || []) as unknown as Milestone[]);
+  },
+  url,
+  review: async (milestone, decision, comment) => {
+    const { error } = await supabase.rpc('review_milestone', {
+      _milestone_id: milestone.id,
+      _decision: decision,
+      _comment: comment.trim() || undefined,
+    });
+    if (error) throw error;
+  },
+});
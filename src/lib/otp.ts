@@ -0,0 +1,11 @@
+// Error text for the OTP edge functions. Throttled and locked-out requests come back as
+// 429 { retryAfter: seconds }, which reads better as a wait time.
+export const otpErrorMessage = (data: { error?: string; retryAfter?: number }, fallback: string) => {
+  if (data.retryAfter) {
+    const minutes = Math.ceil(data.retryAfter / 60);
+    return data.retryAfter < 60
+      ? `Too many attempts. Try again in ${data.retryAfter} seconds.`
+      : `Too many attempts. Try again in ${minutes} minute${minutes === 1 ? '' : 's'}.`;
+  }
+  return data.error || fallback;
+};
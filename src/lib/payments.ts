@@ -0,0 +1,40 @@
+import { supabase } from '@/integrations/supabase/client';
+import { REQUEST_FILES_BUCKET, SIGNED_URL_TTL_SECONDS } from '@/lib/requestFiles';
+
+export type PaymentStatus = 'pending' | 'awaiting_verification' | 'paid' | 'cancelled';
+
+export const PAYMENT_STATUS_LABELS: Record<PaymentStatus, string> = {
+  pending: '⏳ Pending',
+  awaiting_verification: '🔍 Awaiting Verification',
+  paid: '✓ Paid',
+  cancelled: 'Cancelled',
+};
+
+export const PAYMENT_STATUS_COLORS: Record<PaymentStatus, string> = {
+  pending: 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20',
+  awaiting_verification: 'bg-blue-500/10 text-blue-500 border-blue-500/20',
+  paid: 'bg-green-500/10 text-green-500 border-green-500/20',
+  cancelled: 'bg-red-500/10 text-red-500 border-red-500/20',
+};
+
+export const paymentStatusLabel = (status: string) => PAYMENT_STATUS_LABELS[status as PaymentStatus] ?? status;
+
+export const paymentStatusColor = (status: string) => PAYMENT_STATUS_COLORS[status as PaymentStatus] ?? '';
+
+// UPI transaction references (UTR) are alphanumeric; the database applies the same rule
+export const TRANSACTION_ID_PATTERN = /^[A-Za-z0-9-]{6,40}$/;
+
+// Screenshots are private: they go in the payment's folder of the request's files and admins open
+// them through a short-lived signed URL
+export const uploadPaymentScreenshot = async (payment: { id: string; service_request_id: string }, file: File) => {
+  const path = `${payment.service_request_id}/payments/${payment.id}/${crypto.randomUUID()}-${file.name.replace(/[^\w.-]/g, '_').slice(-100)}`;
+  const { error } = await supabase.storage.from(REQUEST_FILES_BUCKET).upload(path, file, { upsert: false, contentType: file.type });
+  if (error) throw error;
+  return path;
+};
+
+export const paymentScreenshotUrl = async (path: string) => {
+  const { data, error } = await supabase.storage.from(REQUEST_FILES_BUCKET).createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+  if (error) throw error;
+  return data.signedUrl;
+};
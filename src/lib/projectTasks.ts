@@ -0,0 +1,89 @@
+import { supabase } from '@/integrations/supabase/client';
+import { adminApi } from '@/lib/adminApi';
+
+export type TaskStatus = 'todo' | 'doing' | 'review' | 'done';
+
+export const TASK_COLUMNS: { status: TaskStatus; label: string }[] = [
+  { status: 'todo', label: 'To do' },
+  { status: 'doing', label: 'Doing' },
+  { status: 'review', label: 'Review' },
+  { status: 'done', label: 'Done' },
+];
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+export interface ProjectTask {
+  id: string;
+  service_request_id: string;
+  title: string;
+  description: string | null;
+  status: TaskStatus;
+  position: number;
+  assignees: string[];
+  checklist: ChecklistItem[];
+  due_date: string | null;
+  completed_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface TaskFields {
+  title: string;
+  description: string | null;
+  status: TaskStatus;
+  assignees: string[];
+  checklist: ChecklistItem[];
+  due_date: string | null;
+}
+
+// How a portal loads and changes a request's board; without save, move and remove the board is read-only
+export interface TaskBoardApi {
+  list: () => Promise<ProjectTask[]>;
+  save?: (taskId: string | null, fields: TaskFields) => Promise<void>;
+  move?: (task: ProjectTask, status: TaskStatus, position: number) => Promise<void>;
+  remove?: (task: ProjectTask) => Promise<void>;
+}
+
+export interface TaskSummary {
+  todo: number;
+  doing: number;
+  review: number;
+  done: number;
+  overdue: number;
+  last_completed_at: string | null;
+}
+
+export const sortTasks = (tasks: ProjectTask[]) =>
+  [...tasks].sort((a, b) => a.position - b.position || a.created_at.localeCompare(b.created_at));
+
+// Position for a card dropped between two neighbours in a column (either may be missing)
+export const positionBetween = (before?: ProjectTask, after?: ProjectTask) => {
+  if (before && after) return (before.position + after.position) / 2;
+  if (before) return before.position + 1;
+  if (after) return after.position - 1;
+  return 0;
+};
+
+export const isTaskOverdue = (task: ProjectTask) =>
+  !!task.due_date && task.status !== 'done' && task.due_date < new Date().toISOString().slice(0, 10);
+
+// Admin dashboard: the board is read-only for admins
+export const adminTasksApi = (requestId: string): TaskBoardApi => ({
+  list: async () => {
+    const data = await adminApi('select', 'project_tasks', {
+      filters: { eq: { service_request_id: requestId } },
+    });
+    return sortTasks(data || []);
+  },
+});
+
+// Client portal: counts per column only; the cards stay with the team
+export const fetchTaskSummary = async (requestId: string): Promise<TaskSummary> => {
+  const { data, error } = await supabase.rpc('request_task_summary', { _request_id: requestId });
+  if (error) throw error;
+  return data[0];
+};
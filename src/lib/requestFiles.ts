@@ -0,0 +1,165 @@
+import { supabase } from '@/integrations/supabase/client';
+import { adminApi } from '@/lib/adminApi';
+
+export const REQUEST_FILES_BUCKET = 'request-files';
+
+// Mirrors the request-files bucket limits, so a file is rejected before the upload starts
+export const MAX_REQUEST_FILE_BYTES = 25 * 1024 * 1024;
+export const REQUEST_FILE_TYPES = [
+  'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml',
+  'application/pdf',
+  'application/zip', 'application/x-zip-compressed',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'text/plain', 'text/csv',
+];
+export const REQUEST_FILE_ACCEPT = '.jpg,.jpeg,.png,.gif,.webp,.svg,.pdf,.zip,.doc,.docx,.xls,.xlsx,.ppt,.pptx,.txt,.csv';
+
+// Signed links are only handed out for immediate use
+export const SIGNED_URL_TTL_SECONDS = 5 * 60;
+
+export interface RequestFile {
+  id: string;
+  service_request_id: string;
+  path: string;
+  name: string;
+  content_type: string | null;
+  size_bytes: number | null;
+  uploaded_by_type: 'client' | 'pm' | 'admin';
+  uploaded_by_id: string | null;
+  uploaded_by_name: string | null;
+  created_at: string;
+}
+
+// How a portal lists, adds and opens a request's files; like ThreadApi, each talks to a different backend
+export interface RequestFilesApi {
+  list: () => Promise<RequestFile[]>;
+  upload: (file: File) => Promise<void>;
+  remove: (file: RequestFile) => Promise<void>;
+  url: (file: RequestFile, download?: boolean) => Promise<string>;
+  // Whether the viewer may delete this file
+  canRemove: (file: RequestFile) => boolean;
+}
+
+export const requestFileError = (file: File) => {
+  if (file.size > MAX_REQUEST_FILE_BYTES) return `${file.name} is larger than 25 MB`;
+  if (!REQUEST_FILE_TYPES.includes(file.type)) return `${file.name} is not a supported file type`;
+  return null;
+};
+
+export const requestFilePath = (requestId: string, file: File) =>
+  `${requestId}/${crypto.randomUUID()}-${file.name.replace(/[^\w.-]/g, '_').slice(-100)}`;
+
+export const formatFileSize = (bytes: number | null) => {
+  if (bytes === null) return '';
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(0)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const uploadObject = async (requestId: string, file: File) => {
+  const path = requestFilePath(requestId, file);
+  const { error } = await supabase.storage.from(REQUEST_FILES_BUCKET).upload(path, file, { upsert: false, contentType: file.type });
+  if (error) throw error;
+  return path;
+};
+
+// PMs upload through a signed URL handed out by pm-api
+export const uploadToSignedFileUrl = async (upload: { path: string; token: string }, file: File) => {
+  const { error } = await supabase.storage
+    .from(REQUEST_FILES_BUCKET)
+    .uploadToSignedUrl(upload.path, upload.token, file, { contentType: file.type });
+  if (error) throw error;
+};
+
+const removeObject = async (path: string) => {
+  const { error } = await supabase.storage.from(REQUEST_FILES_BUCKET).remove([path]);
+  // The row is already gone, so the object can no longer be reached
+  if (error) console.error('Failed to remove file from storage:', error);
+};
+
+const signedUrl = async (file: RequestFile, download = false) => {
+  const { data, error } = await supabase.storage
+    .from(REQUEST_FILES_BUCKET)
+    .createSignedUrl(file.path, SIGNED_URL_TTL_SECONDS, { download: download ? file.name : false });
+  if (error) throw error;
+  return data.signedUrl;
+};
+
+// Uploads a file to one of the signed-in client's requests and returns its record
+export const uploadClientFile = async (requestId: string, file: File, user: { id: string; name: string | null }) => {
+  const path = await uploadObject(requestId, file);
+  const { data, error } = await supabase
+    .from('request_files')
+    .insert({
+      service_request_id: requestId,
+      path,
+      name: file.name.slice(0, 200),
+      content_type: file.type || null,
+      size_bytes: file.size,
+      uploaded_by_type: 'client',
+      uploaded_by_id: user.id,
+      uploaded_by_name: user.name,
+    })
+    .select('*')
+    .single();
+  if (error) {
+    await removeObject(path);
+    throw error;
+  }
+  return data as RequestFile;
+};
+
+// Client portal: storage and table RLS limit this to the user's own requests
+export const clientFilesApi = (requestId: string, user: { id: string; name: string | null }): RequestFilesApi => ({
+  list: async () => {
+    const { data, error } = await supabase
+      .from('request_files')
+      .select('*')
+      .eq('service_request_id', requestId)
+      .order('created_at', { ascending: false });
+    if (error) throw error;
+    return (data || []) as RequestFile[];
+  },
+  upload: async (file) => {
+    await uploadClientFile(requestId, file, user);
+  },
+  remove: async (file) => {
+    const { error } = await supabase.from('request_files').delete().eq('id', file.id);
+    if (error) throw error;
+    await removeObject(file.path);
+  },
+  url: signedUrl,
+  canRemove: (file) => file.uploaded_by_type === 'client' && file.uploaded_by_id === user.id,
+});
+
+// Admin dashboard: admins upload to storage directly; the file records go through admin-api so they are audited
+export const adminFilesApi = (requestId: string): RequestFilesApi => ({
+  list: async () => {
+    const data = await adminApi('select', 'request_files', {
+      filters: { eq: { service_request_id: requestId }, order: { column: 'created_at', ascending: false } },
+    });
+    return data || [];
+  },
+  upload: async (file) => {
+    const path = await uploadObject(requestId, file);
+    try {
+      await adminApi('insert', 'request_files', {
+        data: { service_request_id: requestId, path, name: file.name.slice(0, 200), content_type: file.type || null, size_bytes: file.size },
+      });
+    } catch (error) {
+      await removeObject(path);
+      throw error;
+    }
+  },
+  // admin-api removes the stored object along with the row
+  remove: async (file) => {
+    await adminApi('delete', 'request_files', { id: file.id });
+  },
+  url: signedUrl,
+  canRemove: () => true,
+});
@@ -0,0 +1,62 @@
+import type { Database } from '@/integrations/supabase/types';
+
+export type RequestStatus = Database['public']['Enums']['request_status'];
+export type StatusActor = 'client' | 'pm' | 'admin';
+
+export const REQUEST_STATUSES: RequestStatus[] = [
+  'pending', 'quoted', 'awaiting_payment', 'in_progress', 'on_hold', 'in_review', 'completed', 'cancelled',
+];
+
+export const STATUS_LABELS: Record<RequestStatus, string> = {
+  pending: 'Pending',
+  quoted: 'Quoted',
+  awaiting_payment: 'Awaiting Payment',
+  in_progress: 'In Progress',
+  on_hold: 'On Hold',
+  in_review: 'In Review',
+  completed: 'Completed',
+  cancelled: 'Cancelled',
+};
+
+export const STATUS_COLORS: Record<RequestStatus, string> = {
+  pending: 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20',
+  quoted: 'bg-purple-500/10 text-purple-500 border-purple-500/20',
+  awaiting_payment: 'bg-orange-500/10 text-orange-500 border-orange-500/20',
+  in_progress: 'bg-blue-500/10 text-blue-500 border-blue-500/20',
+  on_hold: 'bg-slate-500/10 text-slate-400 border-slate-500/20',
+  in_review: 'bg-cyan-500/10 text-cyan-500 border-cyan-500/20',
+  completed: 'bg-green-500/10 text-green-500 border-green-500/20',
+  cancelled: 'bg-red-500/10 text-red-500 border-red-500/20',
+};
+
+// Mirrors the request_status_transitions table, which the database enforces.
+// Used only to decide which options to offer in the UI.
+const TRANSITIONS: Partial<Record<RequestStatus, Partial<Record<RequestStatus, StatusActor[]>>>> = {
+  pending: { quoted: ['admin'], in_progress: ['admin'], cancelled: ['admin', 'client'] },
+  quoted: { pending: ['admin'], awaiting_payment: ['admin', 'client'], cancelled: ['admin', 'client'] },
+  awaiting_payment: { in_progress: ['admin'], on_hold: ['admin'], cancelled: ['admin'] },
+  in_progress: { in_review: ['admin', 'pm'], on_hold: ['admin', 'pm'], cancelled: ['admin'] },
+  on_hold: { in_progress: ['admin', 'pm'], cancelled: ['admin'] },
+  in_review: { in_progress: ['admin', 'pm', 'client'], completed: ['admin', 'client'] },
+};
+
+export const nextStatuses = (from: string, actor: StatusActor): RequestStatus[] =>
+  Object.entries(TRANSITIONS[from as RequestStatus] ?? {})
+    .filter(([, actors]) => actors?.includes(actor))
+    .map(([to]) => to as RequestStatus);
+
+export const statusLabel = (status: string) => STATUS_LABELS[status as RequestStatus] ?? status.replace(/_/g, ' ');
+
+export const statusColor = (status: string) => STATUS_COLORS[status as RequestStatus] ?? '';
+
+export interface StatusHistoryEntry {
+  id: string;
+  service_request_id: string;
+  from_status: RequestStatus | null;
+  to_status: RequestStatus;
+  actor_type: StatusActor | 'system';
+  actor_id: string | null;
+  actor_label: string | null;
+  reason: string | null;
+  created_at: string;
+}
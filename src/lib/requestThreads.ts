@@ -0,0 +1,129 @@
+import { supabase } from '@/integrations/supabase/client';
+import { adminApi } from '@/lib/adminApi';
+import { REQUEST_FILES_BUCKET, SIGNED_URL_TTL_SECONDS, uploadToSignedFileUrl } from '@/lib/requestFiles';
+import type { Json } from '@/integrations/supabase/types';
+
+export type ThreadParty = 'client' | 'pm' | 'admin';
+export type MessageVisibility = 'internal' | 'client_visible';
+
+export interface MessageAttachment {
+  name: string;
+  // Object in the private request-files bucket: <request id>/messages/<uuid>-<file name>
+  path: string;
+  type?: string | null;
+  size?: number | null;
+}
+
+export interface RequestMessage {
+  id: string;
+  service_request_id: string;
+  author_type: ThreadParty;
+  author_id: string | null;
+  author_name: string | null;
+  visibility: MessageVisibility;
+  body: string;
+  attachments: MessageAttachment[];
+  read_by_client_at: string | null;
+  read_by_pm_at: string | null;
+  read_by_admin_at: string | null;
+  edited_at: string | null;
+  created_at: string;
+}
+
+export interface NewMessage {
+  body: string;
+  visibility: MessageVisibility;
+  attachments: MessageAttachment[];
+}
+
+// How a thread loads and writes messages; each portal talks to a different backend
+export interface ThreadApi {
+  list: () => Promise<RequestMessage[]>;
+  send: (message: NewMessage) => Promise<void>;
+  edit?: (id: string, body: string) => Promise<void>;
+  markRead: () => Promise<void>;
+  upload: (file: File) => Promise<MessageAttachment>;
+  // Short-lived links to attachments, by path
+  attachmentUrls: (paths: string[]) => Promise<Record<string, string>>;
+}
+
+export const attachmentPath = (requestId: string, file: File) =>
+  `${requestId}/messages/${crypto.randomUUID()}-${file.name.replace(/[^\w.-]/g, '_').slice(-100)}`;
+
+const toAttachment = (path: string, file: File): MessageAttachment =>
+  ({ name: file.name, path, type: file.type || null, size: file.size });
+
+// Clients and admins are signed in, so they upload straight to storage
+export const uploadAttachment = async (requestId: string, file: File): Promise<MessageAttachment> => {
+  const path = attachmentPath(requestId, file);
+  const { error } = await supabase.storage.from(REQUEST_FILES_BUCKET).upload(path, file, { upsert: false, contentType: file.type });
+  if (error) throw error;
+  return toAttachment(path, file);
+};
+
+// PMs upload through a signed URL handed out by pm-api
+export const uploadToSignedUrl = async (upload: { path: string; token: string }, file: File): Promise<MessageAttachment> => {
+  await uploadToSignedFileUrl(upload, file);
+  return toAttachment(upload.path, file);
+};
+
+// Storage policies decide which attachments clients and admins may open
+const signedAttachmentUrls = async (paths: string[]) => {
+  if (paths.length === 0) return {};
+  const { data, error } = await supabase.storage.from(REQUEST_FILES_BUCKET).createSignedUrls(paths, SIGNED_URL_TTL_SECONDS);
+  if (error) throw error;
+  return Object.fromEntries(data.filter((d) => !d.error && d.path).map((d) => [d.path as string, d.signedUrl]));
+};
+
+const markRead = async (requestId: string) => {
+  const { error } = await supabase.rpc('mark_request_messages_read', { _request_id: requestId });
+  if (error) throw error;
+};
+
+// Client portal: RLS limits the thread to client-visible messages on the user's own requests
+export const clientThreadApi = (requestId: string, user: { id: string; name: string | null }): ThreadApi => ({
+  list: async () => {
+    const { data, error } = await supabase
+      .from('request_messages')
+      .select('*')
+      .eq('service_request_id', requestId)
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    return (data || []) as unknown as RequestMessage[];
+  },
+  send: async ({ body, attachments }) => {
+    const { error } = await supabase.from('request_messages').insert({
+      service_request_id: requestId,
+      author_type: 'client',
+      author_id: user.id,
+      author_name: user.name,
+      visibility: 'client_visible',
+      body,
+      attachments: attachments as unknown as Json,
+      read_by_client_at: new Date().toISOString(),
+    });
+    if (error) throw error;
+  },
+  markRead: () => markRead(requestId),
+  upload: (file) => uploadAttachment(requestId, file),
+  attachmentUrls: signedAttachmentUrls,
+});
+
+// Admin dashboard: writes go through admin-api so they are validated and audited
+export const adminThreadApi = (requestId: string): ThreadApi => ({
+  list: async () => {
+    const data = await adminApi('select', 'request_messages', {
+      filters: { eq: { service_request_id: requestId }, order: { column: 'created_at', ascending: true } },
+    });
+    return data || [];
+  },
+  send: async (message) => {
+    await adminApi('insert', 'request_messages', { data: { service_request_id: requestId, ...message } });
+  },
+  edit: async (id, body) => {
+    await adminApi('update', 'request_messages', { id, data: { body } });
+  },
+  markRead: () => markRead(requestId),
+  upload: (file) => uploadAttachment(requestId, file),
+  attachmentUrls: signedAttachmentUrls,
+});
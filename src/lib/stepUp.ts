@@ -0,0 +1,42 @@
+import { supabase } from '@/integrations/supabase/client';
+import { otpErrorMessage } from '@/lib/otp';
+import { twoFactorApi, type TwoFactorProof } from '@/lib/twoFactor';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+
+// Sensitive operations that need a fresh verification on top of the session
+export type StepUpPurpose = 'change_password' | 'change_email' | 'delete_account';
+
+// Header the protected edge functions read the step-up token from
+export const STEP_UP_HEADER = 'x-step-up-token';
+
+const stepUpCall = async (body: Record<string, unknown>, fallback: string) => {
+  const { data: { session } } = await supabase.auth.getSession();
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/step-up`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      Authorization: `Bearer ${session?.access_token ?? ''}`,
+    },
+    body: JSON.stringify(body),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(otpErrorMessage(data, fallback));
+  return data;
+};
+
+// Emails a one-time code to the signed-in user
+export const requestStepUpCode = (purpose: StepUpPurpose) =>
+  stepUpCall({ action: 'send', purpose }, 'Failed to send verification code');
+
+// Exchanges the code for a single-use token scoped to `purpose`; it expires after a few minutes
+export const verifyStepUp = async (purpose: StepUpPurpose, otp: string): Promise<string> => {
+  const data = await stepUpCall({ action: 'verify', purpose, otp }, 'Verification failed');
+  return data.stepUpToken;
+};
+
+// Same token, earned with the authenticator app (or a recovery code) instead of an emailed code
+export const verifyStepUpWithTwoFactor = async (purpose: StepUpPurpose, proof: TwoFactorProof): Promise<string> => {
+  const data = await twoFactorApi<{ stepUpToken: string }>('step_up', { purpose, ...proof });
+  return data.stepUpToken;
+};
@@ -0,0 +1,75 @@
+import { adminApi } from '@/lib/adminApi';
+
+export interface TimeEntry {
+  id: string;
+  service_request_id: string;
+  task_id: string | null;
+  pm_id: string | null;
+  source: 'timer' | 'manual';
+  description: string | null;
+  started_at: string;
+  // Null while the timer is running
+  ended_at: string | null;
+  duration_minutes: number | null;
+  payment_request_id: string | null;
+  billed_hourly_rate: number | null;
+  created_at: string;
+  project_managers?: { name: string } | null;
+}
+
+export interface ManualTimeEntry {
+  started_at: string;
+  minutes: number;
+  task_id: string | null;
+  description: string | null;
+}
+
+// How the PM portal logs time against a project
+export interface TimeTrackerApi {
+  // The project's entries, and the PM's running timer wherever it is
+  list: () => Promise<{ entries: TimeEntry[]; running: TimeEntry | null }>;
+  tasks: () => Promise<{ id: string; title: string }[]>;
+  start: (taskId: string | null, description: string) => Promise<void>;
+  stop: () => Promise<void>;
+  add: (entry: ManualTimeEntry) => Promise<void>;
+  remove: (entry: TimeEntry) => Promise<void>;
+}
+
+export const formatMinutes = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return hours ? `${hours}h ${String(rest).padStart(2, '0')}m` : `${rest}m`;
+};
+
+export const formatElapsed = (since: string, now: number) => {
+  const seconds = Math.max(0, Math.floor((now - new Date(since).getTime()) / 1000));
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${Math.floor(seconds / 3600)}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+};
+
+export const isBilled = (entry: TimeEntry) => !!entry.payment_request_id;
+
+export const totalMinutes = (entries: TimeEntry[]) =>
+  entries.reduce((sum, entry) => sum + (entry.duration_minutes ?? 0), 0);
+
+// Totals for a timesheet report, grouped by whatever `key` picks out (PM, project, ...)
+export const groupMinutes = (entries: TimeEntry[], key: (entry: TimeEntry) => string | null) => {
+  const groups = new Map<string, { total: number; unbilled: number; entries: TimeEntry[] }>();
+  for (const entry of entries) {
+    const id = key(entry) ?? '';
+    const group = groups.get(id) ?? { total: 0, unbilled: 0, entries: [] };
+    group.total += entry.duration_minutes ?? 0;
+    if (!isBilled(entry)) group.unbilled += entry.duration_minutes ?? 0;
+    group.entries.push(entry);
+    groups.set(id, group);
+  }
+  return groups;
+};
+
+export const billedAmount = (minutes: number, hourlyRate: number) => Math.round((minutes / 60) * hourlyRate * 100) / 100;
+
+// Turns unbilled time on a request into a pending payment request; entryIds narrows it to a report's entries
+export const billTime = (
+  requestId: string,
+  bill: { hourly_rate: number; upi_id: string; payment_note?: string; entry_ids?: string[] },
+) => adminApi('bill', 'time_entries', { id: requestId, data: bill });
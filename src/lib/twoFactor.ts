@@ -0,0 +1,50 @@
+import { supabase } from '@/integrations/supabase/client';
+import { otpErrorMessage } from '@/lib/otp';
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+
+export interface TwoFactorStatus {
+  enabled: boolean;
+  // An admin has made 2FA mandatory for this kind of account
+  required: boolean;
+  // The current session has passed the second factor
+  verified: boolean;
+  recoveryCodesLeft: number;
+}
+
+export interface TwoFactorEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrSvg: string;
+}
+
+// Which session the two-factor function acts on: a PM portal session, or by default the signed-in user's
+export type TwoFactorAuth = { pmSession: string } | undefined;
+
+// Authenticator code or, when the phone is lost, a recovery code
+export type TwoFactorProof = { code: string } | { recoveryCode: string };
+
+const authHeaders = async (auth: TwoFactorAuth): Promise<Record<string, string>> => {
+  if (auth) return { 'x-pm-session': auth.pmSession };
+  const { data: { session } } = await supabase.auth.getSession();
+  return { Authorization: `Bearer ${session?.access_token ?? ''}` };
+};
+
+export const twoFactorApi = async <T = Record<string, unknown>>(
+  action: string,
+  body: Record<string, unknown> = {},
+  auth?: TwoFactorAuth,
+): Promise<T> => {
+  const response = await fetch(`${SUPABASE_URL}/functions/v1/two-factor`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(await authHeaders(auth)) },
+    body: JSON.stringify({ action, ...body }),
+  });
+  const data = await response.json();
+  if (!response.ok) throw new Error(otpErrorMessage(data, 'Two-factor request failed'));
+  return data as T;
+};
+
+// The session can't be used until the second factor is passed or, if mandatory, set up
+export const twoFactorPending = (status: TwoFactorStatus | null) =>
+  !!status && (status.enabled || status.required) && !status.verified;
@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import { useNavigate, Navigate } from 'react-router-dom';
+import { Navigate } from 'react-router-dom';
 import { Mail, User, Loader2, ArrowLeft, Lock, Eye, EyeOff, KeyRound } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
@@ -8,7 +8,9 @@ import { InputOTP, InputOTPGroup, InputOTPSlot, InputOTPSeparator } from '@/comp
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import MainLayout from '@/components/layout/MainLayout';
-import { supabase } from '@/integrations/supabase/client';
+import { otpErrorMessage } from '@/lib/otp';
+import { twoFactorPending } from '@/lib/twoFactor';
+import TwoFactorGate from '@/components/security/TwoFactorGate';
 import { z } from 'zod';
 
 const emailSchema = z.string().email('Invalid email address');
@@ -29,10 +31,11 @@ const Auth = () => {
   const [showNewPassword, setShowNewPassword] = useState(false);
   const [isSignup, setIsSignup] = useState(false);
   const { toast } = useToast();
-  const navigate = useNavigate();
-  const { user } = useAuth();
+  const { user, twoFactor, refreshTwoFactor, signIn, signOut } = useAuth();
 
-  if (user) return <Navigate to="/dashboard" replace />;
+  // A signed-in session that still owes its second factor stays here until it's done
+  const awaitingTwoFactor = !!user && twoFactorPending(twoFactor);
+  if (user && !awaitingTwoFactor) return <Navigate to="/dashboard" replace />;
 
   const handleLogin = async () => {
     try { emailSchema.parse(email); } catch {
@@ -46,10 +49,9 @@ const Auth = () => {
 
     setLoading(true);
     try {
-      const { error } = await supabase.auth.signInWithPassword({ email, password });
+      const { error } = await signIn(email, password);
       if (error) throw error;
-      toast({ title: 'Welcome back!', description: 'You have been logged in' });
-      setTimeout(() => navigate('/dashboard'), 500);
+      // Once useAuth has the session this page redirects to the dashboard, or shows the 2FA step
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : 'Login failed';
       toast({ title: 'Error', description: message, variant: 'destructive' });
@@ -80,8 +82,8 @@ const Auth = () => {
         body: JSON.stringify({ email, fullName, isSignup: true }),
       });
       const data = await response.json();
-      if (!response.ok) throw new Error(data.error || 'Failed to send OTP');
-      toast({ title: 'OTP Sent!', description: 'Check your email for the verification code' });
+      if (!response.ok) throw new Error(otpErrorMessage(data, 'Failed to send OTP'));
+      toast({ title: 'Check your email', description: 'We sent you a verification code, or a note if this email is already registered' });
       setStep('otp');
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : 'Failed to send OTP';
@@ -105,7 +107,7 @@ const Auth = () => {
         body: JSON.stringify({ email, otp, fullName, password, isSignup: true }),
       });
       const data = await response.json();
-      if (!response.ok) throw new Error(data.error || 'Verification failed');
+      if (!response.ok) throw new Error(otpErrorMessage(data, 'Verification failed'));
 
       toast({ title: 'Account Created!', description: 'You can now login with your password' });
       setStep('form');
@@ -134,8 +136,8 @@ const Auth = () => {
         body: JSON.stringify({ email, isSignup: false, isPasswordReset: true }),
       });
       const data = await response.json();
-      if (!response.ok) throw new Error(data.error || 'Failed to send OTP');
-      toast({ title: 'OTP Sent!', description: 'Check your email for the reset code' });
+      if (!response.ok) throw new Error(otpErrorMessage(data, 'Failed to send OTP'));
+      toast({ title: 'Check your email', description: 'If an account exists for this email, a reset code is on its way' });
       setStep('forgot-otp');
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : 'Failed to send OTP';
@@ -171,7 +173,9 @@ const Auth = () => {
         body: JSON.stringify({ email, otp, newPassword }),
       });
       const data = await response.json();
-      if (!response.ok) throw new Error(data.error || 'Password reset failed');
+      // A wrong code sends the user back to re-enter it
+      if (!response.ok && 'attemptsLeft' in data) { setOtp(''); setStep('forgot-otp'); }
+      if (!response.ok) throw new Error(otpErrorMessage(data, 'Password reset failed'));
       toast({ title: 'Password Reset!', description: 'You can now login with your new password' });
       setStep('form');
       setIsSignup(false);
@@ -198,7 +202,8 @@ const Auth = () => {
                 Welcome to <span className="gradient-text">THRYLOS</span>
               </h1>
               <p className="text-xs sm:text-sm text-muted-foreground">
-                {step === 'form' ? 'Sign in or create an account' :
+                {awaitingTwoFactor ? 'One more step to sign in' :
+                 step === 'form' ? 'Sign in or create an account' :
                  step === 'otp' ? 'Verify your email to create account' :
                  step === 'forgot' ? 'Enter your email to reset password' :
                  step === 'forgot-otp' ? 'Enter the code sent to your email' :
@@ -207,7 +212,9 @@ const Auth = () => {
             </div>
 
             <div className="glass-card p-5 sm:p-8 rounded-xl">
-              {step === 'form' ? (
+              {awaitingTwoFactor ? (
+                <TwoFactorGate enabled={!!twoFactor?.enabled} onVerified={refreshTwoFactor} onCancel={signOut} />
+              ) : step === 'form' ? (
                 <Tabs defaultValue={isSignup ? 'signup' : 'login'} onValueChange={(v) => setIsSignup(v === 'signup')} className="w-full">
                   <TabsList className="grid w-full grid-cols-2 mb-4 sm:mb-6">
                     <TabsTrigger value="login" className="text-xs sm:text-sm">Login</TabsTrigger>
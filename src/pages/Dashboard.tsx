@@ -1,6 +1,6 @@
 import { useEffect, useState } from 'react';
 import { Navigate, Link, useNavigate } from 'react-router-dom';
-import { Plus, Clock, CheckCircle, AlertCircle, Loader2, FileText, LogOut, IndianRupee, QrCode, CreditCard, Settings } from 'lucide-react';
+import { Plus, Clock, CheckCircle, AlertCircle, Loader2, FileText, LogOut, IndianRupee, QrCode, CreditCard, Settings, MessageSquare, ChevronDown, ChevronUp, Download, Receipt, Paperclip, Flag, KanbanSquare } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
@@ -12,6 +12,30 @@ import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { clientThreadApi } from '@/lib/requestThreads';
+import { clientFilesApi } from '@/lib/requestFiles';
+import { clientMilestonesApi } from '@/lib/milestones';
+import { attachIntakeFiles, buildIntakeAnswers, intakeErrors, parseIntakeAnswers, parseIntakeSchema, type IntakeField, type IntakeValues } from '@/lib/intake';
+import RequestThread from '@/components/requests/RequestThread';
+import RequestFiles from '@/components/requests/RequestFiles';
+import RequestMilestones from '@/components/requests/RequestMilestones';
+import TaskSummary from '@/components/requests/TaskSummary';
+import IntakeForm from '@/components/requests/IntakeForm';
+import IntakeAnswers from '@/components/requests/IntakeAnswers';
+import StatusTimeline from '@/components/requests/StatusTimeline';
+import { INVOICE_STATUS_COLORS, INVOICE_STATUS_LABELS, documentLabel, downloadInvoicePdf, formatAmount, type Invoice } from '@/lib/invoices';
+import { TRANSACTION_ID_PATTERN, paymentStatusColor, paymentStatusLabel, uploadPaymentScreenshot } from '@/lib/payments';
+import { nextStatuses, statusColor, statusLabel, type RequestStatus, type StatusHistoryEntry } from '@/lib/requestStatus';
+import { twoFactorPending } from '@/lib/twoFactor';
+
+// Button labels for the moves a client can make
+const CLIENT_ACTION_LABELS: Partial<Record<RequestStatus, string>> = {
+  awaiting_payment: 'Accept Quote',
+  cancelled: 'Cancel Request',
+  completed: 'Approve Delivery',
+  in_progress: 'Request Changes',
+};
 
 interface ProjectManager {
   id: string;
@@ -30,6 +54,9 @@ interface PaymentRequest {
   upi_id: string | null;
   transaction_id: string | null;
   payment_note: string | null;
+  screenshot_path: string | null;
+  submitted_at: string | null;
+  rejection_reason: string | null;
   created_at: string;
 }
 
@@ -37,7 +64,7 @@ interface ServiceRequest {
   id: string;
   title: string;
   description: string;
-  status: 'pending' | 'in_progress' | 'completed' | 'cancelled';
+  status: RequestStatus;
   priority: string;
   admin_response: string | null;
   created_at: string;
@@ -51,8 +78,11 @@ interface ServiceRequest {
   contact_phone: string | null;
   assigned_pm_id: string | null;
   pm_assigned_at: string | null;
+  intake_answers: Json | null;
   project_manager?: ProjectManager | null;
   payments?: PaymentRequest[];
+  invoices?: Invoice[];
+  history?: StatusHistoryEntry[];
 }
 
 interface Profile {
@@ -65,10 +95,11 @@ interface Profile {
 interface Service {
   id: string;
   title: string;
+  intake_schema: IntakeField[];
 }
 
 const Dashboard = () => {
-  const { user, loading: authLoading, signOut } = useAuth();
+  const { user, loading: authLoading, twoFactor, signOut } = useAuth();
   const navigate = useNavigate();
   const [requests, setRequests] = useState<ServiceRequest[]>([]);
   const [services, setServices] = useState<Service[]>([]);
@@ -78,6 +109,18 @@ const Dashboard = () => {
   const [submitting, setSubmitting] = useState(false);
   const [transactionIds, setTransactionIds] = useState<Record<string, string>>({});
   const [submittingPayment, setSubmittingPayment] = useState<string | null>(null);
+  const [screenshots, setScreenshots] = useState<Record<string, File>>({});
+  const [downloadingInvoice, setDownloadingInvoice] = useState<string | null>(null);
+  const [openThread, setOpenThread] = useState<string | null>(null);
+  const [openTimeline, setOpenTimeline] = useState<string | null>(null);
+  const [openFiles, setOpenFiles] = useState<string | null>(null);
+  const [openMilestones, setOpenMilestones] = useState<string | null>(null);
+  const [openTasks, setOpenTasks] = useState<string | null>(null);
+  const [changingStatus, setChangingStatus] = useState<string | null>(null);
+  const [cancelRequestId, setCancelRequestId] = useState<string | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
+  const [intakeValues, setIntakeValues] = useState<IntakeValues>({});
+  const [intakeFieldErrors, setIntakeFieldErrors] = useState<Record<string, string>>({});
   const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
   const { toast } = useToast();
 
@@ -104,7 +147,7 @@ const Dashboard = () => {
   const fetchData = async () => {
     if (!user) return;
 
-    const [requestsRes, profileRes, servicesRes, pmRes, paymentsRes] = await Promise.all([
+    const [requestsRes, profileRes, servicesRes, pmRes, paymentsRes, historyRes, invoicesRes] = await Promise.all([
       supabase
         .from('service_requests')
         .select('*')
@@ -117,7 +160,7 @@ const Dashboard = () => {
         .maybeSingle(),
       supabase
         .from('services')
-        .select('id, title')
+        .select('id, title, intake_schema')
         .eq('is_active', true),
       supabase
         .from('project_managers')
@@ -127,6 +170,15 @@ const Dashboard = () => {
         .select('*')
         .eq('user_id', user.id)
         .order('created_at', { ascending: false }),
+      supabase
+        .from('request_status_history')
+        .select('*')
+        .order('created_at', { ascending: true }),
+      supabase
+        .from('invoices')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('created_at', { ascending: false }),
     ]);
 
     const pmMap = new Map(pmRes.data?.map((pm: ProjectManager) => [pm.id, pm]) || []);
@@ -136,17 +188,33 @@ const Dashboard = () => {
       arr.push(p);
       paymentsByRequest.set(p.service_request_id, arr);
     });
+    const invoicesByRequest = new Map<string, Invoice[]>();
+    invoicesRes.data?.forEach((invoice) => {
+      const arr = invoicesByRequest.get(invoice.service_request_id) || [];
+      arr.push(invoice);
+      invoicesByRequest.set(invoice.service_request_id, arr);
+    });
+    const historyByRequest = new Map<string, StatusHistoryEntry[]>();
+    historyRes.data?.forEach((h) => {
+      const arr = historyByRequest.get(h.service_request_id) || [];
+      arr.push(h as StatusHistoryEntry);
+      historyByRequest.set(h.service_request_id, arr);
+    });
     
     if (requestsRes.data) {
       const enrichedRequests = requestsRes.data.map((req: ServiceRequest) => ({
         ...req,
         project_manager: req.assigned_pm_id ? pmMap.get(req.assigned_pm_id) : null,
         payments: paymentsByRequest.get(req.id) || [],
+        invoices: invoicesByRequest.get(req.id) || [],
+        history: historyByRequest.get(req.id) || [],
       }));
       setRequests(enrichedRequests as ServiceRequest[]);
     }
     if (profileRes.data) setProfile(profileRes.data);
-    if (servicesRes.data) setServices(servicesRes.data);
+    if (servicesRes.data) {
+      setServices(servicesRes.data.map((s) => ({ ...s, intake_schema: parseIntakeSchema(s.intake_schema) })));
+    }
     setLoading(false);
   };
 
@@ -165,6 +233,26 @@ const Dashboard = () => {
           fetchData();
         }
       )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'payment_requests',
+          filter: `user_id=eq.${user?.id}`,
+        },
+        (payload) => {
+          // Let the client know as soon as an admin reviews their payment
+          const payment = payload.new as PaymentRequest;
+          const amount = `₹${Number(payment.amount).toLocaleString('en-IN')}`;
+          if (payment.status === 'paid') {
+            toast({ title: 'Payment confirmed', description: `Your payment of ${amount} has been verified` });
+          } else if (payment.status === 'pending' && payment.rejection_reason) {
+            toast({ title: 'Payment not verified', description: payment.rejection_reason, variant: 'destructive' });
+          }
+          fetchData();
+        }
+      )
       .subscribe();
 
     return () => {
@@ -172,21 +260,72 @@ const Dashboard = () => {
     };
   };
 
-  const submitTransactionId = async (paymentId: string) => {
-    const txnId = transactionIds[paymentId];
-    if (!txnId?.trim()) return;
+  const downloadInvoice = async (invoiceId: string) => {
+    setDownloadingInvoice(invoiceId);
+    try {
+      await downloadInvoicePdf(invoiceId);
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setDownloadingInvoice(null);
+  };
+
+  // Clients can only submit proof; an admin confirms or rejects it
+  const submitTransactionId = async (payment: PaymentRequest) => {
+    const paymentId = payment.id;
+    const txnId = transactionIds[paymentId]?.trim();
+    if (!txnId) return;
+    if (!TRANSACTION_ID_PATTERN.test(txnId)) {
+      toast({ title: 'Invalid transaction ID', description: 'Enter the transaction ID (UTR) shown in your UPI app', variant: 'destructive' });
+      return;
+    }
     setSubmittingPayment(paymentId);
-    const { error } = await supabase
-      .from('payment_requests')
-      .update({ transaction_id: txnId.trim(), status: 'paid', paid_at: new Date().toISOString() })
-      .eq('id', paymentId);
+    try {
+      const screenshot = screenshots[paymentId];
+      const screenshotPath = screenshot ? await uploadPaymentScreenshot(payment, screenshot) : undefined;
+
+      const { error } = await supabase.rpc('submit_payment_proof', {
+        _payment_id: paymentId,
+        _transaction_id: txnId,
+        _screenshot_path: screenshotPath,
+      });
+      if (error) throw error;
+
+      toast({ title: 'Payment submitted!', description: 'We will confirm it once the transaction is verified' });
+      setTransactionIds((prev) => ({ ...prev, [paymentId]: '' }));
+      setScreenshots((prev) => {
+        const { [paymentId]: _removed, ...rest } = prev;
+        return rest;
+      });
+      fetchData();
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+    setSubmittingPayment(null);
+  };
+
+  const changeStatus = async (requestId: string, status: RequestStatus, reason?: string) => {
+    // Cancelling needs a reason; collect it first
+    if (status === 'cancelled' && !reason) {
+      setCancelRequestId(requestId);
+      setCancelReason('');
+      return;
+    }
+
+    setChangingStatus(requestId);
+    const { error } = await supabase.rpc('client_transition_request_status', {
+      _request_id: requestId,
+      _to_status: status,
+      _reason: reason,
+    });
     if (error) {
-      toast({ title: 'Error', description: 'Failed to submit transaction', variant: 'destructive' });
+      toast({ title: 'Error', description: error.message, variant: 'destructive' });
     } else {
-      toast({ title: 'Payment submitted!', description: 'Transaction ID recorded successfully' });
+      toast({ title: 'Request updated', description: `Status changed to ${statusLabel(status)}` });
+      setCancelRequestId(null);
       fetchData();
     }
-    setSubmittingPayment(null);
+    setChangingStatus(null);
   };
 
   const formatBudget = (budget: string | null) => {
@@ -201,18 +340,30 @@ const Dashboard = () => {
     return `https://api.qrserver.com/v1/create-qr-code/?size=300x300&data=${encodeURIComponent(upiUrl)}`;
   };
 
+  const selectedService = services.find((service) => service.title === newRequest.service_type);
+  const intakeFields = selectedService?.intake_schema ?? [];
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!user) return;
 
+    const errors = intakeErrors(intakeFields, intakeValues);
+    setIntakeFieldErrors(errors);
+    if (Object.keys(errors).length) {
+      toast({ title: 'Error', description: 'Please answer the questions marked below', variant: 'destructive' });
+      return;
+    }
+
     setSubmitting(true);
-    const { error } = await supabase
+    const answers = buildIntakeAnswers(intakeFields, intakeValues);
+    const { data: created, error } = await supabase
       .from('service_requests')
       .insert([{
         user_id: user.id,
         title: newRequest.title,
         description: newRequest.description,
         priority: newRequest.priority,
+        service_id: selectedService?.id ?? null,
         service_type: newRequest.service_type || null,
         color_theme: newRequest.color_theme || null,
         budget_range: newRequest.budget_range || null,
@@ -220,13 +371,29 @@ const Dashboard = () => {
         company_name: newRequest.company_name || null,
         contact_email: newRequest.contact_email || user.email,
         contact_phone: newRequest.contact_phone || null,
+        intake_answers: intakeFields.length ? answers as unknown as Json : null,
         status: 'pending',
-      }]);
+      }])
+      .select('id')
+      .single();
 
     if (error) {
-      toast({ title: 'Error', description: 'Failed to create request', variant: 'destructive' });
+      toast({ title: 'Error', description: error.message || 'Failed to create request', variant: 'destructive' });
     } else {
-      toast({ title: 'Success', description: 'Service request created successfully' });
+      try {
+        await attachIntakeFiles(created.id, intakeFields, intakeValues, answers, {
+          id: user.id,
+          name: profile?.full_name || user.email || null,
+        });
+        toast({ title: 'Success', description: 'Service request created successfully' });
+      } catch (uploadError) {
+        // The request itself is in; the files can still be added from its Files section
+        toast({
+          title: 'Request created, but a file failed to upload',
+          description: (uploadError as Error).message,
+          variant: 'destructive',
+        });
+      }
       setNewRequest({
         title: '',
         description: '',
@@ -239,6 +406,8 @@ const Dashboard = () => {
         contact_email: '',
         contact_phone: '',
       });
+      setIntakeValues({});
+      setIntakeFieldErrors({});
       setDialogOpen(false);
       fetchData();
     }
@@ -264,21 +433,6 @@ const getStatusIcon = (status: string) => {
   }
 };
 
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'pending':
-        return 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20';
-      case 'in_progress':
-        return 'bg-blue-500/10 text-blue-500 border-blue-500/20';
-      case 'completed':
-        return 'bg-green-500/10 text-green-500 border-green-500/20';
-      case 'cancelled':
-        return 'bg-red-500/10 text-red-500 border-red-500/20';
-      default:
-        return '';
-    }
-  };
-
   if (authLoading) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
@@ -287,7 +441,8 @@ const getStatusIcon = (status: string) => {
     );
   }
 
-  if (!user) {
+  // Sessions that still owe a second factor finish signing in on the auth page
+  if (!user || twoFactorPending(twoFactor)) {
     return <Navigate to="/auth" replace />;
   }
 
@@ -425,7 +580,11 @@ const getStatusIcon = (status: string) => {
                     <Label>Service Type *</Label>
                     <Select
                       value={newRequest.service_type}
-                      onValueChange={(value) => setNewRequest({ ...newRequest, service_type: value })}
+                      onValueChange={(value) => {
+                        setNewRequest({ ...newRequest, service_type: value });
+                        setIntakeValues({});
+                        setIntakeFieldErrors({});
+                      }}
                     >
                       <SelectTrigger>
                         <SelectValue placeholder="Select service type" />
@@ -532,6 +691,18 @@ const getStatusIcon = (status: string) => {
                   </div>
                 </div>
 
+                {intakeFields.length > 0 && (
+                  <div className="space-y-3 border-t border-border/40 pt-4">
+                    <p className="text-sm font-medium">About your {selectedService?.title} project</p>
+                    <IntakeForm
+                      fields={intakeFields}
+                      values={intakeValues}
+                      onChange={setIntakeValues}
+                      errors={intakeFieldErrors}
+                    />
+                  </div>
+                )}
+
                 <Button type="submit" className="w-full bg-primary hover:bg-primary/90" disabled={submitting}>
                   {submitting ? (
                     <>
@@ -579,8 +750,8 @@ const getStatusIcon = (status: string) => {
         <h3 className="text-lg font-semibold">{request.title}</h3>
 
         <div className="flex flex-wrap items-center gap-2">
-          <Badge className={getStatusColor(request.status)}>
-            {request.status.replace("_", " ")}
+          <Badge className={statusColor(request.status)}>
+            {statusLabel(request.status)}
           </Badge>
 
           <Badge variant="secondary" className="capitalize">
@@ -628,6 +799,14 @@ const getStatusIcon = (status: string) => {
       )}
     </div>
 
+    {/* Questionnaire */}
+    {parseIntakeAnswers(request.intake_answers).length > 0 && (
+      <div className="bg-muted/40 border border-border/40 rounded-lg p-4">
+        <p className="text-xs text-muted-foreground uppercase mb-2">Project Brief</p>
+        <IntakeAnswers answers={request.intake_answers} />
+      </div>
+    )}
+
     {/* Assigned Project Manager */}
     {request.assigned_pm_id && request.project_manager && (
       <div className="bg-green-500/10 border border-green-500/30 rounded-lg p-4">
@@ -645,11 +824,152 @@ const getStatusIcon = (status: string) => {
       </div>
     )}
 
-    {/* Admin Response */}
-    {request.admin_response && (
-      <div className="bg-blue-500/5 border border-blue-500/20 rounded-lg p-4">
-        <p className="text-xs text-blue-400 uppercase mb-1">Admin Response</p>
-        <p className="text-sm leading-relaxed">{request.admin_response}</p>
+    {/* Client actions allowed in the current stage */}
+    {nextStatuses(request.status, 'client').length > 0 && (
+      <div className="flex flex-wrap gap-2">
+        {nextStatuses(request.status, 'client').map((status) => (
+          <Button
+            key={status}
+            size="sm"
+            variant={status === 'cancelled' ? 'outline' : 'default'}
+            className={status === 'cancelled' ? 'text-red-500 border-red-500/30 hover:bg-red-500/10' : ''}
+            disabled={changingStatus === request.id}
+            onClick={() => changeStatus(request.id, status)}
+          >
+            {CLIENT_ACTION_LABELS[status] || statusLabel(status)}
+          </Button>
+        ))}
+      </div>
+    )}
+
+    {/* Status Timeline */}
+    {request.history && request.history.length > 0 && (
+      <div className="bg-muted/20 border border-border/40 rounded-lg p-4">
+        <button
+          type="button"
+          className="w-full flex items-center justify-between text-xs text-muted-foreground uppercase"
+          onClick={() => setOpenTimeline(openTimeline === request.id ? null : request.id)}
+        >
+          <span className="flex items-center gap-1"><Clock className="w-3.5 h-3.5" /> Timeline</span>
+          {openTimeline === request.id ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </button>
+        {openTimeline === request.id && (
+          <div className="mt-3">
+            <StatusTimeline entries={request.history} viewer="client" />
+          </div>
+        )}
+      </div>
+    )}
+
+    {/* Messages */}
+    <div className="bg-blue-500/5 border border-blue-500/20 rounded-lg p-4">
+      <button
+        type="button"
+        className="w-full flex items-center justify-between text-xs text-blue-400 uppercase"
+        onClick={() => setOpenThread(openThread === request.id ? null : request.id)}
+      >
+        <span className="flex items-center gap-1"><MessageSquare className="w-3.5 h-3.5" /> Messages</span>
+        {openThread === request.id ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+      {openThread === request.id && (
+        <div className="mt-3">
+          <RequestThread
+            requestId={request.id}
+            viewer="client"
+            api={clientThreadApi(request.id, { id: user.id, name: profile?.full_name || user.email || null })}
+          />
+        </div>
+      )}
+    </div>
+
+    {/* Milestones */}
+    <div className="bg-muted/20 border border-border/40 rounded-lg p-4">
+      <button
+        type="button"
+        className="w-full flex items-center justify-between text-xs text-muted-foreground uppercase"
+        onClick={() => setOpenMilestones(openMilestones === request.id ? null : request.id)}
+      >
+        <span className="flex items-center gap-1"><Flag className="w-3.5 h-3.5" /> Milestones</span>
+        {openMilestones === request.id ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+      {openMilestones === request.id && (
+        <div className="mt-3">
+          <RequestMilestones
+            requestId={request.id}
+            viewer="client"
+            api={clientMilestonesApi(
+              request.id,
+              clientFilesApi(request.id, { id: user.id, name: profile?.full_name || user.email || null }).url,
+            )}
+          />
+        </div>
+      )}
+    </div>
+
+    {/* Task Progress */}
+    {request.assigned_pm_id && (
+      <div className="bg-muted/20 border border-border/40 rounded-lg p-4">
+        <button
+          type="button"
+          className="w-full flex items-center justify-between text-xs text-muted-foreground uppercase"
+          onClick={() => setOpenTasks(openTasks === request.id ? null : request.id)}
+        >
+          <span className="flex items-center gap-1"><KanbanSquare className="w-3.5 h-3.5" /> Task Progress</span>
+          {openTasks === request.id ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </button>
+        {openTasks === request.id && (
+          <div className="mt-3">
+            <TaskSummary requestId={request.id} />
+          </div>
+        )}
+      </div>
+    )}
+
+    {/* Files */}
+    <div className="bg-muted/20 border border-border/40 rounded-lg p-4">
+      <button
+        type="button"
+        className="w-full flex items-center justify-between text-xs text-muted-foreground uppercase"
+        onClick={() => setOpenFiles(openFiles === request.id ? null : request.id)}
+      >
+        <span className="flex items-center gap-1"><Paperclip className="w-3.5 h-3.5" /> Files</span>
+        {openFiles === request.id ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+      {openFiles === request.id && (
+        <div className="mt-3">
+          <RequestFiles
+            requestId={request.id}
+            api={clientFilesApi(request.id, { id: user.id, name: profile?.full_name || user.email || null })}
+          />
+        </div>
+      )}
+    </div>
+
+    {/* Quotes & Invoices */}
+    {request.invoices && request.invoices.length > 0 && (
+      <div className="bg-muted/20 border border-border/40 rounded-lg p-4 space-y-2">
+        <p className="text-xs text-muted-foreground uppercase flex items-center gap-1">
+          <Receipt className="w-3.5 h-3.5" /> Quotes & Invoices
+        </p>
+        {request.invoices.map((invoice) => (
+          <div key={invoice.id} className="flex items-center justify-between gap-2 text-sm">
+            <div className="flex items-center gap-2">
+              <span className="font-medium">{documentLabel(invoice)}</span>
+              <Badge className={INVOICE_STATUS_COLORS[invoice.status]}>{INVOICE_STATUS_LABELS[invoice.status]}</Badge>
+            </div>
+            <div className="flex items-center gap-2">
+              <span className="font-semibold">{formatAmount(invoice.grand_total)}</span>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => downloadInvoice(invoice.id)}
+                disabled={downloadingInvoice === invoice.id}
+              >
+                {downloadingInvoice === invoice.id ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+              </Button>
+            </div>
+          </div>
+        ))}
       </div>
     )}
 
@@ -657,17 +977,21 @@ const getStatusIcon = (status: string) => {
     {request.payments && request.payments.length > 0 && (
       <div className="space-y-3">
         {request.payments.map((payment: PaymentRequest) => (
-          <div key={payment.id} className={`border rounded-lg p-4 ${payment.status === 'paid' ? 'bg-green-500/5 border-green-500/20' : 'bg-orange-500/5 border-orange-500/20'}`}>
+          <div key={payment.id} className={`border rounded-lg p-4 ${payment.status === 'paid' ? 'bg-green-500/5 border-green-500/20' : payment.status === 'awaiting_verification' ? 'bg-blue-500/5 border-blue-500/20' : 'bg-orange-500/5 border-orange-500/20'}`}>
             <div className="flex items-center justify-between mb-2">
               <p className="text-xs uppercase font-semibold flex items-center gap-1">
                 <CreditCard className="w-3.5 h-3.5" />
-                Payment {payment.status === 'paid' ? '✓ Paid' : 'Request'}
+                Payment
+                <Badge className={`ml-1 normal-case ${paymentStatusColor(payment.status)}`}>{paymentStatusLabel(payment.status)}</Badge>
               </p>
               <span className="text-lg font-bold">₹{Number(payment.amount).toLocaleString('en-IN')}</span>
             </div>
             {payment.payment_note && (
               <p className="text-sm text-muted-foreground mb-2">{payment.payment_note}</p>
             )}
+            {payment.status === 'pending' && payment.rejection_reason && (
+              <p className="text-sm text-red-500 mb-2">Your last submission could not be verified: {payment.rejection_reason}</p>
+            )}
             {payment.status === 'pending' && (
               <div className="space-y-3 mt-3">
                 {payment.upi_id && (
@@ -686,15 +1010,32 @@ const getStatusIcon = (status: string) => {
                   />
                   <Button
                     size="sm"
-                    onClick={() => submitTransactionId(payment.id)}
+                    onClick={() => submitTransactionId(payment)}
                     disabled={submittingPayment === payment.id || !transactionIds[payment.id]?.trim()}
                   >
                     {submittingPayment === payment.id ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Submit'}
                   </Button>
                 </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`screenshot-${payment.id}`} className="text-xs text-muted-foreground">Payment screenshot (optional)</Label>
+                  <Input
+                    id={`screenshot-${payment.id}`}
+                    type="file"
+                    accept="image/*"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) setScreenshots((prev) => ({ ...prev, [payment.id]: file }));
+                    }}
+                  />
+                </div>
               </div>
             )}
-            {payment.status === 'paid' && payment.transaction_id && (
+            {payment.status === 'awaiting_verification' && (
+              <p className="text-xs text-muted-foreground mt-1">
+                Submitted for verification. You will be notified once it is confirmed.
+              </p>
+            )}
+            {payment.status !== 'pending' && payment.transaction_id && (
               <p className="text-xs text-muted-foreground mt-1">Txn ID: <span className="font-mono">{payment.transaction_id}</span></p>
             )}
           </div>
@@ -707,6 +1048,31 @@ const getStatusIcon = (status: string) => {
           </div>
         )}
       </main>
+
+      {/* Cancel Request Dialog */}
+      <Dialog open={!!cancelRequestId} onOpenChange={(open) => !open && setCancelRequestId(null)}>
+        <DialogContent className="glass-card border-border">
+          <DialogHeader><DialogTitle>Cancel Request</DialogTitle></DialogHeader>
+          <div className="space-y-4 mt-4">
+            <div>
+              <Label>Why are you cancelling? *</Label>
+              <Textarea
+                rows={3}
+                value={cancelReason}
+                onChange={(e) => setCancelReason(e.target.value)}
+              />
+            </div>
+            <Button
+              onClick={() => cancelRequestId && changeStatus(cancelRequestId, 'cancelled', cancelReason.trim())}
+              disabled={!cancelReason.trim() || changingStatus === cancelRequestId}
+              className="w-full"
+              variant="destructive"
+            >
+              Cancel Request
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
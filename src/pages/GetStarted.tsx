@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { ArrowRight, Check, Zap } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -7,7 +7,12 @@ import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import MainLayout from '@/components/layout/MainLayout';
+import IntakeForm from '@/components/requests/IntakeForm';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  attachIntakeFiles, buildIntakeAnswers, intakeErrors, parseIntakeSchema, type IntakeField, type IntakeValues,
+} from '@/lib/intake';
 
 const GetStarted = () => {
   const [step, setStep] = useState(1);
@@ -20,19 +25,26 @@ const GetStarted = () => {
     projectDescription: '',
     selectedService: '',
   });
+  const [services, setServices] = useState<{ id: string; title: string; intake_schema: IntakeField[] }[]>([]);
+  const [intakeValues, setIntakeValues] = useState<IntakeValues>({});
+  const [intakeFieldErrors, setIntakeFieldErrors] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
   const navigate = useNavigate();
   const { signUp } = useAuth();
 
-  const services = [
-    'Web Development',
-    'Mobile App Development',
-    'Cloud Solutions',
-    'AI & ML Integration',
-    'Cybersecurity',
-    'Digital Strategy',
-  ];
+  useEffect(() => {
+    supabase
+      .from('services')
+      .select('id, title, intake_schema')
+      .eq('is_active', true)
+      .then(({ data }) => {
+        if (data) setServices(data.map((s) => ({ ...s, intake_schema: parseIntakeSchema(s.intake_schema) })));
+      });
+  }, []);
+
+  const selectedService = services.find((service) => service.title === formData.selectedService);
+  const intakeFields = selectedService?.intake_schema ?? [];
 
   const handleNext = () => {
     if (step < 3) setStep(step + 1);
@@ -44,6 +56,15 @@ const GetStarted = () => {
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    // Check the questionnaire before the account is created, so a mistake doesn't leave a half-finished signup
+    const errors = intakeErrors(intakeFields, intakeValues);
+    setIntakeFieldErrors(errors);
+    if (Object.keys(errors).length) {
+      toast({ title: 'Error', description: 'Please answer the questions marked below', variant: 'destructive' });
+      return;
+    }
+
     setLoading(true);
 
     try {
@@ -72,16 +93,34 @@ const GetStarted = () => {
           })
           .eq('user_id', user.id);
 
-        // Create initial service request if project description provided
-        if (formData.projectDescription) {
-          await supabase
+        // Create initial service request if the project was described or the service has a questionnaire
+        if (formData.projectDescription || intakeFields.length) {
+          const answers = buildIntakeAnswers(intakeFields, intakeValues);
+          const { data: created, error: requestError } = await supabase
             .from('service_requests')
             .insert([{
               user_id: user.id,
               title: `New Project - ${formData.selectedService || 'General Inquiry'}`,
               description: formData.projectDescription,
+              service_id: selectedService?.id ?? null,
+              service_type: formData.selectedService || null,
+              intake_answers: intakeFields.length ? answers as unknown as Json : null,
               status: 'pending',
-            }]);
+            }])
+            .select('id')
+            .single();
+
+          // The account exists either way; the request can be sent again from the dashboard
+          if (requestError) {
+            toast({ title: 'Your project details were not saved', description: requestError.message, variant: 'destructive' });
+          } else {
+            await attachIntakeFiles(created.id, intakeFields, intakeValues, answers, { id: user.id, name: formData.fullName })
+              .catch((uploadError: Error) => toast({
+                title: 'A file failed to upload',
+                description: `${uploadError.message}. You can add it from the request's Files section.`,
+                variant: 'destructive',
+              }));
+          }
         }
       }
 
@@ -201,20 +240,24 @@ const GetStarted = () => {
                       <div className="grid grid-cols-2 gap-3">
                         {services.map((service) => (
                           <button
-                            key={service}
+                            key={service.id}
                             type="button"
-                            onClick={() => setFormData({ ...formData, selectedService: service })}
+                            onClick={() => {
+                              setFormData({ ...formData, selectedService: service.title });
+                              setIntakeValues({});
+                              setIntakeFieldErrors({});
+                            }}
                             className={`p-3 rounded-lg border text-left text-sm transition-colors ${
-                              formData.selectedService === service
+                              formData.selectedService === service.title
                                 ? 'border-primary bg-primary/10'
                                 : 'border-border hover:border-primary/50'
                             }`}
                           >
                             <div className="flex items-center gap-2">
-                              {formData.selectedService === service && (
+                              {formData.selectedService === service.title && (
                                 <Check className="w-4 h-4 text-primary" />
                               )}
-                              {service}
+                              {service.title}
                             </div>
                           </button>
                         ))}
@@ -236,6 +279,15 @@ const GetStarted = () => {
                         onChange={(e) => setFormData({ ...formData, projectDescription: e.target.value })}
                       />
                     </div>
+
+                    {intakeFields.length > 0 && (
+                      <IntakeForm
+                        fields={intakeFields}
+                        values={intakeValues}
+                        onChange={setIntakeValues}
+                        errors={intakeFieldErrors}
+                      />
+                    )}
                   </div>
                 )}
 
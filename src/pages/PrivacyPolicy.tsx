@@ -72,6 +72,7 @@ const PrivacyPolicy = () => {
                 <li>Game-specific information (UID, player stats)</li>
                 <li>Payment information (UPI ID, transaction references)</li>
                 <li>Social media account details (for service delivery)</li>
+                <li>Sign-in records (time, IP address and browser) to protect your account</li>
               </ul>
             </Section>
 
@@ -99,6 +100,10 @@ const PrivacyPolicy = () => {
               <ul className="list-disc pl-6 space-y-2">
                 <li>Payment processors for transaction completion</li>
                 <li>Trusted service providers for platform operations</li>
+                <li>
+                  An IP geolocation service (ipapi.co), when enabled, which receives the IP
+                  address of a sign-in to show its approximate location in your login history
+                </li>
                 <li>Legal or regulatory authorities when required by law</li>
               </ul>
             </Section>
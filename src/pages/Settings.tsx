@@ -9,11 +9,18 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import { supabase } from '@/integrations/supabase/client';
+import { STEP_UP_HEADER, requestStepUpCode, verifyStepUp, verifyStepUpWithTwoFactor } from '@/lib/stepUp';
+import { twoFactorPending, type TwoFactorProof } from '@/lib/twoFactor';
+import TwoFactorCard from '@/components/security/TwoFactorCard';
+import TwoFactorCodeForm from '@/components/security/TwoFactorCodeForm';
+import SessionsCard from '@/components/security/SessionsCard';
+import LoginHistoryCard from '@/components/security/LoginHistoryCard';
+import AccountDataCard from '@/components/security/AccountDataCard';
 
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
 
 const Settings = () => {
-  const { user, loading: authLoading } = useAuth();
+  const { user, loading: authLoading, twoFactor, refreshTwoFactor } = useAuth();
   const { toast } = useToast();
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -24,8 +31,9 @@ const Settings = () => {
 
   // Change password with OTP
   const [changePwdOpen, setChangePwdOpen] = useState(false);
-  const [changePwdStep, setChangePwdStep] = useState<'send' | 'otp' | 'password'>('send');
+  const [changePwdStep, setChangePwdStep] = useState<'send' | 'otp' | 'authenticator' | 'password'>('send');
   const [otp, setOtp] = useState('');
+  const [stepUpToken, setStepUpToken] = useState('');
   const [newPwd, setNewPwd] = useState('');
   const [confirmPwd, setConfirmPwd] = useState('');
   const [showPwd, setShowPwd] = useState(false);
@@ -96,18 +104,12 @@ const Settings = () => {
     setUploading(false);
   };
 
-  // Change password flow
+  // Change password flow: a verified code buys a short-lived step-up token, which change-password requires
   const sendChangeOtp = async () => {
     if (!user?.email) return;
     setChangingPwd(true);
     try {
-      const response = await fetch(`${SUPABASE_URL}/functions/v1/send-otp`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email: user.email, isSignup: false, isPasswordReset: true }),
-      });
-      const data = await response.json();
-      if (!response.ok) throw new Error(data.error || 'Failed to send OTP');
+      await requestStepUpCode('change_password');
       toast({ title: 'OTP Sent!', description: 'Check your email for the verification code' });
       setChangePwdStep('otp');
     } catch (error: unknown) {
@@ -118,12 +120,32 @@ const Settings = () => {
     }
   };
 
-  const verifyChangeOtp = () => {
+  const verifyChangeOtp = async () => {
     if (otp.length !== 6) {
       toast({ title: 'Error', description: 'Enter 6-digit code', variant: 'destructive' });
       return;
     }
-    setChangePwdStep('password');
+    setChangingPwd(true);
+    try {
+      setStepUpToken(await verifyStepUp('change_password', otp));
+      setChangePwdStep('password');
+    } catch (error: unknown) {
+      setOtp('');
+      const message = error instanceof Error ? error.message : 'Verification failed';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    } finally {
+      setChangingPwd(false);
+    }
+  };
+
+  const verifyChangeAuthenticator = async (proof: TwoFactorProof) => {
+    try {
+      setStepUpToken(await verifyStepUpWithTwoFactor('change_password', proof));
+      setChangePwdStep('password');
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Verification failed';
+      toast({ title: 'Error', description: message, variant: 'destructive' });
+    }
   };
 
   const submitNewPassword = async () => {
@@ -137,12 +159,19 @@ const Settings = () => {
     }
     setChangingPwd(true);
     try {
-      const response = await fetch(`${SUPABASE_URL}/functions/v1/reset-password`, {
+      const { data: { session } } = await supabase.auth.getSession();
+      const response = await fetch(`${SUPABASE_URL}/functions/v1/change-password`, {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ email: user?.email, otp, newPassword: newPwd }),
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${session?.access_token ?? ''}`,
+          [STEP_UP_HEADER]: stepUpToken,
+        },
+        body: JSON.stringify({ newPassword: newPwd }),
       });
       const data = await response.json();
+      // An expired or already-used token means verifying again from the start
+      if (!response.ok && data.stepUpRequired) { setOtp(''); setStepUpToken(''); setChangePwdStep('send'); }
       if (!response.ok) throw new Error(data.error || 'Failed to change password');
       toast({ title: 'Password Changed!', description: 'Your password has been updated' });
       setChangePwdOpen(false);
@@ -158,6 +187,7 @@ const Settings = () => {
   const resetChangePwd = () => {
     setChangePwdStep('send');
     setOtp('');
+    setStepUpToken('');
     setNewPwd('');
     setConfirmPwd('');
   };
@@ -170,7 +200,7 @@ const Settings = () => {
     );
   }
 
-  if (!user) return <Navigate to="/auth" replace />;
+  if (!user || twoFactorPending(twoFactor)) return <Navigate to="/auth" replace />;
 
   return (
     <div className="min-h-screen bg-background">
@@ -242,11 +272,16 @@ const Settings = () => {
             {/* Change Password */}
             <div className="glass-card rounded-xl p-6 space-y-4">
               <h2 className="text-lg font-semibold flex items-center gap-2"><KeyRound className="w-5 h-5" /> Security</h2>
-              <p className="text-sm text-muted-foreground">Change your password via email OTP verification</p>
+              <p className="text-sm text-muted-foreground">Change your password after verifying it's you</p>
               <Button variant="outline" onClick={() => { setChangePwdOpen(true); resetChangePwd(); }} className="w-full">
                 <Lock className="w-4 h-4 mr-2" /> Change Password
               </Button>
             </div>
+
+            <TwoFactorCard onChange={refreshTwoFactor} />
+            <SessionsCard />
+            <LoginHistoryCard />
+            <AccountDataCard email={user.email ?? ''} twoFactorEnabled={!!twoFactor?.enabled} />
           </div>
         )}
       </main>
@@ -267,6 +302,18 @@ const Settings = () => {
               <Button onClick={sendChangeOtp} className="w-full" disabled={changingPwd}>
                 {changingPwd ? <><Loader2 className="w-4 h-4 mr-2 animate-spin" />Sending...</> : 'Send Verification Code'}
               </Button>
+              {twoFactor?.enabled && (
+                <Button variant="outline" onClick={() => setChangePwdStep('authenticator')} className="w-full" disabled={changingPwd}>
+                  Use Authenticator App Instead
+                </Button>
+              )}
+            </div>
+          )}
+
+          {changePwdStep === 'authenticator' && (
+            <div className="space-y-4 mt-4">
+              <p className="text-sm text-muted-foreground text-center">Enter the code from your authenticator app</p>
+              <TwoFactorCodeForm submitLabel="Verify & Continue" onSubmit={verifyChangeAuthenticator} />
             </div>
           )}
 
@@ -294,7 +341,9 @@ const Settings = () => {
                   </InputOTPGroup>
                 </InputOTP>
               </div>
-              <Button onClick={verifyChangeOtp} className="w-full" disabled={otp.length !== 6}>Verify & Continue</Button>
+              <Button onClick={verifyChangeOtp} className="w-full" disabled={otp.length !== 6 || changingPwd}>
+                {changingPwd ? <><Loader2 className="w-4 h-4 mr-2 animate-spin" />Verifying...</> : 'Verify & Continue'}
+              </Button>
               <button onClick={sendChangeOtp} disabled={changingPwd} className="w-full text-center text-sm text-primary hover:underline disabled:opacity-50">
                 Resend Code
               </button>
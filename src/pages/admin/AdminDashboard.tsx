@@ -3,9 +3,25 @@ import { Navigate, Link } from 'react-router-dom';
 import { 
   FileText, Briefcase, Mail, Users, LogOut, Flame, CheckCircle,
   Plus, Edit, AlertTriangle, Trash2, Eye, X, Loader2, MessageSquare, Upload,
-  Clock, Phone, UserCheck, UserX, IndianRupee, QrCode, CreditCard
+  Clock, Phone, UserCheck, UserX, IndianRupee, QrCode, CreditCard, Sparkles, Receipt
 } from 'lucide-react';
 import AnalyticsCharts from '@/components/admin/AnalyticsCharts';
+import ActivityLog from '@/components/admin/ActivityLog';
+import LoginHistory from '@/components/admin/LoginHistory';
+import EmailTemplates from '@/components/admin/EmailTemplates';
+import EmailLog from '@/components/admin/EmailLog';
+import Timesheets from '@/components/admin/Timesheets';
+import IntakeSchemaEditor from '@/components/admin/IntakeSchemaEditor';
+import PMAssignmentSettings from '@/components/admin/PMAssignmentSettings';
+import PMSuggestions from '@/components/admin/PMSuggestions';
+import InvoiceManager from '@/components/admin/InvoiceManager';
+import BillingSettingsCard from '@/components/admin/BillingSettingsCard';
+import TwoFactorPolicyCard from '@/components/admin/TwoFactorPolicyCard';
+import RequestThread from '@/components/requests/RequestThread';
+import RequestFiles from '@/components/requests/RequestFiles';
+import TaskBoard from '@/components/requests/TaskBoard';
+import StatusTimeline from '@/components/requests/StatusTimeline';
+import IntakeAnswers from '@/components/requests/IntakeAnswers';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -19,32 +35,14 @@ import { Label } from '@/components/ui/label';
 import { useToast } from '@/hooks/use-toast';
 import { useAdminAuth } from '@/hooks/useAdminAuth';
 import { supabase } from '@/integrations/supabase/client';
-
-const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
-const ADMIN_PASSWORD = '628400@thrylosindia';
-
-// Admin API helper
-const adminApi = async (action: string, table: string, options: {
-  data?: Record<string, unknown>;
-  id?: string;
-  filters?: Record<string, unknown>;
-} = {}) => {
-  const response = await fetch(`${SUPABASE_URL}/functions/v1/admin-api`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-admin-password': ADMIN_PASSWORD,
-    },
-    body: JSON.stringify({ action, table, ...options }),
-  });
-  
-  if (!response.ok) {
-    const error = await response.json();
-    throw new Error(error.error || 'API request failed');
-  }
-  
-  return response.json();
-};
+import type { Json } from '@/integrations/supabase/types';
+import { adminApi } from '@/lib/adminApi';
+import { adminThreadApi } from '@/lib/requestThreads';
+import { adminFilesApi } from '@/lib/requestFiles';
+import { adminTasksApi } from '@/lib/projectTasks';
+import { cleanIntakeSchema, parseIntakeAnswers, type IntakeField } from '@/lib/intake';
+import { nextStatuses, statusLabel, type StatusHistoryEntry } from '@/lib/requestStatus';
+import { paymentScreenshotUrl, paymentStatusColor, paymentStatusLabel } from '@/lib/payments';
 
 interface Service {
   id: string;
@@ -54,6 +52,7 @@ interface Service {
   features: string[];
   price_range: string;
   is_active: boolean;
+  intake_schema: IntakeField[];
 }
 
 interface ServiceRequest {
@@ -76,6 +75,7 @@ interface ServiceRequest {
   contact_phone?: string;
   assigned_pm_id?: string | null;
   pm_assigned_at?: string | null;
+  intake_answers?: Json | null;
 }
 
 interface PortfolioItem {
@@ -124,8 +124,20 @@ interface ProjectManager {
   phone: string | null;
   specialization: string | null;
   is_available: boolean;
+  accepting_projects: boolean;
+  max_concurrent_projects: number;
+  active_project_count: number;
 }
 
+const EMPTY_SERVICE_FORM = {
+  title: '', description: '', icon: 'Code', features: '', price_range: '', is_active: true,
+  intake_schema: [] as IntakeField[],
+};
+
+const EMPTY_PM_FORM = {
+  name: '', email: '', phone: '', specialization: '', accepting_projects: true, max_concurrent_projects: '3',
+};
+
 const AdminDashboard = () => {
   const { isAdminAuthenticated, adminLogout, loading: authLoading } = useAdminAuth();
   const [activeTab, setActiveTab] = useState('overview');
@@ -152,11 +164,17 @@ const AdminDashboard = () => {
   const [editingTeam, setEditingTeam] = useState<TeamMember | null>(null);
   const [editingPM, setEditingPM] = useState<ProjectManager | null>(null);
   const [selectedRequest, setSelectedRequest] = useState<ServiceRequest | null>(null);
-  const [adminResponseText, setAdminResponseText] = useState('');
+  const [statusHistory, setStatusHistory] = useState<StatusHistoryEntry[]>([]);
+  const [cancelRequestId, setCancelRequestId] = useState<string | null>(null);
+  const [suggestRequest, setSuggestRequest] = useState<ServiceRequest | null>(null);
+  const [invoiceRequest, setInvoiceRequest] = useState<ServiceRequest | null>(null);
+  const [cancelReason, setCancelReason] = useState('');
   const [paymentDialog, setPaymentDialog] = useState(false);
   const [paymentRequest, setPaymentRequest] = useState<ServiceRequest | null>(null);
   const [paymentForm, setPaymentForm] = useState({ amount: '', upi_id: '', payment_note: '' });
   const [sendingPayment, setSendingPayment] = useState(false);
+  const [rejectPaymentId, setRejectPaymentId] = useState<string | null>(null);
+  const [rejectReason, setRejectReason] = useState('');
 
   // Upload states
   const [uploading, setUploading] = useState(false);
@@ -164,18 +182,14 @@ const AdminDashboard = () => {
   const teamImageRef = useRef<HTMLInputElement>(null);
 
   // Form states
-  const [serviceForm, setServiceForm] = useState({
-    title: '', description: '', icon: 'Code', features: '', price_range: '', is_active: true
-  });
+  const [serviceForm, setServiceForm] = useState(EMPTY_SERVICE_FORM);
   const [portfolioForm, setPortfolioForm] = useState({
     title: '', description: '', image_url: '', project_url: '', technologies: '', category: '', is_featured: false
   });
   const [teamForm, setTeamForm] = useState({
     name: '', role: '', bio: '', image_url: '', order_index: 0, is_active: true
   });
-  const [pmForm, setPmForm] = useState({
-    name: '', email: '', phone: '', specialization: '', is_available: true
-  });
+  const [pmForm, setPmForm] = useState(EMPTY_PM_FORM);
 
   useEffect(() => {
     if (isAdminAuthenticated) {
@@ -240,29 +254,9 @@ const AdminDashboard = () => {
         data: { assigned_pm_id: pmId, pm_assigned_at: new Date().toISOString() }, 
         id: requestId 
       });
-      
-      // Send notification email to PM
-      const pm = projectManagers.find(p => p.id === pmId);
-      const request = requests.find(r => r.id === requestId);
-      if (pm && request) {
-        try {
-          await fetch(`${SUPABASE_URL}/functions/v1/notify-pm-assignment`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              managerName: pm.name,
-              managerEmail: pm.email,
-              clientName: request.user_name || 'N/A',
-              projectName: request.title,
-              phone: request.contact_phone || 'N/A',
-            }),
-          });
-        } catch (emailError) {
-          console.error('Failed to send PM notification email:', emailError);
-        }
-      }
-      
-      toast({ title: 'Project Manager assigned & notified' });
+
+      // The PM and the client are emailed from the notification outbox
+      toast({ title: 'Project Manager assigned' });
       fetchRequests();
       fetchProjectManagers();
     } catch (error) {
@@ -270,17 +264,12 @@ const AdminDashboard = () => {
     }
   };
 
-  const unassignPM = async (requestId: string, pmId: string) => {
+  const unassignPM = async (requestId: string) => {
     try {
       await adminApi('update', 'service_requests', { 
         data: { assigned_pm_id: null, pm_assigned_at: null }, 
         id: requestId 
       });
-      // Check if PM has other assignments
-      const otherAssignments = requests.filter(r => r.assigned_pm_id === pmId && r.id !== requestId);
-      if (otherAssignments.length === 0) {
-        await adminApi('update', 'project_managers', { data: { is_available: true }, id: pmId });
-      }
       toast({ title: 'Project Manager unassigned' });
       fetchRequests();
       fetchProjectManagers();
@@ -293,7 +282,7 @@ const AdminDashboard = () => {
     const data = await adminApi('select', 'services', {
       filters: { order: { column: 'created_at', ascending: false } }
     });
-    setServices(data.map((s: Service) => ({ ...s, features: s.features || [] })));
+    setServices(data.map((s: Service) => ({ ...s, features: s.features || [], intake_schema: s.intake_schema || [] })));
   };
 
   const fetchRequests = async () => {
@@ -309,8 +298,9 @@ const AdminDashboard = () => {
     
     const enrichedRequests = data.map((req: ServiceRequest) => ({
       ...req,
-      user_name: (profileMap.get(req.user_id) as Profile | undefined)?.full_name || 'Unknown',
-      user_email: (profileMap.get(req.user_id) as Profile | undefined)?.email || req.user_id,
+      // No user means the client deleted their account and the request was kept for the accounts
+      user_name: req.user_id ? (profileMap.get(req.user_id) as Profile | undefined)?.full_name || 'Unknown' : 'Former client',
+      user_email: (profileMap.get(req.user_id) as Profile | undefined)?.email || req.user_id || '',
     }));
     setRequests(enrichedRequests);
   };
@@ -375,7 +365,7 @@ const AdminDashboard = () => {
   const handleSaveService = async () => {
     try {
       const features = serviceForm.features.split(',').map(f => f.trim()).filter(Boolean);
-      const payload = { ...serviceForm, features };
+      const payload = { ...serviceForm, features, intake_schema: cleanIntakeSchema(serviceForm.intake_schema) };
 
       if (editingService) {
         await adminApi('update', 'services', { data: payload, id: editingService.id });
@@ -387,7 +377,7 @@ const AdminDashboard = () => {
 
       setServiceDialog(false);
       setEditingService(null);
-      setServiceForm({ title: '', description: '', icon: 'Code', features: '', price_range: '', is_active: true });
+      setServiceForm(EMPTY_SERVICE_FORM);
       fetchServices();
     } catch (error) {
       toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
@@ -414,6 +404,7 @@ const AdminDashboard = () => {
       features: service.features.join(', '),
       price_range: service.price_range || '',
       is_active: service.is_active,
+      intake_schema: service.intake_schema,
     });
     setServiceDialog(true);
   };
@@ -515,7 +506,7 @@ const AdminDashboard = () => {
   // Project Manager CRUD
   const handleSavePM = async () => {
     try {
-      const payload = { ...pmForm };
+      const payload = { ...pmForm, max_concurrent_projects: parseInt(pmForm.max_concurrent_projects) || 1 };
 
       if (editingPM) {
         await adminApi('update', 'project_managers', { data: payload, id: editingPM.id });
@@ -527,7 +518,7 @@ const AdminDashboard = () => {
 
       setPmDialog(false);
       setEditingPM(null);
-      setPmForm({ name: '', email: '', phone: '', specialization: '', is_available: true });
+      setPmForm(EMPTY_PM_FORM);
       fetchProjectManagers();
     } catch (error) {
       toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
@@ -552,7 +543,8 @@ const AdminDashboard = () => {
       email: pm.email,
       phone: pm.phone || '',
       specialization: pm.specialization || '',
-      is_available: pm.is_available,
+      accepting_projects: pm.accepting_projects,
+      max_concurrent_projects: String(pm.max_concurrent_projects),
     });
     setPmDialog(true);
   };
@@ -560,10 +552,10 @@ const AdminDashboard = () => {
   const togglePMAvailability = async (pm: ProjectManager) => {
     try {
       await adminApi('update', 'project_managers', { 
-        data: { is_available: !pm.is_available }, 
+        data: { accepting_projects: !pm.accepting_projects }, 
         id: pm.id 
       });
-      toast({ title: `PM marked as ${pm.is_available ? 'busy' : 'available'}` });
+      toast({ title: pm.accepting_projects ? 'PM paused for new projects' : 'PM accepting new projects' });
       fetchProjectManagers();
     } catch (error) {
       toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
@@ -582,29 +574,17 @@ const AdminDashboard = () => {
   };
 
   // Request management
-  const updateRequestStatus = async (id: string, status: string) => {
+  const updateRequestStatus = async (id: string, status: string, reason?: string) => {
+    // Cancelling needs a reason; collect it first
+    if (status === 'cancelled' && !reason) {
+      setCancelRequestId(id);
+      setCancelReason('');
+      return;
+    }
+
     try {
-      await adminApi('update', 'service_requests', { data: { status }, id });
-      
-      // If completed or cancelled, free up the PM
-      if (status === 'completed' || status === 'cancelled') {
-        const request = requests.find(r => r.id === id);
-        if (request?.assigned_pm_id) {
-          const otherActiveAssignments = requests.filter(
-            r => r.assigned_pm_id === request.assigned_pm_id && 
-                 r.id !== id && 
-                 r.status !== 'completed' && 
-                 r.status !== 'cancelled'
-          );
-          if (otherActiveAssignments.length === 0) {
-            await adminApi('update', 'project_managers', { 
-              data: { is_available: true }, 
-              id: request.assigned_pm_id 
-            });
-          }
-        }
-      }
-      
+      await adminApi('transition', 'service_requests', { data: { status, reason }, id });
+      setCancelRequestId(null);
       toast({ title: 'Status updated' });
       fetchRequests();
       fetchProjectManagers();
@@ -613,22 +593,15 @@ const AdminDashboard = () => {
     }
   };
 
-  const openResponseDialog = (request: ServiceRequest) => {
+  const openResponseDialog = async (request: ServiceRequest) => {
     setSelectedRequest(request);
-    setAdminResponseText(request.admin_response || '');
+    setStatusHistory([]);
     setResponseDialog(true);
-  };
-
-  const sendAdminResponse = async () => {
-    if (!selectedRequest) return;
     try {
-      await adminApi('update', 'service_requests', { 
-        data: { admin_response: adminResponseText }, 
-        id: selectedRequest.id 
+      const history = await adminApi('select', 'request_status_history', {
+        filters: { eq: { service_request_id: request.id }, order: { column: 'created_at', ascending: true } },
       });
-      toast({ title: 'Response sent' });
-      setResponseDialog(false);
-      fetchRequests();
+      setStatusHistory(history || []);
     } catch (error) {
       toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
     }
@@ -666,6 +639,30 @@ const AdminDashboard = () => {
     setSendingPayment(false);
   };
 
+  // Confirms a payment, or rejects it back to the client with a reason
+  const reviewPayment = async (paymentId: string, approve: boolean, reason?: string) => {
+    try {
+      await adminApi('review', 'payment_requests', { id: paymentId, data: { approve, reason } });
+      toast({ title: approve ? 'Payment confirmed' : 'Payment rejected', description: 'The client has been notified' });
+      setRejectPaymentId(null);
+      fetchPayments();
+    } catch (error) {
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  const openScreenshot = async (path: string) => {
+    // Open the tab before awaiting so popup blockers treat it as user-initiated
+    const tab = window.open('', '_blank');
+    try {
+      const url = await paymentScreenshotUrl(path);
+      if (tab) tab.location.href = url;
+    } catch (error) {
+      tab?.close();
+      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
   const formatBudget = (budget: string | null | undefined) => {
     if (!budget) return null;
     const num = parseFloat(budget);
@@ -837,10 +834,13 @@ const AdminDashboard = () => {
                 <TabsTrigger value="requests">Requests ({requests.length})</TabsTrigger>
                 <TabsTrigger value="payments">Payments</TabsTrigger>
                 <TabsTrigger value="project-managers">PMs ({projectManagers.length})</TabsTrigger>
+                <TabsTrigger value="timesheets">Timesheets</TabsTrigger>
                 <TabsTrigger value="services">Services</TabsTrigger>
                 <TabsTrigger value="portfolio">Portfolio</TabsTrigger>
                 <TabsTrigger value="team">Team</TabsTrigger>
                 <TabsTrigger value="messages">Messages</TabsTrigger>
+                <TabsTrigger value="activity">Activity</TabsTrigger>
+                <TabsTrigger value="emails">Emails</TabsTrigger>
               </TabsList>
 
               <TabsContent value="overview">
@@ -930,7 +930,7 @@ const AdminDashboard = () => {
                                     {req.status === "pending" && <Clock className="w-3 h-3 text-yellow-500" />}
                                     {req.status === "cancelled" && <AlertTriangle className="w-3 h-3 text-red-500" />}
                                     {req.status === "completed" && <CheckCircle className="w-3 h-3 text-green-500" />}
-                                    {req.status.replace(/_/g, " ")}
+                                    {statusLabel(req.status)}
                                   </Badge>
                                   <Badge className="capitalize flex items-center gap-1 bg-muted/40 border">
                                     {req.priority === "high" && <Flame className="w-3 h-3 text-orange-500 animate-pulse" />}
@@ -960,7 +960,7 @@ const AdminDashboard = () => {
                                       <Button 
                                         size="sm" 
                                         variant="outline" 
-                                        onClick={() => unassignPM(req.id, assignedPM.id)}
+                                        onClick={() => unassignPM(req.id)}
                                       >
                                         <X className="w-4 h-4 mr-1" /> Unassign
                                       </Button>
@@ -984,33 +984,47 @@ const AdminDashboard = () => {
                                     {projectManagers.length === 0 ? (
                                       <SelectItem value="none" disabled>No PMs added</SelectItem>
                                     ) : (
-                                      projectManagers.map((pm) => {
-                                        const activeCount = requests.filter(r => r.assigned_pm_id === pm.id && r.status !== 'completed' && r.status !== 'cancelled').length;
-                                        return (
-                                          <SelectItem key={pm.id} value={pm.id}>
-                                            {pm.name} ({activeCount} active)
-                                          </SelectItem>
-                                        );
-                                      })
+                                      projectManagers.map((pm) => (
+                                        <SelectItem
+                                          key={pm.id}
+                                          value={pm.id}
+                                          disabled={!pm.is_available && pm.id !== req.assigned_pm_id}
+                                        >
+                                          {pm.name} ({pm.active_project_count}/{pm.max_concurrent_projects} active)
+                                        </SelectItem>
+                                      ))
                                     )}
                                   </SelectContent>
                                 </Select>
 
-                                <Select onValueChange={(value) => updateRequestStatus(req.id, value)}>
+                                <Button size="sm" variant="outline" onClick={() => setSuggestRequest(req)}>
+                                  <Sparkles className="w-4 h-4 mr-1" />
+                                  Suggest PM
+                                </Button>
+
+                                <Select
+                                  key={req.status}
+                                  onValueChange={(value) => updateRequestStatus(req.id, value)}
+                                  disabled={nextStatuses(req.status, 'admin').length === 0}
+                                >
                                   <SelectTrigger className="w-[160px]">
                                     <SelectValue placeholder="Update Status" />
                                   </SelectTrigger>
                                   <SelectContent>
-                                    <SelectItem value="pending">Pending</SelectItem>
-                                    <SelectItem value="in_progress">In Progress</SelectItem>
-                                    <SelectItem value="completed">Completed</SelectItem>
-                                    <SelectItem value="cancelled">Cancelled</SelectItem>
+                                    {nextStatuses(req.status, 'admin').map((status) => (
+                                      <SelectItem key={status} value={status}>{statusLabel(status)}</SelectItem>
+                                    ))}
                                   </SelectContent>
                                 </Select>
 
                                 <Button size="sm" variant="outline" onClick={() => openResponseDialog(req)}>
                                   <MessageSquare className="w-4 h-4 mr-1" />
-                                  Respond
+                                  Messages
+                                </Button>
+
+                                <Button size="sm" variant="outline" onClick={() => setInvoiceRequest(req)}>
+                                  <Receipt className="w-4 h-4 mr-1" />
+                                  Quotes & Invoices
                                 </Button>
 
                                 <Button size="sm" variant="outline" onClick={() => openPaymentDialog(req)} className="text-green-500 border-green-500/30 hover:bg-green-500/10">
@@ -1057,6 +1071,13 @@ const AdminDashboard = () => {
                               )}
                             </div>
 
+                            {parseIntakeAnswers(req.intake_answers).length > 0 && (
+                              <div className="bg-muted/30 p-4 rounded-lg">
+                                <p className="text-xs text-muted-foreground uppercase mb-2">Project Brief</p>
+                                <IntakeAnswers answers={req.intake_answers} />
+                              </div>
+                            )}
+
                             {/* Client Info */}
                             <div className="bg-muted/30 p-4 rounded-lg space-y-1 text-sm">
                               <p>
@@ -1081,13 +1102,6 @@ const AdminDashboard = () => {
                               </p>
                             </div>
 
-                            {/* Admin Response */}
-                            {req.admin_response && (
-                              <div className="border border-border/50 bg-muted/40 p-4 rounded-lg">
-                                <p className="text-xs text-muted-foreground mb-1">Your Response</p>
-                                <p className="text-sm leading-relaxed">{req.admin_response}</p>
-                              </div>
-                            )}
                           </CardContent>
                         </Card>
                       );
@@ -1099,14 +1113,17 @@ const AdminDashboard = () => {
               {/* Payments Tab */}
               <TabsContent value="payments">
                 <div className="space-y-6">
+                  <BillingSettingsCard />
+
                   {/* Payment Stats */}
                   {(() => {
                     const totalRequested = payments.reduce((sum: number, p: any) => sum + Number(p.amount), 0);
                     const totalReceived = payments.filter((p: any) => p.status === 'paid').reduce((sum: number, p: any) => sum + Number(p.amount), 0);
                     const totalPending = payments.filter((p: any) => p.status === 'pending').reduce((sum: number, p: any) => sum + Number(p.amount), 0);
+                    const toVerify = payments.filter((p) => p.status === 'awaiting_verification');
 
                     return (
-                      <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
                         <Card className="glass-card">
                           <CardContent className="p-4 text-center">
                             <p className="text-xs text-muted-foreground">Total Requested</p>
@@ -1125,6 +1142,14 @@ const AdminDashboard = () => {
                             <p className="text-xl font-bold text-yellow-500">₹{totalPending.toLocaleString('en-IN')}</p>
                           </CardContent>
                         </Card>
+                        <Card className="glass-card">
+                          <CardContent className="p-4 text-center">
+                            <p className="text-xs text-muted-foreground">To Verify</p>
+                            <p className="text-xl font-bold text-blue-500">
+                              {toVerify.length} · ₹{toVerify.reduce((sum: number, p) => sum + Number(p.amount), 0).toLocaleString('en-IN')}
+                            </p>
+                          </CardContent>
+                        </Card>
                       </div>
                     );
                   })()}
@@ -1140,13 +1165,13 @@ const AdminDashboard = () => {
                   ) : (
                     <div className="space-y-3">
                       {payments.map((payment: any) => (
-                        <Card key={payment.id} className={`glass-card ${payment.status === 'paid' ? 'border-green-500/30' : 'border-yellow-500/30'}`}>
+                        <Card key={payment.id} className={`glass-card ${payment.status === 'paid' ? 'border-green-500/30' : payment.status === 'awaiting_verification' ? 'border-blue-500/30' : 'border-yellow-500/30'}`}>
                           <CardContent className="p-5">
                             <div className="flex flex-col md:flex-row md:items-center justify-between gap-4">
                               <div className="space-y-1">
                                 <div className="flex items-center gap-2">
-                                  <Badge className={payment.status === 'paid' ? 'bg-green-500/10 text-green-500 border-green-500/20' : 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20'}>
-                                    {payment.status === 'paid' ? '✓ Paid' : '⏳ Pending'}
+                                  <Badge className={paymentStatusColor(payment.status)}>
+                                    {paymentStatusLabel(payment.status)}
                                   </Badge>
                                   <span className="text-lg font-bold">₹{Number(payment.amount).toLocaleString('en-IN')}</span>
                                 </div>
@@ -1161,38 +1186,58 @@ const AdminDashboard = () => {
                                 {payment.upi_id && (
                                   <p className="text-sm"><span className="text-muted-foreground">UPI:</span> <span className="font-mono">{payment.upi_id}</span></p>
                                 )}
+                                {payment.status === 'pending' && payment.rejection_reason && (
+                                  <p className="text-sm text-red-500"><span className="text-muted-foreground">Last rejected:</span> {payment.rejection_reason}</p>
+                                )}
                               </div>
                               <div className="text-right space-y-2">
                                 <p className="text-xs text-muted-foreground">{new Date(payment.created_at).toLocaleDateString()}</p>
-                                {payment.status === 'paid' && payment.transaction_id && (
+                                {payment.transaction_id && payment.status !== 'pending' && (
                                   <p className="text-xs"><span className="text-muted-foreground">Txn:</span> <span className="font-mono">{payment.transaction_id}</span></p>
                                 )}
+                                {payment.submitted_at && payment.status === 'awaiting_verification' && (
+                                  <p className="text-xs text-muted-foreground">Submitted {new Date(payment.submitted_at).toLocaleString()}</p>
+                                )}
+                                {payment.screenshot_path && payment.status !== 'pending' && (
+                                  <button type="button" onClick={() => openScreenshot(payment.screenshot_path)} className="text-xs text-primary hover:underline block ml-auto">
+                                    View screenshot
+                                  </button>
+                                )}
                                 {payment.paid_at && (
                                   <p className="text-xs text-green-500">Paid on {new Date(payment.paid_at).toLocaleDateString()}</p>
                                 )}
-                                <Button
-                                  size="sm"
-                                  variant={payment.status === 'paid' ? 'outline' : 'default'}
-                                  className={payment.status === 'paid' ? 'border-red-500/30 text-red-500 hover:bg-red-500/10' : 'bg-green-600 hover:bg-green-700'}
-                                  onClick={async () => {
-                                    const newStatus = payment.status === 'paid' ? 'pending' : 'paid';
-                                    try {
-                                      await adminApi('update', 'payment_requests', {
-                                        data: { 
-                                          status: newStatus, 
-                                          paid_at: newStatus === 'paid' ? new Date().toISOString() : null 
-                                        },
-                                        id: payment.id
-                                      });
-                                      toast({ title: newStatus === 'paid' ? 'Marked as Received' : 'Marked as Pending' });
-                                      fetchPayments();
-                                    } catch (error) {
-                                      toast({ title: 'Error', description: (error as Error).message, variant: 'destructive' });
-                                    }
-                                  }}
-                                >
-                                  {payment.status === 'paid' ? 'Mark Not Received' : 'Mark Received'}
-                                </Button>
+                                <div className="flex gap-2 justify-end">
+                                  {payment.status === 'awaiting_verification' && (
+                                    <>
+                                      <Button
+                                        size="sm"
+                                        variant="outline"
+                                        className="border-red-500/30 text-red-500 hover:bg-red-500/10"
+                                        onClick={() => { setRejectPaymentId(payment.id); setRejectReason(''); }}
+                                      >
+                                        Reject
+                                      </Button>
+                                      <Button size="sm" className="bg-green-600 hover:bg-green-700" onClick={() => reviewPayment(payment.id, true)}>
+                                        Confirm
+                                      </Button>
+                                    </>
+                                  )}
+                                  {payment.status === 'pending' && (
+                                    <Button size="sm" className="bg-green-600 hover:bg-green-700" onClick={() => reviewPayment(payment.id, true)}>
+                                      Mark Received
+                                    </Button>
+                                  )}
+                                  {payment.status === 'paid' && (
+                                    <Button
+                                      size="sm"
+                                      variant="outline"
+                                      className="border-red-500/30 text-red-500 hover:bg-red-500/10"
+                                      onClick={() => { setRejectPaymentId(payment.id); setRejectReason(''); }}
+                                    >
+                                      Mark Not Received
+                                    </Button>
+                                  )}
+                                </div>
                               </div>
                             </div>
                           </CardContent>
@@ -1205,12 +1250,15 @@ const AdminDashboard = () => {
 
               {/* Project Managers Tab */}
               <TabsContent value="project-managers">
+                <div className="mb-4">
+                  <PMAssignmentSettings />
+                </div>
                 <div className="flex justify-end mb-4">
                   <Dialog open={pmDialog} onOpenChange={setPmDialog}>
                     <DialogTrigger asChild>
                       <Button className="bg-primary hover:bg-primary/90" onClick={() => {
                         setEditingPM(null);
-                        setPmForm({ name: '', email: '', phone: '', specialization: '', is_available: true });
+                        setPmForm(EMPTY_PM_FORM);
                       }}>
                         <Plus className="w-4 h-4 mr-2" />Add Project Manager
                       </Button>
@@ -1260,12 +1308,22 @@ const AdminDashboard = () => {
                             </SelectContent>
                           </Select>
                         </div>
+                        <div>
+                          <Label>Max concurrent projects</Label>
+                          <Input 
+                            type="number" 
+                            min={1} 
+                            max={50} 
+                            value={pmForm.max_concurrent_projects} 
+                            onChange={(e) => setPmForm({ ...pmForm, max_concurrent_projects: e.target.value })} 
+                          />
+                        </div>
                         <div className="flex items-center gap-2">
                           <Switch 
-                            checked={pmForm.is_available} 
-                            onCheckedChange={(checked) => setPmForm({ ...pmForm, is_available: checked })} 
+                            checked={pmForm.accepting_projects} 
+                            onCheckedChange={(checked) => setPmForm({ ...pmForm, accepting_projects: checked })} 
                           />
-                          <Label>Available for new projects</Label>
+                          <Label>Accepting new projects</Label>
                         </div>
                         <Button 
                           onClick={handleSavePM} 
@@ -1308,7 +1366,7 @@ const AdminDashboard = () => {
                                 <div>
                                   <h3 className="font-semibold">{pm.name}</h3>
                                   <Badge variant={pm.is_available ? 'default' : 'secondary'} className="mt-1">
-                                    {pm.is_available ? 'Available' : 'Busy'}
+                                    {pm.is_available ? 'Available' : pm.accepting_projects ? 'At capacity' : 'Paused'}
                                   </Badge>
                                 </div>
                               </div>
@@ -1340,7 +1398,7 @@ const AdminDashboard = () => {
 
                             <div className="mt-4 pt-4 border-t border-border">
                               <p className="text-xs text-muted-foreground mb-2">
-                                Active Projects: {activeProjects.length}
+                                Active Projects: {pm.active_project_count} / {pm.max_concurrent_projects}
                               </p>
                               {activeProjects.length > 0 && (
                                 <div className="space-y-1">
@@ -1362,7 +1420,7 @@ const AdminDashboard = () => {
                               className="w-full mt-4"
                               onClick={() => togglePMAvailability(pm)}
                             >
-                              Mark as {pm.is_available ? 'Busy' : 'Available'}
+                              {pm.accepting_projects ? 'Pause New Projects' : 'Accept New Projects'}
                             </Button>
                           </CardContent>
                         </Card>
@@ -1372,6 +1430,11 @@ const AdminDashboard = () => {
                 </div>
               </TabsContent>
 
+              {/* Timesheets Tab */}
+              <TabsContent value="timesheets">
+                <Timesheets />
+              </TabsContent>
+
               {/* Services Tab */}
               <TabsContent value="services">
                 <div className="flex justify-end mb-4">
@@ -1379,12 +1442,12 @@ const AdminDashboard = () => {
                     <DialogTrigger asChild>
                       <Button className="bg-primary hover:bg-primary/90" onClick={() => {
                         setEditingService(null);
-                        setServiceForm({ title: '', description: '', icon: 'Code', features: '', price_range: '', is_active: true });
+                        setServiceForm(EMPTY_SERVICE_FORM);
                       }}>
                         <Plus className="w-4 h-4 mr-2" />Add Service
                       </Button>
                     </DialogTrigger>
-                    <DialogContent className="glass-card border-border max-h-[90vh] overflow-y-auto">
+                    <DialogContent className="glass-card border-border max-h-[90vh] overflow-y-auto max-w-2xl">
                       <DialogHeader>
                         <DialogTitle>{editingService ? 'Edit Service' : 'Add New Service'}</DialogTitle>
                       </DialogHeader>
@@ -1410,6 +1473,13 @@ const AdminDashboard = () => {
                           <Switch checked={serviceForm.is_active} onCheckedChange={(checked) => setServiceForm({ ...serviceForm, is_active: checked })} />
                           <Label>Active</Label>
                         </div>
+                        <div className="space-y-2">
+                          <Label>Intake Questionnaire</Label>
+                          <IntakeSchemaEditor
+                            fields={serviceForm.intake_schema}
+                            onChange={(intake_schema) => setServiceForm({ ...serviceForm, intake_schema })}
+                          />
+                        </div>
                         <Button onClick={handleSaveService} className="w-full bg-primary">Save Service</Button>
                       </div>
                     </DialogContent>
@@ -1428,7 +1498,12 @@ const AdminDashboard = () => {
                         </div>
                         <p className="text-sm text-muted-foreground mb-2 line-clamp-2">{service.description}</p>
                         <p className="text-xs text-primary mb-2">{service.price_range}</p>
-                        <Badge variant={service.is_active ? 'default' : 'secondary'}>{service.is_active ? 'Active' : 'Inactive'}</Badge>
+                        <div className="flex flex-wrap gap-1">
+                          <Badge variant={service.is_active ? 'default' : 'secondary'}>{service.is_active ? 'Active' : 'Inactive'}</Badge>
+                          {service.intake_schema.length > 0 && (
+                            <Badge variant="outline">{service.intake_schema.length} intake questions</Badge>
+                          )}
+                        </div>
                       </CardContent>
                     </Card>
                   ))}
@@ -1617,12 +1692,39 @@ const AdminDashboard = () => {
                   )}
                 </div>
               </TabsContent>
+
+              {/* Activity Tab */}
+              <TabsContent value="activity">
+                <div className="space-y-6">
+                  <TwoFactorPolicyCard />
+                  <Tabs defaultValue="changes" className="space-y-4">
+                    <TabsList>
+                      <TabsTrigger value="changes">Changes</TabsTrigger>
+                      <TabsTrigger value="sign-ins">Sign-ins</TabsTrigger>
+                    </TabsList>
+                    <TabsContent value="changes"><ActivityLog /></TabsContent>
+                    <TabsContent value="sign-ins"><LoginHistory /></TabsContent>
+                  </Tabs>
+                </div>
+              </TabsContent>
+
+              {/* Emails Tab */}
+              <TabsContent value="emails">
+                <Tabs defaultValue="templates" className="space-y-4">
+                  <TabsList>
+                    <TabsTrigger value="templates">Templates</TabsTrigger>
+                    <TabsTrigger value="log">Email log</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="templates"><EmailTemplates /></TabsContent>
+                  <TabsContent value="log"><EmailLog /></TabsContent>
+                </Tabs>
+              </TabsContent>
             </Tabs>
 
-            {/* Admin Response Dialog */}
+            {/* Request Thread Dialog */}
             <Dialog open={responseDialog} onOpenChange={setResponseDialog}>
-              <DialogContent className="glass-card border-border">
-                <DialogHeader><DialogTitle>Respond to Request</DialogTitle></DialogHeader>
+              <DialogContent className="glass-card border-border max-w-4xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader><DialogTitle>Request Messages</DialogTitle></DialogHeader>
                 <div className="space-y-4 mt-4">
                   {selectedRequest && (
                     <div className="bg-muted/30 p-3 rounded-lg">
@@ -1630,11 +1732,116 @@ const AdminDashboard = () => {
                       <p className="text-xs text-muted-foreground mt-1">{selectedRequest.description}</p>
                     </div>
                   )}
+                  {statusHistory.length > 0 && (
+                    <div>
+                      <p className="text-xs text-muted-foreground uppercase mb-2">Status History</p>
+                      <StatusTimeline entries={statusHistory} viewer="admin" />
+                    </div>
+                  )}
+                  {selectedRequest && (
+                    <div>
+                      <p className="text-xs text-muted-foreground uppercase mb-2">Task Board</p>
+                      <TaskBoard requestId={selectedRequest.id} api={adminTasksApi(selectedRequest.id)} />
+                    </div>
+                  )}
+                  {selectedRequest && (
+                    <div>
+                      <p className="text-xs text-muted-foreground uppercase mb-2">Files</p>
+                      <RequestFiles requestId={selectedRequest.id} api={adminFilesApi(selectedRequest.id)} />
+                    </div>
+                  )}
+                  {selectedRequest && (
+                    <RequestThread
+                      requestId={selectedRequest.id}
+                      viewer="admin"
+                      api={adminThreadApi(selectedRequest.id)}
+                    />
+                  )}
+                </div>
+              </DialogContent>
+            </Dialog>
+
+            {/* PM Suggestions Dialog */}
+            <Dialog open={!!suggestRequest} onOpenChange={(open) => !open && setSuggestRequest(null)}>
+              <DialogContent className="glass-card border-border max-w-lg">
+                <DialogHeader><DialogTitle>Suggested Project Managers</DialogTitle></DialogHeader>
+                {suggestRequest && (
+                  <div className="space-y-4 mt-4">
+                    <p className="text-sm text-muted-foreground">{suggestRequest.title}</p>
+                    <PMSuggestions
+                      requestId={suggestRequest.id}
+                      assignedPmId={suggestRequest.assigned_pm_id}
+                      onAssign={(pmId) => {
+                        assignPM(suggestRequest.id, pmId);
+                        setSuggestRequest(null);
+                      }}
+                    />
+                  </div>
+                )}
+              </DialogContent>
+            </Dialog>
+
+            {/* Quotes & Invoices Dialog */}
+            <Dialog open={!!invoiceRequest} onOpenChange={(open) => !open && setInvoiceRequest(null)}>
+              <DialogContent className="glass-card border-border max-w-4xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader><DialogTitle>Quotes & Invoices</DialogTitle></DialogHeader>
+                {invoiceRequest && (
+                  <div className="space-y-4 mt-4">
+                    <p className="text-sm text-muted-foreground">{invoiceRequest.title}</p>
+                    <InvoiceManager request={invoiceRequest} onPaymentRequested={fetchPayments} />
+                  </div>
+                )}
+              </DialogContent>
+            </Dialog>
+
+            {/* Reject Payment Dialog */}
+            <Dialog open={!!rejectPaymentId} onOpenChange={(open) => !open && setRejectPaymentId(null)}>
+              <DialogContent className="glass-card border-border">
+                <DialogHeader><DialogTitle>Reject Payment</DialogTitle></DialogHeader>
+                <div className="space-y-4 mt-4">
                   <div>
-                    <Label>Your Response</Label>
-                    <Textarea rows={4} value={adminResponseText} onChange={(e) => setAdminResponseText(e.target.value)} />
+                    <Label>Reason *</Label>
+                    <Textarea
+                      rows={3}
+                      placeholder="Shown to the client, who can then submit the payment again"
+                      value={rejectReason}
+                      onChange={(e) => setRejectReason(e.target.value)}
+                    />
                   </div>
-                  <Button onClick={sendAdminResponse} className="w-full bg-primary">Send Response</Button>
+                  <Button
+                    onClick={() => rejectPaymentId && reviewPayment(rejectPaymentId, false, rejectReason.trim())}
+                    disabled={!rejectReason.trim()}
+                    className="w-full"
+                    variant="destructive"
+                  >
+                    Reject Payment
+                  </Button>
+                </div>
+              </DialogContent>
+            </Dialog>
+
+            {/* Cancel Request Dialog */}
+            <Dialog open={!!cancelRequestId} onOpenChange={(open) => !open && setCancelRequestId(null)}>
+              <DialogContent className="glass-card border-border">
+                <DialogHeader><DialogTitle>Cancel Request</DialogTitle></DialogHeader>
+                <div className="space-y-4 mt-4">
+                  <div>
+                    <Label>Reason *</Label>
+                    <Textarea
+                      rows={3}
+                      placeholder="Shown to the client on their request timeline"
+                      value={cancelReason}
+                      onChange={(e) => setCancelReason(e.target.value)}
+                    />
+                  </div>
+                  <Button
+                    onClick={() => cancelRequestId && updateRequestStatus(cancelRequestId, 'cancelled', cancelReason.trim())}
+                    disabled={!cancelReason.trim()}
+                    className="w-full"
+                    variant="destructive"
+                  >
+                    Cancel Request
+                  </Button>
                 </div>
               </DialogContent>
             </Dialog>
@@ -1,15 +1,17 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Lock, Zap, Loader2 } from 'lucide-react';
+import { Lock, Mail, Zap, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { useToast } from '@/hooks/use-toast';
 import { useAdminAuth } from '@/hooks/useAdminAuth';
+import TwoFactorGate from '@/components/security/TwoFactorGate';
 
 const AdminLogin = () => {
+  const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
   const [submitting, setSubmitting] = useState(false);
-  const { adminLogin, isAdminAuthenticated, loading } = useAdminAuth();
+  const { adminLogin, adminLogout, completeTwoFactor, pendingTwoFactor, isAdminAuthenticated, loading } = useAdminAuth();
   const { toast } = useToast();
   const navigate = useNavigate();
 
@@ -19,17 +21,20 @@ const AdminLogin = () => {
     }
   }, [isAdminAuthenticated, loading, navigate]);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setSubmitting(true);
 
-    const success = adminLogin(password);
+    const { error, twoFactorPending } = await adminLogin(email, password);
 
-    if (success) {
-      toast({ title: 'Welcome, Admin!', description: 'Access granted' });
-      navigate('/coordinator-admin/dashboard');
+    if (!error) {
+      // With 2FA the code step shows next; the effect above navigates once it's passed
+      if (!twoFactorPending) {
+        toast({ title: 'Welcome, Admin!', description: 'Access granted' });
+        navigate('/coordinator-admin/dashboard');
+      }
     } else {
-      toast({ title: 'Access Denied', description: 'Invalid password', variant: 'destructive' });
+      toast({ title: 'Access Denied', description: error.message, variant: 'destructive' });
     }
 
     setSubmitting(false);
@@ -58,37 +63,56 @@ const AdminLogin = () => {
             <h1 className="text-2xl font-bold mb-2">
               <span className="gradient-text">Admin Access</span>
             </h1>
-            <p className="text-muted-foreground">Enter coordinator password to continue</p>
+            <p className="text-muted-foreground">Sign in with your coordinator account to continue</p>
           </div>
 
           <div className="glass-card p-8 rounded-xl">
-            <form onSubmit={handleSubmit} className="space-y-6">
-              <div>
-                <label className="text-sm font-medium mb-2 block">Password</label>
-                <div className="relative">
-                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-                  <Input
-                    type="password"
-                    placeholder="Enter admin password"
-                    className="pl-10"
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                    required
-                  />
+            {pendingTwoFactor ? (
+              <TwoFactorGate enabled={pendingTwoFactor.enabled} onVerified={completeTwoFactor} onCancel={adminLogout} />
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-6">
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Email</label>
+                  <div className="relative">
+                    <Mail className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      type="email"
+                      placeholder="admin@example.com"
+                      className="pl-10"
+                      value={email}
+                      onChange={(e) => setEmail(e.target.value)}
+                      required
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium mb-2 block">Password</label>
+                  <div className="relative">
+                    <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+                    <Input
+                      type="password"
+                      placeholder="Enter your password"
+                      className="pl-10"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      required
+                    />
+                  </div>
                 </div>
-              </div>
 
-              <Button type="submit" className="w-full bg-primary hover:bg-primary/90" disabled={submitting}>
-                {submitting ? (
-                  <>
-                    <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                    Verifying...
-                  </>
-                ) : (
-                  'Access Dashboard'
-                )}
-              </Button>
-            </form>
+                <Button type="submit" className="w-full bg-primary hover:bg-primary/90" disabled={submitting}>
+                  {submitting ? (
+                    <>
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                      Verifying...
+                    </>
+                  ) : (
+                    'Access Dashboard'
+                  )}
+                </Button>
+              </form>
+            )}
           </div>
         </div>
       </div>
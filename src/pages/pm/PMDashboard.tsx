@@ -2,14 +2,29 @@ import { useEffect, useState } from 'react';
 import { useNavigate, Link } from 'react-router-dom';
 import {
   Loader2, LogOut, Briefcase, Clock, CheckCircle, AlertCircle,
-  MessageSquare, ChevronDown, ChevronUp, User2, Mail, Phone, Award, IndianRupee
+  MessageSquare, ChevronDown, ChevronUp, User2, Mail, Phone, Award, IndianRupee, ShieldCheck, Paperclip, Flag, KanbanSquare, Timer
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
-import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
+import RequestThread from '@/components/requests/RequestThread';
+import RequestFiles from '@/components/requests/RequestFiles';
+import RequestMilestones from '@/components/requests/RequestMilestones';
+import TaskBoard from '@/components/requests/TaskBoard';
+import TimeTracker from '@/components/requests/TimeTracker';
+import IntakeAnswers from '@/components/requests/IntakeAnswers';
+import TwoFactorCard from '@/components/security/TwoFactorCard';
+import { uploadToSignedUrl, type ThreadApi } from '@/lib/requestThreads';
+import { uploadToSignedFileUrl, type RequestFilesApi } from '@/lib/requestFiles';
+import { sortMilestones, type MilestonesApi } from '@/lib/milestones';
+import type { TaskBoardApi } from '@/lib/projectTasks';
+import type { TimeTrackerApi } from '@/lib/timeTracking';
+import { parseIntakeAnswers } from '@/lib/intake';
+import type { Json } from '@/integrations/supabase/types';
+import { nextStatuses, statusColor, statusLabel } from '@/lib/requestStatus';
 
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
 const PM_SESSION_KEY = 'thrylos_pm_session';
@@ -21,76 +36,198 @@ interface PMData {
 
 interface ServiceRequest {
   id: string; title: string; description: string; status: string;
-  priority: string; admin_response: string | null; notes: string | null;
+  priority: string;
   created_at: string; service_type: string | null; color_theme: string | null;
   budget_range: string | null; timeline: string | null; company_name: string | null;
   contact_email: string | null; contact_phone: string | null; user_id: string;
+  intake_answers: Json | null;
 }
 
 interface Profile { full_name: string | null; email: string | null; }
 
+interface PMSession { pm: PMData; token: string; expiresAt: string; }
+
+// Refresh the session token once it is within this window of expiring
+const REFRESH_WINDOW_MS = 30 * 60 * 1000;
+
+const readPMSession = (): PMSession | null => {
+  const raw = sessionStorage.getItem(PM_SESSION_KEY);
+  if (!raw) return null;
+  const session = JSON.parse(raw) as PMSession;
+  return session.token ? session : null;
+};
+
+const postPmApi = (token: string, body: Record<string, unknown>) =>
+  fetch(`${SUPABASE_URL}/functions/v1/pm-api`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-pm-session': token,
+    },
+    body: JSON.stringify(body),
+  });
+
+// Refreshing rotates the token, so calls made together must share one refresh: a second
+// refresh_session with the old token would get a 401 and sign the PM out
+let pendingRefresh: Promise<PMSession> | null = null;
+
+const refreshPMSession = (session: PMSession) => {
+  pendingRefresh ??= (async () => {
+    try {
+      const response = await postPmApi(session.token, { action: 'refresh_session' });
+      if (!response.ok) return session;
+      const refreshed = await response.json();
+      const next = { ...session, token: refreshed.sessionToken, expiresAt: refreshed.expiresAt };
+      sessionStorage.setItem(PM_SESSION_KEY, JSON.stringify(next));
+      return next;
+    } finally {
+      pendingRefresh = null;
+    }
+  })();
+  return pendingRefresh;
+};
+
+// PM API helper: sends the session token, refreshing it when close to expiry
+const pmApi = async (action: string, data?: Record<string, unknown>, id?: string) => {
+  let session = readPMSession();
+  if (!session) throw new Error('Session expired');
+
+  if (new Date(session.expiresAt).getTime() - Date.now() < REFRESH_WINDOW_MS) {
+    session = await refreshPMSession(session);
+  }
+
+  const response = await postPmApi(session.token, { action, data, id });
+  if (response.status === 401) {
+    sessionStorage.removeItem(PM_SESSION_KEY);
+    throw new Error('Session expired');
+  }
+  if (!response.ok) {
+    const err = await response.json();
+    throw new Error(err.error || 'Request failed');
+  }
+  return response.json();
+};
+
+// Thread transport for the PM portal: everything goes through pm-api
+const pmThreadApi = (requestId: string): ThreadApi => ({
+  list: async () => (await pmApi('get_messages', undefined, requestId)).messages || [],
+  send: async (message) => {
+    await pmApi('send_message', { ...message }, requestId);
+  },
+  edit: async (id, body) => {
+    await pmApi('edit_message', { body }, id);
+  },
+  markRead: async () => {
+    await pmApi('mark_messages_read', undefined, requestId);
+  },
+  upload: async (file) => uploadToSignedUrl(await pmApi('create_attachment_upload', { fileName: file.name }, requestId), file),
+  attachmentUrls: async (paths) => (paths.length ? (await pmApi('get_attachment_urls', { paths }, requestId)).urls : {}),
+});
+
+// File transport for the PM portal: pm-api checks the assignment and signs every upload and link
+const pmFilesApi = (requestId: string, pmId: string | undefined): RequestFilesApi => ({
+  list: async () => (await pmApi('get_files', undefined, requestId)).files || [],
+  upload: async (file) => {
+    const upload = await pmApi('create_file_upload', { fileName: file.name }, requestId);
+    await uploadToSignedFileUrl(upload, file);
+    await pmApi('add_file', { path: upload.path, name: file.name }, requestId);
+  },
+  remove: async (file) => {
+    await pmApi('delete_file', undefined, file.id);
+  },
+  url: async (file, download) => (await pmApi('get_file_url', { download }, file.id)).url,
+  canRemove: (file) => file.uploaded_by_type === 'pm' && file.uploaded_by_id === pmId,
+});
+
+// Milestone transport for the PM portal: pm-api checks the assignment and keeps approvals to the client
+const pmMilestonesApi = (requestId: string): MilestonesApi => ({
+  list: async () => sortMilestones((await pmApi('get_milestones', undefined, requestId)).milestones || []),
+  url: async (file, download) => (await pmApi('get_file_url', { download }, file.id)).url,
+  files: async () => (await pmApi('get_files', undefined, requestId)).files || [],
+  save: async (milestoneId, fields) => {
+    await pmApi(milestoneId ? 'update_milestone' : 'create_milestone', { ...fields }, milestoneId ?? requestId);
+  },
+  remove: async (milestone) => {
+    await pmApi('delete_milestone', undefined, milestone.id);
+  },
+});
+
+// Board transport for the PM portal: pm-api checks the assignment on every change
+const pmTasksApi = (requestId: string): TaskBoardApi => ({
+  list: async () => (await pmApi('get_tasks', undefined, requestId)).tasks || [],
+  save: async (taskId, fields) => {
+    await pmApi(taskId ? 'update_task' : 'create_task', { ...fields }, taskId ?? requestId);
+  },
+  move: async (task, status, position) => {
+    await pmApi('move_task', { status, position }, task.id);
+  },
+  remove: async (task) => {
+    await pmApi('delete_task', undefined, task.id);
+  },
+});
+
+// Time transport for the PM portal: pm-api keeps billed time out of reach
+const pmTimeApi = (requestId: string): TimeTrackerApi => ({
+  list: async () => {
+    const { entries, running } = await pmApi('get_time_entries', undefined, requestId);
+    return { entries: entries || [], running: running ?? null };
+  },
+  tasks: async () => (await pmApi('get_tasks', undefined, requestId)).tasks || [],
+  start: async (taskId, description) => {
+    await pmApi('start_timer', { task_id: taskId, description }, requestId);
+  },
+  stop: async () => {
+    await pmApi('stop_timer');
+  },
+  add: async (entry) => {
+    await pmApi('add_time_entry', { ...entry }, requestId);
+  },
+  remove: async (entry) => {
+    await pmApi('delete_time_entry', undefined, entry.id);
+  },
+});
+
 const PMDashboard = () => {
   const [pm, setPm] = useState<PMData | null>(null);
   const [projects, setProjects] = useState<ServiceRequest[]>([]);
   const [profiles, setProfiles] = useState<Map<string, Profile>>(new Map());
   const [loading, setLoading] = useState(true);
   const [expandedProject, setExpandedProject] = useState<string | null>(null);
-  const [noteText, setNoteText] = useState('');
-  const [savingNote, setSavingNote] = useState(false);
+  const [securityOpen, setSecurityOpen] = useState(false);
   const { toast } = useToast();
   const navigate = useNavigate();
 
   useEffect(() => {
-    const session = sessionStorage.getItem(PM_SESSION_KEY);
+    const session = readPMSession();
     if (!session) { navigate('/pm/login'); return; }
-    const pmData = JSON.parse(session) as PMData;
-    setPm(pmData);
-    fetchProjects(pmData.email);
+    setPm(session.pm);
+    fetchProjects();
   }, [navigate]);
 
-  const pmApi = async (action: string, data?: Record<string, unknown>, id?: string) => {
-    const pmEmail = pm?.email || JSON.parse(sessionStorage.getItem(PM_SESSION_KEY) || '{}').email;
-    const response = await fetch(`${SUPABASE_URL}/functions/v1/pm-api`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-pm-email': pmEmail,
-      },
-      body: JSON.stringify({ action, data, id }),
-    });
-    if (!response.ok) {
-      const err = await response.json();
-      throw new Error(err.error || 'Request failed');
+  // Send the PM back to login once the server rejects the session
+  const handleApiError = (fallback: string) => {
+    if (!readPMSession()) {
+      toast({ title: 'Session expired', description: 'Please log in again', variant: 'destructive' });
+      navigate('/pm/login');
+      return;
     }
-    return response.json();
+    toast({ title: 'Error', description: fallback, variant: 'destructive' });
   };
 
-  const fetchProjects = async (pmEmail: string) => {
+  const fetchProjects = async () => {
     setLoading(true);
     try {
-      // Use pmEmail to set the header - we need to read from session since pm state might not be set yet
-      const response = await fetch(`${SUPABASE_URL}/functions/v1/pm-api`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-pm-email': pmEmail,
-        },
-        body: JSON.stringify({ action: 'get_projects' }),
-      });
-      
-      if (!response.ok) throw new Error('Failed to load projects');
-      
-      const result = await response.json();
+      const result = await pmApi('get_projects');
       setProjects(result.projects || []);
-      
+
       if (result.profiles) {
         const profileMap = new Map(
           Object.entries(result.profiles).map(([userId, profile]) => [userId, profile as Profile])
         );
         setProfiles(profileMap);
       }
-    } catch (error) {
-      toast({ title: 'Error', description: 'Failed to load projects', variant: 'destructive' });
+    } catch {
+      handleApiError('Failed to load projects');
     }
     setLoading(false);
   };
@@ -99,35 +236,30 @@ const PMDashboard = () => {
     try {
       await pmApi('update_status', { status: newStatus }, projectId);
       toast({ title: 'Status updated' });
-      if (pm) fetchProjects(pm.email);
-    } catch {
-      toast({ title: 'Error', description: 'Failed to update status', variant: 'destructive' });
+      fetchProjects();
+    } catch (error) {
+      handleApiError((error as Error).message || 'Failed to update status');
     }
   };
 
-  const saveNote = async (projectId: string) => {
-    if (!noteText.trim()) return;
-    setSavingNote(true);
+  const logout = async () => {
     try {
-      await pmApi('add_note', { note: noteText }, projectId);
-      toast({ title: 'Note added' });
-      setNoteText('');
-      if (pm) fetchProjects(pm.email);
+      await pmApi('logout');
     } catch {
-      toast({ title: 'Error', description: 'Failed to save note', variant: 'destructive' });
+      // The session may already be gone server-side; clear it locally either way
     }
-    setSavingNote(false);
+    sessionStorage.removeItem(PM_SESSION_KEY);
+    navigate('/pm/login');
   };
 
-  const logout = () => { sessionStorage.removeItem(PM_SESSION_KEY); navigate('/pm/login'); };
-
   const getStatusConfig = (status: string) => {
     switch (status) {
-      case 'pending': return { color: 'bg-yellow-500/10 text-yellow-500 border-yellow-500/30', icon: Clock };
-      case 'in_progress': return { color: 'bg-blue-500/10 text-blue-500 border-blue-500/30', icon: Loader2 };
-      case 'completed': return { color: 'bg-green-500/10 text-green-500 border-green-500/30', icon: CheckCircle };
-      case 'cancelled': return { color: 'bg-red-500/10 text-red-500 border-red-500/30', icon: AlertCircle };
-      default: return { color: 'bg-muted text-muted-foreground', icon: Clock };
+      case 'in_progress':
+      case 'in_review': return { color: statusColor(status), icon: Loader2 };
+      case 'completed': return { color: statusColor(status), icon: CheckCircle };
+      case 'cancelled':
+      case 'on_hold': return { color: statusColor(status), icon: AlertCircle };
+      default: return { color: statusColor(status) || 'bg-muted text-muted-foreground', icon: Clock };
     }
   };
 
@@ -146,11 +278,14 @@ const PMDashboard = () => {
 
   const stats = {
     total: projects.length,
-    active: projects.filter(p => p.status === 'in_progress').length,
+    active: projects.filter(p => p.status === 'in_progress' || p.status === 'in_review').length,
     pending: projects.filter(p => p.status === 'pending').length,
     completed: projects.filter(p => p.status === 'completed').length,
   };
 
+  // The token rotates on refresh, so read the current one when the dialog opens
+  const pmToken = securityOpen ? readPMSession()?.token : undefined;
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -167,6 +302,10 @@ const PMDashboard = () => {
               <p className="text-sm font-medium">{pm.name}</p>
               <p className="text-xs text-muted-foreground">{pm.specialization || 'Project Manager'}</p>
             </div>
+            <Button variant="ghost" size="sm" onClick={() => setSecurityOpen(true)} className="px-2 sm:px-3">
+              <ShieldCheck className="w-4 h-4" />
+              <span className="hidden sm:inline ml-2">Security</span>
+            </Button>
             <Button variant="ghost" size="sm" onClick={logout} className="px-2 sm:px-3">
               <LogOut className="w-4 h-4" />
               <span className="hidden sm:inline ml-2">Logout</span>
@@ -175,6 +314,15 @@ const PMDashboard = () => {
         </div>
       </header>
 
+      <Dialog open={securityOpen} onOpenChange={setSecurityOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Security</DialogTitle>
+          </DialogHeader>
+          {securityOpen && pmToken && <TwoFactorCard auth={{ pmSession: pmToken }} />}
+        </DialogContent>
+      </Dialog>
+
       <main className="container mx-auto px-3 sm:px-4 py-4 sm:py-8 space-y-4 sm:space-y-6">
         {/* PM Profile Card */}
         <Card className="glass-card overflow-hidden">
@@ -253,7 +401,7 @@ const PMDashboard = () => {
                             <div className="flex flex-wrap gap-1.5 sm:gap-2 mt-1.5 sm:mt-2">
                               <Badge className={`${statusConfig.color} border text-[10px] sm:text-xs`}>
                                 <StatusIcon className="w-2.5 h-2.5 sm:w-3 sm:h-3 mr-0.5 sm:mr-1" />
-                                {project.status.replace(/_/g, ' ')}
+                                {statusLabel(project.status)}
                               </Badge>
                               <Badge variant="secondary" className="capitalize text-[10px] sm:text-xs">{project.priority}</Badge>
                               {project.budget_range && (
@@ -309,6 +457,13 @@ const PMDashboard = () => {
                             )}
                           </div>
 
+                          {parseIntakeAnswers(project.intake_answers).length > 0 && (
+                            <div className="bg-muted/30 rounded-lg p-2.5 sm:p-4">
+                              <p className="text-[10px] sm:text-xs text-muted-foreground uppercase mb-1.5 sm:mb-2">Project Brief</p>
+                              <IntakeAnswers answers={project.intake_answers} />
+                            </div>
+                          )}
+
                           {/* Client Info */}
                           <div className="bg-muted/30 rounded-lg p-2.5 sm:p-4">
                             <p className="text-[10px] sm:text-xs text-muted-foreground uppercase mb-1.5 sm:mb-2">Client Info</p>
@@ -322,51 +477,64 @@ const PMDashboard = () => {
 
                           {/* Status Update */}
                           <div className="flex flex-col sm:flex-row gap-2 sm:gap-3">
-                            <Select onValueChange={(value) => updateStatus(project.id, value)}>
+                            <Select
+                              key={project.status}
+                              onValueChange={(value) => updateStatus(project.id, value)}
+                              disabled={nextStatuses(project.status, 'pm').length === 0}
+                            >
                               <SelectTrigger className="w-full sm:w-48 text-xs sm:text-sm">
                                 <SelectValue placeholder="Update Status" />
                               </SelectTrigger>
                               <SelectContent>
-                                <SelectItem value="pending">Pending</SelectItem>
-                                <SelectItem value="in_progress">In Progress</SelectItem>
-                                <SelectItem value="completed">Completed</SelectItem>
+                                {nextStatuses(project.status, 'pm').map((status) => (
+                                  <SelectItem key={status} value={status}>{statusLabel(status)}</SelectItem>
+                                ))}
                               </SelectContent>
                             </Select>
                           </div>
 
-                          {project.notes && (
-                            <div className="bg-blue-500/5 border border-blue-500/20 rounded-lg p-2.5 sm:p-4">
-                              <p className="text-[10px] sm:text-xs text-blue-400 uppercase mb-1.5 sm:mb-2 flex items-center gap-1">
-                                <MessageSquare className="w-3 h-3 sm:w-3.5 sm:h-3.5" /> Notes
-                              </p>
-                              <pre className="text-xs sm:text-sm whitespace-pre-wrap font-sans">{project.notes}</pre>
-                            </div>
-                          )}
+                          {/* Task Board */}
+                          <div className="bg-muted/20 rounded-lg p-2.5 sm:p-4">
+                            <p className="text-[10px] sm:text-xs text-muted-foreground uppercase mb-1.5 sm:mb-2 flex items-center gap-1">
+                              <KanbanSquare className="w-3 h-3 sm:w-3.5 sm:h-3.5" /> Task Board
+                            </p>
+                            <TaskBoard
+                              requestId={project.id}
+                              api={pmTasksApi(project.id)}
+                              assigneeSuggestions={pm ? [pm.name] : []}
+                            />
+                          </div>
 
-                          {project.admin_response && (
-                            <div className="bg-primary/5 border border-primary/20 rounded-lg p-2.5 sm:p-4">
-                              <p className="text-[10px] sm:text-xs text-primary uppercase mb-1">Admin Response</p>
-                              <p className="text-xs sm:text-sm">{project.admin_response}</p>
-                            </div>
-                          )}
+                          {/* Time */}
+                          <div className="bg-muted/20 rounded-lg p-2.5 sm:p-4">
+                            <p className="text-[10px] sm:text-xs text-muted-foreground uppercase mb-1.5 sm:mb-2 flex items-center gap-1">
+                              <Timer className="w-3 h-3 sm:w-3.5 sm:h-3.5" /> Time
+                            </p>
+                            <TimeTracker requestId={project.id} api={pmTimeApi(project.id)} pmId={pm?.id} />
+                          </div>
 
-                          <div className="space-y-2">
-                            <Textarea
-                              placeholder="Add a note or update..."
-                              value={noteText}
-                              onChange={(e) => setNoteText(e.target.value)}
-                              rows={2}
-                              className="text-xs sm:text-sm"
-                            />
-                            <Button
-                              size="sm"
-                              onClick={() => saveNote(project.id)}
-                              disabled={savingNote || !noteText.trim()}
-                              className="text-xs sm:text-sm"
-                            >
-                              {savingNote ? <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" /> : <MessageSquare className="w-3.5 h-3.5 mr-1" />}
-                              Save Note
-                            </Button>
+                          {/* Milestones */}
+                          <div className="bg-muted/20 rounded-lg p-2.5 sm:p-4">
+                            <p className="text-[10px] sm:text-xs text-muted-foreground uppercase mb-1.5 sm:mb-2 flex items-center gap-1">
+                              <Flag className="w-3 h-3 sm:w-3.5 sm:h-3.5" /> Milestones
+                            </p>
+                            <RequestMilestones requestId={project.id} viewer="pm" api={pmMilestonesApi(project.id)} />
+                          </div>
+
+                          {/* Files */}
+                          <div className="bg-muted/20 rounded-lg p-2.5 sm:p-4">
+                            <p className="text-[10px] sm:text-xs text-muted-foreground uppercase mb-1.5 sm:mb-2 flex items-center gap-1">
+                              <Paperclip className="w-3 h-3 sm:w-3.5 sm:h-3.5" /> Files
+                            </p>
+                            <RequestFiles requestId={project.id} api={pmFilesApi(project.id, pm?.id)} />
+                          </div>
+
+                          {/* Thread */}
+                          <div className="bg-muted/20 rounded-lg p-2.5 sm:p-4">
+                            <p className="text-[10px] sm:text-xs text-muted-foreground uppercase mb-1.5 sm:mb-2 flex items-center gap-1">
+                              <MessageSquare className="w-3 h-3 sm:w-3.5 sm:h-3.5" /> Messages
+                            </p>
+                            <RequestThread requestId={project.id} viewer="pm" api={pmThreadApi(project.id)} authorId={pm?.id} />
                           </div>
                         </CardContent>
                       </div>
@@ -5,27 +5,50 @@ import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { InputOTP, InputOTPGroup, InputOTPSlot, InputOTPSeparator } from '@/components/ui/input-otp';
 import { useToast } from '@/hooks/use-toast';
+import { otpErrorMessage } from '@/lib/otp';
+import TwoFactorGate from '@/components/security/TwoFactorGate';
 import { motion } from 'framer-motion';
 
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
 const PM_SESSION_KEY = 'thrylos_pm_session';
 
-type Step = 'email' | 'otp';
+type Step = 'email' | 'otp' | 'two-factor';
+
+interface PendingSession {
+  pm: { name: string };
+  token: string;
+  expiresAt: string;
+  twoFactorEnabled: boolean;
+}
 
 const PMLogin = () => {
   const [step, setStep] = useState<Step>('email');
   const [loading, setLoading] = useState(false);
   const [email, setEmail] = useState('');
   const [otp, setOtp] = useState('');
-  const [pmName, setPmName] = useState('');
+  // A session that still needs the authenticator; it's only saved once that passes
+  const [pending, setPending] = useState<PendingSession | null>(null);
   const { toast } = useToast();
   const navigate = useNavigate();
 
   useEffect(() => {
     const session = sessionStorage.getItem(PM_SESSION_KEY);
-    if (session) navigate('/pm/dashboard');
+    if (!session) return;
+    // Sessions saved before tokens were introduced carry no token; drop them
+    if (JSON.parse(session).token) navigate('/pm/dashboard');
+    else sessionStorage.removeItem(PM_SESSION_KEY);
   }, [navigate]);
 
+  const completeLogin = (session: Omit<PendingSession, 'twoFactorEnabled'>) => {
+    sessionStorage.setItem(PM_SESSION_KEY, JSON.stringify({
+      pm: session.pm,
+      token: session.token,
+      expiresAt: session.expiresAt,
+    }));
+    toast({ title: `Welcome, ${session.pm.name}!`, description: 'Login successful' });
+    navigate('/pm/dashboard');
+  };
+
   const sendOtp = async () => {
     if (!email || !email.includes('@')) {
       toast({ title: 'Error', description: 'Please enter a valid email', variant: 'destructive' });
@@ -41,10 +64,9 @@ const PMLogin = () => {
       });
 
       const data = await response.json();
-      if (!response.ok) throw new Error(data.error || 'Failed to send OTP');
+      if (!response.ok) throw new Error(otpErrorMessage(data, 'Failed to send OTP'));
 
-      setPmName(data.pmName || '');
-      toast({ title: 'OTP Sent!', description: 'Check your email for the verification code' });
+      toast({ title: 'Check your email', description: 'If this email belongs to a project manager, a login code is on its way' });
       setStep('otp');
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : 'Failed to send OTP';
@@ -69,11 +91,15 @@ const PMLogin = () => {
       });
 
       const data = await response.json();
-      if (!response.ok) throw new Error(data.error || 'Verification failed');
-
-      sessionStorage.setItem(PM_SESSION_KEY, JSON.stringify(data.pm));
-      toast({ title: `Welcome, ${data.pm.name}!`, description: 'Login successful' });
-      navigate('/pm/dashboard');
+      if (!response.ok) throw new Error(otpErrorMessage(data, 'Verification failed'));
+
+      const session = { pm: data.pm, token: data.sessionToken, expiresAt: data.expiresAt };
+      if (data.twoFactor?.enabled || data.twoFactor?.required) {
+        setPending({ ...session, twoFactorEnabled: !!data.twoFactor.enabled });
+        setStep('two-factor');
+        return;
+      }
+      completeLogin(session);
     } catch (error: unknown) {
       const message = error instanceof Error ? error.message : 'Verification failed';
       toast({ title: 'Error', description: message, variant: 'destructive' });
@@ -107,12 +133,20 @@ const PMLogin = () => {
           </div>
           <h1 className="text-xl sm:text-2xl font-bold mb-1">Project Manager Portal</h1>
           <p className="text-muted-foreground text-xs sm:text-sm px-4">
-            {step === 'email' ? 'Sign in with your registered email' : `Enter the code sent to ${email}`}
+            {step === 'email' ? 'Sign in with your registered email' :
+             step === 'two-factor' ? 'One more step to sign in' : `Enter the code sent to ${email}`}
           </p>
         </div>
 
         <div className="glass-card p-5 sm:p-8 rounded-2xl">
-          {step === 'email' ? (
+          {step === 'two-factor' && pending ? (
+            <TwoFactorGate
+              auth={{ pmSession: pending.token }}
+              enabled={pending.twoFactorEnabled}
+              onVerified={() => completeLogin(pending)}
+              onCancel={() => { setPending(null); setOtp(''); setStep('email'); }}
+            />
+          ) : step === 'email' ? (
             <motion.div 
               initial={{ opacity: 0 }} animate={{ opacity: 1 }}
               className="space-y-4 sm:space-y-5"
@@ -147,15 +181,13 @@ const PMLogin = () => {
                 <ArrowLeft className="w-4 h-4 mr-1 sm:mr-2" /> Back
               </Button>
 
-              {pmName && (
-                <div className="text-center">
-                  <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center mx-auto mb-2">
-                    <Sparkles className="w-6 h-6 text-primary" />
-                  </div>
-                  <p className="text-xs sm:text-sm text-muted-foreground mb-0.5">Welcome back</p>
-                  <p className="font-semibold text-base sm:text-lg">{pmName}</p>
+              <div className="text-center">
+                <div className="w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center mx-auto mb-2">
+                  <Sparkles className="w-6 h-6 text-primary" />
                 </div>
-              )}
+                <p className="text-xs sm:text-sm text-muted-foreground mb-0.5">Enter the code sent to</p>
+                <p className="font-semibold text-base sm:text-lg break-all">{email}</p>
+              </div>
 
               <div className="flex justify-center py-2">
                 <InputOTP maxLength={6} value={otp} onChange={setOtp}>
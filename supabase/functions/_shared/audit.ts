@@ -0,0 +1,51 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export interface AuditActor {
+  type: "admin" | "pm";
+  id: string;
+  label: string | null;
+}
+
+type Row = Record<string, unknown> | null | undefined;
+
+// Bookkeeping columns that change on every write and add noise to the diff
+const IGNORED_FIELDS = ["updated_at"];
+
+// Reduces two row snapshots to the fields that actually changed
+export const diffRows = (before: Row, after: Row) => {
+  if (!before || !after) return { before: before ?? null, after: after ?? null };
+
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+  for (const key of new Set([...Object.keys(before), ...Object.keys(after)])) {
+    if (IGNORED_FIELDS.includes(key) || !(key in after)) continue;
+    if (JSON.stringify(before[key]) !== JSON.stringify(after[key])) {
+      changedBefore[key] = before[key] ?? null;
+      changedAfter[key] = after[key] ?? null;
+    }
+  }
+  return { before: changedBefore, after: changedAfter };
+};
+
+// Writes one audit_events row. The mutation has already happened, so a failure here
+// is logged rather than surfaced to the caller.
+export const recordAuditEvent = async (
+  supabase: SupabaseClient,
+  actor: AuditActor,
+  event: { action: string; table: string; recordId: string | null; before?: Row; after?: Row },
+) => {
+  const { before, after } = diffRows(event.before, event.after);
+
+  const { error } = await supabase.from("audit_events").insert({
+    actor_type: actor.type,
+    actor_id: actor.id,
+    actor_label: actor.label,
+    action: event.action,
+    table_name: event.table,
+    record_id: event.recordId,
+    before,
+    after,
+  });
+
+  if (error) console.error("Failed to record audit event:", error);
+};
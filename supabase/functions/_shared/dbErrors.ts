@@ -0,0 +1,17 @@
+// A PostgREST / Postgres error as returned by supabase-js
+export interface DatabaseError {
+  code: string;
+  message?: string;
+}
+
+export const isDatabaseError = (error: unknown): error is DatabaseError =>
+  typeof error === "object" && error !== null && typeof (error as { code?: unknown }).code === "string";
+
+// Status and client-safe message for a database error; callers log the raw error
+export const describeDatabaseError = (error: { code?: string; message?: string }): [number, string] =>
+  error.code === "23505" ? [409, "A record with these values already exists"] :
+  error.code === "23503" ? [400, "This record references, or is referenced by, another record"] :
+  error.code === "23502" || error.code === "23514" || error.code === "22P02" ? [400, "Some values are missing or invalid"] :
+  // Raised by our own database functions with a user-facing message
+  error.code === "P0001" ? [422, error.message ?? "Operation not allowed"] :
+  [500, "Database operation failed"];
@@ -0,0 +1,486 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Every email the platform sends. Each template has a built-in default written with {{variable}}
+// placeholders over one shared layout; admins can override the subject and bodies in email_templates.
+// Variable values are HTML-escaped when filled in, so callers pass raw user input.
+
+const LOGO_URL = "https://github.com/user-attachments/assets/160c433a-e006-42ee-8923-f6360223e116";
+const APP_ICON_URL = "https://github.com/user-attachments/assets/eea77779-ee10-4d58-bf62-e374dff4a6ab";
+const FLAG_URL = "https://github.com/user-attachments/assets/3738239c-dc89-4d91-b96d-c845c2adcf64";
+const SITE_URL = Deno.env.get("SITE_URL") ?? "https://thrylosindia.in";
+
+export const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;").replace(/'/g, "&#39;");
+
+interface Detail {
+  label: string;
+  value: string;
+  icon?: string;
+  highlight?: boolean;
+}
+
+// The building blocks of a message; the layout turns them into both the HTML and plain text versions
+export interface EmailContent {
+  subject: string;
+  heading: string;
+  // Shown in the grey card under the heading
+  cardTitle?: string;
+  details?: Detail[];
+  intro: string;
+  code?: string;
+  action?: { label: string; url: string };
+  footnote?: string;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+const detailsHtml = ({ cardTitle, details }: EmailContent) => {
+  if (!details?.length) return "";
+  const rows = details.map((detail, index) => `<tr><td style="font-size:14px;color:#555;padding:${index ? 15 : 10}px 20px 0 20px;">${escapeHtml(detail.label)}</td></tr>
+<tr><td style="padding:2px 20px 0 20px;">
+<table width="100%"><tr>
+<td style="font-size:16px;font-weight:bold;${detail.highlight ? "color:#e11d48;" : ""}">${escapeHtml(detail.value)}</td>
+${detail.icon ? `<td align="right"><img src="${detail.icon}" width="40" style="display:block;border-radius:6px;"></td>` : ""}
+</tr></table>
+</td></tr>`).join("\n");
+
+  return `<tr>
+<td align="center">
+<table width="90%" cellpadding="0" cellspacing="0" style="background:#f5f5f5;border-radius:16px;">
+${cardTitle ? `<tr><td style="font-size:18px;font-weight:bold;padding:20px 20px 12px 20px;border-bottom:1px solid #ddd;">${escapeHtml(cardTitle)}</td></tr>` : ""}
+${rows}
+<tr><td style="padding-bottom:20px;"></td></tr>
+</table>
+</td>
+</tr>`;
+};
+
+export const renderLayout = (content: EmailContent): RenderedEmail => {
+  const html = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>THRYLOS</title>
+</head>
+<body style="margin:0; padding:0; background:#ffffff; font-family:Arial, Helvetica, sans-serif;">
+<table width="100%" cellpadding="0" cellspacing="0" bgcolor="#ffffff">
+<tr>
+<td align="center" style="padding:30px 10px;">
+<table width="600" cellpadding="0" cellspacing="0" style="max-width:600px;width:100%;border:1px solid #d1d5db;border-radius:12px;overflow:hidden;">
+<tr>
+<td align="center" bgcolor="#f3f4f6" style="padding:18px;">
+<img src="${LOGO_URL}" alt="THRYLOS Logo" width="120" style="display:block;">
+</td>
+</tr>
+<tr>
+<td align="center" style="padding:20px 20px 10px 20px;">
+<h1 style="font-size:28px; margin:0; font-weight:800;">${escapeHtml(content.heading)}</h1>
+</td>
+</tr>
+${detailsHtml(content)}
+<tr>
+<td align="center" style="padding:30px 40px 10px 40px;font-size:16px;color:#444;">
+${escapeHtml(content.intro)}
+</td>
+</tr>
+${content.code ? `<tr>
+<td align="center" style="padding:10px 0 20px 0;">
+<div style="background:#4f7cff;color:#fff;font-size:32px;font-weight:bold;padding:18px 36px;border-radius:14px;display:inline-block;letter-spacing:4px;">
+${escapeHtml(content.code)}
+</div>
+</td>
+</tr>` : ""}
+${content.action ? `<tr>
+<td align="center" style="padding:20px 0 30px 0;">
+<a href="${escapeHtml(content.action.url)}" target="_blank" style="background:#4f7cff;color:#ffffff;font-size:16px;font-weight:bold;padding:14px 28px;border-radius:10px;text-decoration:none;display:inline-block;">
+${escapeHtml(content.action.label)}
+</a>
+</td>
+</tr>` : ""}
+${content.footnote ? `<tr>
+<td align="center" style="padding:0 40px 40px 40px;font-size:14px;color:#666;">
+${escapeHtml(content.footnote)}
+</td>
+</tr>` : ""}
+<tr>
+<td bgcolor="#000000" style="padding:20px;">
+<table width="100%"><tr>
+<td style="color:#ffffff;font-size:14px;">&copy; ${new Date().getFullYear()} THRYLOS. All rights reserved.</td>
+<td align="right"><img src="${LOGO_URL}" width="90"></td>
+</tr></table>
+</td>
+</tr>
+</table>
+</td>
+</tr>
+</table>
+</body>
+</html>`;
+
+  const text = [
+    content.heading,
+    content.cardTitle,
+    ...(content.details ?? []).map((detail) => `${detail.label}: ${detail.value}`),
+    content.intro,
+    content.code,
+    content.action && `${content.action.label}: ${content.action.url}`,
+    content.footnote,
+  ].filter(Boolean).join("\n\n");
+
+  return { subject: content.subject, html, text };
+};
+
+const loginDetails = (label: string, target: string): Detail[] => [
+  { label, value: target, icon: APP_ICON_URL },
+  { label: "From", value: "India", icon: FLAG_URL },
+];
+
+// Data each template needs, by template name. Keys double as the {{placeholders}}.
+export interface EmailTemplateData {
+  signup_code: { name: string; code: string };
+  login_code: { name: string; code: string };
+  password_reset_code: { name: string; code: string };
+  account_exists: { name: string };
+  no_account_login: Record<string, never>;
+  no_account_password_reset: Record<string, never>;
+  pm_login_code: { name: string; code: string };
+  pm_assignment: { manager_name: string; client_name: string; project_name: string; phone: string };
+  step_up_code: { action: string; code: string };
+  account_deletion_scheduled: { date: string };
+  request_status_changed: { name: string; project_name: string; status: string; note: string };
+  admin_response: { name: string; project_name: string; response: string };
+  pm_assigned: { name: string; project_name: string; manager_name: string };
+  payment_requested: { name: string; project_name: string; amount: string; note: string };
+  payment_receipt: { name: string; project_name: string; amount: string; transaction_id: string; paid_on: string; receipt_number: string };
+}
+
+export type EmailTemplateName = keyof EmailTemplateData;
+
+export interface TemplateVariable {
+  description: string;
+  // Used by the editor preview and test sends
+  sample: string;
+  // Must appear in both bodies, e.g. the code in a sign-in email
+  required?: boolean;
+}
+
+interface TemplateDefinition<V extends string> {
+  name: string;
+  description: string;
+  variables: Record<V, TemplateVariable>;
+  content: EmailContent;
+}
+
+type Definitions = { [K in EmailTemplateName]: TemplateDefinition<keyof EmailTemplateData[K] & string> };
+
+const NAME: TemplateVariable = { description: "Recipient's name", sample: "Priya" };
+const CODE: TemplateVariable = { description: "One-time code", sample: "482913", required: true };
+const PROJECT: TemplateVariable = { description: "Request title", sample: "E-commerce website" };
+const DASHBOARD_ACTION = { label: "View Your Dashboard", url: `${SITE_URL}/dashboard` };
+
+export const TEMPLATE_DEFINITIONS: Definitions = {
+  signup_code: {
+    name: "Sign-up code",
+    description: "Verification code for a new account",
+    variables: { name: NAME, code: CODE },
+    content: {
+      subject: "Welcome to THRYLOS - Verify Your Email",
+      heading: "Welcome {{name}}!",
+      details: loginDetails("Logging in to", "THRYLOS"),
+      intro: "Use the code below to verify your email and create your account.",
+      code: "{{code}}",
+      footnote: "If you didn't request to create an account, you can safely ignore this email.",
+    },
+  },
+  login_code: {
+    name: "Login code",
+    description: "Email code for signing in",
+    variables: { name: NAME, code: CODE },
+    content: {
+      subject: "Your THRYLOS Login Code",
+      heading: "Welcome back {{name}}!",
+      details: loginDetails("Logging in to", "THRYLOS"),
+      intro: "If you requested to log in to your THRYLOS ID, use the code below.",
+      code: "{{code}}",
+      footnote: "If you didn't request to log in to your THRYLOS ID, you can safely ignore this email.",
+    },
+  },
+  password_reset_code: {
+    name: "Password reset code",
+    description: "Code for resetting a forgotten password",
+    variables: { name: NAME, code: CODE },
+    content: {
+      subject: "Reset Your THRYLOS Password",
+      heading: "Hello {{name}},",
+      details: loginDetails("Resetting password for", "THRYLOS"),
+      intro: "You requested to reset your password at THRYLOS. Use the code below to verify your identity.",
+      code: "{{code}}",
+      footnote: "If you didn't request a password reset, you can safely ignore this email.",
+    },
+  },
+  account_exists: {
+    name: "Sign-up with existing email",
+    description: "Sent instead of a code when someone signs up with a registered email",
+    variables: { name: NAME },
+    content: {
+      subject: "You already have a THRYLOS account",
+      heading: "Hello {{name}},",
+      intro: "Someone tried to create a THRYLOS account with this email, but you already have one. Log in with your password, or use \"Forgot password\" on the login page if you don't remember it.",
+      footnote: "If this wasn't you, you can safely ignore this email. Your account hasn't been changed.",
+    },
+  },
+  no_account_login: {
+    name: "Login with unknown email",
+    description: "Sent instead of a code when no account exists for the email",
+    variables: {},
+    content: {
+      subject: "THRYLOS login request",
+      heading: "Hello,",
+      intro: "Someone tried to log in to a THRYLOS account with this email, but there is no account for it. You can create one from the sign-up page.",
+      footnote: "If this wasn't you, you can safely ignore this email.",
+    },
+  },
+  no_account_password_reset: {
+    name: "Password reset for unknown email",
+    description: "Sent instead of a code when no account exists for the email",
+    variables: {},
+    content: {
+      subject: "THRYLOS password reset request",
+      heading: "Hello,",
+      intro: "Someone tried to reset the password for a THRYLOS account with this email, but there is no account for it. You can create one from the sign-up page.",
+      footnote: "If this wasn't you, you can safely ignore this email.",
+    },
+  },
+  pm_login_code: {
+    name: "PM login code",
+    description: "Email code for signing in to the PM portal",
+    variables: { name: NAME, code: CODE },
+    content: {
+      subject: "Your THRYLOS PM Login Code",
+      heading: "Welcome back {{name}}!",
+      details: loginDetails("Logging in to", "THRYLOS PM Portal"),
+      intro: "If you requested to log in to your THRYLOS ID, use the code below.",
+      code: "{{code}}",
+      footnote: "If you didn't request to log in to your THRYLOS ID, you can safely ignore this email.",
+    },
+  },
+  pm_assignment: {
+    name: "PM project assignment",
+    description: "Tells a project manager about a newly assigned project",
+    variables: {
+      manager_name: { description: "Project manager's name", sample: "Arjun" },
+      client_name: { description: "Client's name", sample: "Priya Sharma" },
+      project_name: { description: "Request title", sample: "E-commerce website" },
+      phone: { description: "Client's phone number", sample: "+91 98765 43210" },
+    },
+    content: {
+      subject: "New Project Assigned: {{project_name}}",
+      heading: "Hello {{manager_name}},",
+      cardTitle: "🎉 New Client Project Assigned",
+      details: [
+        { label: "Client Name", value: "{{client_name}}" },
+        { label: "Project Title", value: "{{project_name}}" },
+        { label: "Contact Number", value: "{{phone}}", highlight: true },
+      ],
+      intro: "Please review the project details and initiate planning, resource allocation, and execution at the earliest.",
+      action: { label: "View Project Dashboard", url: `${SITE_URL}/pm/dashboard` },
+    },
+  },
+  step_up_code: {
+    name: "Identity check code",
+    description: "Code for confirming a sensitive change such as a new password",
+    variables: {
+      action: { description: "What the code is for, e.g. \"change your password\"", sample: "change your password" },
+      code: CODE,
+    },
+    content: {
+      subject: "Your THRYLOS verification code",
+      heading: "Confirm it's you",
+      intro: "Use this code to {{action}}:",
+      code: "{{code}}",
+      footnote: "It expires in 10 minutes. If you didn't ask for this, change your password and contact us.",
+    },
+  },
+  account_deletion_scheduled: {
+    name: "Account deletion scheduled",
+    description: "Confirms a deletion request and how to cancel it",
+    variables: { date: { description: "Date the account will be deleted", sample: "2 November 2026", required: true } },
+    content: {
+      subject: "Your THRYLOS account is scheduled for deletion",
+      heading: "Account deletion scheduled",
+      intro: "We received a request to delete your THRYLOS account. Your account and personal data will be deleted on {{date}}. Records we must keep for accounting, such as issued invoices, are kept without your personal details.",
+      action: { label: "Keep My Account", url: `${SITE_URL}/settings` },
+      footnote: "Changed your mind, or didn't ask for this? Sign in and cancel the deletion from Account Settings before then.",
+    },
+  },
+  request_status_changed: {
+    name: "Request status changed",
+    description: "Tells a client their request moved to a new stage",
+    variables: {
+      name: NAME,
+      project_name: PROJECT,
+      status: { description: "New status", sample: "In Progress", required: true },
+      note: { description: "Reason given for the change, if any", sample: "Reason: Waiting on your content" },
+    },
+    content: {
+      subject: "Update on {{project_name}}: {{status}}",
+      heading: "Hello {{name}},",
+      cardTitle: "Project status updated",
+      details: [
+        { label: "Project", value: "{{project_name}}" },
+        { label: "New Status", value: "{{status}}", highlight: true },
+      ],
+      intro: "Your project has moved to a new stage. {{note}}",
+      action: DASHBOARD_ACTION,
+    },
+  },
+  admin_response: {
+    name: "Reply from the team",
+    description: "Sent when an admin writes or updates the response on a request",
+    variables: {
+      name: NAME,
+      project_name: PROJECT,
+      response: { description: "The admin's response", sample: "Thanks for the details! We'll share a quote by Friday.", required: true },
+    },
+    content: {
+      subject: "New reply on {{project_name}}",
+      heading: "Hello {{name}},",
+      cardTitle: "Message from the THRYLOS team",
+      details: [{ label: "Project", value: "{{project_name}}" }],
+      intro: "{{response}}",
+      action: DASHBOARD_ACTION,
+    },
+  },
+  pm_assigned: {
+    name: "Project manager assigned",
+    description: "Introduces the project manager assigned to a client's request",
+    variables: {
+      name: NAME,
+      project_name: PROJECT,
+      manager_name: { description: "Project manager's name", sample: "Arjun", required: true },
+    },
+    content: {
+      subject: "Meet your project manager for {{project_name}}",
+      heading: "Hello {{name}},",
+      cardTitle: "Your project manager",
+      details: [
+        { label: "Project", value: "{{project_name}}" },
+        { label: "Project Manager", value: "{{manager_name}}", highlight: true },
+      ],
+      intro: "{{manager_name}} will manage your project and will be in touch to plan the next steps.",
+      action: DASHBOARD_ACTION,
+    },
+  },
+  payment_requested: {
+    name: "Payment requested",
+    description: "Sent when a payment request is created for a client",
+    variables: {
+      name: NAME,
+      project_name: PROJECT,
+      amount: { description: "Amount due, with currency", sample: "₹25,000.00", required: true },
+      note: { description: "The note on the payment request, if any", sample: "Note: 50% advance" },
+    },
+    content: {
+      subject: "Payment requested for {{project_name}}",
+      heading: "Hello {{name}},",
+      cardTitle: "Payment request",
+      details: [
+        { label: "Project", value: "{{project_name}}" },
+        { label: "Amount Due", value: "{{amount}}", highlight: true },
+      ],
+      intro: "A payment of {{amount}} has been requested for your project. {{note}}",
+      action: { label: "Pay Now", url: `${SITE_URL}/dashboard` },
+      footnote: "Pay by UPI from your dashboard and submit the transaction ID so we can confirm it.",
+    },
+  },
+  payment_receipt: {
+    name: "Payment receipt",
+    description: "Receipt sent when an admin confirms a client's payment",
+    variables: {
+      name: NAME,
+      project_name: PROJECT,
+      amount: { description: "Amount paid, with currency", sample: "₹25,000.00", required: true },
+      transaction_id: { description: "UPI transaction ID, or \"—\" for offline payments", sample: "412345678901" },
+      paid_on: { description: "Date the payment was confirmed", sample: "19 October 2026" },
+      receipt_number: { description: "Payment reference", sample: "PAY-3F9A12C4" },
+    },
+    content: {
+      subject: "Payment received for {{project_name}}",
+      heading: "Thank you, {{name}}!",
+      cardTitle: "Payment receipt",
+      details: [
+        { label: "Receipt Number", value: "{{receipt_number}}" },
+        { label: "Project", value: "{{project_name}}" },
+        { label: "Amount Paid", value: "{{amount}}", highlight: true },
+        { label: "Transaction ID", value: "{{transaction_id}}" },
+        { label: "Paid On", value: "{{paid_on}}" },
+      ],
+      intro: "We've confirmed your payment of {{amount}}. Keep this email for your records.",
+      action: DASHBOARD_ACTION,
+      footnote: "Tax invoices, where issued, are available from your dashboard.",
+    },
+  },
+};
+
+export const isEmailTemplateName = (value: unknown): value is EmailTemplateName =>
+  typeof value === "string" && value in TEMPLATE_DEFINITIONS;
+
+// Built-in subject and bodies, placeholders intact
+export const defaultTemplate = (name: EmailTemplateName): RenderedEmail => renderLayout(TEMPLATE_DEFINITIONS[name].content);
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const placeholdersIn = (source: string) => [...source.matchAll(PLACEHOLDER)].map((match) => match[1]);
+
+// Replaces {{variable}} with its value; unknown placeholders become empty
+export const fillPlaceholders = (source: string, values: Record<string, string>, escape: boolean) =>
+  source.replace(PLACEHOLDER, (_, key: string) => {
+    const value = values[key] ?? "";
+    return escape ? escapeHtml(value) : value;
+  });
+
+export const fillTemplate = (template: RenderedEmail, values: Record<string, string>): RenderedEmail => ({
+  subject: fillPlaceholders(template.subject, values, false),
+  html: fillPlaceholders(template.html, values, true),
+  text: fillPlaceholders(template.text, values, false),
+});
+
+// Placeholders a draft uses that the template doesn't provide, and required ones it leaves out
+export const checkTemplate = (name: EmailTemplateName, draft: RenderedEmail) => {
+  const variables = TEMPLATE_DEFINITIONS[name].variables as Record<string, TemplateVariable>;
+  const used = new Set([...placeholdersIn(draft.subject), ...placeholdersIn(draft.html), ...placeholdersIn(draft.text)]);
+  const unknown = [...used].filter((key) => !(key in variables));
+  const missing = Object.entries(variables)
+    .filter(([key, variable]) => variable.required && !(placeholdersIn(draft.html).includes(key) && placeholdersIn(draft.text).includes(key)))
+    .map(([key]) => key);
+  return { unknown, missing };
+};
+
+export const sampleValues = (name: EmailTemplateName) =>
+  Object.fromEntries(
+    Object.entries(TEMPLATE_DEFINITIONS[name].variables as Record<string, TemplateVariable>).map(([key, variable]) => [key, variable.sample]),
+  );
+
+// An admin's saved version of the template, if there is one. A lookup failure falls back to the
+// built-in default rather than blocking the email.
+const storedTemplate = async (name: EmailTemplateName): Promise<RenderedEmail | null> => {
+  const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+  const { data, error } = await supabase
+    .from("email_templates")
+    .select("subject, html_body, text_body")
+    .eq("key", name)
+    .maybeSingle();
+  if (error) {
+    console.error(`Failed to load email template ${name}:`, error);
+    return null;
+  }
+  return data ? { subject: data.subject, html: data.html_body, text: data.text_body } : null;
+};
+
+export const renderEmail = async <K extends EmailTemplateName>(name: K, data: EmailTemplateData[K]): Promise<RenderedEmail> =>
+  fillTemplate((await storedTemplate(name)) ?? defaultTemplate(name), data as Record<string, string>);
@@ -0,0 +1,63 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const CACHE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Supabase's edge runtime keeps the worker alive until promises passed to waitUntil settle
+declare const EdgeRuntime: { waitUntil: (promise: Promise<unknown>) => void } | undefined;
+
+// A lookup sends the IP to ipapi.co, so it is off unless IP_LOCATION_LOOKUP=true
+export const ipLookupEnabled = () => Deno.env.get("IP_LOCATION_LOOKUP") === "true";
+
+// Loopback, link-local and RFC 1918 / unique-local ranges have no public location
+const isPrivateIp = (ip: string) =>
+  ip === "unknown" ||
+  /^(10\.|127\.|169\.254\.|192\.168\.|172\.(1[6-9]|2\d|3[01])\.)/.test(ip) ||
+  /^(::1$|f[cd][0-9a-f]{2}:|fe80:)/i.test(ip);
+
+const lookup = async (ip: string): Promise<string | null> => {
+  const response = await fetch(`https://ipapi.co/${encodeURIComponent(ip)}/json/`, {
+    signal: AbortSignal.timeout(1500),
+  });
+  if (!response.ok) return null;
+  const data = await response.json();
+  if (data.error) return null;
+  const parts = [data.city, data.region, data.country_name].filter((part) => typeof part === "string" && part);
+  return parts.length ? parts.join(", ") : null;
+};
+
+// Approximate "City, Region, Country" for an IP, or null. Results are cached in ip_locations and
+// a slow or failing lookup service only costs the location, never the request.
+export const locateIp = async (supabase: SupabaseClient, ip: string | null): Promise<string | null> => {
+  if (!ipLookupEnabled() || !ip || isPrivateIp(ip)) return null;
+
+  const { data: cached } = await supabase
+    .from("ip_locations")
+    .select("location, looked_up_at")
+    .eq("ip", ip)
+    .maybeSingle();
+  if (cached && Date.now() - new Date(cached.looked_up_at).getTime() < CACHE_TTL_MS) return cached.location;
+
+  let location: string | null = null;
+  try {
+    location = await lookup(ip);
+  } catch (error) {
+    console.error("IP location lookup failed:", error);
+    return cached?.location ?? null;
+  }
+
+  await supabase.from("ip_locations").upsert({ ip, location, looked_up_at: new Date().toISOString() });
+  return location;
+};
+
+// Fills in the location of a login event that is already recorded, after the response has gone out
+export const locateLoginEventLater = (supabase: SupabaseClient, eventId: string, ip: string) => {
+  if (!ipLookupEnabled()) return;
+  const task = locateIp(supabase, ip)
+    .then(async (location) => {
+      if (!location) return;
+      const { error } = await supabase.from("login_events").update({ location }).eq("id", eventId);
+      if (error) throw error;
+    })
+    .catch((error) => console.error("Failed to locate login event:", error));
+  if (typeof EdgeRuntime !== "undefined") EdgeRuntime.waitUntil(task);
+};
@@ -0,0 +1,52 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { clientIp } from "./otp.ts";
+import { locateLoginEventLater } from "./geo.ts";
+import { findUserIdByEmail } from "./users.ts";
+
+export type LoginEventType =
+  | "password_login"
+  | "otp_verification"
+  | "password_reset"
+  | "password_change"
+  | "two_factor"
+  | "step_up"
+  | "pm_login";
+
+// Adds one row to the login history shown in Settings and the admin Activity tab. The attempt itself
+// has already been decided, so a failure here is logged rather than surfaced to the caller.
+// Leaving userId out looks the account up by email, so failed attempts still reach the owner's history.
+export const recordLoginEvent = async (
+  supabase: SupabaseClient,
+  req: Request,
+  event: {
+    type: LoginEventType;
+    success: boolean;
+    userId?: string | null;
+    pmId?: string | null;
+    email?: string | null;
+    reason?: string | null;
+  },
+) => {
+  const ip = clientIp(req);
+  const userId = event.userId !== undefined || event.pmId || !event.email
+    ? event.userId ?? null
+    : await findUserIdByEmail(supabase, event.email).catch(() => null);
+
+  const { data, error } = await supabase.from("login_events").insert({
+    user_id: userId,
+    pm_id: event.pmId ?? null,
+    email: event.email?.trim().toLowerCase() || null,
+    event: event.type,
+    success: event.success,
+    failure_reason: event.success ? null : event.reason ?? null,
+    ip: ip === "unknown" ? null : ip,
+    user_agent: req.headers.get("user-agent")?.slice(0, 512) ?? null,
+  }).select("id").single();
+
+  if (error) {
+    console.error("Failed to record login event:", error);
+    return;
+  }
+  // The location service can be slow; the sign-in never waits for it
+  if (ip !== "unknown") locateLoginEventLater(supabase, data.id, ip);
+};
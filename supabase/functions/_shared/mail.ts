@@ -0,0 +1,146 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+import { renderEmail, type EmailTemplateData, type EmailTemplateName } from "./emailTemplates.ts";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+// Something that can deliver a rendered message. Throws on failure.
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+// Raised for every delivery failure, whatever the transport, so callers handle one error type
+export class MailDeliveryError extends Error {
+  constructor(readonly transport: string, readonly detail: unknown) {
+    super("Failed to send email");
+    this.name = "MailDeliveryError";
+  }
+}
+
+const SENDER = {
+  name: Deno.env.get("MAIL_FROM_NAME") ?? "THRYLOS",
+  email: Deno.env.get("MAIL_FROM_EMAIL") ?? "noreply@thrylosindia.in",
+};
+
+export const brevoTransport = (apiKey: string): MailTransport => ({
+  name: "brevo",
+  async send(message) {
+    const response = await fetch("https://api.brevo.com/v3/smtp/email", {
+      method: "POST",
+      headers: { "api-key": apiKey, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        sender: SENDER,
+        to: [{ email: message.to }],
+        subject: message.subject,
+        htmlContent: message.html,
+        textContent: message.text,
+      }),
+    });
+    if (!response.ok) throw new MailDeliveryError("brevo", await response.json().catch(() => response.status));
+  },
+});
+
+export const smtpTransport = (config: { host: string; port: number; username?: string; password?: string }): MailTransport => ({
+  name: "smtp",
+  async send(message) {
+    const client = new SMTPClient({
+      connection: {
+        hostname: config.host,
+        port: config.port,
+        // 465 is implicit TLS; other ports upgrade with STARTTLS when the server offers it
+        tls: config.port === 465,
+        auth: config.username ? { username: config.username, password: config.password ?? "" } : undefined,
+      },
+    });
+    try {
+      await client.send({
+        from: `${SENDER.name} <${SENDER.email}>`,
+        to: message.to,
+        subject: message.subject,
+        content: message.text,
+        html: message.html,
+      });
+    } finally {
+      await client.close();
+    }
+  },
+});
+
+// Local development: print the message instead of sending it (codes included, so never in production)
+export const consoleTransport = (): MailTransport => ({
+  name: "console",
+  send(message) {
+    console.log(`[mail] to=${message.to} subject=${JSON.stringify(message.subject)}\n${message.text}`);
+    return Promise.resolve();
+  },
+});
+
+// Local development and tests: write each message to a directory as JSON, one file per send
+export const fileTransport = (dir: string): MailTransport => ({
+  name: "file",
+  async send(message) {
+    await Deno.mkdir(dir, { recursive: true });
+    const file = `${dir}/${new Date().toISOString().replace(/[:.]/g, "-")}-${crypto.randomUUID().slice(0, 8)}.json`;
+    await Deno.writeTextFile(file, JSON.stringify({ from: SENDER, ...message }, null, 2));
+  },
+});
+
+// MAIL_TRANSPORT picks the provider: brevo (default when BREVO_API_KEY is set), smtp, console or file.
+// Console and file print codes in the clear, so they are only used when named explicitly; with
+// nothing configured, sending fails rather than quietly dropping mail into the logs.
+const createTransport = (): MailTransport => {
+  const kind = Deno.env.get("MAIL_TRANSPORT") ?? (Deno.env.get("BREVO_API_KEY") ? "brevo" : null);
+  const required = (name: string) => {
+    const value = Deno.env.get(name);
+    if (!value) throw new Error(`${name} must be set for MAIL_TRANSPORT "${kind}"`);
+    return value;
+  };
+  switch (kind) {
+    case null:
+      throw new Error("No mail transport configured; set BREVO_API_KEY or MAIL_TRANSPORT");
+    case "brevo":
+      return brevoTransport(required("BREVO_API_KEY"));
+    case "smtp":
+      return smtpTransport({
+        host: required("SMTP_HOST"),
+        port: Number(Deno.env.get("SMTP_PORT") ?? 587),
+        username: Deno.env.get("SMTP_USERNAME"),
+        password: Deno.env.get("SMTP_PASSWORD"),
+      });
+    case "file":
+      return fileTransport(Deno.env.get("MAIL_FILE_DIR") ?? "/tmp/thrylos-mail");
+    case "console":
+      return consoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}"`);
+  }
+};
+
+let transport: MailTransport | null = null;
+
+// Swaps the transport, e.g. for a test that wants to capture messages
+export const setMailTransport = (next: MailTransport) => {
+  transport = next;
+};
+
+// Delivers an already rendered message through the configured transport
+export const sendMail = async (message: MailMessage) => {
+  const active = (transport ??= createTransport());
+  try {
+    await active.send(message);
+  } catch (error) {
+    const failure = error instanceof MailDeliveryError ? error : new MailDeliveryError(active.name, error);
+    console.error(`Mail delivery via ${failure.transport} failed:`, failure.detail);
+    throw failure;
+  }
+};
+
+// Renders one of the templates in emailTemplates.ts and sends it
+export const sendEmail = async <K extends EmailTemplateName>(to: string, template: K, data: EmailTemplateData[K]) => {
+  await sendMail({ to, ...(await renderEmail(template, data)) });
+};
@@ -0,0 +1,122 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type OtpPurpose = "signup" | "login" | "password_reset" | "pm_login" | "step_up";
+
+const OTP_TTL_MS = 10 * 60 * 1000;
+
+// Codes are stored as keyed hashes so a leaked table can't be replayed; the key never leaves the functions
+const HASH_KEY = Deno.env.get("OTP_HASH_SECRET") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+const hashOtp = async (email: string, purpose: OtpPurpose, otp: string) => {
+  const key = await crypto.subtle.importKey(
+    "raw", new TextEncoder().encode(HASH_KEY), { name: "HMAC", hash: "SHA-256" }, false, ["sign"],
+  );
+  const signature = await crypto.subtle.sign(
+    "HMAC", key, new TextEncoder().encode(`${purpose}:${normalizeEmail(email)}:${otp}`),
+  );
+  return Array.from(new Uint8Array(signature)).map((b) => b.toString(16).padStart(2, "0")).join("");
+};
+
+const generateOtp = () => {
+  // Rejection sampling keeps every 6-digit code equally likely
+  const buffer = new Uint32Array(1);
+  do {
+    crypto.getRandomValues(buffer);
+  } while (buffer[0] >= 4294800000);
+  return (100000 + (buffer[0] % 900000)).toString();
+};
+
+// Headers set by the edge proxy come first. Callers can prepend anything they like to
+// x-forwarded-for, so only its last entry, the one the proxy appended, is trusted.
+export const clientIp = (req: Request) =>
+  req.headers.get("cf-connecting-ip")?.trim() ||
+  req.headers.get("x-real-ip")?.trim() ||
+  req.headers.get("x-forwarded-for")?.split(",").pop()?.trim() ||
+  "unknown";
+
+// Counts an email send against the email and IP limits; returns seconds to wait, or 0 if allowed.
+// Sends that carry no code (e.g. "no account found" notices) go through this too, so they throttle the same way.
+export const registerOtpSend = async (supabase: SupabaseClient, { email, ip }: { email: string; ip: string }) => {
+  const { data: retryAfter, error } = await supabase.rpc("register_otp_send", { _email: email, _ip: ip });
+  if (error) throw error;
+  return (retryAfter ?? 0) as number;
+};
+
+// Creates and stores a new code unless the email or IP is throttled
+export const issueOtp = async (
+  supabase: SupabaseClient,
+  { email, purpose, ip }: { email: string; purpose: OtpPurpose; ip: string },
+): Promise<{ otp: string } | { retryAfter: number }> => {
+  const retryAfter = await registerOtpSend(supabase, { email, ip });
+  if (retryAfter > 0) return { retryAfter };
+
+  const otp = generateOtp();
+  const normalized = normalizeEmail(email);
+
+  await supabase.from("otp_verifications").delete().eq("email", normalized).eq("purpose", purpose);
+
+  const { error: insertError } = await supabase.from("otp_verifications").insert({
+    email: normalized,
+    purpose,
+    code_hash: await hashOtp(email, purpose, otp),
+    expires_at: new Date(Date.now() + OTP_TTL_MS).toISOString(),
+    verified: false,
+  });
+
+  if (insertError) {
+    console.error("Failed to store OTP:", insertError);
+    throw new Error("Failed to generate OTP");
+  }
+
+  return { otp };
+};
+
+export type OtpCheck =
+  | { ok: true }
+  | { ok: false; result: "invalid" | "expired" | "locked"; retryAfter: number | null; attemptsLeft: number };
+
+// Checks a code; wrong guesses are counted and eventually lock the email
+export const verifyOtp = async (
+  supabase: SupabaseClient,
+  { email, purpose, otp }: { email: string; purpose: OtpPurpose; otp: string },
+): Promise<OtpCheck> => {
+  const { data, error } = await supabase.rpc("consume_otp", {
+    _email: email,
+    _purpose: purpose,
+    _code_hash: await hashOtp(email, purpose, String(otp)),
+  });
+  if (error) throw error;
+
+  const check = data?.[0];
+  if (check?.result === "ok") return { ok: true };
+  return {
+    ok: false,
+    result: check?.result ?? "invalid",
+    retryAfter: check?.retry_after ?? null,
+    attemptsLeft: check?.attempts_left ?? 0,
+  };
+};
+
+// 429 with the wait in seconds; Auth and PMLogin turn it into "try again in N minutes"
+export const tooManyRequests = (retryAfter: number, corsHeaders: Record<string, string>) =>
+  new Response(
+    JSON.stringify({ error: "Too many attempts", retryAfter }),
+    { status: 429, headers: { ...corsHeaders, "Content-Type": "application/json", "Retry-After": String(retryAfter) } },
+  );
+
+// Response for a failed verifyOtp check
+export const otpFailure = (check: Extract<OtpCheck, { ok: false }>, corsHeaders: Record<string, string>) => {
+  if (check.result === "locked" && check.retryAfter) return tooManyRequests(check.retryAfter, corsHeaders);
+
+  const error = check.result === "expired"
+    ? "This code has expired. Please request a new one."
+    : check.attemptsLeft > 0
+      ? `Invalid code. ${check.attemptsLeft} attempt${check.attemptsLeft === 1 ? "" : "s"} left.`
+      : "Invalid or expired OTP";
+  return new Response(
+    JSON.stringify({ error, attemptsLeft: check.attemptsLeft }),
+    { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+  );
+};
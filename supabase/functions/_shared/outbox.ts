@@ -0,0 +1,88 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { MailDeliveryError, sendEmail } from "./mail.ts";
+import { isEmailTemplateName, type EmailTemplateData, type EmailTemplateName } from "./emailTemplates.ts";
+
+// Notification emails go through outbound_messages rather than straight to the transport, so a
+// provider outage delays them instead of losing them. Sign-in codes are still sent directly: the
+// user is waiting for them and can ask for another.
+
+const BASE_RETRY_DELAY_MS = 60 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+export interface OutboundEmail<K extends EmailTemplateName = EmailTemplateName> {
+  // Same key, same email: enqueuing it again does nothing
+  idempotencyKey: string;
+  to: string;
+  template: K;
+  data: EmailTemplateData[K];
+  serviceRequestId?: string | null;
+}
+
+interface OutboundMessage {
+  id: string;
+  template: string;
+  recipient: string;
+  data: Record<string, string>;
+  attempts: number;
+  max_attempts: number;
+}
+
+export const enqueueEmails = async (supabase: SupabaseClient, emails: OutboundEmail[]) => {
+  if (!emails.length) return;
+  const { error } = await supabase.from("outbound_messages").upsert(
+    emails.map((email) => ({
+      idempotency_key: email.idempotencyKey,
+      template: email.template,
+      recipient: email.to,
+      data: email.data,
+      service_request_id: email.serviceRequestId ?? null,
+    })),
+    { onConflict: "idempotency_key", ignoreDuplicates: true },
+  );
+  if (error) throw error;
+};
+
+const describe = (error: unknown) =>
+  error instanceof Error ? error.message : typeof error === "string" ? error : JSON.stringify(error);
+
+// 1, 2, 4, 8... minutes after each failed attempt, up to an hour, with some jitter so a backlog
+// doesn't retry in lockstep
+const retryDelay = (attempts: number) =>
+  Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS) * (0.8 + Math.random() * 0.4);
+
+// Sends up to `limit` due messages. A failure is retried with backoff until max_attempts, then the
+// message is dead-lettered and waits for an admin to resend it.
+export const drainOutbox = async (supabase: SupabaseClient, limit: number) => {
+  const { data: claimed, error } = await supabase.rpc("claim_outbound_messages", { _limit: limit });
+  if (error) throw error;
+
+  const result = { sent: 0, retrying: 0, dead: 0 };
+  for (const message of (claimed ?? []) as OutboundMessage[]) {
+    try {
+      if (!isEmailTemplateName(message.template)) throw new Error(`Unknown template ${message.template}`);
+      await sendEmail(message.recipient, message.template, message.data as EmailTemplateData[EmailTemplateName]);
+      await supabase
+        .from("outbound_messages")
+        .update({ status: "sent", sent_at: new Date().toISOString(), locked_until: null, last_error: null })
+        .eq("id", message.id);
+      result.sent++;
+    } catch (sendError) {
+      const lastError = sendError instanceof MailDeliveryError
+        ? `${sendError.message} via ${sendError.transport}: ${describe(sendError.detail)}`
+        : describe(sendError);
+      const dead = message.attempts >= message.max_attempts || !isEmailTemplateName(message.template);
+      await supabase
+        .from("outbound_messages")
+        .update({
+          status: dead ? "dead" : "pending",
+          next_attempt_at: new Date(Date.now() + (dead ? 0 : retryDelay(message.attempts))).toISOString(),
+          locked_until: null,
+          last_error: lastError.slice(0, 2000),
+        })
+        .eq("id", message.id);
+      if (dead) result.dead++;
+      else result.retrying++;
+    }
+  }
+  return result;
+};
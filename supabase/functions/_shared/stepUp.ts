@@ -0,0 +1,67 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { hashToken } from "./tokens.ts";
+
+// Operations that need a fresh second factor on top of the session
+export const STEP_UP_PURPOSES = ["change_password", "change_email", "delete_account"] as const;
+export type StepUpPurpose = typeof STEP_UP_PURPOSES[number];
+
+export const isStepUpPurpose = (value: unknown): value is StepUpPurpose =>
+  typeof value === "string" && (STEP_UP_PURPOSES as readonly string[]).includes(value);
+
+// Long enough to type a new password, short enough that a leaked token is soon useless
+const STEP_UP_TTL_MS = 5 * 60 * 1000;
+
+// Callers send the token in this header
+export const STEP_UP_HEADER = "x-step-up-token";
+
+// Issued after the user passes a factor (email OTP or authenticator app); `method` records which one
+export const mintStepUpToken = async (
+  supabase: SupabaseClient,
+  { userId, purpose, method }: { userId: string; purpose: StepUpPurpose; method: string },
+) => {
+  const token = `${crypto.randomUUID()}${crypto.randomUUID()}`.replace(/-/g, "");
+  const expiresAt = new Date(Date.now() + STEP_UP_TTL_MS);
+
+  const { error } = await supabase.from("step_up_tokens").insert({
+    user_id: userId,
+    purpose,
+    method,
+    token_hash: await hashToken(token),
+    expires_at: expiresAt.toISOString(),
+  });
+  if (error) {
+    console.error("Failed to store step-up token:", error);
+    throw new Error("Failed to complete verification");
+  }
+
+  return { token, expiresAt: expiresAt.toISOString() };
+};
+
+// Marks the token used and reports whether it was valid for this user and operation.
+// The conditional update makes each token single-use even under concurrent requests.
+export const consumeStepUpToken = async (
+  supabase: SupabaseClient,
+  { userId, purpose, token }: { userId: string; purpose: StepUpPurpose; token: string | null },
+) => {
+  if (!token) return false;
+
+  const { data, error } = await supabase
+    .from("step_up_tokens")
+    .update({ used_at: new Date().toISOString() })
+    .eq("token_hash", await hashToken(token))
+    .eq("user_id", userId)
+    .eq("purpose", purpose)
+    .is("used_at", null)
+    .gt("expires_at", new Date().toISOString())
+    .select("id");
+
+  if (error) throw error;
+  return (data?.length ?? 0) > 0;
+};
+
+// 403 telling the client to run step-up verification first
+export const stepUpRequired = (corsHeaders: Record<string, string>) =>
+  new Response(
+    JSON.stringify({ error: "Please verify it's you before making this change", stepUpRequired: true }),
+    { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+  );
@@ -0,0 +1,5 @@
+// Session, step-up and similar bearer tokens are stored as this SHA-256 hex digest, never in the clear
+export const hashToken = async (token: string) => {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest)).map((b) => b.toString(16).padStart(2, "0")).join("");
+};
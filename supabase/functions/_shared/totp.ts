@@ -0,0 +1,120 @@
+// RFC 6238 time-based one-time passwords (SHA-1, 6 digits, 30-second steps), the defaults every
+// authenticator app understands, plus secret encryption and recovery codes for the two-factor function.
+
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Accept the previous and next step too, to absorb clock drift on the user's phone
+const DRIFT_STEPS = 1;
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+const base32Encode = (bytes: Uint8Array) => {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of bytes) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+};
+
+const base32Decode = (input: string) => {
+  const clean = input.replace(/=+$/, "").toUpperCase();
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return new Uint8Array(bytes);
+};
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map((b) => b.toString(16).padStart(2, "0")).join("");
+
+// 160-bit secret, the size RFC 4226 recommends, as the base32 string apps expect
+export const generateTotpSecret = () => base32Encode(crypto.getRandomValues(new Uint8Array(20)));
+
+export const otpauthUrl = (secret: string, accountName: string) => {
+  const issuer = "THRYLOS";
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  return `otpauth://totp/${label}?secret=${secret}&issuer=${issuer}&algorithm=SHA1&digits=${DIGITS}&period=${STEP_SECONDS}`;
+};
+
+const codeAt = async (secret: string, step: number) => {
+  const key = await crypto.subtle.importKey(
+    "raw", base32Decode(secret), { name: "HMAC", hash: "SHA-1" }, false, ["sign"],
+  );
+  const counter = new DataView(new ArrayBuffer(8));
+  counter.setUint32(0, Math.floor(step / 2 ** 32));
+  counter.setUint32(4, step >>> 0);
+  const hmac = new Uint8Array(await crypto.subtle.sign("HMAC", key, counter.buffer));
+
+  // Dynamic truncation from RFC 4226 section 5.3
+  const offset = hmac[hmac.length - 1] & 0xf;
+  const binary = ((hmac[offset] & 0x7f) << 24) | (hmac[offset + 1] << 16) | (hmac[offset + 2] << 8) | hmac[offset + 3];
+  return (binary % 10 ** DIGITS).toString().padStart(DIGITS, "0");
+};
+
+// Returns the matching time step, or null. Steps at or before `lastUsedStep` are rejected so a code
+// that was already accepted can't be used again.
+export const verifyTotp = async (secret: string, code: string, lastUsedStep: number | null) => {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+
+  const current = Math.floor(Date.now() / 1000 / STEP_SECONDS);
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    if (lastUsedStep !== null && step <= lastUsedStep) continue;
+    if ((await codeAt(secret, step)) === normalized) return step;
+  }
+  return null;
+};
+
+// Secrets are encrypted at rest; a leaked table alone can't be used to generate codes
+const ENCRYPTION_KEY_SOURCE = Deno.env.get("TOTP_ENCRYPTION_KEY") ?? Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const encryptionKey = async () => {
+  const material = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`totp:${ENCRYPTION_KEY_SOURCE}`));
+  return crypto.subtle.importKey("raw", material, { name: "AES-GCM" }, false, ["encrypt", "decrypt"]);
+};
+
+export const encryptSecret = async (secret: string) => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, await encryptionKey(), new TextEncoder().encode(secret));
+  return `${btoa(String.fromCharCode(...iv))}.${btoa(String.fromCharCode(...new Uint8Array(ciphertext)))}`;
+};
+
+export const decryptSecret = async (stored: string) => {
+  const [iv, ciphertext] = stored.split(".").map((part) => Uint8Array.from(atob(part), (c) => c.charCodeAt(0)));
+  const plaintext = await crypto.subtle.decrypt({ name: "AES-GCM", iv }, await encryptionKey(), ciphertext);
+  return new TextDecoder().decode(plaintext);
+};
+
+export const RECOVERY_CODE_COUNT = 10;
+
+// Codes look like "7kq2m-x9p4t": 50 bits each, without characters that are easy to misread
+export const generateRecoveryCodes = () => {
+  const alphabet = "abcdefghjkmnpqrstuvwxyz23456789";
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const chars = Array.from(crypto.getRandomValues(new Uint8Array(10)), (b) => alphabet[b % alphabet.length]).join("");
+    return `${chars.slice(0, 5)}-${chars.slice(5)}`;
+  });
+};
+
+export const normalizeRecoveryCode = (code: string) => code.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+export const hashRecoveryCode = async (code: string) =>
+  toHex(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`recovery:${normalizeRecoveryCode(code)}`)));
@@ -0,0 +1,30 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Whether the caller's auth session may proceed: it passed 2FA, or none is enabled or required.
+// Takes the client built with the caller's JWT, since the check reads the session id from it.
+export const twoFactorSatisfied = async (supabaseUser: SupabaseClient) => {
+  const { data, error } = await supabaseUser.rpc("two_factor_satisfied");
+  if (error) throw error;
+  return data === true;
+};
+
+// Same rule for PM sessions, which live in pm_sessions rather than auth
+export const pmTwoFactorSatisfied = async (
+  supabase: SupabaseClient,
+  { pmId, verifiedAt }: { pmId: string; verifiedAt: string | null },
+) => {
+  if (verifiedAt) return true;
+
+  const [{ data: factor }, { data: policy }] = await Promise.all([
+    supabase.from("totp_factors").select("id").eq("pm_id", pmId).not("enabled_at", "is", null).maybeSingle(),
+    supabase.from("two_factor_policies").select("required").eq("role", "project_manager").maybeSingle(),
+  ]);
+  return !factor && !policy?.required;
+};
+
+// 403 telling the client to finish two-factor sign-in first
+export const twoFactorRequired = (corsHeaders: Record<string, string>) =>
+  new Response(
+    JSON.stringify({ error: "Two-factor verification required", twoFactorRequired: true }),
+    { status: 403, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+  );
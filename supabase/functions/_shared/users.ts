@@ -0,0 +1,8 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Auth user id for an email, or null. Uses an indexed lookup instead of paging through listUsers().
+export const findUserIdByEmail = async (supabase: SupabaseClient, email: string): Promise<string | null> => {
+  const { data, error } = await supabase.rpc("find_user_id_by_email", { _email: email });
+  if (error) throw error;
+  return data ?? null;
+};
@@ -0,0 +1,244 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { strToU8, zipSync, type Zippable } from "https://esm.sh/fflate@0.8.2";
+import { STEP_UP_HEADER, consumeStepUpToken, stepUpRequired } from "../_shared/stepUp.ts";
+import { twoFactorRequired, twoFactorSatisfied } from "../_shared/twoFactor.ts";
+import { sendEmail } from "../_shared/mail.ts";
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-step-up-token",
+  "Access-Control-Expose-Headers": "content-disposition",
+};
+
+// Time to change one's mind (or notice someone else asked) before the data is erased
+const DELETION_GRACE_DAYS = 14;
+
+// Keeps an export of a long-running account to a size the function can build in memory
+const MAX_EXPORT_FILES = 200;
+
+const UPLOADS_PREFIX = "/storage/v1/object/public/uploads/";
+
+// Object path inside the uploads bucket for one of its public URLs, or null for anything else
+const uploadsPath = (url: string | null | undefined) => {
+  const index = url?.indexOf(UPLOADS_PREFIX) ?? -1;
+  return url && index >= 0 ? decodeURIComponent(url.slice(index + UPLOADS_PREFIX.length).split("?")[0]) : null;
+};
+
+// Thread attachments are stored in request-files by path
+const messageAttachmentPaths = (attachments: unknown) =>
+  ((attachments ?? []) as { path?: string }[]).map((a) => a.path).filter((path): path is string => !!path);
+
+// Everything stored about the user, as sent in the export
+const collectAccountData = async (supabase: SupabaseClient, user: { id: string; email?: string; created_at: string; last_sign_in_at?: string }) => {
+  const { data: requests, error: requestsError } = await supabase
+    .from("service_requests")
+    .select("*")
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: true });
+  if (requestsError) throw requestsError;
+  const requestIds = (requests ?? []).map((r) => r.id);
+
+  const [profile, messages, history, files, milestones, payments, invoices, logins, contact, deletion] = await Promise.all([
+    supabase.from("profiles").select("*").eq("user_id", user.id).maybeSingle(),
+    supabase.from("request_messages").select("id, service_request_id, author_type, author_name, body, attachments, created_at, edited_at")
+      .in("service_request_id", requestIds).eq("visibility", "client_visible").order("created_at", { ascending: true }),
+    supabase.from("request_status_history").select("service_request_id, from_status, to_status, actor_type, reason, created_at")
+      .in("service_request_id", requestIds).order("created_at", { ascending: true }),
+    supabase.from("request_files").select("service_request_id, path, name, content_type, size_bytes, uploaded_by_type, uploaded_by_name, created_at")
+      .in("service_request_id", requestIds).order("created_at", { ascending: true }),
+    supabase.from("project_milestones").select("service_request_id, title, description, due_date, status, created_at, milestone_reviews(decision, comment, deliverables, created_at)")
+      .in("service_request_id", requestIds).order("created_at", { ascending: true }),
+    supabase.from("payment_requests").select("*").eq("user_id", user.id).order("created_at", { ascending: true }),
+    supabase.from("invoices").select("*, invoice_items(*)").eq("user_id", user.id).neq("status", "draft")
+      .order("created_at", { ascending: true }),
+    supabase.from("login_events").select("event, success, failure_reason, ip, user_agent, location, created_at")
+      .eq("user_id", user.id).order("created_at", { ascending: true }),
+    user.email
+      ? supabase.from("contact_messages").select("name, email, phone, subject, message, created_at")
+        // Case-insensitive exact match; escape the pattern characters an address can contain
+        .ilike("email", user.email.replace(/[\\%_]/g, "\\$&"))
+      : Promise.resolve({ data: [], error: null }),
+    supabase.from("account_deletion_requests").select("requested_at, scheduled_for").eq("user_id", user.id).maybeSingle(),
+  ]);
+
+  for (const result of [profile, messages, history, files, milestones, payments, invoices, logins, contact, deletion]) {
+    if (result.error) throw result.error;
+  }
+
+  return {
+    exported_at: new Date().toISOString(),
+    account: { id: user.id, email: user.email ?? null, created_at: user.created_at, last_sign_in_at: user.last_sign_in_at ?? null },
+    profile: profile.data,
+    service_requests: requests ?? [],
+    request_messages: messages.data ?? [],
+    request_status_history: history.data ?? [],
+    request_files: files.data ?? [],
+    project_milestones: milestones.data ?? [],
+    payment_requests: payments.data ?? [],
+    invoices: invoices.data ?? [],
+    login_history: logins.data ?? [],
+    contact_messages: contact.data ?? [],
+    pending_deletion: deletion.data,
+  };
+};
+
+// Deletes a due account: database erasure in one transaction, then its stored files, then the auth user
+const deleteAccount = async (supabase: SupabaseClient, userId: string) => {
+  const { data: files, error } = await supabase.rpc("erase_account_data", { _user_id: userId });
+  if (error) throw error;
+
+  const pathsByBucket = new Map<string, string[]>();
+  for (const { bucket, path } of (files ?? []) as { bucket: string; path: string }[]) {
+    pathsByBucket.set(bucket, [...(pathsByBucket.get(bucket) ?? []), path]);
+  }
+  for (const [bucket, paths] of pathsByBucket) {
+    const { error: storageError } = await supabase.storage.from(bucket).remove(paths);
+    // The rows are already gone; orphaned files are logged for manual cleanup rather than blocking the deletion
+    if (storageError) console.error(`Failed to remove ${bucket} files for deleted account ${userId}:`, storageError, paths);
+  }
+
+  const { error: deleteError } = await supabase.auth.admin.deleteUser(userId);
+  if (deleteError) throw deleteError;
+};
+
+// Personal data rights for signed-in clients.
+//   { action: "export" }                   ZIP of data.json plus the user's uploaded files
+//   { action: "request_deletion", reason? } schedules deletion; needs a delete_account step-up token
+//   { action: "cancel_deletion" }          withdraws a scheduled deletion
+//   { action: "process_due" }              deletes accounts past their grace period; service role only,
+//                                          run hourly by pg_cron
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) return json({ error: "Unauthorized" }, 401);
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const { action, reason } = await req.json();
+
+    if (action === "process_due") {
+      if (authHeader !== `Bearer ${supabaseServiceKey}`) return json({ error: "Unauthorized" }, 401);
+
+      const { data: due, error } = await supabase
+        .from("account_deletion_requests")
+        .select("user_id")
+        .lte("scheduled_for", new Date().toISOString());
+      if (error) throw error;
+
+      let deleted = 0;
+      for (const { user_id } of due ?? []) {
+        try {
+          await deleteAccount(supabase, user_id);
+          deleted++;
+        } catch (deleteError) {
+          console.error(`Failed to delete account ${user_id}:`, deleteError);
+        }
+      }
+      return json({ success: true, deleted, failed: (due?.length ?? 0) - deleted });
+    }
+
+    const supabaseUser = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: { user }, error: userError } = await supabaseUser.auth.getUser();
+    if (userError || !user) return json({ error: "Unauthorized" }, 401);
+
+    if (!(await twoFactorSatisfied(supabaseUser))) return twoFactorRequired(corsHeaders);
+
+    if (action === "export") {
+      const data = await collectAccountData(supabase, user);
+
+      // The avatar is the only personal file in the public uploads bucket
+      const paths = [uploadsPath(data.profile?.avatar_url)].filter((path): path is string => !!path);
+
+      // Request files, thread attachments and payment screenshots share the private request-files bucket
+      const requestPaths = [
+        ...data.request_files.map((f) => f.path),
+        ...data.request_messages.flatMap((m) => messageAttachmentPaths(m.attachments)),
+        ...data.payment_requests.flatMap((p) => (p.screenshot_path ? [p.screenshot_path] : [])),
+      ];
+      const files: Zippable = {};
+      for (const path of requestPaths) {
+        if (paths.length + Object.keys(files).length >= MAX_EXPORT_FILES) break;
+        const { data: blob, error } = await supabase.storage.from("request-files").download(path);
+        if (error || !blob) {
+          console.error(`Export skipped missing request file ${path}:`, error);
+          continue;
+        }
+        files[`request-files/${path}`] = new Uint8Array(await blob.arrayBuffer());
+      }
+      for (const path of paths) {
+        const { data: blob, error } = await supabase.storage.from("uploads").download(path);
+        if (error || !blob) {
+          console.error(`Export skipped missing file ${path}:`, error);
+          continue;
+        }
+        files[path] = new Uint8Array(await blob.arrayBuffer());
+      }
+
+      const zip = zipSync({
+        "data.json": strToU8(JSON.stringify(data, null, 2)),
+        ...(Object.keys(files).length ? { files } : {}),
+      });
+
+      return new Response(zip, {
+        headers: {
+          ...corsHeaders,
+          "Content-Type": "application/zip",
+          "Content-Disposition": `attachment; filename="thrylos-data-${new Date().toISOString().slice(0, 10)}.zip"`,
+        },
+      });
+    }
+
+    if (action === "request_deletion") {
+      const { data: isAdmin } = await supabase.rpc("has_role", { _user_id: user.id, _role: "admin" });
+      if (isAdmin) return json({ error: "Admin accounts must be removed by another admin" }, 403);
+
+      const verified = await consumeStepUpToken(supabase, {
+        userId: user.id,
+        purpose: "delete_account",
+        token: req.headers.get(STEP_UP_HEADER),
+      });
+      if (!verified) return stepUpRequired(corsHeaders);
+
+      const scheduledFor = new Date(Date.now() + DELETION_GRACE_DAYS * 24 * 60 * 60 * 1000);
+      const { error } = await supabase.from("account_deletion_requests").upsert({
+        user_id: user.id,
+        requested_at: new Date().toISOString(),
+        scheduled_for: scheduledFor.toISOString(),
+        reason: typeof reason === "string" ? reason.trim().slice(0, 1000) || null : null,
+      });
+      if (error) throw error;
+
+      if (user.email) {
+        // The deletion is already scheduled; a failed notice is logged by sendEmail and not surfaced
+        await sendEmail(user.email, "account_deletion_scheduled", {
+          date: scheduledFor.toLocaleDateString("en-IN", { day: "numeric", month: "long", year: "numeric" }),
+        }).catch(() => {});
+      }
+      return json({ success: true, scheduledFor: scheduledFor.toISOString() });
+    }
+
+    if (action === "cancel_deletion") {
+      const { error } = await supabase.from("account_deletion_requests").delete().eq("user_id", user.id);
+      if (error) throw error;
+      return json({ success: true });
+    }
+
+    return json({ error: "Unknown action" }, 400);
+  } catch (error: unknown) {
+    console.error("Error in account-data:", error);
+    const message = error instanceof Error ? error.message : "Request failed";
+    return json({ error: message }, 500);
+  }
+});
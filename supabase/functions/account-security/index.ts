@@ -0,0 +1,85 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { locateIp } from "../_shared/geo.ts";
+import { recordLoginEvent } from "../_shared/loginEvents.ts";
+import { twoFactorRequired, twoFactorSatisfied } from "../_shared/twoFactor.ts";
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface SessionRow {
+  id: string;
+  created_at: string;
+  last_seen_at: string;
+  user_agent: string | null;
+  ip: string | null;
+  is_current: boolean;
+}
+
+// Account security for signed-in users.
+//   { action: "record_login" } logs a password sign-in made directly against Supabase Auth; must carry
+//                              the new session. Failed attempts are recorded by the
+//                              hook_password_verification_attempt Auth hook, not reported by browsers.
+//   { action: "sessions" }     active sessions with approximate locations
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const authHeader = req.headers.get("Authorization");
+    const { action } = await req.json();
+
+    const getUser = async () => {
+      if (!authHeader) return null;
+      const supabaseUser = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+        global: { headers: { Authorization: authHeader } },
+      });
+      const { data: { user } } = await supabaseUser.auth.getUser();
+      return user ? { user, supabaseUser } : null;
+    };
+
+    if (action === "record_login") {
+      const caller = await getUser();
+      if (!caller) return json({ error: "Unauthorized" }, 401);
+      await recordLoginEvent(supabase, req, {
+        type: "password_login", success: true, userId: caller.user.id, email: caller.user.email,
+      });
+      return json({ success: true });
+    }
+
+    if (action === "sessions") {
+      const caller = await getUser();
+      if (!caller) return json({ error: "Unauthorized" }, 401);
+      if (!(await twoFactorSatisfied(caller.supabaseUser))) return twoFactorRequired(corsHeaders);
+
+      const { data, error } = await caller.supabaseUser.rpc("list_my_sessions");
+      if (error) throw error;
+      const sessions = (data ?? []) as SessionRow[];
+
+      const locations = new Map<string, string | null>();
+      for (const ip of new Set(sessions.map((s) => s.ip).filter((ip): ip is string => !!ip))) {
+        locations.set(ip, await locateIp(supabase, ip));
+      }
+
+      return json({
+        sessions: sessions.map((s) => ({ ...s, location: s.ip ? locations.get(s.ip) ?? null : null })),
+      });
+    }
+
+    return json({ error: "Unknown action" }, 400);
+  } catch (error: unknown) {
+    console.error("Error in account-security:", error);
+    const message = error instanceof Error ? error.message : "Request failed";
+    return json({ error: message }, 500);
+  }
+});
@@ -1,13 +1,41 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { recordAuditEvent, type AuditActor } from "../_shared/audit.ts";
+import { twoFactorRequired, twoFactorSatisfied } from "../_shared/twoFactor.ts";
+import { describeDatabaseError } from "../_shared/dbErrors.ts";
+import { requestSchema, toFieldErrors, validateForTable, type FieldErrors } from "./registry.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-admin-password",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
   "Access-Control-Allow-Methods": "POST, OPTIONS",
 };
 
-const ADMIN_PASSWORD = "628400@thrylosindia";
+const validationError = (fields: FieldErrors) =>
+  new Response(JSON.stringify({ error: "Invalid request", fields }), {
+    status: 400,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Map Postgres errors to client-safe responses; the raw error is only logged
+const databaseError = (error: { code?: string; message?: string }) => {
+  console.error("Admin API database error:", error);
+  const [status, message] = describeDatabaseError(error);
+  return new Response(JSON.stringify({ error: message }), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+};
+
+// Objects in the private request-files bucket that go with a row about to be deleted
+const requestFilePaths = async (supabase: SupabaseClient, table: string, id: string) => {
+  if (table !== "request_files" && table !== "service_requests") return [];
+  const { data } = await supabase
+    .from("request_files")
+    .select("path")
+    .eq(table === "request_files" ? "id" : "service_request_id", id);
+  return (data ?? []).map((file) => file.path as string);
+};
 
 serve(async (req) => {
   if (req.method === "OPTIONS") {
@@ -15,9 +43,24 @@ serve(async (req) => {
   }
 
   try {
-    // Verify admin password
-    const adminPassword = req.headers.get("x-admin-password");
-    if (adminPassword !== ADMIN_PASSWORD) {
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    // Verify the caller's JWT
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    const supabaseUser = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: userError } = await supabaseUser.auth.getUser();
+    if (userError || !user) {
       return new Response(JSON.stringify({ error: "Unauthorized" }), {
         status: 401,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -25,59 +68,171 @@ serve(async (req) => {
     }
 
     // Create Supabase client with service role (bypasses RLS)
-    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
-    const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    const { action, table, data, id, filters } = await req.json();
+    // Only users holding the admin role may use this API
+    const { data: isAdmin, error: roleError } = await supabase.rpc("has_role", {
+      _user_id: user.id,
+      _role: "admin",
+    });
+
+    if (roleError || !isAdmin) {
+      return new Response(JSON.stringify({ error: "Forbidden" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    if (!(await twoFactorSatisfied(supabaseUser))) return twoFactorRequired(corsHeaders);
+
+    const actor: AuditActor = { type: "admin", id: user.id, label: user.email ?? null };
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return validationError({ _: ["Request body must be valid JSON"] });
+    }
+
+    const parsed = requestSchema.safeParse(body);
+    if (!parsed.success) return validationError(toFieldErrors(parsed.error));
+
+    const request = parsed.data;
+    const checked = validateForTable(request, actor);
+    if (!checked.ok) return validationError(checked.fields);
 
     let result;
 
-    switch (action) {
+    switch (request.action) {
       case "select": {
-        let query = supabase.from(table).select(data?.select || "*");
-        
+        const { filters } = request;
+        let query = supabase.from(request.table).select(checked.select);
+
         if (filters?.eq) {
           for (const [key, value] of Object.entries(filters.eq)) {
             query = query.eq(key, value);
           }
         }
+        for (const [key, value] of Object.entries(filters?.gte ?? {})) {
+          query = query.gte(key, value);
+        }
+        for (const [key, value] of Object.entries(filters?.lte ?? {})) {
+          query = query.lte(key, value);
+        }
         if (filters?.order) {
           query = query.order(filters.order.column, { ascending: filters.order.ascending ?? false });
         }
         if (filters?.limit) {
           query = query.limit(filters.limit);
         }
-        
+
         const { data: selectData, error } = await query;
-        if (error) throw error;
+        if (error) return databaseError(error);
         result = selectData;
         break;
       }
 
       case "insert": {
-        const { data: insertData, error } = await supabase.from(table).insert(data).select();
-        if (error) throw error;
+        const { data: insertData, error } = await supabase.from(request.table).insert(checked.data).select();
+        if (error) return databaseError(error);
+        const inserted = insertData?.[0];
+        await recordAuditEvent(supabase, actor, {
+          action: "insert", table: request.table, recordId: inserted?.id ?? null, after: inserted,
+        });
         result = insertData;
         break;
       }
 
       case "update": {
-        const { data: updateData, error } = await supabase.from(table).update(data).eq("id", id).select();
-        if (error) throw error;
+        const { data: before } = await supabase.from(request.table).select("*").eq("id", request.id).maybeSingle();
+        const { data: updateData, error } = await supabase.from(request.table).update(checked.data).eq("id", request.id).select();
+        if (error) return databaseError(error);
+        await recordAuditEvent(supabase, actor, {
+          action: "update", table: request.table, recordId: request.id, before, after: updateData?.[0],
+        });
         result = updateData;
         break;
       }
 
+      case "transition": {
+        const { data: entry, error } = await supabase.rpc("transition_request_status", {
+          _request_id: request.id,
+          _to_status: request.data.status,
+          _actor_type: "admin",
+          _actor_id: actor.id,
+          _actor_label: actor.label,
+          _reason: request.data.reason ?? null,
+        });
+        if (error) return databaseError(error);
+        await recordAuditEvent(supabase, actor, {
+          action: "update_status", table: request.table, recordId: request.id,
+          before: { status: entry.from_status }, after: { status: entry.to_status, reason: entry.reason },
+        });
+        result = entry;
+        break;
+      }
+
+      case "review": {
+        const { data: before } = await supabase.from(request.table).select("*").eq("id", request.id).maybeSingle();
+        const { data: payment, error } = await supabase.rpc("review_payment", {
+          _payment_id: request.id,
+          _approve: request.data.approve,
+          _reason: request.data.reason ?? null,
+          _admin_id: actor.id,
+          _admin_label: actor.label,
+        });
+        if (error) return databaseError(error);
+        await recordAuditEvent(supabase, actor, {
+          action: request.data.approve ? "confirm_payment" : "reject_payment",
+          table: request.table, recordId: request.id, before, after: payment,
+        });
+        result = payment;
+        break;
+      }
+
+      case "resend": {
+        const { data: message, error } = await supabase.rpc("requeue_outbound_message", { _message_id: request.id });
+        if (error) return databaseError(error);
+        await recordAuditEvent(supabase, actor, {
+          action: "resend_email", table: request.table, recordId: request.id, after: { recipient: message.recipient, template: message.template },
+        });
+        result = message;
+        break;
+      }
+
+      case "bill": {
+        const { data: payment, error } = await supabase.rpc("bill_time_entries", {
+          _request_id: request.id,
+          _hourly_rate: request.data.hourly_rate,
+          _upi_id: request.data.upi_id,
+          _payment_note: request.data.payment_note ?? null,
+          _entry_ids: request.data.entry_ids ?? null,
+        });
+        if (error) return databaseError(error);
+        await recordAuditEvent(supabase, actor, {
+          action: "bill_time", table: "payment_requests", recordId: payment.id,
+          after: { ...payment, hourly_rate: request.data.hourly_rate },
+        });
+        result = payment;
+        break;
+      }
+
       case "delete": {
-        const { error } = await supabase.from(table).delete().eq("id", id);
-        if (error) throw error;
+        const { data: before } = await supabase.from(request.table).select("*").eq("id", request.id).maybeSingle();
+        const filePaths = await requestFilePaths(supabase, request.table, request.id);
+        const { error } = await supabase.from(request.table).delete().eq("id", request.id);
+        if (error) return databaseError(error);
+        if (filePaths.length) {
+          const { error: storageError } = await supabase.storage.from("request-files").remove(filePaths);
+          // The rows are gone either way; leftover objects are unreachable and only logged
+          if (storageError) console.error("Failed to remove request files:", storageError, filePaths);
+        }
+        await recordAuditEvent(supabase, actor, {
+          action: "delete", table: request.table, recordId: request.id, before,
+        });
         result = { success: true };
         break;
       }
-
-      default:
-        throw new Error(`Unknown action: ${action}`);
     }
 
     return new Response(JSON.stringify(result), {
@@ -85,8 +240,7 @@ serve(async (req) => {
     });
   } catch (error: unknown) {
     console.error("Admin API error:", error);
-    const message = error instanceof Error ? error.message : "Unknown error";
-    return new Response(JSON.stringify({ error: message }), {
+    return new Response(JSON.stringify({ error: "Internal server error" }), {
       status: 500,
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
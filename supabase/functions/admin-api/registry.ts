@@ -0,0 +1,453 @@
+import { z } from "https://esm.sh/zod@3.23.8";
+import type { AuditActor } from "../_shared/audit.ts";
+
+// Declared registry of everything admin-api is allowed to touch.
+// Tables not listed here (otp_verifications, user_roles, pm_sessions, ...) are unreachable.
+
+export type Action = "select" | "insert" | "update" | "delete" | "transition" | "review" | "resend" | "bill";
+
+export interface TableConfig {
+  // Columns that may be selected, filtered and ordered on
+  columns: string[];
+  actions: Action[];
+  // Writable columns and their validation; update accepts any non-empty subset
+  writable?: z.ZodRawShape;
+  // Server-controlled values merged into validated writes, e.g. authorship
+  stamp?: {
+    insert?: (actor: AuditActor) => Record<string, unknown>;
+    update?: (actor: AuditActor) => Record<string, unknown>;
+  };
+}
+
+const uuid = z.string().uuid();
+const optionalText = z.string().trim().max(5000).nullable().optional();
+const url = z.string().trim().max(2000).nullable().optional();
+const date = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Expected a YYYY-MM-DD date");
+const gstin = z.string().trim().toUpperCase().regex(/^\d{2}[A-Z]{5}\d{4}[A-Z][A-Z\d]Z[A-Z\d]$/, "Invalid GSTIN");
+
+// One question of a service's intake questionnaire; the validate_intake_answers trigger reads the same shape
+const intakeField = z.object({
+  id: z.string().regex(/^[a-z][a-z0-9_]{0,49}$/, "Use lowercase letters, digits and underscores"),
+  label: z.string().trim().min(1).max(200),
+  type: z.enum(["text", "choice", "multi", "file", "number"]),
+  required: z.boolean(),
+  help: z.string().trim().max(500).optional(),
+  multiline: z.boolean().optional(),
+  options: z.array(z.string().trim().min(1).max(100)).min(1).max(50).optional(),
+  min: z.number().optional(),
+  max: z.number().optional(),
+  show_if: z.object({ field: z.string(), values: z.array(z.string()).min(1).max(50) }).strict().optional(),
+}).strict();
+
+const intakeSchema = z.array(intakeField).max(50).superRefine((fields, ctx) => {
+  fields.forEach((field, index) => {
+    const issue = (message: string, path: (string | number)[] = []) =>
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message, path: [index, ...path] });
+    if (fields.findIndex((f) => f.id === field.id) !== index) issue(`Duplicate question id '${field.id}'`, ["id"]);
+    const hasOptions = field.type === "choice" || field.type === "multi";
+    if (hasOptions && !field.options) issue("Choice questions need options", ["options"]);
+    if (!hasOptions && field.options) issue("Only choice questions have options", ["options"]);
+    if (field.min !== undefined && field.max !== undefined && field.min > field.max) issue("min is above max", ["min"]);
+    if (field.show_if) {
+      // Conditions look back at an earlier choice question, so the form can be evaluated top to bottom
+      const source = fields.slice(0, index).find((f) => f.id === field.show_if?.field);
+      if (!source?.options) issue("show_if must refer to an earlier choice question", ["show_if", "field"]);
+      else if (field.show_if.values.some((v) => !source.options?.includes(v))) {
+        issue(`show_if values must be options of '${source.id}'`, ["show_if", "values"]);
+      }
+    }
+  });
+});
+
+export const registry: Record<string, TableConfig> = {
+  services: {
+    columns: ["id", "title", "description", "icon", "features", "price_range", "is_active", "intake_schema", "created_at", "updated_at"],
+    actions: ["select", "insert", "update", "delete"],
+    writable: {
+      title: z.string().trim().min(1).max(200),
+      description: optionalText,
+      icon: z.string().max(50).nullable().optional(),
+      features: z.array(z.string().max(200)).max(50).nullable().optional(),
+      price_range: z.string().max(100).nullable().optional(),
+      is_active: z.boolean().optional(),
+      intake_schema: intakeSchema.optional(),
+    },
+  },
+  service_requests: {
+    columns: [
+      "id", "user_id", "service_id", "title", "description", "status", "priority", "notes", "admin_response",
+      "service_type", "color_theme", "budget_range", "timeline", "company_name", "contact_email", "contact_phone",
+      "assigned_pm_id", "pm_assigned_at", "intake_answers", "created_at", "updated_at",
+    ],
+    // Status changes go through "transition" so the lifecycle rules apply
+    actions: ["select", "update", "delete", "transition"],
+    writable: {
+      priority: z.enum(["low", "medium", "high", "urgent"]),
+      assigned_pm_id: uuid.nullable(),
+      pm_assigned_at: z.string().datetime({ offset: true }).nullable(),
+    },
+  },
+  portfolio_items: {
+    columns: ["id", "title", "description", "image_url", "project_url", "technologies", "category", "is_featured", "created_at"],
+    actions: ["select", "insert", "update", "delete"],
+    writable: {
+      title: z.string().trim().min(1).max(200),
+      description: optionalText,
+      image_url: url,
+      project_url: url,
+      technologies: z.array(z.string().max(100)).max(50).nullable().optional(),
+      category: z.string().max(100).nullable().optional(),
+      is_featured: z.boolean().optional(),
+    },
+  },
+  contact_messages: {
+    columns: ["id", "name", "email", "phone", "subject", "message", "is_read", "is_replied", "created_at"],
+    actions: ["select", "update", "delete"],
+    writable: {
+      is_read: z.boolean(),
+      is_replied: z.boolean(),
+    },
+  },
+  team_members: {
+    columns: ["id", "name", "role", "bio", "image_url", "order_index", "is_active", "created_at", "updated_at"],
+    actions: ["select", "insert", "update", "delete"],
+    writable: {
+      name: z.string().trim().min(1).max(200),
+      role: z.string().trim().min(1).max(200),
+      bio: optionalText,
+      image_url: url,
+      order_index: z.number().int().min(0).optional(),
+      is_active: z.boolean().optional(),
+    },
+  },
+  project_managers: {
+    columns: [
+      "id", "name", "email", "phone", "specialization", "is_available", "accepting_projects",
+      "max_concurrent_projects", "active_project_count", "created_at", "updated_at",
+    ],
+    actions: ["select", "insert", "update", "delete"],
+    // is_available and active_project_count are maintained by database triggers
+    writable: {
+      name: z.string().trim().min(1).max(200),
+      email: z.string().trim().email(),
+      phone: z.string().max(30).nullable().optional(),
+      specialization: z.string().max(100).nullable().optional(),
+      accepting_projects: z.boolean().optional(),
+      max_concurrent_projects: z.number().int().min(1).max(50).optional(),
+    },
+  },
+  payment_requests: {
+    columns: [
+      "id", "service_request_id", "user_id", "amount", "currency", "status", "qr_code_url", "upi_id",
+      "transaction_id", "payment_note", "created_at", "updated_at", "paid_at", "screenshot_path", "submitted_at",
+      "verified_at", "verified_by", "rejection_reason", "rejected_at",
+    ],
+    actions: ["select", "insert", "update", "review"],
+    // Confirming or rejecting a submitted payment goes through the review action
+    writable: {
+      service_request_id: uuid,
+      user_id: uuid,
+      amount: z.number().positive().max(100000000),
+      currency: z.literal("INR").optional(),
+      status: z.enum(["pending", "cancelled"]).optional(),
+      upi_id: z.string().trim().regex(/^[\w.-]+@[\w.-]+$/, "Invalid UPI ID").nullable().optional(),
+      payment_note: optionalText,
+    },
+  },
+  pm_assignment_settings: {
+    columns: ["id", "auto_assign", "strategy", "last_assigned_pm_id", "created_at", "updated_at"],
+    actions: ["select", "update"],
+    writable: {
+      auto_assign: z.boolean(),
+      strategy: z.enum(["least_loaded", "round_robin"]),
+    },
+  },
+  request_messages: {
+    columns: [
+      "id", "service_request_id", "author_type", "author_id", "author_name", "visibility", "body", "attachments",
+      "read_by_client_at", "read_by_pm_at", "read_by_admin_at", "edited_at", "created_at", "updated_at",
+    ],
+    actions: ["select", "insert", "update"],
+    writable: {
+      service_request_id: uuid,
+      body: z.string().trim().min(1).max(5000),
+      visibility: z.enum(["internal", "client_visible"]).optional(),
+      attachments: z.array(z.object({
+        name: z.string().max(200),
+        // The validate_request_message_attachments trigger keeps it inside the request's folder
+        path: z.string().min(1).max(300),
+        type: z.string().max(100).nullable().optional(),
+        size: z.number().int().min(0).nullable().optional(),
+      }).strict()).max(10).optional(),
+    },
+    stamp: {
+      insert: (actor) => ({
+        author_type: "admin",
+        author_id: actor.id,
+        author_name: "THRYLOS",
+        read_by_admin_at: new Date().toISOString(),
+      }),
+      update: () => ({ edited_at: new Date().toISOString() }),
+    },
+  },
+  request_files: {
+    columns: [
+      "id", "service_request_id", "path", "name", "content_type", "size_bytes",
+      "uploaded_by_type", "uploaded_by_id", "uploaded_by_name", "created_at",
+    ],
+    actions: ["select", "insert", "delete"],
+    writable: {
+      service_request_id: uuid,
+      // The object is uploaded to the request-files bucket first; the database checks it is in the request's folder
+      path: z.string().max(500),
+      name: z.string().trim().min(1).max(200),
+      content_type: z.string().max(200).nullable().optional(),
+      size_bytes: z.number().int().min(0).nullable().optional(),
+    },
+    stamp: {
+      insert: (actor) => ({ uploaded_by_type: "admin", uploaded_by_id: actor.id, uploaded_by_name: "THRYLOS" }),
+    },
+  },
+  // PMs run the board through pm-api; admins only watch it
+  project_tasks: {
+    columns: [
+      "id", "service_request_id", "title", "description", "status", "position", "assignees", "checklist",
+      "due_date", "completed_at", "created_by_pm_id", "created_at", "updated_at",
+    ],
+    actions: ["select"],
+  },
+  // PMs log time through pm-api. bill takes a service request id and turns its unbilled time into a payment request.
+  time_entries: {
+    columns: [
+      "id", "service_request_id", "task_id", "pm_id", "source", "description", "started_at", "ended_at",
+      "duration_minutes", "payment_request_id", "billed_hourly_rate", "created_at", "updated_at",
+    ],
+    actions: ["select", "bill"],
+  },
+  request_status_history: {
+    columns: ["id", "service_request_id", "from_status", "to_status", "actor_type", "actor_id", "actor_label", "reason", "created_at"],
+    actions: ["select"],
+  },
+  invoices: {
+    columns: [
+      "id", "kind", "invoice_number", "service_request_id", "user_id", "payment_request_id", "quote_id", "status",
+      "issue_date", "due_date", "buyer_name", "buyer_gstin", "buyer_address", "place_of_supply", "supply_type",
+      "seller_name", "seller_gstin", "seller_address", "seller_state", "currency", "subtotal", "discount_total",
+      "taxable_total", "cgst_total", "sgst_total", "igst_total", "grand_total", "notes", "issued_at", "created_at", "updated_at",
+    ],
+    actions: ["select", "insert", "update", "delete"],
+    // Numbers, seller details, supply type and totals are filled in by database triggers
+    writable: {
+      kind: z.enum(["quote", "invoice"]),
+      service_request_id: uuid,
+      user_id: uuid,
+      payment_request_id: uuid.nullable().optional(),
+      quote_id: uuid.nullable().optional(),
+      status: z.enum(["draft", "issued", "accepted", "paid", "void"]).optional(),
+      issue_date: date.nullable().optional(),
+      due_date: date.nullable().optional(),
+      buyer_name: z.string().trim().min(1).max(200),
+      buyer_gstin: gstin.nullable().optional(),
+      buyer_address: optionalText,
+      place_of_supply: z.string().trim().min(1).max(100),
+      notes: optionalText,
+    },
+  },
+  invoice_items: {
+    columns: [
+      "id", "invoice_id", "position", "description", "hsn_sac", "quantity", "unit_price", "discount", "gst_rate",
+      "taxable_amount", "cgst_amount", "sgst_amount", "igst_amount", "line_total", "created_at",
+    ],
+    actions: ["select", "insert", "update", "delete"],
+    writable: {
+      invoice_id: uuid,
+      position: z.number().int().min(0).max(1000),
+      description: z.string().trim().min(1).max(500),
+      hsn_sac: z.string().trim().regex(/^\d{4,8}$/, "HSN/SAC must be 4 to 8 digits").nullable().optional(),
+      quantity: z.number().positive().max(100000),
+      unit_price: z.number().min(0).max(100000000),
+      discount: z.number().min(0).max(100000000).optional(),
+      gst_rate: z.union([z.literal(0), z.literal(0.25), z.literal(3), z.literal(5), z.literal(12), z.literal(18), z.literal(28)]),
+    },
+  },
+  billing_settings: {
+    columns: [
+      "id", "legal_name", "gstin", "address", "state", "email", "phone", "invoice_prefix", "quote_prefix",
+      "default_payment_terms_days", "default_hourly_rate", "created_at", "updated_at",
+    ],
+    actions: ["select", "update"],
+    writable: {
+      legal_name: z.string().trim().min(1).max(200),
+      gstin: gstin.nullable(),
+      address: optionalText,
+      state: z.string().trim().max(100).nullable(),
+      email: z.string().trim().email().nullable(),
+      phone: z.string().max(30).nullable(),
+      invoice_prefix: z.string().trim().regex(/^[A-Z0-9-]{1,10}$/, "Use up to 10 capital letters, digits or dashes"),
+      quote_prefix: z.string().trim().regex(/^[A-Z0-9-]{1,10}$/, "Use up to 10 capital letters, digits or dashes"),
+      default_payment_terms_days: z.number().int().min(0).max(365),
+      default_hourly_rate: z.number().min(0).max(1000000).optional(),
+    },
+  },
+  two_factor_policies: {
+    columns: ["id", "role", "required", "created_at", "updated_at"],
+    actions: ["select", "update"],
+    writable: {
+      required: z.boolean(),
+    },
+  },
+  audit_events: {
+    columns: ["id", "actor_type", "actor_id", "actor_label", "action", "table_name", "record_id", "before", "after", "created_at"],
+    actions: ["select"],
+  },
+  login_events: {
+    columns: ["id", "user_id", "pm_id", "email", "event", "success", "failure_reason", "ip", "user_agent", "location", "created_at"],
+    actions: ["select"],
+  },
+  profiles: {
+    columns: ["id", "user_id", "full_name", "email", "phone", "company", "avatar_url", "username", "created_at", "updated_at"],
+    actions: ["select"],
+  },
+  outbound_messages: {
+    columns: [
+      "id", "idempotency_key", "channel", "template", "recipient", "service_request_id", "status", "attempts",
+      "max_attempts", "next_attempt_at", "last_error", "sent_at", "created_at", "updated_at",
+    ],
+    actions: ["select", "resend"],
+  },
+};
+
+const tableName = z.string().refine((t) => Object.hasOwn(registry, t), { message: "Unknown table" });
+
+const selectRequest = z.object({
+  action: z.literal("select"),
+  table: tableName,
+  data: z.object({ select: z.string().max(500).optional() }).strict().optional(),
+  filters: z.object({
+    eq: z.record(z.union([z.string(), z.number(), z.boolean(), z.null()])).optional(),
+    gte: z.record(z.union([z.string(), z.number()])).optional(),
+    lte: z.record(z.union([z.string(), z.number()])).optional(),
+    order: z.object({ column: z.string(), ascending: z.boolean().optional() }).strict().optional(),
+    limit: z.number().int().min(1).max(1000).optional(),
+  }).strict().optional(),
+}).strict();
+
+const insertRequest = z.object({
+  action: z.literal("insert"),
+  table: tableName,
+  data: z.record(z.unknown()),
+}).strict();
+
+const updateRequest = z.object({
+  action: z.literal("update"),
+  table: tableName,
+  id: uuid,
+  data: z.record(z.unknown()),
+}).strict();
+
+const transitionRequest = z.object({
+  action: z.literal("transition"),
+  table: tableName,
+  id: uuid,
+  data: z.object({
+    status: z.enum(["pending", "quoted", "awaiting_payment", "in_progress", "on_hold", "in_review", "completed", "cancelled"]),
+    reason: z.string().trim().max(1000).optional(),
+  }).strict(),
+}).strict();
+
+const reviewRequest = z.object({
+  action: z.literal("review"),
+  table: tableName,
+  id: uuid,
+  data: z.object({
+    approve: z.boolean(),
+    reason: z.string().trim().max(1000).optional(),
+  }).strict().refine((d) => d.approve || !!d.reason, { message: "A reason is required to reject a payment", path: ["reason"] }),
+}).strict();
+
+const resendRequest = z.object({
+  action: z.literal("resend"),
+  table: tableName,
+  id: uuid,
+}).strict();
+
+const billRequest = z.object({
+  action: z.literal("bill"),
+  table: tableName,
+  id: uuid,
+  data: z.object({
+    hourly_rate: z.number().positive().max(1000000),
+    upi_id: z.string().trim().regex(/^[\w.-]+@[\w.-]+$/, "Invalid UPI ID"),
+    payment_note: z.string().trim().max(1000).optional(),
+    // Bill only these entries, e.g. the ones in a date range; all unbilled time when omitted
+    entry_ids: z.array(uuid).min(1).max(1000).optional(),
+  }).strict(),
+}).strict();
+
+const deleteRequest = z.object({
+  action: z.literal("delete"),
+  table: tableName,
+  id: uuid,
+}).strict();
+
+export const requestSchema = z.discriminatedUnion("action", [
+  selectRequest, insertRequest, updateRequest, deleteRequest, transitionRequest, reviewRequest, resendRequest, billRequest,
+]);
+
+export type AdminRequest = z.infer<typeof requestSchema>;
+
+export type FieldErrors = Record<string, string[]>;
+
+export const toFieldErrors = (error: z.ZodError, prefix: string[] = []): FieldErrors => {
+  const fields: FieldErrors = {};
+  for (const issue of error.issues) {
+    const key = [...prefix, ...issue.path].join(".") || "_";
+    (fields[key] ||= []).push(issue.message);
+  }
+  return fields;
+};
+
+// Checks everything that depends on the table: action, columns and the write payload.
+// Returns the validated payload for writes, or field errors.
+export const validateForTable = (
+  request: AdminRequest,
+  actor: AuditActor,
+): { ok: true; data?: Record<string, unknown>; select?: string } | { ok: false; fields: FieldErrors } => {
+  const config = registry[request.table];
+
+  if (!config.actions.includes(request.action)) {
+    return { ok: false, fields: { action: [`'${request.action}' is not allowed on ${request.table}`] } };
+  }
+
+  if (request.action === "select") {
+    const fields: FieldErrors = {};
+    const requested = (request.data?.select ?? "*").split(",").map((c) => c.trim()).filter(Boolean);
+    const columns = requested.includes("*") ? config.columns : requested;
+    const unknownColumns = columns.filter((c) => !config.columns.includes(c));
+    if (unknownColumns.length) fields["data.select"] = unknownColumns.map((c) => `Unknown column '${c}'`);
+
+    for (const op of ["eq", "gte", "lte"] as const) {
+      for (const key of Object.keys(request.filters?.[op] ?? {})) {
+        if (!config.columns.includes(key)) (fields[`filters.${op}.${key}`] ||= []).push(`Unknown column '${key}'`);
+      }
+    }
+    const orderColumn = request.filters?.order?.column;
+    if (orderColumn && !config.columns.includes(orderColumn)) {
+      fields["filters.order.column"] = [`Unknown column '${orderColumn}'`];
+    }
+
+    return Object.keys(fields).length ? { ok: false, fields } : { ok: true, select: columns.join(", ") };
+  }
+
+  if (request.action === "delete" || request.action === "resend" || request.action === "bill") return { ok: true };
+  if (request.action === "transition" || request.action === "review") return { ok: true, data: request.data };
+
+  const base = z.object(config.writable ?? {}).strict();
+  const schema = request.action === "insert"
+    ? base
+    : base.partial().refine((d) => Object.keys(d).length > 0, { message: "No fields to update" });
+
+  const parsed = schema.safeParse(request.data);
+  if (!parsed.success) return { ok: false, fields: toFieldErrors(parsed.error, ["data"]) };
+  return { ok: true, data: { ...parsed.data, ...config.stamp?.[request.action]?.(actor) } };
+};
@@ -1,12 +1,15 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { STEP_UP_HEADER, consumeStepUpToken, stepUpRequired } from "../_shared/stepUp.ts";
+import { twoFactorRequired, twoFactorSatisfied } from "../_shared/twoFactor.ts";
+import { recordLoginEvent } from "../_shared/loginEvents.ts";
 
 const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
 const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-step-up-token",
 };
 
 serve(async (req) => {
@@ -36,6 +39,8 @@ serve(async (req) => {
       );
     }
 
+    if (!(await twoFactorSatisfied(supabaseUser))) return twoFactorRequired(corsHeaders);
+
     const { newPassword } = await req.json();
 
     if (!newPassword || newPassword.length < 6) {
@@ -47,6 +52,14 @@ serve(async (req) => {
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
+    // A session alone isn't enough: the user must have just passed step-up verification
+    const verified = await consumeStepUpToken(supabase, {
+      userId: user.id,
+      purpose: "change_password",
+      token: req.headers.get(STEP_UP_HEADER),
+    });
+    if (!verified) return stepUpRequired(corsHeaders);
+
     const { error: updateError } = await supabase.auth.admin.updateUserById(
       user.id,
       { password: newPassword }
@@ -54,6 +67,8 @@ serve(async (req) => {
 
     if (updateError) throw updateError;
 
+    await recordLoginEvent(supabase, req, { type: "password_change", success: true, userId: user.id, email: user.email });
+
     return new Response(
       JSON.stringify({ success: true, message: "Password changed successfully" }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
@@ -0,0 +1,158 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { recordAuditEvent, type AuditActor } from "../_shared/audit.ts";
+import { twoFactorRequired, twoFactorSatisfied } from "../_shared/twoFactor.ts";
+import { MailDeliveryError, sendMail } from "../_shared/mail.ts";
+import {
+  TEMPLATE_DEFINITIONS,
+  checkTemplate,
+  defaultTemplate,
+  fillTemplate,
+  isEmailTemplateName,
+  sampleValues,
+  type EmailTemplateName,
+  type RenderedEmail,
+} from "../_shared/emailTemplates.ts";
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const MAX_SUBJECT_LENGTH = 200;
+const MAX_BODY_LENGTH = 100_000;
+
+// The subject and bodies from the request, or a list of what's wrong with them
+const parseDraft = (name: EmailTemplateName, body: Record<string, unknown>): RenderedEmail | string[] => {
+  const { subject, html, text } = body;
+  if (typeof subject !== "string" || typeof html !== "string" || typeof text !== "string") {
+    return ["Subject, HTML body and text body are required"];
+  }
+
+  const problems: string[] = [];
+  if (!subject.trim()) problems.push("Subject can't be empty");
+  if (subject.length > MAX_SUBJECT_LENGTH) problems.push(`Subject must be at most ${MAX_SUBJECT_LENGTH} characters`);
+  if (!html.trim() || !text.trim()) problems.push("Both bodies need content");
+  if (html.length > MAX_BODY_LENGTH || text.length > MAX_BODY_LENGTH) problems.push("Body is too long");
+
+  const draft = { subject: subject.trim(), html, text };
+  const { unknown, missing } = checkTemplate(name, draft);
+  if (unknown.length) problems.push(`Unknown variables: ${unknown.map((key) => `{{${key}}}`).join(", ")}`);
+  if (missing.length) problems.push(`Both bodies must include ${missing.map((key) => `{{${key}}}`).join(", ")}`);
+
+  return problems.length ? problems : draft;
+};
+
+// Admin editing of the email templates in _shared/emailTemplates.ts.
+//   { action: "catalog" }                               every template with its default and saved version
+//   { action: "save", key, subject, html, text }        stores an edited version
+//   { action: "reset", key }                            deletes the edited version, back to the default
+//   { action: "test_send", key, subject, html, text }   sends the draft, filled with sample values, to the admin
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) return json({ error: "Unauthorized" }, 401);
+
+    const supabaseUser = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader } },
+    });
+    const { data: { user }, error: userError } = await supabaseUser.auth.getUser();
+    if (userError || !user) return json({ error: "Unauthorized" }, 401);
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const { data: isAdmin, error: roleError } = await supabase.rpc("has_role", { _user_id: user.id, _role: "admin" });
+    if (roleError || !isAdmin) return json({ error: "Forbidden" }, 403);
+    if (!(await twoFactorSatisfied(supabaseUser))) return twoFactorRequired(corsHeaders);
+
+    const actor: AuditActor = { type: "admin", id: user.id, label: user.email ?? null };
+    const body = await req.json();
+    const { action, key } = body;
+
+    if (action === "catalog") {
+      const { data: saved, error } = await supabase
+        .from("email_templates")
+        .select("key, subject, html_body, text_body, updated_at");
+      if (error) throw error;
+      const savedByKey = new Map((saved ?? []).map((row) => [row.key, row]));
+
+      const templates = (Object.keys(TEMPLATE_DEFINITIONS) as EmailTemplateName[]).map((name) => {
+        const { name: label, description, variables } = TEMPLATE_DEFINITIONS[name];
+        const row = savedByKey.get(name);
+        return {
+          key: name,
+          name: label,
+          description,
+          variables,
+          default: defaultTemplate(name),
+          saved: row ? { subject: row.subject, html: row.html_body, text: row.text_body, updatedAt: row.updated_at } : null,
+        };
+      });
+      return json({ templates });
+    }
+
+    if (!isEmailTemplateName(key)) return json({ error: "Unknown template" }, 400);
+
+    if (action === "reset") {
+      const { data: removed, error } = await supabase.from("email_templates").delete().eq("key", key).select().maybeSingle();
+      if (error) throw error;
+      if (removed) {
+        await recordAuditEvent(supabase, actor, { action: "delete", table: "email_templates", recordId: removed.id, before: removed });
+      }
+      return json({ success: true });
+    }
+
+    if (action !== "save" && action !== "test_send") return json({ error: "Unknown action" }, 400);
+
+    const draft = parseDraft(key, body);
+    if (Array.isArray(draft)) return json({ error: draft.join(". "), problems: draft }, 400);
+
+    if (action === "test_send") {
+      if (!user.email) return json({ error: "Your account has no email address" }, 400);
+      const filled = fillTemplate(draft, sampleValues(key));
+      try {
+        await sendMail({ to: user.email, ...filled, subject: `[Test] ${filled.subject}` });
+      } catch (error) {
+        if (error instanceof MailDeliveryError) return json({ error: error.message }, 502);
+        throw error;
+      }
+      return json({ success: true, sentTo: user.email });
+    }
+
+    const { data: before } = await supabase.from("email_templates").select("*").eq("key", key).maybeSingle();
+    const { data: saved, error } = await supabase
+      .from("email_templates")
+      .upsert(
+        {
+          key,
+          subject: draft.subject,
+          html_body: draft.html,
+          text_body: draft.text,
+          variables: TEMPLATE_DEFINITIONS[key].variables,
+          updated_by: user.id,
+        },
+        { onConflict: "key" },
+      )
+      .select()
+      .single();
+    if (error) throw error;
+
+    await recordAuditEvent(supabase, actor, {
+      action: before ? "update" : "insert", table: "email_templates", recordId: saved.id, before, after: saved,
+    });
+    return json({ success: true, updatedAt: saved.updated_at });
+  } catch (error: unknown) {
+    console.error("Error in email-templates:", error);
+    const message = error instanceof Error ? error.message : "Request failed";
+    return json({ error: message }, 500);
+  }
+});
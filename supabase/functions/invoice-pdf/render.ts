@@ -0,0 +1,249 @@
+import { PDFDocument, StandardFonts, rgb, type PDFFont, type PDFPage } from "https://esm.sh/pdf-lib@1.17.1";
+
+export interface InvoiceRow {
+  kind: "quote" | "invoice";
+  invoice_number: string | null;
+  status: string;
+  issue_date: string | null;
+  due_date: string | null;
+  buyer_name: string;
+  buyer_gstin: string | null;
+  buyer_address: string | null;
+  place_of_supply: string;
+  supply_type: "intra" | "inter";
+  seller_name: string | null;
+  seller_gstin: string | null;
+  seller_address: string | null;
+  seller_state: string | null;
+  subtotal: number;
+  discount_total: number;
+  taxable_total: number;
+  cgst_total: number;
+  sgst_total: number;
+  igst_total: number;
+  grand_total: number;
+  notes: string | null;
+}
+
+export interface InvoiceItemRow {
+  description: string;
+  hsn_sac: string | null;
+  quantity: number;
+  unit_price: number;
+  discount: number;
+  gst_rate: number;
+  taxable_amount: number;
+  cgst_amount: number;
+  sgst_amount: number;
+  igst_amount: number;
+  line_total: number;
+}
+
+const PAGE = { width: 595.28, height: 841.89, margin: 40 };
+const GREY = rgb(0.4, 0.4, 0.4);
+const LINE = rgb(0.85, 0.85, 0.85);
+
+// The standard PDF fonts have no rupee glyph, so amounts are printed as plain numbers with an INR header
+const money = (value: number) =>
+  Number(value).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDate = (value: string | null) =>
+  value ? new Date(`${value}T00:00:00Z`).toLocaleDateString("en-IN", { day: "2-digit", month: "short", year: "numeric", timeZone: "UTC" }) : "-";
+
+// The standard fonts only encode WinAnsi, and drawText throws on anything else, so names and
+// notes typed in other scripts are reduced to what the font can print
+const printable = (value: string, font: PDFFont) => {
+  const supported = new Set(font.getCharacterSet());
+  return Array.from(value.normalize("NFC").replace(/₹/g, "Rs.").replace(/[^\S\n]/g, " "))
+    .map((char) => (char === "\n" || supported.has(char.codePointAt(0)!) ? char : "?"))
+    .join("");
+};
+
+// Break text into lines that fit within a width
+const wrap = (text: string, font: PDFFont, size: number, width: number) => {
+  const lines: string[] = [];
+  for (const paragraph of printable(text, font).split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) > width && line) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+export const renderInvoicePdf = async (invoice: InvoiceRow, items: InvoiceItemRow[]) => {
+  const pdf = await PDFDocument.create();
+  const regular = await pdf.embedFont(StandardFonts.Helvetica);
+  const bold = await pdf.embedFont(StandardFonts.HelveticaBold);
+
+  let page: PDFPage = pdf.addPage([PAGE.width, PAGE.height]);
+  let y = PAGE.height - PAGE.margin;
+
+  const text = (value: string, x: number, size = 9, font = regular, color = rgb(0, 0, 0)) =>
+    page.drawText(printable(value, font), { x, y, size, font, color });
+  const rightText = (value: string, right: number, size = 9, font = regular) => {
+    const line = printable(value, font);
+    page.drawText(line, { x: right - font.widthOfTextAtSize(line, size), y, size, font });
+  };
+  const rule = () => {
+    page.drawLine({
+      start: { x: PAGE.margin, y: y + 4 },
+      end: { x: PAGE.width - PAGE.margin, y: y + 4 },
+      thickness: 0.5,
+      color: LINE,
+    });
+  };
+
+  const title = invoice.kind === "quote"
+    ? "QUOTATION"
+    : invoice.seller_gstin ? "TAX INVOICE" : "INVOICE";
+
+  // Header
+  text(invoice.seller_name || "THRYLOS", PAGE.margin, 16, bold);
+  rightText(title, PAGE.width - PAGE.margin, 14, bold);
+  y -= 16;
+  for (const line of wrap(invoice.seller_address || "", regular, 9, 260)) {
+    if (line) text(line, PAGE.margin, 9, regular, GREY);
+    y -= 11;
+  }
+  if (invoice.seller_gstin) {
+    text(`GSTIN: ${invoice.seller_gstin}`, PAGE.margin, 9);
+    y -= 11;
+  }
+  if (invoice.seller_state) {
+    text(`State: ${invoice.seller_state}`, PAGE.margin, 9);
+    y -= 11;
+  }
+
+  // Document details
+  y -= 10;
+  const detailsTop = y;
+  text("Bill To", PAGE.margin, 9, bold);
+  y -= 12;
+  text(invoice.buyer_name, PAGE.margin, 10, bold);
+  y -= 12;
+  for (const line of wrap(invoice.buyer_address || "", regular, 9, 260)) {
+    if (line) text(line, PAGE.margin, 9, regular, GREY);
+    y -= 11;
+  }
+  if (invoice.buyer_gstin) {
+    text(`GSTIN: ${invoice.buyer_gstin}`, PAGE.margin, 9);
+    y -= 11;
+  }
+  text(`Place of supply: ${invoice.place_of_supply}`, PAGE.margin, 9);
+  const buyerBottom = y;
+
+  y = detailsTop;
+  const labelX = 360;
+  const details: [string, string][] = [
+    [invoice.kind === "quote" ? "Quote No." : "Invoice No.", invoice.invoice_number || "DRAFT"],
+    ["Date", formatDate(invoice.issue_date)],
+    [invoice.kind === "quote" ? "Valid until" : "Due date", formatDate(invoice.due_date)],
+    ["Status", invoice.status.toUpperCase()],
+  ];
+  for (const [label, value] of details) {
+    text(label, labelX, 9, regular, GREY);
+    rightText(value, PAGE.width - PAGE.margin, 9, bold);
+    y -= 13;
+  }
+  y = Math.min(y, buyerBottom) - 20;
+
+  // Line items
+  const intra = invoice.supply_type === "intra";
+  const columns = [
+    { label: "#", right: 58 },
+    { label: "Description", x: 64 },
+    { label: "HSN/SAC", x: 230 },
+    { label: "Qty", right: 310 },
+    { label: "Rate", right: 365 },
+    { label: "Disc.", right: 410 },
+    { label: "GST %", right: 448 },
+    { label: intra ? "CGST+SGST" : "IGST", right: 500 },
+    { label: "Amount (INR)", right: PAGE.width - PAGE.margin },
+  ];
+
+  const tableHeader = () => {
+    for (const column of columns) {
+      if ("right" in column && column.right) rightText(column.label, column.right, 8, bold);
+      else text(column.label, column.x!, 8, bold);
+    }
+    y -= 6;
+    rule();
+    y -= 10;
+  };
+  tableHeader();
+
+  items.forEach((item, index) => {
+    const descriptionLines = wrap(item.description, regular, 8, 160);
+    const rowHeight = Math.max(descriptionLines.length, 1) * 10 + 4;
+    if (y - rowHeight < PAGE.margin + 160) {
+      page = pdf.addPage([PAGE.width, PAGE.height]);
+      y = PAGE.height - PAGE.margin;
+      tableHeader();
+    }
+
+    const tax = intra ? Number(item.cgst_amount) + Number(item.sgst_amount) : Number(item.igst_amount);
+    rightText(String(index + 1), 58, 8);
+    text(item.hsn_sac || "-", 230, 8);
+    rightText(String(Number(item.quantity)), 310, 8);
+    rightText(money(item.unit_price), 365, 8);
+    rightText(Number(item.discount) ? money(item.discount) : "-", 410, 8);
+    rightText(`${Number(item.gst_rate)}%`, 448, 8);
+    rightText(money(tax), 500, 8);
+    rightText(money(item.line_total), PAGE.width - PAGE.margin, 8);
+    descriptionLines.forEach((line, i) => {
+      page.drawText(line, { x: 64, y: y - i * 10, size: 8, font: regular });
+    });
+    y -= rowHeight;
+    rule();
+    y -= 8;
+  });
+
+  // Totals
+  y -= 6;
+  const totals: [string, number][] = [["Subtotal", invoice.subtotal]];
+  if (Number(invoice.discount_total)) totals.push(["Discount", -invoice.discount_total]);
+  totals.push(["Taxable value", invoice.taxable_total]);
+  if (intra) {
+    totals.push(["CGST", invoice.cgst_total], ["SGST", invoice.sgst_total]);
+  } else {
+    totals.push(["IGST", invoice.igst_total]);
+  }
+  for (const [label, value] of totals) {
+    text(label, labelX, 9, regular, GREY);
+    rightText(money(value), PAGE.width - PAGE.margin, 9);
+    y -= 13;
+  }
+  y -= 2;
+  rule();
+  y -= 10;
+  text("Total (INR)", labelX, 11, bold);
+  rightText(money(invoice.grand_total), PAGE.width - PAGE.margin, 11, bold);
+  y -= 24;
+
+  if (invoice.notes) {
+    text("Notes", PAGE.margin, 9, bold);
+    y -= 12;
+    for (const line of wrap(invoice.notes, regular, 8, PAGE.width - PAGE.margin * 2)) {
+      text(line, PAGE.margin, 8, regular, GREY);
+      y -= 10;
+    }
+  }
+
+  page.drawText("This is a computer generated document.", {
+    x: PAGE.margin,
+    y: PAGE.margin - 10,
+    size: 7,
+    font: regular,
+    color: GREY,
+  });
+
+  return await pdf.save();
+};
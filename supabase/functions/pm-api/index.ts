@@ -1,12 +1,132 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { recordAuditEvent, type AuditActor } from "../_shared/audit.ts";
+import { pmTwoFactorSatisfied } from "../_shared/twoFactor.ts";
+import { hashToken } from "../_shared/tokens.ts";
+import { describeDatabaseError, isDatabaseError } from "../_shared/dbErrors.ts";
 
 const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
 const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-pm-email",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-pm-session",
+};
+
+// Each refresh extends a session by SESSION_TTL_MS, up to SESSION_MAX_AGE_MS after login
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+const SESSION_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+const MESSAGE_MAX_LENGTH = 5000;
+
+const errorResponse = (status: number, error: string) =>
+  new Response(JSON.stringify({ error }), {
+    status,
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+  });
+
+// Thread attachments live in the request's folder of the private request-files bucket
+const attachmentFolder = (requestId: string) => `${requestId}/messages/`;
+const isAttachmentPath = (path: unknown, requestId: string): path is string =>
+  typeof path === "string" && path.startsWith(attachmentFolder(requestId)) && !path.includes("..");
+
+// Keep only well-formed attachment entries uploaded to this request's thread
+const sanitizeAttachments = (value: unknown, requestId: string) => {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((a) => a && typeof a.name === "string" && isAttachmentPath(a.path, requestId))
+    .slice(0, 10)
+    .map((a) => ({
+      name: a.name.slice(0, 200),
+      path: a.path,
+      type: typeof a.type === "string" ? a.type : null,
+      size: typeof a.size === "number" ? a.size : null,
+    }));
+};
+
+// How long a signed download link for a request file stays valid
+const FILE_URL_TTL_SECONDS = 5 * 60;
+
+// Statuses a PM may set; approval and change requests come from the client's review
+const PM_MILESTONE_STATUSES = ["planned", "in_progress", "delivered"];
+
+// Validates the editable fields of a milestone, returning an error message for the PM or the fields to store
+const milestoneFields = (data: Record<string, unknown> | undefined) => {
+  const title = typeof data?.title === "string" ? data.title.trim() : "";
+  if (!title || title.length > 200) return { error: "Title must be between 1 and 200 characters" };
+
+  const description = typeof data?.description === "string" ? data.description.trim() : "";
+  if (description.length > 2000) return { error: "Description must be at most 2000 characters" };
+
+  const dueDate = data?.due_date ? String(data.due_date) : null;
+  if (dueDate && !/^\d{4}-\d{2}-\d{2}$/.test(dueDate)) return { error: "Invalid due date" };
+
+  const status = String(data?.status ?? "planned");
+  const fileIds = Array.isArray(data?.file_ids) ? data.file_ids.filter((f): f is string => typeof f === "string") : [];
+
+  return { fields: { title, description: description || null, due_date: dueDate, status }, fileIds };
+};
+
+const TASK_STATUSES = ["todo", "doing", "review", "done"];
+
+// Validates the editable fields of a board card, returning an error message for the PM or the fields to store
+const taskFields = (data: Record<string, unknown> | undefined) => {
+  const title = typeof data?.title === "string" ? data.title.trim() : "";
+  if (!title || title.length > 200) return { error: "Title must be between 1 and 200 characters" };
+
+  const description = typeof data?.description === "string" ? data.description.trim() : "";
+  if (description.length > 4000) return { error: "Description must be at most 4000 characters" };
+
+  const status = String(data?.status ?? "todo");
+  if (!TASK_STATUSES.includes(status)) return { error: "Invalid status" };
+
+  const dueDate = data?.due_date ? String(data.due_date) : null;
+  if (dueDate && !/^\d{4}-\d{2}-\d{2}$/.test(dueDate)) return { error: "Invalid due date" };
+
+  const assignees = Array.isArray(data?.assignees)
+    ? [...new Set(data.assignees.filter((a): a is string => typeof a === "string").map((a) => a.trim().slice(0, 100)).filter(Boolean))]
+    : [];
+  if (assignees.length > 10) return { error: "A task can have at most 10 assignees" };
+
+  const checklist = Array.isArray(data?.checklist)
+    ? data.checklist
+      .filter((item) => item && typeof item.text === "string" && item.text.trim())
+      .map((item) => ({
+        id: typeof item.id === "string" ? item.id.slice(0, 64) : crypto.randomUUID(),
+        text: item.text.trim().slice(0, 500),
+        done: item.done === true,
+      }))
+    : [];
+  if (checklist.length > 50) return { error: "A checklist can have at most 50 items" };
+
+  return { fields: { title, description: description || null, status, due_date: dueDate, assignees, checklist } };
+};
+
+// Longest single time entry; a timer left running overnight is cut off here
+const MAX_ENTRY_MINUTES = 24 * 60;
+
+// Validates a manual time entry, returning an error message for the PM or the fields to store
+const timeEntryFields = (data: Record<string, unknown> | undefined) => {
+  const startedAt = new Date(String(data?.started_at ?? ""));
+  if (Number.isNaN(startedAt.getTime())) return { error: "Invalid start time" };
+  if (startedAt.getTime() > Date.now()) return { error: "Time can't be logged in the future" };
+
+  const minutes = Number(data?.minutes);
+  if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_ENTRY_MINUTES) {
+    return { error: "Duration must be between 1 minute and 24 hours" };
+  }
+
+  const description = typeof data?.description === "string" ? data.description.trim() : "";
+  if (description.length > 1000) return { error: "Description must be at most 1000 characters" };
+
+  return {
+    fields: {
+      started_at: startedAt.toISOString(),
+      ended_at: new Date(startedAt.getTime() + minutes * 60 * 1000).toISOString(),
+      description: description || null,
+      task_id: typeof data?.task_id === "string" ? data.task_id : null,
+    },
+  };
 };
 
 serve(async (req) => {
@@ -15,8 +135,8 @@ serve(async (req) => {
   }
 
   try {
-    const pmEmail = req.headers.get("x-pm-email");
-    if (!pmEmail) {
+    const sessionToken = req.headers.get("x-pm-session");
+    if (!sessionToken) {
       return new Response(JSON.stringify({ error: "Unauthorized" }), {
         status: 401,
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -25,11 +145,35 @@ serve(async (req) => {
 
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-    // Verify PM exists
+    // Verify the session is live and resolve its PM
+    const tokenHash = await hashToken(sessionToken);
+    const { data: session, error: sessionError } = await supabase
+      .from("pm_sessions")
+      .select("id, pm_id, created_at, two_factor_verified_at")
+      .eq("token_hash", tokenHash)
+      .is("revoked_at", null)
+      .gt("expires_at", new Date().toISOString())
+      .maybeSingle();
+
+    if (sessionError || !session) {
+      return new Response(JSON.stringify({ error: "Session expired" }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
+    // A session that still owes its second factor can't be used; the portal treats this like an expired session
+    if (!(await pmTwoFactorSatisfied(supabase, { pmId: session.pm_id, verifiedAt: session.two_factor_verified_at }))) {
+      return new Response(JSON.stringify({ error: "Two-factor verification required", twoFactorRequired: true }), {
+        status: 401,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
     const { data: pm, error: pmError } = await supabase
       .from("project_managers")
       .select("id, name, email")
-      .eq("email", pmEmail)
+      .eq("id", session.pm_id)
       .maybeSingle();
 
     if (pmError || !pm) {
@@ -39,9 +183,60 @@ serve(async (req) => {
       });
     }
 
-    const { action, data, id } = await req.json();
+    await supabase
+      .from("pm_sessions")
+      .update({ last_used_at: new Date().toISOString() })
+      .eq("id", session.id);
+
+    const actor: AuditActor = { type: "pm", id: pm.id, label: pm.email };
+
+    const notAuthorized = () =>
+      new Response(JSON.stringify({ error: "Not authorized" }), {
+        status: 403,
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+
+    // Verify a project is assigned to this PM
+    const isAssigned = async (requestId: string) => {
+      const { data: project } = await supabase
+        .from("service_requests")
+        .select("assigned_pm_id")
+        .eq("id", requestId)
+        .maybeSingle();
+      return !!project && project.assigned_pm_id === pm.id;
+    };
+    const { action, data, id } = (await req.json()) ?? {};
 
     switch (action) {
+      case "refresh_session": {
+        // Rotate the token so a leaked one stops working after the next refresh
+        const maxExpiry = new Date(session.created_at).getTime() + SESSION_MAX_AGE_MS;
+        const expiresAt = new Date(Math.min(Date.now() + SESSION_TTL_MS, maxExpiry));
+        const newToken = `${crypto.randomUUID()}${crypto.randomUUID()}`.replace(/-/g, "");
+
+        const { error } = await supabase
+          .from("pm_sessions")
+          .update({ token_hash: await hashToken(newToken), expires_at: expiresAt.toISOString() })
+          .eq("id", session.id);
+
+        if (error) throw error;
+        return new Response(JSON.stringify({ sessionToken: newToken, expiresAt: expiresAt.toISOString() }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      case "logout": {
+        const { error } = await supabase
+          .from("pm_sessions")
+          .update({ revoked_at: new Date().toISOString() })
+          .eq("id", session.id);
+
+        if (error) throw error;
+        return new Response(JSON.stringify({ success: true }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
       case "get_projects": {
         const { data: projects, error } = await supabase
           .from("service_requests")
@@ -52,7 +247,8 @@ serve(async (req) => {
         if (error) throw error;
 
         // Fetch profiles for user info
-        const userIds = [...new Set(projects?.map(p => p.user_id) || [])];
+        // Requests kept after their client deleted the account have no user
+        const userIds = [...new Set(projects?.map(p => p.user_id).filter(Boolean) || [])];
         let profiles: Record<string, { full_name: string | null; email: string | null }> = {};
         if (userIds.length > 0) {
           const { data: profileData } = await supabase
@@ -70,24 +266,122 @@ serve(async (req) => {
       }
 
       case "update_status": {
-        // Verify this project is assigned to this PM
-        const { data: project } = await supabase
-          .from("service_requests")
-          .select("assigned_pm_id")
-          .eq("id", id)
+        if (!(await isAssigned(id))) return notAuthorized();
+
+        // The database checks the transition is allowed for a PM
+        const { data: entry, error } = await supabase.rpc("transition_request_status", {
+          _request_id: id,
+          _to_status: data?.status,
+          _actor_type: "pm",
+          _actor_id: pm.id,
+          _actor_label: pm.email,
+          _reason: data?.reason ?? null,
+        });
+
+        // Unknown statuses (22P02) and refused transitions (P0001) reach the catch-all below
+        if (error) throw error;
+        await recordAuditEvent(supabase, actor, {
+          action: "update_status", table: "service_requests", recordId: id,
+          before: { status: entry.from_status }, after: { status: entry.to_status, reason: entry.reason },
+        });
+        return new Response(JSON.stringify({ success: true }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      case "get_messages": {
+        if (!(await isAssigned(id))) return notAuthorized();
+
+        const { data: messages, error } = await supabase
+          .from("request_messages")
+          .select("*")
+          .eq("service_request_id", id)
+          .order("created_at", { ascending: true });
+
+        if (error) throw error;
+        return new Response(JSON.stringify({ messages }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      case "send_message": {
+        if (!(await isAssigned(id))) return notAuthorized();
+
+        const body = typeof data?.body === "string" ? data.body.trim() : "";
+        if (!body || body.length > MESSAGE_MAX_LENGTH) {
+          return new Response(JSON.stringify({ error: "Message must be between 1 and 5000 characters" }), {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
+        const { data: message, error } = await supabase
+          .from("request_messages")
+          .insert({
+            service_request_id: id,
+            author_type: "pm",
+            author_id: pm.id,
+            author_name: pm.name,
+            visibility: data.visibility === "internal" ? "internal" : "client_visible",
+            body,
+            attachments: sanitizeAttachments(data.attachments, id),
+            read_by_pm_at: new Date().toISOString(),
+          })
+          .select()
           .single();
 
-        if (!project || project.assigned_pm_id !== pm.id) {
-          return new Response(JSON.stringify({ error: "Not authorized" }), {
-            status: 403,
+        if (error) throw error;
+        await recordAuditEvent(supabase, actor, {
+          action: "insert", table: "request_messages", recordId: message.id, after: message,
+        });
+        return new Response(JSON.stringify({ message }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      case "edit_message": {
+        // PMs can only edit their own messages
+        const { data: existing } = await supabase
+          .from("request_messages")
+          .select("*")
+          .eq("id", id)
+          .maybeSingle();
+
+        if (!existing || existing.author_type !== "pm" || existing.author_id !== pm.id) return notAuthorized();
+
+        const body = typeof data?.body === "string" ? data.body.trim() : "";
+        if (!body || body.length > MESSAGE_MAX_LENGTH) {
+          return new Response(JSON.stringify({ error: "Message must be between 1 and 5000 characters" }), {
+            status: 400,
             headers: { ...corsHeaders, "Content-Type": "application/json" },
           });
         }
 
+        const { data: message, error } = await supabase
+          .from("request_messages")
+          .update({ body, edited_at: new Date().toISOString() })
+          .eq("id", id)
+          .select()
+          .single();
+
+        if (error) throw error;
+        await recordAuditEvent(supabase, actor, {
+          action: "update", table: "request_messages", recordId: id, before: existing, after: message,
+        });
+        return new Response(JSON.stringify({ message }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      case "mark_messages_read": {
+        if (!(await isAssigned(id))) return notAuthorized();
+
         const { error } = await supabase
-          .from("service_requests")
-          .update({ status: data.status })
-          .eq("id", id);
+          .from("request_messages")
+          .update({ read_by_pm_at: new Date().toISOString() })
+          .eq("service_request_id", id)
+          .neq("author_type", "pm")
+          .is("read_by_pm_at", null);
 
         if (error) throw error;
         return new Response(JSON.stringify({ success: true }), {
@@ -95,46 +389,514 @@ serve(async (req) => {
         });
       }
 
-      case "add_note": {
-        const { data: project } = await supabase
-          .from("service_requests")
-          .select("assigned_pm_id, notes")
+      case "create_attachment_upload": {
+        // PMs have no storage session of their own, so hand out a one-off signed upload URL
+        if (!(await isAssigned(id))) return notAuthorized();
+
+        const fileName = String(data?.fileName ?? "file").replace(/[^\w.-]/g, "_").slice(-100);
+        const path = `${attachmentFolder(id)}${crypto.randomUUID()}-${fileName}`;
+        const { data: upload, error } = await supabase.storage.from("request-files").createSignedUploadUrl(path);
+
+        if (error) throw error;
+        return new Response(JSON.stringify({ path: upload.path, token: upload.token }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      case "get_attachment_urls": {
+        // PMs see internal notes too, so any attachment in the thread's folder may be signed
+        if (!(await isAssigned(id))) return notAuthorized();
+
+        const paths = Array.isArray(data?.paths) ? data.paths.filter((p: unknown) => isAttachmentPath(p, id)).slice(0, 200) : [];
+        if (paths.length === 0) {
+          return new Response(JSON.stringify({ urls: {} }), {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
+        const { data: signed, error } = await supabase.storage.from("request-files").createSignedUrls(paths, FILE_URL_TTL_SECONDS);
+
+        if (error) throw error;
+        const urls = Object.fromEntries(signed.filter((s) => !s.error && s.path).map((s) => [s.path, s.signedUrl]));
+        return new Response(JSON.stringify({ urls }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      case "get_files": {
+        if (!(await isAssigned(id))) return notAuthorized();
+
+        const { data: files, error } = await supabase
+          .from("request_files")
+          .select("*")
+          .eq("service_request_id", id)
+          .order("created_at", { ascending: false });
+
+        if (error) throw error;
+        return new Response(JSON.stringify({ files }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      case "get_file_url": {
+        const { data: file } = await supabase.from("request_files").select("service_request_id, path, name").eq("id", id).maybeSingle();
+        if (!file || !(await isAssigned(file.service_request_id))) return notAuthorized();
+
+        const { data: signed, error } = await supabase.storage
+          .from("request-files")
+          .createSignedUrl(file.path, FILE_URL_TTL_SECONDS, { download: data?.download ? file.name : false });
+
+        if (error) throw error;
+        return new Response(JSON.stringify({ url: signed.signedUrl }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      case "create_file_upload": {
+        if (!(await isAssigned(id))) return notAuthorized();
+
+        const fileName = String(data?.fileName ?? "file").replace(/[^\w.-]/g, "_").slice(-100);
+        const path = `${id}/${crypto.randomUUID()}-${fileName}`;
+        const { data: upload, error } = await supabase.storage.from("request-files").createSignedUploadUrl(path);
+
+        if (error) throw error;
+        return new Response(JSON.stringify({ path: upload.path, token: upload.token }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      case "add_file": {
+        // Registers a file uploaded through create_file_upload; size and type come from storage, not the caller
+        if (!(await isAssigned(id))) return notAuthorized();
+
+        const path = String(data?.path ?? "");
+        const folder = `${id}/`;
+        const objectName = path.slice(folder.length);
+        if (!path.startsWith(folder) || !objectName || objectName.includes("/")) return notAuthorized();
+
+        const { data: objects, error: listError } = await supabase.storage.from("request-files").list(id, { search: objectName });
+        if (listError) throw listError;
+        const object = objects?.find((o) => o.name === objectName);
+        if (!object) {
+          return new Response(JSON.stringify({ error: "Upload not found" }), {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
+        const { data: file, error } = await supabase
+          .from("request_files")
+          .insert({
+            service_request_id: id,
+            path,
+            name: String(data?.name || objectName).slice(0, 200),
+            content_type: object.metadata?.mimetype ?? null,
+            size_bytes: object.metadata?.size ?? null,
+            uploaded_by_type: "pm",
+            uploaded_by_id: pm.id,
+            uploaded_by_name: pm.name,
+          })
+          .select()
+          .single();
+
+        if (error) throw error;
+        await recordAuditEvent(supabase, actor, {
+          action: "insert", table: "request_files", recordId: file.id, after: file,
+        });
+        return new Response(JSON.stringify({ file }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      case "delete_file": {
+        // PMs can only remove what they uploaded
+        const { data: existing } = await supabase.from("request_files").select("*").eq("id", id).maybeSingle();
+        if (!existing || existing.uploaded_by_type !== "pm" || existing.uploaded_by_id !== pm.id) return notAuthorized();
+        if (!(await isAssigned(existing.service_request_id))) return notAuthorized();
+
+        const { error } = await supabase.from("request_files").delete().eq("id", id);
+        if (error) throw error;
+        const { error: storageError } = await supabase.storage.from("request-files").remove([existing.path]);
+        if (storageError) console.error("Failed to remove request file:", storageError, existing.path);
+
+        await recordAuditEvent(supabase, actor, {
+          action: "delete", table: "request_files", recordId: id, before: existing,
+        });
+        return new Response(JSON.stringify({ success: true }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      case "get_milestones": {
+        if (!(await isAssigned(id))) return notAuthorized();
+
+        const { data: milestones, error } = await supabase
+          .from("project_milestones")
+          .select("*, milestone_reviews(*), request_files(*)")
+          .eq("service_request_id", id);
+
+        if (error) throw error;
+        return new Response(JSON.stringify({ milestones }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      case "create_milestone":
+      case "update_milestone": {
+        // id is the request for a new milestone and the milestone for an update
+        const existing = action === "update_milestone"
+          ? (await supabase.from("project_milestones").select("*").eq("id", id).maybeSingle()).data
+          : null;
+        const requestId = existing ? existing.service_request_id : id;
+        if ((action === "update_milestone" && !existing) || !(await isAssigned(requestId))) return notAuthorized();
+
+        const parsed = milestoneFields(data);
+        if ("error" in parsed) {
+          return new Response(JSON.stringify({ error: parsed.error }), {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        // A milestone sent back for changes may be saved as it is; anything else has to be a PM status
+        if (!PM_MILESTONE_STATUSES.includes(parsed.fields.status) && parsed.fields.status !== existing?.status) {
+          return new Response(JSON.stringify({ error: "Only the client can approve a milestone or request changes" }), {
+            status: 422,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        if (existing?.status === "approved") {
+          return new Response(JSON.stringify({ error: "An approved milestone can no longer be changed" }), {
+            status: 422,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
+        const { data: milestone, error } = existing
+          ? await supabase.from("project_milestones").update(parsed.fields).eq("id", id).select().single()
+          : await supabase
+            .from("project_milestones")
+            .insert({ ...parsed.fields, service_request_id: requestId, created_by_pm_id: pm.id })
+            .select()
+            .single();
+        if (error) throw error;
+
+        // Deliverables: relink the chosen files of this request
+        const { error: unlinkError } = await supabase
+          .from("request_files")
+          .update({ milestone_id: null })
+          .eq("milestone_id", milestone.id);
+        if (unlinkError) throw unlinkError;
+        if (parsed.fileIds.length) {
+          const { error: linkError } = await supabase
+            .from("request_files")
+            .update({ milestone_id: milestone.id })
+            .eq("service_request_id", requestId)
+            .in("id", parsed.fileIds);
+          if (linkError) throw linkError;
+        }
+
+        await recordAuditEvent(supabase, actor, {
+          action: existing ? "update" : "insert", table: "project_milestones", recordId: milestone.id,
+          before: existing ?? undefined, after: { ...milestone, file_ids: parsed.fileIds },
+        });
+        return new Response(JSON.stringify({ milestone }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      case "delete_milestone": {
+        const { data: existing } = await supabase.from("project_milestones").select("*").eq("id", id).maybeSingle();
+        if (!existing || !(await isAssigned(existing.service_request_id))) return notAuthorized();
+        // The client's sign-off stays on record
+        if (existing.status === "approved") {
+          return new Response(JSON.stringify({ error: "An approved milestone can't be deleted" }), {
+            status: 422,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
+        const { error } = await supabase.from("project_milestones").delete().eq("id", id);
+        if (error) throw error;
+
+        await recordAuditEvent(supabase, actor, {
+          action: "delete", table: "project_milestones", recordId: id, before: existing,
+        });
+        return new Response(JSON.stringify({ success: true }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      case "get_tasks": {
+        if (!(await isAssigned(id))) return notAuthorized();
+
+        const { data: tasks, error } = await supabase
+          .from("project_tasks")
+          .select("*")
+          .eq("service_request_id", id)
+          .order("position", { ascending: true });
+
+        if (error) throw error;
+        return new Response(JSON.stringify({ tasks }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      case "create_task":
+      case "update_task": {
+        // id is the request for a new task and the task for an update
+        const existing = action === "update_task"
+          ? (await supabase.from("project_tasks").select("*").eq("id", id).maybeSingle()).data
+          : null;
+        const requestId = existing ? existing.service_request_id : id;
+        if ((action === "update_task" && !existing) || !(await isAssigned(requestId))) return notAuthorized();
+
+        const parsed = taskFields(data);
+        if ("error" in parsed) {
+          return new Response(JSON.stringify({ error: parsed.error }), {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
+        let position = existing?.position;
+        if (!existing || existing.status !== parsed.fields.status) {
+          // New cards and cards moved from the edit dialog go to the bottom of their column
+          const { data: last } = await supabase
+            .from("project_tasks")
+            .select("position")
+            .eq("service_request_id", requestId)
+            .eq("status", parsed.fields.status)
+            .order("position", { ascending: false })
+            .limit(1)
+            .maybeSingle();
+          position = last ? last.position + 1 : 0;
+        }
+
+        const { data: task, error } = existing
+          ? await supabase.from("project_tasks").update({ ...parsed.fields, position }).eq("id", id).select().single()
+          : await supabase
+            .from("project_tasks")
+            .insert({ ...parsed.fields, position, service_request_id: requestId, created_by_pm_id: pm.id })
+            .select()
+            .single();
+
+        if (error) throw error;
+        await recordAuditEvent(supabase, actor, {
+          action: existing ? "update" : "insert", table: "project_tasks", recordId: task.id,
+          before: existing ?? undefined, after: task,
+        });
+        return new Response(JSON.stringify({ task }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      case "move_task": {
+        // Drag and drop: the board works out the new column and position
+        const { data: existing } = await supabase.from("project_tasks").select("*").eq("id", id).maybeSingle();
+        if (!existing || !(await isAssigned(existing.service_request_id))) return notAuthorized();
+
+        const status = String(data?.status ?? "");
+        const position = Number(data?.position);
+        if (!TASK_STATUSES.includes(status) || !Number.isFinite(position)) {
+          return new Response(JSON.stringify({ error: "Invalid move" }), {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
+        const { data: task, error } = await supabase
+          .from("project_tasks")
+          .update({ status, position })
           .eq("id", id)
+          .select()
           .single();
 
-        if (!project || project.assigned_pm_id !== pm.id) {
-          return new Response(JSON.stringify({ error: "Not authorized" }), {
-            status: 403,
+        if (error) throw error;
+        // Reordering within a column isn't worth an audit entry; changing columns is
+        if (status !== existing.status) {
+          await recordAuditEvent(supabase, actor, {
+            action: "update", table: "project_tasks", recordId: id,
+            before: { status: existing.status }, after: { status },
+          });
+        }
+        return new Response(JSON.stringify({ task }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      case "delete_task": {
+        const { data: existing } = await supabase.from("project_tasks").select("*").eq("id", id).maybeSingle();
+        if (!existing || !(await isAssigned(existing.service_request_id))) return notAuthorized();
+
+        const { error } = await supabase.from("project_tasks").delete().eq("id", id);
+        if (error) throw error;
+
+        await recordAuditEvent(supabase, actor, {
+          action: "delete", table: "project_tasks", recordId: id, before: existing,
+        });
+        return new Response(JSON.stringify({ success: true }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      case "get_time_entries": {
+        if (!(await isAssigned(id))) return notAuthorized();
+
+        const [{ data: entries, error }, { data: running, error: runningError }] = await Promise.all([
+          supabase
+            .from("time_entries")
+            .select("*, project_managers(name)")
+            .eq("service_request_id", id)
+            .order("started_at", { ascending: false }),
+          // The PM's timer may be running on another project
+          supabase.from("time_entries").select("*").eq("pm_id", pm.id).is("ended_at", null).maybeSingle(),
+        ]);
+
+        if (error) throw error;
+        if (runningError) throw runningError;
+        return new Response(JSON.stringify({ entries, running }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      case "start_timer":
+      case "stop_timer": {
+        if (action === "start_timer" && !(await isAssigned(id))) return notAuthorized();
+
+        // Starting a timer stops the one already running
+        const { data: running } = await supabase
+          .from("time_entries")
+          .select("*")
+          .eq("pm_id", pm.id)
+          .is("ended_at", null)
+          .maybeSingle();
+        if (running) {
+          const endedAt = Math.min(Date.now(), new Date(running.started_at).getTime() + MAX_ENTRY_MINUTES * 60 * 1000);
+          // Under a minute isn't worth billing; drop it rather than log an empty entry
+          if (endedAt - new Date(running.started_at).getTime() < 60 * 1000) {
+            const { error } = await supabase.from("time_entries").delete().eq("id", running.id);
+            if (error) throw error;
+            await recordAuditEvent(supabase, actor, {
+              action: "delete", table: "time_entries", recordId: running.id, before: running,
+            });
+          } else {
+            const { data: stopped, error } = await supabase
+              .from("time_entries")
+              .update({ ended_at: new Date(endedAt).toISOString() })
+              .eq("id", running.id)
+              .select()
+              .single();
+            if (error) throw error;
+            await recordAuditEvent(supabase, actor, {
+              action: "update", table: "time_entries", recordId: running.id, before: running, after: stopped,
+            });
+          }
+        }
+
+        let entry = null;
+        if (action === "start_timer") {
+          const taskId = typeof data?.task_id === "string" ? data.task_id : null;
+          if (taskId) {
+            const { data: task } = await supabase.from("project_tasks").select("service_request_id").eq("id", taskId).maybeSingle();
+            if (task?.service_request_id !== id) return notAuthorized();
+          }
+          const description = typeof data?.description === "string" ? data.description.trim().slice(0, 1000) : "";
+
+          const { data: started, error } = await supabase
+            .from("time_entries")
+            .insert({ service_request_id: id, task_id: taskId, pm_id: pm.id, source: "timer", description: description || null })
+            .select()
+            .single();
+          if (error) throw error;
+          await recordAuditEvent(supabase, actor, {
+            action: "insert", table: "time_entries", recordId: started.id, after: started,
+          });
+          entry = started;
+        }
+
+        return new Response(JSON.stringify({ entry }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      case "add_time_entry":
+      case "update_time_entry": {
+        // id is the request for a new entry and the entry for an update
+        const existing = action === "update_time_entry"
+          ? (await supabase.from("time_entries").select("*").eq("id", id).maybeSingle()).data
+          : null;
+        const requestId = existing ? existing.service_request_id : id;
+        if (action === "update_time_entry" && (!existing || existing.pm_id !== pm.id)) return notAuthorized();
+        if (!(await isAssigned(requestId))) return notAuthorized();
+        // Billed time is on a payment request the client may already have paid
+        if (existing?.payment_request_id || (existing && !existing.ended_at)) {
+          return new Response(JSON.stringify({ error: existing.ended_at ? "Billed time can't be changed" : "Stop the timer first" }), {
+            status: 422,
             headers: { ...corsHeaders, "Content-Type": "application/json" },
           });
         }
 
-        const existingNotes = project.notes || "";
-        const timestamp = new Date().toLocaleString();
-        const updatedNotes = existingNotes
-          ? `${existingNotes}\n\n[${timestamp}] ${data.note}`
-          : `[${timestamp}] ${data.note}`;
+        const parsed = timeEntryFields(data);
+        if ("error" in parsed) {
+          return new Response(JSON.stringify({ error: parsed.error }), {
+            status: 400,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+        if (parsed.fields.task_id) {
+          const { data: task } = await supabase.from("project_tasks").select("service_request_id").eq("id", parsed.fields.task_id).maybeSingle();
+          if (task?.service_request_id !== requestId) return notAuthorized();
+        }
 
-        const { error } = await supabase
-          .from("service_requests")
-          .update({ notes: updatedNotes })
-          .eq("id", id);
+        const { data: entry, error } = existing
+          ? await supabase.from("time_entries").update(parsed.fields).eq("id", id).select().single()
+          : await supabase
+            .from("time_entries")
+            .insert({ ...parsed.fields, service_request_id: requestId, pm_id: pm.id, source: "manual" })
+            .select()
+            .single();
+
+        if (error) throw error;
+        await recordAuditEvent(supabase, actor, {
+          action: existing ? "update" : "insert", table: "time_entries", recordId: entry.id,
+          before: existing ?? undefined, after: entry,
+        });
+        return new Response(JSON.stringify({ entry }), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
 
+      case "delete_time_entry": {
+        // PMs can only remove their own unbilled time
+        const { data: existing } = await supabase.from("time_entries").select("*").eq("id", id).maybeSingle();
+        if (!existing || existing.pm_id !== pm.id || !(await isAssigned(existing.service_request_id))) return notAuthorized();
+        if (existing.payment_request_id) {
+          return new Response(JSON.stringify({ error: "Billed time can't be changed" }), {
+            status: 422,
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+          });
+        }
+
+        const { error } = await supabase.from("time_entries").delete().eq("id", id);
         if (error) throw error;
+
+        await recordAuditEvent(supabase, actor, {
+          action: "delete", table: "time_entries", recordId: id, before: existing,
+        });
         return new Response(JSON.stringify({ success: true }), {
           headers: { ...corsHeaders, "Content-Type": "application/json" },
         });
       }
 
       default:
-        throw new Error(`Unknown action: ${action}`);
+        return errorResponse(400, `Unknown action: ${String(action).slice(0, 50)}`);
     }
   } catch (error: unknown) {
     console.error("PM API error:", error);
-    const message = error instanceof Error ? error.message : "Unknown error";
-    return new Response(JSON.stringify({ error: message }), {
-      status: 500,
-      headers: { ...corsHeaders, "Content-Type": "application/json" },
-    });
+    // req.json() rejects a malformed body
+    if (error instanceof SyntaxError) return errorResponse(400, "Invalid JSON body");
+    // Same mapping as admin-api; the raw error is only logged
+    if (isDatabaseError(error)) return errorResponse(...describeDatabaseError(error));
+    return errorResponse(500, "Request failed");
   }
 });
@@ -1,7 +1,8 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { clientIp, issueOtp, registerOtpSend, tooManyRequests } from "../_shared/otp.ts";
+import { sendEmail } from "../_shared/mail.ts";
 
-const BREVO_API_KEY = Deno.env.get("BREVO_API_KEY");
 const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
 const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
 
@@ -33,137 +34,26 @@ serve(async (req) => {
       .eq("email", email)
       .maybeSingle();
 
-    if (pmError || !pm) {
+    if (pmError) throw pmError;
+
+    // Unknown emails get the same answer as real ones, so the form can't be used to discover PM accounts
+    if (!pm) {
+      const retryAfter = await registerOtpSend(supabase, { email, ip: clientIp(req) });
+      if (retryAfter > 0) return tooManyRequests(retryAfter, corsHeaders);
       return new Response(
-        JSON.stringify({ error: "No project manager found with this email" }),
-        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        JSON.stringify({ success: true, message: "Check your email to continue" }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    const otp = Math.floor(100000 + Math.random() * 900000).toString();
-    const expiresAt = new Date(Date.now() + 10 * 60 * 1000);
-
-    await supabase.from("otp_verifications").delete().eq("email", email);
-
-    const { error: insertError } = await supabase.from("otp_verifications").insert({
-      email,
-      otp_code: otp,
-      expires_at: expiresAt.toISOString(),
-      verified: false,
-    });
-
-    if (insertError) {
-      console.error("Failed to store OTP:", insertError);
-      throw new Error("Failed to generate OTP");
-    }
-
-    const username = pm.name || "Project Manager";
-
-    const emailHtml = `<!DOCTYPE html>
-<html>
-<head>
-<meta charset="UTF-8">
-<meta name="viewport" content="width=device-width, initial-scale=1">
-<title>THRYLOS OTP</title>
-</head>
-<body style="margin:0; padding:0; background:#ffffff; font-family:Arial, Helvetica, sans-serif;">
-<table width="100%" cellpadding="0" cellspacing="0" bgcolor="#ffffff">
-<tr>
-<td align="center" style="padding:30px 10px;">
-<table width="600" cellpadding="0" cellspacing="0" style="max-width:600px;width:100%;border:1px solid #d1d5db;border-radius:12px;overflow:hidden;">
-<tr>
-<td align="center" bgcolor="#f3f4f6" style="padding:18px;">
-<img src="https://github.com/user-attachments/assets/160c433a-e006-42ee-8923-f6360223e116" alt="THRYLOS Logo" width="120" style="display:block;">
-</td>
-</tr>
-<tr>
-<td align="center" style="padding:20px 20px 10px 20px;">
-<h1 style="font-size:32px; margin:0; font-weight:800;">Welcome back ${username}!</h1>
-</td>
-</tr>
-<tr>
-<td align="center">
-<table width="90%" cellpadding="0" cellspacing="0" style="background:#f5f5f5;border-radius:16px;padding:20px;">
-<tr>
-<td style="padding:20px;">
-<table width="100%" cellpadding="0" cellspacing="0">
-<tr><td style="font-size:16px;color:#555;padding-bottom:8px;">Logging in to</td></tr>
-<tr><td>
-<table width="100%"><tr>
-<td style="font-size:16px;font-weight:bold;">THRYLOS PM Portal</td>
-<td align="right"><img src="https://github.com/user-attachments/assets/eea77779-ee10-4d58-bf62-e374dff4a6ab" width="44" style="display:block;border-radius:6px;"></td>
-</tr></table>
-</td></tr>
-<tr><td style="border-top:1px solid #ddd;padding-top:12px;padding-bottom:8px;"></td></tr>
-<tr><td style="font-size:16px;color:#555;padding-bottom:8px;">From</td></tr>
-<tr><td>
-<table width="100%"><tr>
-<td style="font-size:16px;font-weight:bold;">India</td>
-<td align="right"><img src="https://github.com/user-attachments/assets/3738239c-dc89-4d91-b96d-c845c2adcf64" width="35" style="display:block;border-radius:6px;"></td>
-</tr></table>
-</td></tr>
-</table>
-</td>
-</tr>
-</table>
-</td>
-</tr>
-<tr>
-<td align="center" style="padding:30px 40px 10px 40px;font-size:16px;color:#444;">
-If you requested to log in to your THRYLOS ID, use the code below.
-</td>
-</tr>
-<tr>
-<td align="center" style="padding:10px 0 20px 0;">
-<div style="background:#4f7cff;color:#fff;font-size:32px;font-weight:bold;padding:18px 36px;border-radius:14px;display:inline-block;letter-spacing:4px;">
-${otp}
-</div>
-</td>
-</tr>
-<tr>
-<td align="center" style="padding:0 40px 40px 40px;font-size:14px;color:#666;">
-If you didn't request to log in to your THRYLOS ID, you can safely ignore this email.
-</td>
-</tr>
-<tr>
-<td bgcolor="#000000" style="padding:20px;">
-<table width="100%"><tr>
-<td style="color:#ffffff;font-size:14px;">&copy; 2026 THRYLOS. All rights reserved.</td>
-<td align="right"><img src="https://github.com/user-attachments/assets/160c433a-e006-42ee-8923-f6360223e116" width="90"></td>
-</tr></table>
-</td>
-</tr>
-</table>
-</td>
-</tr>
-</table>
-</body>
-</html>`;
-
-    const emailResponse = await fetch("https://api.brevo.com/v3/smtp/email", {
-      method: "POST",
-      headers: {
-        "api-key": BREVO_API_KEY!,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        sender: { name: "THRYLOS", email: "noreply@thrylosindia.in" },
-        to: [{ email }],
-        subject: "Your THRYLOS PM Login Code",
-        htmlContent: emailHtml,
-      }),
-    });
-
-    if (!emailResponse.ok) {
-      const errorData = await emailResponse.json();
-      console.error("Brevo API error:", errorData);
-      throw new Error("Failed to send email");
-    }
+    const issued = await issueOtp(supabase, { email, purpose: "pm_login", ip: clientIp(req) });
+    if ("retryAfter" in issued) return tooManyRequests(issued.retryAfter, corsHeaders);
+    const { otp } = issued;
 
-    console.log("PM OTP email sent via Brevo to:", email);
+    await sendEmail(email, "pm_login_code", { name: pm.name || "Project Manager", code: otp });
 
     return new Response(
-      JSON.stringify({ success: true, message: "OTP sent successfully", pmName: pm.name }),
+      JSON.stringify({ success: true, message: "Check your email to continue" }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
   } catch (error: unknown) {
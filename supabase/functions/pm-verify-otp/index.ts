@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { otpFailure, verifyOtp } from "../_shared/otp.ts";
+import { recordLoginEvent } from "../_shared/loginEvents.ts";
+import { hashToken } from "../_shared/tokens.ts";
 
 const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
 const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
@@ -9,6 +12,9 @@ const corsHeaders = {
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+// PM sessions last 8 hours and can be refreshed through pm-api
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000;
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -27,30 +33,15 @@ serve(async (req) => {
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
     // Verify OTP
-    const { data: otpData, error: otpError } = await supabase
-      .from("otp_verifications")
-      .select("*")
-      .eq("email", email)
-      .eq("otp_code", otp)
-      .eq("verified", false)
-      .gt("expires_at", new Date().toISOString())
-      .order("created_at", { ascending: false })
-      .limit(1)
-      .single();
-
-    if (otpError || !otpData) {
-      return new Response(
-        JSON.stringify({ error: "Invalid or expired OTP" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    const check = await verifyOtp(supabase, { email, purpose: "pm_login", otp });
+    if (!check.ok) {
+      const { data: knownPm } = await supabase.from("project_managers").select("id").eq("email", email).maybeSingle();
+      await recordLoginEvent(supabase, req, {
+        type: "pm_login", success: false, pmId: knownPm?.id ?? null, userId: null, email, reason: check.result,
+      });
+      return otpFailure(check, corsHeaders);
     }
 
-    // Mark OTP as verified
-    await supabase
-      .from("otp_verifications")
-      .update({ verified: true })
-      .eq("id", otpData.id);
-
     // Fetch PM details
     const { data: pm, error: pmError } = await supabase
       .from("project_managers")
@@ -65,8 +56,29 @@ serve(async (req) => {
       );
     }
 
-    // Generate a session token
-    const sessionToken = crypto.randomUUID();
+    // Create a server-side session; only the token hash is stored
+    const sessionToken = `${crypto.randomUUID()}${crypto.randomUUID()}`.replace(/-/g, "");
+    const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+    const { error: sessionError } = await supabase.from("pm_sessions").insert({
+      pm_id: pm.id,
+      token_hash: await hashToken(sessionToken),
+      expires_at: expiresAt.toISOString(),
+      user_agent: req.headers.get("user-agent"),
+    });
+
+    if (sessionError) {
+      console.error("Failed to create PM session:", sessionError);
+      throw new Error("Failed to create session");
+    }
+
+    await recordLoginEvent(supabase, req, { type: "pm_login", success: true, pmId: pm.id, userId: null, email });
+
+    // The session only works in pm-api once the PM passes (or sets up) their authenticator
+    const [{ data: factor }, { data: policy }] = await Promise.all([
+      supabase.from("totp_factors").select("id").eq("pm_id", pm.id).not("enabled_at", "is", null).maybeSingle(),
+      supabase.from("two_factor_policies").select("required").eq("role", "project_manager").maybeSingle(),
+    ]);
 
     return new Response(
       JSON.stringify({
@@ -81,6 +93,8 @@ serve(async (req) => {
           is_available: pm.is_available,
         },
         sessionToken,
+        expiresAt: expiresAt.toISOString(),
+        twoFactor: { enabled: !!factor, required: policy?.required === true },
       }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
     );
@@ -0,0 +1,192 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { drainOutbox, enqueueEmails, type OutboundEmail } from "../_shared/outbox.ts";
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const BATCH_SIZE = 50;
+
+// Mirrors STATUS_LABELS in src/lib/requestStatus.ts
+const STATUS_LABELS: Record<string, string> = {
+  pending: "Pending",
+  quoted: "Quoted",
+  awaiting_payment: "Awaiting Payment",
+  in_progress: "In Progress",
+  on_hold: "On Hold",
+  in_review: "In Review",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+interface NotificationEvent {
+  id: string;
+  event_type: "request_status_changed" | "admin_response" | "pm_assigned" | "payment_requested" | "payment_received";
+  service_request_id: string;
+  payment_request_id: string | null;
+  payload: Record<string, string | null>;
+}
+
+const formatAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat("en-IN", { style: "currency", currency: currency || "INR" }).format(amount);
+
+const formatDate = (value: string) =>
+  new Date(value).toLocaleDateString("en-IN", { day: "numeric", month: "long", year: "numeric" });
+
+// The emails one event calls for, or why it calls for none. Keys are per event, template and recipient, so an
+// event that is expanded twice still sends each email once.
+const buildEmails = async (supabase: SupabaseClient, event: NotificationEvent): Promise<OutboundEmail[] | string> => {
+  const { data: request, error } = await supabase
+    .from("service_requests")
+    .select("title, user_id, contact_phone")
+    .eq("id", event.service_request_id)
+    .maybeSingle();
+  if (error) throw error;
+  if (!request?.user_id) return "Request has no client account";
+
+  const [{ data: { user }, error: userError }, { data: profile }] = await Promise.all([
+    supabase.auth.admin.getUserById(request.user_id),
+    supabase.from("profiles").select("full_name").eq("user_id", request.user_id).maybeSingle(),
+  ]);
+  if (userError) throw userError;
+  if (!user?.email) return "Client has no email address";
+
+  const to = user.email;
+  const base = { name: profile?.full_name || to.split("@")[0], project_name: request.title };
+  const email = <K extends OutboundEmail["template"]>(template: K, data: OutboundEmail<K>["data"], recipient = to): OutboundEmail<K> => ({
+    idempotencyKey: `notification:${event.id}:${template}:${recipient.toLowerCase()}`,
+    to: recipient,
+    template,
+    data,
+    serviceRequestId: event.service_request_id,
+  });
+
+  switch (event.event_type) {
+    case "request_status_changed": {
+      const status = event.payload.to_status ?? "";
+      return [email("request_status_changed", {
+        ...base,
+        status: STATUS_LABELS[status] ?? status,
+        note: event.payload.reason ? `Reason: ${event.payload.reason}` : "",
+      })];
+    }
+
+    case "admin_response":
+      return [email("admin_response", { ...base, response: event.payload.response ?? "" })];
+
+    // The client meets their PM, and the PM gets the project details
+    case "pm_assigned": {
+      const { data: pm, error: pmError } = await supabase
+        .from("project_managers")
+        .select("name, email")
+        .eq("id", event.payload.pm_id)
+        .maybeSingle();
+      if (pmError) throw pmError;
+      if (!pm) return "Project manager no longer exists";
+      return [
+        email("pm_assigned", { ...base, manager_name: pm.name }),
+        email("pm_assignment", {
+          manager_name: pm.name,
+          client_name: profile?.full_name || "N/A",
+          project_name: request.title,
+          phone: request.contact_phone || "N/A",
+        }, pm.email),
+      ];
+    }
+
+    case "payment_requested":
+    case "payment_received": {
+      const { data: payment, error: paymentError } = await supabase
+        .from("payment_requests")
+        .select("id, amount, currency, payment_note, status, transaction_id, verified_at, paid_at")
+        .eq("id", event.payment_request_id)
+        .maybeSingle();
+      if (paymentError) throw paymentError;
+      if (!payment) return "Payment request no longer exists";
+
+      const amount = formatAmount(Number(payment.amount), payment.currency);
+      if (event.event_type === "payment_requested") {
+        // Cancelled or settled before we got to it
+        if (payment.status !== "pending") return `Payment is ${payment.status.replace(/_/g, " ")}`;
+        return [email("payment_requested", {
+          ...base,
+          amount,
+          note: payment.payment_note ? `Note: ${payment.payment_note}` : "",
+        })];
+      }
+      return [email("payment_receipt", {
+        ...base,
+        amount,
+        transaction_id: payment.transaction_id || "—",
+        paid_on: formatDate(payment.verified_at ?? payment.paid_at ?? new Date().toISOString()),
+        receipt_number: `PAY-${payment.id.slice(0, 8).toUpperCase()}`,
+      })];
+    }
+  }
+};
+
+// Turns pending notification_events into outbound_messages
+const expandEvents = async (supabase: SupabaseClient) => {
+  const { data: pending, error } = await supabase
+    .from("notification_events")
+    .select("id, event_type, service_request_id, payment_request_id, payload")
+    .is("processed_at", null)
+    .order("created_at", { ascending: true })
+    .limit(BATCH_SIZE);
+  if (error) throw error;
+
+  let queued = 0;
+  let skipped = 0;
+  for (const event of (pending ?? []) as NotificationEvent[]) {
+    try {
+      const emails = await buildEmails(supabase, event);
+      if (typeof emails === "string") {
+        skipped++;
+      } else {
+        await enqueueEmails(supabase, emails);
+        queued += emails.length;
+      }
+      await supabase
+        .from("notification_events")
+        .update({ processed_at: new Date().toISOString(), error: typeof emails === "string" ? emails : null })
+        .eq("id", event.id);
+    } catch (buildError) {
+      // Left pending for the next run; the idempotency keys make a partial enqueue safe to repeat
+      console.error(`Failed to queue emails for notification ${event.id}:`, buildError);
+      const message = buildError instanceof Error ? buildError.message : String(buildError);
+      await supabase.from("notification_events").update({ error: message }).eq("id", event.id);
+    }
+  }
+  return { queued, skipped };
+};
+
+// Notification worker. Queues emails for new notification_events, then sends what's due in
+// outbound_messages, up to BATCH_SIZE of each per call. Service role only; pg_cron runs it every
+// minute, and PM assignments start it straight away.
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+  try {
+    if (req.headers.get("Authorization") !== `Bearer ${supabaseServiceKey}`) return json({ error: "Unauthorized" }, 401);
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+    const events = await expandEvents(supabase);
+    const delivery = await drainOutbox(supabase, BATCH_SIZE);
+
+    return json({ success: true, events, delivery });
+  } catch (error: unknown) {
+    console.error("Error in process-notifications:", error);
+    const message = error instanceof Error ? error.message : "Request failed";
+    return json({ error: message }, 500);
+  }
+});
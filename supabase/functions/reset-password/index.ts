@@ -1,5 +1,8 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { otpFailure, verifyOtp } from "../_shared/otp.ts";
+import { findUserIdByEmail } from "../_shared/users.ts";
+import { recordLoginEvent } from "../_shared/loginEvents.ts";
 
 const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
 const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
@@ -34,49 +37,31 @@ serve(async (req) => {
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
     // Verify OTP
-    const { data: otpData, error: otpError } = await supabase
-      .from("otp_verifications")
-      .select("*")
-      .eq("email", email)
-      .eq("otp_code", otp)
-      .eq("verified", false)
-      .gt("expires_at", new Date().toISOString())
-      .order("created_at", { ascending: false })
-      .limit(1)
-      .single();
+    const check = await verifyOtp(supabase, { email, purpose: "password_reset", otp });
+    if (!check.ok) {
+      await recordLoginEvent(supabase, req, { type: "password_reset", success: false, email, reason: check.result });
+      return otpFailure(check, corsHeaders);
+    }
 
-    if (otpError || !otpData) {
+    // Codes are only issued for existing accounts; if it was deleted since, answer like a bad code
+    const userId = await findUserIdByEmail(supabase, email);
+    if (!userId) {
       return new Response(
         JSON.stringify({ error: "Invalid or expired OTP" }),
         { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    // Mark OTP as verified
-    await supabase
-      .from("otp_verifications")
-      .update({ verified: true })
-      .eq("id", otpData.id);
-
-    // Find user by email
-    const { data: usersData } = await supabase.auth.admin.listUsers();
-    const user = usersData?.users?.find(u => u.email === email);
-
-    if (!user) {
-      return new Response(
-        JSON.stringify({ error: "No account found with this email" }),
-        { status: 404, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
-    }
-
     // Update password
     const { error: updateError } = await supabase.auth.admin.updateUserById(
-      user.id,
+      userId,
       { password: newPassword }
     );
 
     if (updateError) throw updateError;
 
+    await recordLoginEvent(supabase, req, { type: "password_reset", success: true, userId, email });
+
     return new Response(
       JSON.stringify({ success: true, message: "Password reset successfully" }),
       { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
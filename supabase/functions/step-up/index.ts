@@ -0,0 +1,111 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { clientIp, issueOtp, otpFailure, tooManyRequests, verifyOtp } from "../_shared/otp.ts";
+import { isStepUpPurpose, mintStepUpToken, type StepUpPurpose } from "../_shared/stepUp.ts";
+import { recordLoginEvent } from "../_shared/loginEvents.ts";
+import { sendEmail } from "../_shared/mail.ts";
+import { twoFactorRequired, twoFactorSatisfied } from "../_shared/twoFactor.ts";
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const PURPOSE_LABELS: Record<StepUpPurpose, string> = {
+  change_password: "change your password",
+  change_email: "change your email address",
+  delete_account: "delete your account",
+};
+
+// Step-up verification for signed-in users.
+//   { action: "send", purpose }        emails a one-time code
+//   { action: "verify", purpose, otp } checks it and returns a short-lived token for that purpose
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabaseUser = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+      global: { headers: { Authorization: authHeader } },
+    });
+
+    const { data: { user }, error: userError } = await supabaseUser.auth.getUser();
+    if (userError || !user?.email) {
+      return new Response(
+        JSON.stringify({ error: "Unauthorized" }),
+        { status: 401, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!(await twoFactorSatisfied(supabaseUser))) return twoFactorRequired(corsHeaders);
+
+    const { action, purpose, otp } = await req.json();
+
+    if (!isStepUpPurpose(purpose)) {
+      return new Response(
+        JSON.stringify({ error: "Unknown operation" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    if (action === "send") {
+      const issued = await issueOtp(supabase, { email: user.email, purpose: "step_up", ip: clientIp(req) });
+      if ("retryAfter" in issued) return tooManyRequests(issued.retryAfter, corsHeaders);
+
+      await sendEmail(user.email, "step_up_code", { action: PURPOSE_LABELS[purpose], code: issued.otp });
+
+      return new Response(
+        JSON.stringify({ success: true }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (action === "verify") {
+      if (!otp) {
+        return new Response(
+          JSON.stringify({ error: "OTP is required" }),
+          { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+        );
+      }
+
+      const check = await verifyOtp(supabase, { email: user.email, purpose: "step_up", otp });
+      await recordLoginEvent(supabase, req, {
+        type: "step_up", success: check.ok, userId: user.id, email: user.email, reason: check.ok ? null : check.result,
+      });
+      if (!check.ok) return otpFailure(check, corsHeaders);
+
+      const { token, expiresAt } = await mintStepUpToken(supabase, { userId: user.id, purpose, method: "email_otp" });
+
+      return new Response(
+        JSON.stringify({ success: true, stepUpToken: token, expiresAt }),
+        { status: 200, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: "Unknown action" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  } catch (error: unknown) {
+    console.error("Error in step-up:", error);
+    const message = error instanceof Error ? error.message : "Verification failed";
+    return new Response(
+      JSON.stringify({ error: message }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
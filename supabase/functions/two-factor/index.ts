@@ -0,0 +1,334 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import QRCode from "https://esm.sh/qrcode@1.5.3";
+import { tooManyRequests } from "../_shared/otp.ts";
+import { recordLoginEvent } from "../_shared/loginEvents.ts";
+import { isStepUpPurpose, mintStepUpToken } from "../_shared/stepUp.ts";
+import {
+  decryptSecret,
+  encryptSecret,
+  generateRecoveryCodes,
+  generateTotpSecret,
+  hashRecoveryCode,
+  otpauthUrl,
+  verifyTotp,
+} from "../_shared/totp.ts";
+import { hashToken } from "../_shared/tokens.ts";
+
+const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, x-pm-session",
+};
+
+// The session id claim of an access token that auth.getUser() has already validated
+const jwtSessionId = (authHeader: string): string | null => {
+  try {
+    const payload = authHeader.replace(/^Bearer\s+/i, "").split(".")[1];
+    const json = JSON.parse(atob(payload.replace(/-/g, "+").replace(/_/g, "/")));
+    return typeof json.session_id === "string" ? json.session_id : null;
+  } catch {
+    return null;
+  }
+};
+
+// Who is calling: a Supabase auth user (client or admin) or a PM with a pm-api session
+type Subject =
+  | { kind: "user"; id: string; label: string; role: "client" | "admin"; sessionId: string | null }
+  | { kind: "pm"; id: string; label: string; role: "project_manager"; sessionRowId: string; verifiedAt: string | null };
+
+interface Factor {
+  id: string;
+  secret_ciphertext: string;
+  enabled_at: string | null;
+  last_used_step: number | null;
+  locked_until: string | null;
+}
+
+// Two-factor enrollment and verification for every kind of account.
+//   status                               what the account has and whether this session passed
+//   enroll                               new secret + QR code (not active until confirmed)
+//   activate { code }                    confirms enrollment; returns recovery codes
+//   verify { code | recoveryCode }       completes sign-in for the current session
+//   disable { code | recoveryCode }      removes the authenticator
+//   recovery_codes { code | recoveryCode } replaces the recovery codes
+//   step_up { purpose, code | recoveryCode } step-up token for a sensitive operation (auth users only)
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const json = (body: unknown, status = 200) =>
+    new Response(JSON.stringify(body), { status, headers: { ...corsHeaders, "Content-Type": "application/json" } });
+
+  try {
+    const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+    let subject: Subject;
+    const pmSessionToken = req.headers.get("x-pm-session");
+    const authHeader = req.headers.get("Authorization");
+
+    if (pmSessionToken) {
+      const { data: session } = await supabase
+        .from("pm_sessions")
+        .select("id, pm_id, two_factor_verified_at, project_managers(email)")
+        .eq("token_hash", await hashToken(pmSessionToken))
+        .is("revoked_at", null)
+        .gt("expires_at", new Date().toISOString())
+        .maybeSingle();
+      if (!session) return json({ error: "Session expired" }, 401);
+
+      const pm = session.project_managers as unknown as { email: string } | null;
+      subject = {
+        kind: "pm",
+        id: session.pm_id,
+        label: pm?.email ?? "Project manager",
+        role: "project_manager",
+        sessionRowId: session.id,
+        verifiedAt: session.two_factor_verified_at,
+      };
+    } else if (authHeader) {
+      const supabaseUser = createClient(supabaseUrl, Deno.env.get("SUPABASE_ANON_KEY")!, {
+        global: { headers: { Authorization: authHeader } },
+      });
+      const { data: { user }, error: userError } = await supabaseUser.auth.getUser();
+      if (userError || !user) return json({ error: "Unauthorized" }, 401);
+
+      const { data: isAdmin } = await supabase.rpc("has_role", { _user_id: user.id, _role: "admin" });
+      subject = {
+        kind: "user",
+        id: user.id,
+        label: user.email ?? user.id,
+        role: isAdmin ? "admin" : "client",
+        sessionId: jwtSessionId(authHeader),
+      };
+    } else {
+      return json({ error: "Unauthorized" }, 401);
+    }
+
+    const ownerColumn = subject.kind === "user" ? "user_id" : "pm_id";
+
+    const loadFactor = async () => {
+      const { data, error } = await supabase
+        .from("totp_factors")
+        .select("id, secret_ciphertext, enabled_at, last_used_step, locked_until")
+        .eq(ownerColumn, subject.id)
+        .maybeSingle();
+      if (error) throw error;
+      return data as Factor | null;
+    };
+
+    const isRequired = async () => {
+      const { data } = await supabase.from("two_factor_policies").select("required").eq("role", subject.role).maybeSingle();
+      return data?.required === true;
+    };
+
+    const isVerified = async () => {
+      if (subject.kind === "pm") return !!subject.verifiedAt;
+      if (!subject.sessionId) return false;
+      const { data } = await supabase
+        .from("two_factor_sessions")
+        .select("session_id")
+        .eq("session_id", subject.sessionId)
+        .eq("user_id", subject.id)
+        .maybeSingle();
+      return !!data;
+    };
+
+    const markVerified = async (method: "totp" | "recovery_code") => {
+      if (subject.kind === "pm") {
+        const { error } = await supabase
+          .from("pm_sessions")
+          .update({ two_factor_verified_at: new Date().toISOString() })
+          .eq("id", subject.sessionRowId);
+        if (error) throw error;
+        return;
+      }
+      if (!subject.sessionId) throw new Error("Session id missing from access token");
+      const { error } = await supabase
+        .from("two_factor_sessions")
+        .upsert({ session_id: subject.sessionId, user_id: subject.id, method, verified_at: new Date().toISOString() });
+      if (error) throw error;
+    };
+
+    const replaceRecoveryCodes = async (factorId: string) => {
+      const codes = generateRecoveryCodes();
+      await supabase.from("totp_recovery_codes").delete().eq("factor_id", factorId);
+      const { error } = await supabase.from("totp_recovery_codes").insert(
+        await Promise.all(codes.map(async (code) => ({ factor_id: factorId, code_hash: await hashRecoveryCode(code) }))),
+      );
+      if (error) throw error;
+      return codes;
+    };
+
+    const recoveryCodesLeft = async (factorId: string) => {
+      const { count } = await supabase
+        .from("totp_recovery_codes")
+        .select("id", { count: "exact", head: true })
+        .eq("factor_id", factorId)
+        .is("used_at", null);
+      return count ?? 0;
+    };
+
+    // Checks an authenticator or recovery code against the factor, counting failures toward the lock.
+    // Returns the method that matched, or the error response to send.
+    const checkCode = async (
+      factor: Factor,
+      { code, recoveryCode }: { code?: string; recoveryCode?: string },
+    ): Promise<{ method: "totp" | "recovery_code" } | Response> => {
+      if (factor.locked_until && new Date(factor.locked_until).getTime() > Date.now()) {
+        return tooManyRequests(Math.ceil((new Date(factor.locked_until).getTime() - Date.now()) / 1000), corsHeaders);
+      }
+
+      if (code) {
+        const step = await verifyTotp(await decryptSecret(factor.secret_ciphertext), String(code), factor.last_used_step);
+        if (step !== null) {
+          // Re-checks the stored step under a row lock so two requests can't both spend the same code
+          const { data, error } = await supabase.rpc("record_totp_success", { _factor_id: factor.id, _step: step });
+          if (error) throw error;
+          if (data) return { method: "totp" };
+        }
+      } else if (recoveryCode) {
+        const { data } = await supabase
+          .from("totp_recovery_codes")
+          .update({ used_at: new Date().toISOString() })
+          .eq("factor_id", factor.id)
+          .eq("code_hash", await hashRecoveryCode(String(recoveryCode)))
+          .is("used_at", null)
+          .select("id");
+        if (data?.length) {
+          const { error } = await supabase.rpc("record_totp_success", { _factor_id: factor.id });
+          if (error) throw error;
+          return { method: "recovery_code" };
+        }
+      } else {
+        return json({ error: "Enter the code from your authenticator app" }, 400);
+      }
+
+      const { data, error } = await supabase.rpc("record_totp_failure", { _factor_id: factor.id });
+      if (error) throw error;
+      const { retry_after: retryAfter, attempts_left: attemptsLeft } = data[0];
+      if (retryAfter) return tooManyRequests(retryAfter, corsHeaders);
+      return json({ error: `Invalid code. ${attemptsLeft} attempt${attemptsLeft === 1 ? "" : "s"} left.`, attemptsLeft }, 400);
+    };
+
+    // Sign-in and step-up checks go into the login history; setup and management actions don't
+    const recordCheck = (type: "two_factor" | "step_up", result: { method: string } | Response) =>
+      recordLoginEvent(supabase, req, {
+        type,
+        success: !(result instanceof Response),
+        userId: subject.kind === "user" ? subject.id : null,
+        pmId: subject.kind === "pm" ? subject.id : null,
+        email: subject.label,
+        reason: result instanceof Response ? (result.status === 429 ? "locked" : "invalid") : null,
+      });
+
+    const { action, code, recoveryCode, purpose } = await req.json();
+
+    switch (action) {
+      case "status": {
+        const factor = await loadFactor();
+        const enabled = !!factor?.enabled_at;
+        return json({
+          enabled,
+          required: await isRequired(),
+          verified: await isVerified(),
+          recoveryCodesLeft: enabled ? await recoveryCodesLeft(factor!.id) : 0,
+        });
+      }
+
+      case "enroll": {
+        const factor = await loadFactor();
+        if (factor?.enabled_at) return json({ error: "Two-factor authentication is already enabled" }, 409);
+
+        // Starting over replaces any unfinished enrollment
+        const secret = generateTotpSecret();
+        const { error } = await supabase.from("totp_factors").upsert({
+          [ownerColumn]: subject.id,
+          secret_ciphertext: await encryptSecret(secret),
+          enabled_at: null,
+          last_used_step: null,
+          failed_attempts: 0,
+          locked_until: null,
+        }, { onConflict: ownerColumn });
+        if (error) throw error;
+
+        const url = otpauthUrl(secret, subject.label);
+        const qrSvg = await QRCode.toString(url, { type: "svg", margin: 1 });
+        return json({ secret, otpauthUrl: url, qrSvg });
+      }
+
+      case "activate": {
+        const factor = await loadFactor();
+        if (!factor || factor.enabled_at) return json({ error: "Start setup again to get a new code" }, 400);
+
+        const result = await checkCode(factor, { code });
+        if (result instanceof Response) return result;
+
+        const { error } = await supabase
+          .from("totp_factors")
+          .update({ enabled_at: new Date().toISOString() })
+          .eq("id", factor.id);
+        if (error) throw error;
+
+        const recoveryCodes = await replaceRecoveryCodes(factor.id);
+        // Proving the new factor also completes two-factor sign-in for this session
+        await markVerified("totp");
+        return json({ success: true, recoveryCodes });
+      }
+
+      case "verify": {
+        const factor = await loadFactor();
+        if (!factor?.enabled_at) return json({ error: "Two-factor authentication is not enabled" }, 400);
+
+        const result = await checkCode(factor, { code, recoveryCode });
+        await recordCheck("two_factor", result);
+        if (result instanceof Response) return result;
+
+        await markVerified(result.method);
+        return json({ success: true, recoveryCodesLeft: await recoveryCodesLeft(factor.id) });
+      }
+
+      case "disable":
+      case "recovery_codes":
+      case "step_up": {
+        const factor = await loadFactor();
+        if (!factor?.enabled_at) return json({ error: "Two-factor authentication is not enabled" }, 400);
+        if (!(await isVerified())) return json({ error: "Two-factor verification required", twoFactorRequired: true }, 403);
+
+        if (action === "disable" && await isRequired()) {
+          return json({ error: "Two-factor authentication is required for your account" }, 403);
+        }
+        if (action === "step_up" && (subject.kind !== "user" || !isStepUpPurpose(purpose))) {
+          return json({ error: "Unknown operation" }, 400);
+        }
+
+        const result = await checkCode(factor, { code, recoveryCode });
+        if (action === "step_up") await recordCheck("step_up", result);
+        if (result instanceof Response) return result;
+
+        if (action === "disable") {
+          const { error } = await supabase.from("totp_factors").delete().eq("id", factor.id);
+          if (error) throw error;
+          return json({ success: true });
+        }
+
+        if (action === "recovery_codes") {
+          return json({ success: true, recoveryCodes: await replaceRecoveryCodes(factor.id) });
+        }
+
+        const { token, expiresAt } = await mintStepUpToken(supabase, { userId: subject.id, purpose, method: result.method });
+        return json({ success: true, stepUpToken: token, expiresAt });
+      }
+
+      default:
+        return json({ error: "Unknown action" }, 400);
+    }
+  } catch (error: unknown) {
+    console.error("Error in two-factor:", error);
+    const message = error instanceof Error ? error.message : "Two-factor request failed";
+    return json({ error: message }, 500);
+  }
+});
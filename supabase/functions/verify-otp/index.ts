@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { otpFailure, verifyOtp } from "../_shared/otp.ts";
+import { recordLoginEvent } from "../_shared/loginEvents.ts";
 
 const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
 const supabaseServiceKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
@@ -35,30 +37,12 @@ serve(async (req) => {
     const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
     // Check OTP
-    const { data: otpData, error: otpError } = await supabase
-      .from("otp_verifications")
-      .select("*")
-      .eq("email", email)
-      .eq("otp_code", otp)
-      .eq("verified", false)
-      .gt("expires_at", new Date().toISOString())
-      .order("created_at", { ascending: false })
-      .limit(1)
-      .single();
-
-    if (otpError || !otpData) {
-      return new Response(
-        JSON.stringify({ error: "Invalid or expired OTP" }),
-        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
-      );
+    const check = await verifyOtp(supabase, { email, purpose: isSignup ? "signup" : "login", otp });
+    if (!check.ok) {
+      await recordLoginEvent(supabase, req, { type: "otp_verification", success: false, email, reason: check.result });
+      return otpFailure(check, corsHeaders);
     }
 
-    // Mark OTP as verified
-    await supabase
-      .from("otp_verifications")
-      .update({ verified: true })
-      .eq("id", otpData.id);
-
     if (isSignup) {
       if (!password || password.length < 6) {
         return new Response(
@@ -85,6 +69,10 @@ serve(async (req) => {
         throw signUpError;
       }
 
+      await recordLoginEvent(supabase, req, {
+        type: "otp_verification", success: true, userId: signUpData.user?.id ?? null, email,
+      });
+
       return new Response(
         JSON.stringify({
           success: true,
@@ -104,6 +92,10 @@ serve(async (req) => {
 
       if (linkError) throw linkError;
 
+      await recordLoginEvent(supabase, req, {
+        type: "otp_verification", success: true, userId: linkData.user?.id ?? null, email,
+      });
+
       const hashedToken = linkData.properties?.hashed_token;
 
       return new Response(
@@ -0,0 +1,18 @@
+-- Server-side sessions for the PM portal
+-- Only a SHA-256 hash of the session token is stored; the raw token lives in the PM's browser
+CREATE TABLE public.pm_sessions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  pm_id UUID NOT NULL REFERENCES public.project_managers(id) ON DELETE CASCADE,
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  user_agent TEXT,
+  last_used_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS with no policies: sessions are only read and written by edge functions using the service role
+ALTER TABLE public.pm_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_pm_sessions_pm_id ON public.pm_sessions(pm_id);
+CREATE INDEX IF NOT EXISTS idx_pm_sessions_expires_at ON public.pm_sessions(expires_at);
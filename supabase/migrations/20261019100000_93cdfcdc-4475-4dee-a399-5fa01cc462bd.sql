@@ -0,0 +1,27 @@
+-- Audit log of every mutation made through admin-api and pm-api
+CREATE TABLE public.audit_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  actor_type TEXT NOT NULL CHECK (actor_type IN ('admin', 'pm')),
+  actor_id UUID NOT NULL,
+  actor_label TEXT,
+  action TEXT NOT NULL,
+  table_name TEXT NOT NULL,
+  record_id UUID,
+  -- Changed fields only for updates; full row for inserts (after) and deletes (before)
+  before JSONB,
+  after JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.audit_events ENABLE ROW LEVEL SECURITY;
+
+-- Admins can read the log; rows are only written by edge functions using the service role
+CREATE POLICY "Admins can view audit events"
+ON public.audit_events
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_created_at ON public.audit_events(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor_id ON public.audit_events(actor_id);
+CREATE INDEX IF NOT EXISTS idx_audit_events_table_record ON public.audit_events(table_name, record_id);
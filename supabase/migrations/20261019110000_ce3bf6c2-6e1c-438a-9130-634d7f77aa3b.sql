@@ -0,0 +1,205 @@
+-- Threaded messages between clients, PMs and admins on a service request
+CREATE TABLE public.request_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  service_request_id UUID NOT NULL REFERENCES public.service_requests(id) ON DELETE CASCADE,
+  author_type TEXT NOT NULL CHECK (author_type IN ('client', 'pm', 'admin')),
+  -- auth.users id for clients and admins, project_managers id for PMs; NULL for migrated history
+  author_id UUID,
+  author_name TEXT,
+  visibility TEXT NOT NULL DEFAULT 'client_visible' CHECK (visibility IN ('internal', 'client_visible')),
+  body TEXT NOT NULL CHECK (length(body) > 0),
+  -- [{ "name": "...", "path": "<request id>/messages/...", "type": "...", "size": 123 }]
+  attachments JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- Read receipts, one per party
+  read_by_client_at TIMESTAMP WITH TIME ZONE,
+  read_by_pm_at TIMESTAMP WITH TIME ZONE,
+  read_by_admin_at TIMESTAMP WITH TIME ZONE,
+  edited_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT client_messages_are_visible CHECK (author_type <> 'client' OR visibility = 'client_visible')
+);
+
+-- Enable RLS
+ALTER TABLE public.request_messages ENABLE ROW LEVEL SECURITY;
+
+-- Clients see the client-visible part of threads on their own requests
+CREATE POLICY "Users can view own request messages"
+ON public.request_messages
+FOR SELECT
+USING (
+  visibility = 'client_visible' AND
+  EXISTS (
+    SELECT 1 FROM public.service_requests sr
+    WHERE sr.id = service_request_id AND sr.user_id = auth.uid()
+  )
+);
+
+-- Clients can post on their own requests, as themselves
+CREATE POLICY "Users can post on own requests"
+ON public.request_messages
+FOR INSERT
+WITH CHECK (
+  author_type = 'client' AND
+  author_id = auth.uid() AND
+  visibility = 'client_visible' AND
+  EXISTS (
+    SELECT 1 FROM public.service_requests sr
+    WHERE sr.id = service_request_id AND sr.user_id = auth.uid()
+  )
+);
+
+-- Admins can read every thread; admin and PM writes go through the edge functions
+CREATE POLICY "Admins can view request messages"
+ON public.request_messages
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_request_messages_updated_at
+BEFORE UPDATE ON public.request_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_request_messages_request_created
+  ON public.request_messages(service_request_id, created_at);
+
+-- Mark a thread as read for the calling client or admin
+CREATE OR REPLACE FUNCTION public.mark_request_messages_read(_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF public.has_role(auth.uid(), 'admin') THEN
+    UPDATE public.request_messages
+    SET read_by_admin_at = now()
+    WHERE service_request_id = _request_id
+      AND author_type <> 'admin'
+      AND read_by_admin_at IS NULL;
+  ELSIF EXISTS (
+    SELECT 1 FROM public.service_requests
+    WHERE id = _request_id AND user_id = auth.uid()
+  ) THEN
+    UPDATE public.request_messages
+    SET read_by_client_at = now()
+    WHERE service_request_id = _request_id
+      AND author_type <> 'client'
+      AND visibility = 'client_visible'
+      AND read_by_client_at IS NULL;
+  END IF;
+END;
+$$;
+
+-- Broadcast a lightweight "thread changed" ping so every party can refetch.
+-- Only ids are sent; message content is always loaded through RLS or the edge functions.
+CREATE OR REPLACE FUNCTION public.broadcast_request_message_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM realtime.send(
+    jsonb_build_object('message_id', NEW.id),
+    'changed',
+    'request-thread:' || NEW.service_request_id,
+    false
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_request_message_change
+AFTER INSERT OR UPDATE ON public.request_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.broadcast_request_message_change();
+
+-- Carry existing admin responses and PM notes over into the threads
+INSERT INTO public.request_messages (service_request_id, author_type, author_name, visibility, body, created_at, read_by_admin_at)
+SELECT id, 'admin', 'THRYLOS', 'client_visible', admin_response, updated_at, updated_at
+FROM public.service_requests
+WHERE admin_response IS NOT NULL AND length(trim(admin_response)) > 0;
+
+INSERT INTO public.request_messages (service_request_id, author_type, author_id, author_name, visibility, body, created_at, read_by_pm_at)
+SELECT sr.id, 'pm', sr.assigned_pm_id, pm.name, 'internal', sr.notes, sr.updated_at, sr.updated_at
+FROM public.service_requests sr
+LEFT JOIN public.project_managers pm ON pm.id = sr.assigned_pm_id
+WHERE sr.notes IS NOT NULL AND length(trim(sr.notes)) > 0;
+
+-- Thread attachments live in the private request-files bucket under <request id>/messages/ and are
+-- only served through short-lived signed URLs
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'request-files',
+  'request-files',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml', 'application/pdf']
+);
+
+-- Message attachments must point into their own request's folder
+CREATE OR REPLACE FUNCTION public.validate_request_message_attachments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _attachment JSONB;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.attachments IS NOT DISTINCT FROM OLD.attachments THEN
+    RETURN NEW;
+  END IF;
+
+  IF jsonb_typeof(NEW.attachments) <> 'array' OR jsonb_array_length(NEW.attachments) > 10 THEN
+    RAISE EXCEPTION 'A message can have at most 10 attachments';
+  END IF;
+
+  FOR _attachment IN SELECT * FROM jsonb_array_elements(NEW.attachments) LOOP
+    IF jsonb_typeof(_attachment -> 'name') IS DISTINCT FROM 'string'
+      OR jsonb_typeof(_attachment -> 'path') IS DISTINCT FROM 'string'
+      OR NOT starts_with(_attachment ->> 'path', NEW.service_request_id::text || '/messages/')
+      OR position('..' IN _attachment ->> 'path') > 0 THEN
+      RAISE EXCEPTION 'Attachments must be uploaded to this request''s thread';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_request_message_attachments
+BEFORE INSERT OR UPDATE OF attachments, service_request_id ON public.request_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_request_message_attachments();
+
+-- The owning client and admins reach the bucket directly. PMs have no auth user and go through
+-- pm-api, which checks the assignment before signing a URL. Of the thread attachments, clients
+-- only open those on messages they can see; attachments on internal notes stay with the team.
+CREATE POLICY "Clients can read own request files"
+ON storage.objects FOR SELECT
+USING (
+  bucket_id = 'request-files' AND
+  (storage.foldername(name))[1] IN (SELECT id::text FROM public.service_requests WHERE user_id = auth.uid()) AND
+  (
+    (storage.foldername(name))[2] IS DISTINCT FROM 'messages' OR
+    EXISTS (
+      SELECT 1 FROM public.request_messages m
+      WHERE m.service_request_id::text = (storage.foldername(objects.name))[1]
+        AND m.visibility = 'client_visible'
+        AND m.attachments @> jsonb_build_array(jsonb_build_object('path', objects.name))
+    )
+  )
+);
+
+CREATE POLICY "Clients can upload to own requests"
+ON storage.objects FOR INSERT
+WITH CHECK (
+  bucket_id = 'request-files' AND
+  (storage.foldername(name))[1] IN (SELECT id::text FROM public.service_requests WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Admins can manage request files"
+ON storage.objects FOR ALL
+USING (bucket_id = 'request-files' AND has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (bucket_id = 'request-files' AND has_role(auth.uid(), 'admin'::app_role));
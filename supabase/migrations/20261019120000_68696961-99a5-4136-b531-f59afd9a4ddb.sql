@@ -0,0 +1,6 @@
+-- New request lifecycle stages. Added in their own migration because a new enum value
+-- cannot be used in the same transaction that creates it.
+ALTER TYPE public.request_status ADD VALUE IF NOT EXISTS 'quoted' AFTER 'pending';
+ALTER TYPE public.request_status ADD VALUE IF NOT EXISTS 'awaiting_payment' AFTER 'quoted';
+ALTER TYPE public.request_status ADD VALUE IF NOT EXISTS 'on_hold' AFTER 'in_progress';
+ALTER TYPE public.request_status ADD VALUE IF NOT EXISTS 'in_review' AFTER 'on_hold';
@@ -0,0 +1,210 @@
+-- Request lifecycle state machine
+-- Which role may move a request from one status to another. src/lib/requestStatus.ts mirrors this for the UI.
+CREATE TABLE public.request_status_transitions (
+  from_status request_status NOT NULL,
+  to_status request_status NOT NULL,
+  roles TEXT[] NOT NULL,
+  PRIMARY KEY (from_status, to_status)
+);
+
+ALTER TABLE public.request_status_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view status transitions"
+ON public.request_status_transitions
+FOR SELECT
+USING (true);
+
+INSERT INTO public.request_status_transitions (from_status, to_status, roles) VALUES
+  ('pending', 'quoted', ARRAY['admin']),
+  ('pending', 'in_progress', ARRAY['admin']),
+  ('pending', 'cancelled', ARRAY['admin', 'client']),
+  ('quoted', 'pending', ARRAY['admin']),
+  ('quoted', 'awaiting_payment', ARRAY['admin', 'client']),
+  ('quoted', 'cancelled', ARRAY['admin', 'client']),
+  ('awaiting_payment', 'in_progress', ARRAY['admin']),
+  ('awaiting_payment', 'on_hold', ARRAY['admin']),
+  ('awaiting_payment', 'cancelled', ARRAY['admin']),
+  ('in_progress', 'in_review', ARRAY['admin', 'pm']),
+  ('in_progress', 'on_hold', ARRAY['admin', 'pm']),
+  ('in_progress', 'cancelled', ARRAY['admin']),
+  ('on_hold', 'in_progress', ARRAY['admin', 'pm']),
+  ('on_hold', 'cancelled', ARRAY['admin']),
+  ('in_review', 'in_progress', ARRAY['admin', 'pm', 'client']),
+  ('in_review', 'completed', ARRAY['admin', 'client']);
+
+-- Every status change, including the initial one when a request is created
+CREATE TABLE public.request_status_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  service_request_id UUID NOT NULL REFERENCES public.service_requests(id) ON DELETE CASCADE,
+  from_status request_status,
+  to_status request_status NOT NULL,
+  actor_type TEXT NOT NULL CHECK (actor_type IN ('client', 'pm', 'admin', 'system')),
+  actor_id UUID,
+  actor_label TEXT,
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.request_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own request status history"
+ON public.request_status_history
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.service_requests sr
+    WHERE sr.id = service_request_id AND sr.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can view request status history"
+ON public.request_status_history
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE INDEX IF NOT EXISTS idx_request_status_history_request_created
+  ON public.request_status_history(service_request_id, created_at);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.request_status_history;
+
+-- Apply a status change if the transition is allowed for the actor's role.
+-- Only callable by the service role (admin-api, pm-api) and the client wrapper below.
+CREATE OR REPLACE FUNCTION public.transition_request_status(
+  _request_id UUID,
+  _to_status request_status,
+  _actor_type TEXT,
+  _actor_id UUID,
+  _actor_label TEXT,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS public.request_status_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _from_status request_status;
+  _entry public.request_status_history;
+BEGIN
+  SELECT status INTO _from_status
+  FROM public.service_requests
+  WHERE id = _request_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.request_status_transitions
+    WHERE from_status = _from_status AND to_status = _to_status AND _actor_type = ANY(roles)
+  ) THEN
+    RAISE EXCEPTION 'A request cannot move from % to %', replace(_from_status::text, '_', ' '), replace(_to_status::text, '_', ' ');
+  END IF;
+
+  IF _to_status = 'cancelled' AND coalesce(trim(_reason), '') = '' THEN
+    RAISE EXCEPTION 'A reason is required to cancel a request';
+  END IF;
+
+  PERFORM set_config('app.status_transition', 'on', true);
+  UPDATE public.service_requests SET status = _to_status WHERE id = _request_id;
+  PERFORM set_config('app.status_transition', 'off', true);
+
+  INSERT INTO public.request_status_history (service_request_id, from_status, to_status, actor_type, actor_id, actor_label, reason)
+  VALUES (_request_id, _from_status, _to_status, _actor_type, _actor_id, _actor_label, nullif(trim(_reason), ''))
+  RETURNING * INTO _entry;
+
+  RETURN _entry;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.transition_request_status(UUID, request_status, TEXT, UUID, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Client-facing wrapper: the caller must own the request and acts with the client role
+CREATE OR REPLACE FUNCTION public.client_transition_request_status(
+  _request_id UUID,
+  _to_status request_status,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS public.request_status_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.service_requests
+    WHERE id = _request_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  RETURN public.transition_request_status(
+    _request_id,
+    _to_status,
+    'client',
+    auth.uid(),
+    (SELECT email FROM public.profiles WHERE user_id = auth.uid()),
+    _reason
+  );
+END;
+$$;
+
+-- Reject status changes that bypass transition_request_status
+CREATE OR REPLACE FUNCTION public.guard_request_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND coalesce(current_setting('app.status_transition', true), 'off') <> 'on' THEN
+    RAISE EXCEPTION 'Request status can only be changed through a status transition';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_service_request_status
+BEFORE UPDATE OF status ON public.service_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_request_status_change();
+
+-- New requests always start as pending, and that first step goes into the history
+CREATE OR REPLACE FUNCTION public.record_request_created()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.request_status_history (service_request_id, from_status, to_status, actor_type, actor_id, created_at)
+  VALUES (NEW.id, NULL, NEW.status, 'client', NEW.user_id, NEW.created_at);
+  RETURN NEW;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.force_pending_on_create()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.status := 'pending';
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER force_service_request_pending
+BEFORE INSERT ON public.service_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.force_pending_on_create();
+
+CREATE TRIGGER on_service_request_created
+AFTER INSERT ON public.service_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.record_request_created();
+
+-- Seed the history of existing requests with their current status
+INSERT INTO public.request_status_history (service_request_id, from_status, to_status, actor_type, created_at)
+SELECT id, NULL, status, 'system', created_at
+FROM public.service_requests;
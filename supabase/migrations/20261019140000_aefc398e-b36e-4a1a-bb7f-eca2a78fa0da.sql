@@ -0,0 +1,173 @@
+-- Server-side PM workload and availability
+-- accepting_projects is the admin's manual switch; is_available is now derived from it and the PM's workload
+ALTER TABLE public.project_managers
+  ADD COLUMN accepting_projects BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN max_concurrent_projects INTEGER NOT NULL DEFAULT 3 CHECK (max_concurrent_projects >= 1),
+  ADD COLUMN active_project_count INTEGER NOT NULL DEFAULT 0;
+
+-- The browser only ever set is_available to false by hand, so carry that over as the manual switch
+UPDATE public.project_managers SET accepting_projects = is_available;
+
+CREATE INDEX IF NOT EXISTS idx_service_requests_assigned_pm_id ON public.service_requests(assigned_pm_id);
+
+-- Keep is_available consistent with the switch, capacity and workload on every write
+CREATE OR REPLACE FUNCTION public.derive_pm_availability()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.is_available := NEW.accepting_projects AND NEW.active_project_count < NEW.max_concurrent_projects;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER derive_project_manager_availability
+BEFORE INSERT OR UPDATE ON public.project_managers
+FOR EACH ROW
+EXECUTE FUNCTION public.derive_pm_availability();
+
+-- Recount a PM's active (not completed or cancelled) requests
+CREATE OR REPLACE FUNCTION public.refresh_pm_workload(_pm_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _pm_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.project_managers
+  SET active_project_count = (
+    SELECT count(*) FROM public.service_requests
+    WHERE assigned_pm_id = _pm_id AND status NOT IN ('completed', 'cancelled')
+  )
+  WHERE id = _pm_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_pm_workload(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Reject assignments to PMs who are not accepting work or are at capacity.
+-- The PM row is locked so concurrent assignments are counted one after another.
+CREATE OR REPLACE FUNCTION public.check_pm_capacity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _pm public.project_managers;
+  _active INTEGER;
+BEGIN
+  IF NEW.assigned_pm_id IS NULL OR NEW.status IN ('completed', 'cancelled') THEN
+    RETURN NEW;
+  END IF;
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.assigned_pm_id IS NOT DISTINCT FROM OLD.assigned_pm_id THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  SELECT * INTO _pm FROM public.project_managers WHERE id = NEW.assigned_pm_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT _pm.accepting_projects THEN
+    RAISE EXCEPTION '% is not accepting new projects', _pm.name;
+  END IF;
+
+  SELECT count(*) INTO _active
+  FROM public.service_requests
+  WHERE assigned_pm_id = _pm.id
+    AND id <> NEW.id
+    AND status NOT IN ('completed', 'cancelled');
+
+  IF _active >= _pm.max_concurrent_projects THEN
+    RAISE EXCEPTION '% is at capacity (% of % projects)', _pm.name, _active, _pm.max_concurrent_projects;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_service_request_pm_capacity
+BEFORE INSERT OR UPDATE OF assigned_pm_id ON public.service_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.check_pm_capacity();
+
+-- Recount workloads whenever an assignment or status changes
+CREATE OR REPLACE FUNCTION public.sync_pm_workload()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.refresh_pm_workload(NEW.assigned_pm_id);
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM public.refresh_pm_workload(OLD.assigned_pm_id);
+  ELSE
+    PERFORM public.refresh_pm_workload(OLD.assigned_pm_id);
+    IF NEW.assigned_pm_id IS DISTINCT FROM OLD.assigned_pm_id THEN
+      PERFORM public.refresh_pm_workload(NEW.assigned_pm_id);
+    END IF;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_service_request_pm_workload
+AFTER INSERT OR DELETE OR UPDATE OF assigned_pm_id, status ON public.service_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_pm_workload();
+
+-- Backfill counts (and, through the trigger above, is_available)
+UPDATE public.project_managers pm
+SET active_project_count = (
+  SELECT count(*) FROM public.service_requests sr
+  WHERE sr.assigned_pm_id = pm.id AND sr.status NOT IN ('completed', 'cancelled')
+);
+
+-- Clients may edit their own requests, but not who owns or works on them or the team's notes.
+-- Edge functions (service role, no auth.uid()) and admins can change anything; server-side
+-- assignment sets app.pm_assignment. Status has its own guard.
+CREATE OR REPLACE FUNCTION public.guard_client_request_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL
+     OR public.has_role(auth.uid(), 'admin')
+     OR coalesce(current_setting('app.pm_assignment', true), 'off') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.assigned_pm_id := NULL;
+    NEW.pm_assigned_at := NULL;
+    NEW.notes := NULL;
+    NEW.admin_response := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NEW.user_id IS DISTINCT FROM OLD.user_id
+     OR NEW.assigned_pm_id IS DISTINCT FROM OLD.assigned_pm_id
+     OR NEW.pm_assigned_at IS DISTINCT FROM OLD.pm_assigned_at
+     OR NEW.notes IS DISTINCT FROM OLD.notes
+     OR NEW.admin_response IS DISTINCT FROM OLD.admin_response THEN
+    RAISE EXCEPTION 'Only the team can change the owner, project manager or notes of a request';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_client_service_request_changes
+BEFORE INSERT OR UPDATE ON public.service_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_client_request_changes();
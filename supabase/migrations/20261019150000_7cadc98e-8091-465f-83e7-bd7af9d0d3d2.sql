@@ -0,0 +1,212 @@
+-- PM assignment engine: ranked suggestions and optional auto-assignment of new requests
+
+-- Singleton settings row for the engine
+CREATE TABLE public.pm_assignment_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  auto_assign BOOLEAN NOT NULL DEFAULT false,
+  strategy TEXT NOT NULL DEFAULT 'least_loaded' CHECK (strategy IN ('least_loaded', 'round_robin')),
+  -- Rotation pointer for the round-robin strategy
+  last_assigned_pm_id UUID REFERENCES public.project_managers(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.pm_assignment_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view PM assignment settings"
+ON public.pm_assignment_settings
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_pm_assignment_settings_updated_at
+BEFORE UPDATE ON public.pm_assignment_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.pm_assignment_settings (auto_assign, strategy) VALUES (false, 'least_loaded');
+
+-- Significant words of a specialization or service name, so "Mobile Apps" matches "Mobile App Development"
+CREATE OR REPLACE FUNCTION public.specialization_keywords(_text TEXT)
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT coalesce(array_agg(DISTINCT word), '{}')
+  FROM regexp_split_to_table(lower(coalesce(_text, '')), '[^a-z0-9]+') AS word
+  WHERE word NOT IN ('', 'and', 'app', 'apps', 'development', 'solutions', 'solution', 'integration', 'design', 'services', 'e');
+$$;
+
+-- Score every PM for a request. Ineligible PMs are returned too, with the reason, so admins can see why.
+CREATE OR REPLACE FUNCTION public.rank_project_managers(_request_id UUID)
+RETURNS TABLE (pm_id UUID, pm_name TEXT, score INTEGER, eligible BOOLEAN, reasons TEXT[])
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _request RECORD;
+  _settings public.pm_assignment_settings;
+  _wanted TEXT[];
+  _pm RECORD;
+  _rotation UUID[];
+  _next_index INTEGER;
+  _position INTEGER;
+  _score INTEGER;
+  _reasons TEXT[];
+  _free INTEGER;
+BEGIN
+  SELECT sr.id, sr.priority, coalesce(nullif(sr.service_type, 'other'), s.title) AS service
+  INTO _request
+  FROM public.service_requests sr
+  LEFT JOIN public.services s ON s.id = sr.service_id
+  WHERE sr.id = _request_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  SELECT * INTO _settings FROM public.pm_assignment_settings LIMIT 1;
+  _wanted := public.specialization_keywords(_request.service);
+
+  -- Round-robin order is by name; the PM after the last one assigned is next
+  SELECT array_agg(id ORDER BY name, id) INTO _rotation FROM public.project_managers;
+  _next_index := coalesce(array_position(_rotation, _settings.last_assigned_pm_id), 0) % greatest(cardinality(_rotation), 1) + 1;
+
+  FOR _pm IN SELECT * FROM public.project_managers ORDER BY name LOOP
+    _score := 0;
+    _reasons := '{}';
+    _free := _pm.max_concurrent_projects - _pm.active_project_count;
+
+    -- Specialization
+    IF _pm.specialization IS NOT NULL AND public.specialization_keywords(_pm.specialization) && _wanted THEN
+      _score := _score + 50;
+      _reasons := _reasons || format('Specializes in %s', _pm.specialization);
+    ELSIF lower(coalesce(_pm.specialization, '')) = 'general' THEN
+      _score := _score + 15;
+      _reasons := _reasons || 'Generalist'::text;
+    ELSIF _request.service IS NOT NULL THEN
+      _reasons := _reasons || format('No %s specialization', _request.service);
+    END IF;
+
+    -- Strategy
+    IF _settings.strategy = 'round_robin' THEN
+      _position := (array_position(_rotation, _pm.id) - _next_index + cardinality(_rotation)) % cardinality(_rotation);
+      _score := _score + greatest(30 - _position * 10, 0);
+      IF _position = 0 THEN
+        _reasons := _reasons || 'Next in round-robin rotation'::text;
+      END IF;
+    ELSE
+      _score := _score + round(30 * greatest(_free, 0)::numeric / _pm.max_concurrent_projects)::integer;
+    END IF;
+    _reasons := _reasons || format('%s of %s projects active', _pm.active_project_count, _pm.max_concurrent_projects);
+
+    -- Urgent work goes to whoever has the most room
+    IF _request.priority IN ('high', 'urgent') AND _free > 1 THEN
+      _score := _score + least(_free, 4) * 5;
+      _reasons := _reasons || format('%s priority: %s free slots', initcap(_request.priority), _free);
+    END IF;
+
+    pm_id := _pm.id;
+    pm_name := _pm.name;
+    score := _score;
+    eligible := _pm.is_available;
+    reasons := CASE
+      WHEN NOT _pm.accepting_projects THEN ARRAY['Not accepting new projects'] || _reasons
+      WHEN _free <= 0 THEN ARRAY['At capacity'] || _reasons
+      ELSE _reasons
+    END;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.rank_project_managers(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Admin-facing suggestions, best first
+CREATE OR REPLACE FUNCTION public.suggest_project_managers(_request_id UUID)
+RETURNS TABLE (pm_id UUID, pm_name TEXT, score INTEGER, eligible BOOLEAN, reasons TEXT[])
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Only admins can view PM suggestions';
+  END IF;
+
+  RETURN QUERY
+  SELECT r.pm_id, r.pm_name, r.score, r.eligible, r.reasons
+  FROM public.rank_project_managers(_request_id) r
+  ORDER BY r.eligible DESC, r.score DESC, r.pm_name;
+END;
+$$;
+
+-- Assign a new request to the best eligible PM when auto-assign is on
+CREATE OR REPLACE FUNCTION public.auto_assign_project_manager()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.pm_assignment_settings;
+  _best UUID;
+BEGIN
+  SELECT * INTO _settings FROM public.pm_assignment_settings LIMIT 1;
+  IF NOT FOUND OR NOT _settings.auto_assign OR NEW.assigned_pm_id IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT r.pm_id INTO _best
+  FROM public.rank_project_managers(NEW.id) r
+  WHERE r.eligible
+  ORDER BY r.score DESC, r.pm_name
+  LIMIT 1;
+
+  IF _best IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  -- Losing a race for the last slot must not fail the client's request; it just stays unassigned
+  -- The insert came from the client, so mark the assignment as server-side for guard_client_request_changes
+  PERFORM set_config('app.pm_assignment', 'on', true);
+  BEGIN
+    UPDATE public.service_requests
+    SET assigned_pm_id = _best, pm_assigned_at = now()
+    WHERE id = NEW.id;
+  EXCEPTION WHEN raise_exception THEN
+    PERFORM set_config('app.pm_assignment', 'off', true);
+    RETURN NULL;
+  END;
+  PERFORM set_config('app.pm_assignment', 'off', true);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER auto_assign_new_service_request
+AFTER INSERT ON public.service_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.auto_assign_project_manager();
+
+-- Every assignment, manual or automatic, advances the round-robin pointer
+CREATE OR REPLACE FUNCTION public.track_last_assigned_pm()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.assigned_pm_id IS NOT NULL AND NEW.assigned_pm_id IS DISTINCT FROM OLD.assigned_pm_id THEN
+    UPDATE public.pm_assignment_settings SET last_assigned_pm_id = NEW.assigned_pm_id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER track_service_request_last_assigned_pm
+AFTER UPDATE OF assigned_pm_id ON public.service_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.track_last_assigned_pm();
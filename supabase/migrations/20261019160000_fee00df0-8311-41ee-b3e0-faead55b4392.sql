@@ -0,0 +1,395 @@
+-- GST quotes and invoices
+
+-- Seller details printed on every document; a single row edited from the admin Payments tab
+CREATE TABLE public.billing_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  legal_name TEXT NOT NULL DEFAULT 'THRYLOS',
+  gstin TEXT,
+  address TEXT,
+  state TEXT,
+  email TEXT,
+  phone TEXT,
+  invoice_prefix TEXT NOT NULL DEFAULT 'INV',
+  quote_prefix TEXT NOT NULL DEFAULT 'QT',
+  default_payment_terms_days INTEGER NOT NULL DEFAULT 7 CHECK (default_payment_terms_days >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.billing_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view billing settings"
+ON public.billing_settings
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_billing_settings_updated_at
+BEFORE UPDATE ON public.billing_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.billing_settings (legal_name) VALUES ('THRYLOS');
+
+-- Documents are numbered consecutively per kind and Indian financial year (April to March)
+CREATE TABLE public.invoice_number_counters (
+  kind TEXT NOT NULL,
+  financial_year TEXT NOT NULL,
+  last_number INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (kind, financial_year)
+);
+
+ALTER TABLE public.invoice_number_counters ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE public.invoices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  kind TEXT NOT NULL DEFAULT 'invoice' CHECK (kind IN ('quote', 'invoice')),
+  -- Assigned when the document is issued; drafts have none
+  invoice_number TEXT UNIQUE,
+  service_request_id UUID NOT NULL REFERENCES public.service_requests(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  payment_request_id UUID REFERENCES public.payment_requests(id) ON DELETE SET NULL,
+  -- The quote an invoice was converted from
+  quote_id UUID REFERENCES public.invoices(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'issued', 'accepted', 'paid', 'void')),
+  issue_date DATE,
+  due_date DATE,
+  -- Buyer
+  buyer_name TEXT NOT NULL,
+  buyer_gstin TEXT,
+  buyer_address TEXT,
+  place_of_supply TEXT NOT NULL,
+  -- intra: CGST + SGST, inter: IGST. Derived from place_of_supply and the seller's state.
+  supply_type TEXT NOT NULL DEFAULT 'intra' CHECK (supply_type IN ('intra', 'inter')),
+  -- Seller snapshot taken at issue so later edits to billing_settings don't rewrite old documents
+  seller_name TEXT,
+  seller_gstin TEXT,
+  seller_address TEXT,
+  seller_state TEXT,
+  currency TEXT NOT NULL DEFAULT 'INR',
+  subtotal NUMERIC(12,2) NOT NULL DEFAULT 0,
+  discount_total NUMERIC(12,2) NOT NULL DEFAULT 0,
+  taxable_total NUMERIC(12,2) NOT NULL DEFAULT 0,
+  cgst_total NUMERIC(12,2) NOT NULL DEFAULT 0,
+  sgst_total NUMERIC(12,2) NOT NULL DEFAULT 0,
+  igst_total NUMERIC(12,2) NOT NULL DEFAULT 0,
+  grand_total NUMERIC(12,2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  issued_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT due_after_issue CHECK (due_date IS NULL OR issue_date IS NULL OR due_date >= issue_date)
+);
+
+CREATE TABLE public.invoice_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.invoices(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  description TEXT NOT NULL,
+  hsn_sac TEXT,
+  quantity NUMERIC(12,2) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_price NUMERIC(12,2) NOT NULL CHECK (unit_price >= 0),
+  discount NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (discount >= 0),
+  gst_rate NUMERIC(5,2) NOT NULL DEFAULT 18 CHECK (gst_rate IN (0, 0.25, 3, 5, 12, 18, 28)),
+  -- Computed by trigger
+  taxable_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  cgst_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  sgst_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  igst_amount NUMERIC(12,2) NOT NULL DEFAULT 0,
+  line_total NUMERIC(12,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT discount_within_amount CHECK (discount <= quantity * unit_price)
+);
+
+-- Enable RLS
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_items ENABLE ROW LEVEL SECURITY;
+
+-- Clients see their issued documents, never drafts
+CREATE POLICY "Users can view own invoices"
+ON public.invoices
+FOR SELECT
+USING (auth.uid() = user_id AND status <> 'draft');
+
+CREATE POLICY "Users can view own invoice items"
+ON public.invoice_items
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.invoices i
+    WHERE i.id = invoice_id AND i.user_id = auth.uid() AND i.status <> 'draft'
+  )
+);
+
+-- Admins read directly; writes go through admin-api
+CREATE POLICY "Admins can view invoices"
+ON public.invoices
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Admins can view invoice items"
+ON public.invoice_items
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_invoices_updated_at
+BEFORE UPDATE ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX IF NOT EXISTS idx_invoices_service_request_id ON public.invoices(service_request_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_user_id ON public.invoices(user_id);
+CREATE INDEX IF NOT EXISTS idx_invoices_payment_request_id ON public.invoices(payment_request_id);
+CREATE INDEX IF NOT EXISTS idx_invoice_items_invoice_id ON public.invoice_items(invoice_id, position);
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.invoices;
+
+-- Line amounts. Tax is split in half for intra-state supply and charged as IGST otherwise.
+CREATE OR REPLACE FUNCTION public.compute_invoice_item()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _invoice public.invoices;
+BEGIN
+  SELECT * INTO _invoice FROM public.invoices WHERE id = NEW.invoice_id;
+  IF _invoice.status <> 'draft' THEN
+    RAISE EXCEPTION 'Issued documents cannot be edited';
+  END IF;
+
+  NEW.taxable_amount := round(NEW.quantity * NEW.unit_price - NEW.discount, 2);
+  IF _invoice.supply_type = 'intra' THEN
+    NEW.cgst_amount := round(NEW.taxable_amount * NEW.gst_rate / 200, 2);
+    NEW.sgst_amount := NEW.cgst_amount;
+    NEW.igst_amount := 0;
+  ELSE
+    NEW.cgst_amount := 0;
+    NEW.sgst_amount := 0;
+    NEW.igst_amount := round(NEW.taxable_amount * NEW.gst_rate / 100, 2);
+  END IF;
+  NEW.line_total := NEW.taxable_amount + NEW.cgst_amount + NEW.sgst_amount + NEW.igst_amount;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER compute_invoice_item_amounts
+BEFORE INSERT OR UPDATE ON public.invoice_items
+FOR EACH ROW
+EXECUTE FUNCTION public.compute_invoice_item();
+
+CREATE OR REPLACE FUNCTION public.guard_invoice_item_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.invoices WHERE id = OLD.invoice_id AND status <> 'draft') THEN
+    RAISE EXCEPTION 'Issued documents cannot be edited';
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER guard_invoice_item_delete
+BEFORE DELETE ON public.invoice_items
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_invoice_item_delete();
+
+-- Roll line amounts up into the invoice
+CREATE OR REPLACE FUNCTION public.refresh_invoice_totals(_invoice_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.invoices i
+  SET subtotal = t.subtotal,
+      discount_total = t.discount_total,
+      taxable_total = t.taxable_total,
+      cgst_total = t.cgst_total,
+      sgst_total = t.sgst_total,
+      igst_total = t.igst_total,
+      grand_total = t.grand_total
+  FROM (
+    SELECT
+      coalesce(sum(round(quantity * unit_price, 2)), 0) AS subtotal,
+      coalesce(sum(discount), 0) AS discount_total,
+      coalesce(sum(taxable_amount), 0) AS taxable_total,
+      coalesce(sum(cgst_amount), 0) AS cgst_total,
+      coalesce(sum(sgst_amount), 0) AS sgst_total,
+      coalesce(sum(igst_amount), 0) AS igst_total,
+      coalesce(sum(line_total), 0) AS grand_total
+    FROM public.invoice_items
+    WHERE invoice_id = _invoice_id
+  ) t
+  WHERE i.id = _invoice_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_invoice_totals()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_invoice_totals(coalesce(NEW.invoice_id, OLD.invoice_id));
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_invoice_totals
+AFTER INSERT OR UPDATE OR DELETE ON public.invoice_items
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_invoice_totals();
+
+-- Derive the supply type, lock issued documents, and number and snapshot them on issue
+CREATE OR REPLACE FUNCTION public.prepare_invoice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.billing_settings;
+  _fy_start INTEGER;
+  _fy TEXT;
+  _next INTEGER;
+BEGIN
+  SELECT * INTO _settings FROM public.billing_settings LIMIT 1;
+
+  IF TG_OP = 'UPDATE' AND OLD.status <> 'draft' THEN
+    -- Only the lifecycle may move once issued: issued -> accepted (quotes) / paid (invoices) / void
+    IF (to_jsonb(NEW) - ARRAY['status', 'payment_request_id', 'updated_at'])
+       IS DISTINCT FROM (to_jsonb(OLD) - ARRAY['status', 'payment_request_id', 'updated_at']) THEN
+      RAISE EXCEPTION 'Issued documents cannot be edited';
+    END IF;
+    IF NEW.status = 'draft' THEN
+      RAISE EXCEPTION 'Issued documents cannot go back to draft';
+    END IF;
+    IF (NEW.status = 'accepted' AND NEW.kind <> 'quote') OR (NEW.status = 'paid' AND NEW.kind <> 'invoice') THEN
+      RAISE EXCEPTION 'A % cannot be marked %', NEW.kind, NEW.status;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  NEW.supply_type := CASE
+    WHEN _settings.state IS NULL OR lower(trim(NEW.place_of_supply)) = lower(trim(_settings.state)) THEN 'intra'
+    ELSE 'inter'
+  END;
+
+  IF NEW.status <> 'draft' THEN
+    IF NOT EXISTS (SELECT 1 FROM public.invoice_items WHERE invoice_id = NEW.id) THEN
+      RAISE EXCEPTION 'Add at least one line item before issuing';
+    END IF;
+    IF NEW.status <> 'issued' THEN
+      RAISE EXCEPTION 'A draft can only be issued';
+    END IF;
+
+    NEW.issue_date := coalesce(NEW.issue_date, current_date);
+    NEW.due_date := coalesce(NEW.due_date, NEW.issue_date + _settings.default_payment_terms_days);
+    NEW.issued_at := now();
+    NEW.seller_name := _settings.legal_name;
+    NEW.seller_gstin := _settings.gstin;
+    NEW.seller_address := _settings.address;
+    NEW.seller_state := _settings.state;
+
+    _fy_start := extract(year FROM NEW.issue_date)::integer - CASE WHEN extract(month FROM NEW.issue_date) < 4 THEN 1 ELSE 0 END;
+    _fy := _fy_start || '-' || lpad(((_fy_start + 1) % 100)::text, 2, '0');
+
+    INSERT INTO public.invoice_number_counters (kind, financial_year, last_number)
+    VALUES (NEW.kind, _fy, 1)
+    ON CONFLICT (kind, financial_year) DO UPDATE SET last_number = invoice_number_counters.last_number + 1
+    RETURNING last_number INTO _next;
+
+    NEW.invoice_number := format('%s/%s/%s',
+      CASE WHEN NEW.kind = 'quote' THEN _settings.quote_prefix ELSE _settings.invoice_prefix END,
+      _fy, lpad(_next::text, 4, '0'));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_invoice
+BEFORE INSERT OR UPDATE ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.prepare_invoice();
+
+-- Issued documents are kept for the record; void them instead
+CREATE OR REPLACE FUNCTION public.guard_invoice_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status <> 'draft' THEN
+    RAISE EXCEPTION 'Only drafts can be deleted; void issued documents instead';
+  END IF;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER guard_invoice_delete
+BEFORE DELETE ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_invoice_delete();
+
+-- A changed supply type re-splits the taxes on every line. prepare_invoice derives supply_type in a
+-- BEFORE trigger, so it is never in an UPDATE's column list; compare OLD and NEW on every update instead.
+CREATE OR REPLACE FUNCTION public.recompute_invoice_items()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'draft' AND NEW.supply_type IS DISTINCT FROM OLD.supply_type THEN
+    UPDATE public.invoice_items SET gst_rate = gst_rate WHERE invoice_id = NEW.id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER recompute_invoice_items
+AFTER UPDATE ON public.invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.recompute_invoice_items();
+
+-- Moving the seller to another state changes which drafts are intra-state; touching each draft
+-- lets prepare_invoice derive the supply type again
+CREATE OR REPLACE FUNCTION public.refresh_draft_supply_types()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.state IS DISTINCT FROM OLD.state THEN
+    UPDATE public.invoices SET place_of_supply = place_of_supply WHERE status = 'draft';
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_draft_supply_types
+AFTER UPDATE OF state ON public.billing_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_draft_supply_types();
+
+-- Settling the linked UPI payment settles the invoice
+CREATE OR REPLACE FUNCTION public.mark_invoice_paid()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'paid' AND OLD.status IS DISTINCT FROM 'paid' THEN
+    UPDATE public.invoices SET status = 'paid'
+    WHERE payment_request_id = NEW.id AND kind = 'invoice' AND status = 'issued';
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER mark_invoice_paid
+AFTER UPDATE OF status ON public.payment_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.mark_invoice_paid();
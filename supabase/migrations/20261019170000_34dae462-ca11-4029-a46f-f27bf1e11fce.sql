@@ -0,0 +1,206 @@
+-- Admin verification of UPI payments
+
+-- Clients submit a transaction ID (and optionally a screenshot); an admin confirms or rejects it
+ALTER TABLE public.payment_requests DROP CONSTRAINT IF EXISTS payment_requests_status_check;
+ALTER TABLE public.payment_requests
+  ADD CONSTRAINT payment_requests_status_check
+  CHECK (status IN ('pending', 'awaiting_verification', 'paid', 'cancelled'));
+
+ALTER TABLE public.payment_requests
+  -- Object path in the private request-files bucket: <request id>/payments/<payment id>/<file>
+  ADD COLUMN screenshot_path TEXT,
+  ADD COLUMN submitted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN verified_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN verified_by UUID,
+  ADD COLUMN rejection_reason TEXT,
+  ADD COLUMN rejected_at TIMESTAMP WITH TIME ZONE;
+
+-- A transaction ID can only settle one payment
+CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_requests_transaction_id
+ON public.payment_requests(lower(transaction_id))
+WHERE transaction_id IS NOT NULL AND status IN ('awaiting_verification', 'paid');
+
+-- Clients previously could update any column of their own payments, including amount and status
+DROP POLICY IF EXISTS "Users can update own payments" ON public.payment_requests;
+
+-- Status moves through submit_payment_proof and review_payment only; amounts are fixed once a
+-- client has submitted proof
+CREATE OR REPLACE FUNCTION public.guard_payment_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(current_setting('app.payment_review', true), 'off') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND NOT (OLD.status IN ('pending', 'cancelled') AND NEW.status IN ('pending', 'cancelled')) THEN
+    RAISE EXCEPTION 'Payments are confirmed or rejected through payment review';
+  END IF;
+
+  IF OLD.status <> 'pending' AND (
+    NEW.amount IS DISTINCT FROM OLD.amount
+    OR NEW.upi_id IS DISTINCT FROM OLD.upi_id
+    OR NEW.transaction_id IS DISTINCT FROM OLD.transaction_id
+    OR NEW.screenshot_path IS DISTINCT FROM OLD.screenshot_path
+    OR NEW.paid_at IS DISTINCT FROM OLD.paid_at
+  ) THEN
+    RAISE EXCEPTION 'Only pending payment requests can be edited';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_payment_request
+BEFORE UPDATE ON public.payment_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_payment_request();
+
+-- The one update clients may make: submit proof for their own pending payment
+CREATE OR REPLACE FUNCTION public.submit_payment_proof(
+  _payment_id UUID,
+  _transaction_id TEXT,
+  _screenshot_path TEXT DEFAULT NULL
+)
+RETURNS public.payment_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payment_requests;
+  _txn TEXT := trim(_transaction_id);
+BEGIN
+  SELECT * INTO _payment FROM public.payment_requests WHERE id = _payment_id FOR UPDATE;
+
+  IF _payment.id IS NULL OR _payment.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Payment request not found';
+  END IF;
+  IF _payment.status <> 'pending' THEN
+    RAISE EXCEPTION 'This payment is not awaiting a transaction ID';
+  END IF;
+  IF _txn IS NULL OR _txn !~ '^[A-Za-z0-9-]{6,40}$' THEN
+    RAISE EXCEPTION 'Enter the transaction ID (UTR) shown in your UPI app';
+  END IF;
+  -- Screenshots are uploaded to the payment's folder of the request in the private request-files bucket
+  IF _screenshot_path IS NOT NULL
+     AND _screenshot_path !~ ('^' || _payment.service_request_id || '/payments/' || _payment.id || '/[^/]+$') THEN
+    RAISE EXCEPTION 'Invalid screenshot';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.payment_requests
+    WHERE lower(transaction_id) = lower(_txn) AND status IN ('awaiting_verification', 'paid') AND id <> _payment_id
+  ) THEN
+    RAISE EXCEPTION 'This transaction ID has already been submitted';
+  END IF;
+
+  PERFORM set_config('app.payment_review', 'on', true);
+  UPDATE public.payment_requests
+  SET status = 'awaiting_verification',
+      transaction_id = _txn,
+      screenshot_path = _screenshot_path,
+      submitted_at = now(),
+      rejection_reason = NULL,
+      rejected_at = NULL
+  WHERE id = _payment_id
+  RETURNING * INTO _payment;
+  PERFORM set_config('app.payment_review', 'off', true);
+
+  RETURN _payment;
+END;
+$$;
+
+-- Admin decision, called by admin-api with the acting admin. Confirming also settles offline
+-- payments that never had a transaction ID; rejecting sends the request back to the client.
+-- Either outcome is posted to the request thread so the client sees it.
+CREATE OR REPLACE FUNCTION public.review_payment(
+  _payment_id UUID,
+  _approve BOOLEAN,
+  _reason TEXT,
+  _admin_id UUID,
+  _admin_label TEXT
+)
+RETURNS public.payment_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payment_requests;
+  _amount TEXT;
+BEGIN
+  SELECT * INTO _payment FROM public.payment_requests WHERE id = _payment_id FOR UPDATE;
+
+  IF _payment.id IS NULL THEN
+    RAISE EXCEPTION 'Payment request not found';
+  END IF;
+
+  _amount := 'INR ' || to_char(_payment.amount, 'FM99,99,99,990.00');
+
+  PERFORM set_config('app.payment_review', 'on', true);
+
+  IF _approve THEN
+    IF _payment.status NOT IN ('pending', 'awaiting_verification') THEN
+      RAISE EXCEPTION 'Only pending or submitted payments can be confirmed';
+    END IF;
+
+    UPDATE public.payment_requests
+    SET status = 'paid', paid_at = now(), verified_at = now(), verified_by = _admin_id,
+        rejection_reason = NULL, rejected_at = NULL
+    WHERE id = _payment_id
+    RETURNING * INTO _payment;
+
+    INSERT INTO public.request_messages (service_request_id, author_type, author_id, author_name, visibility, body)
+    VALUES (_payment.service_request_id, 'admin', _admin_id, _admin_label, 'client_visible',
+      format('Payment of %s received and confirmed%s. Thank you!', _amount,
+        CASE WHEN _payment.transaction_id IS NOT NULL THEN ' (transaction ' || _payment.transaction_id || ')' ELSE '' END));
+  ELSE
+    IF _payment.status NOT IN ('awaiting_verification', 'paid') THEN
+      RAISE EXCEPTION 'Only submitted or confirmed payments can be rejected';
+    END IF;
+    IF nullif(trim(_reason), '') IS NULL THEN
+      RAISE EXCEPTION 'A reason is required to reject a payment';
+    END IF;
+
+    UPDATE public.payment_requests
+    SET status = 'pending', paid_at = NULL, verified_at = NULL, verified_by = NULL,
+        rejection_reason = trim(_reason), rejected_at = now()
+    WHERE id = _payment_id
+    RETURNING * INTO _payment;
+
+    INSERT INTO public.request_messages (service_request_id, author_type, author_id, author_name, visibility, body)
+    VALUES (_payment.service_request_id, 'admin', _admin_id, _admin_label, 'client_visible',
+      format('We could not verify your payment of %s: %s. Please check the transaction ID and submit it again.',
+        _amount, trim(_reason)));
+  END IF;
+
+  PERFORM set_config('app.payment_review', 'off', true);
+
+  RETURN _payment;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.review_payment(UUID, BOOLEAN, TEXT, UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- A confirmed payment that is marked not received reopens the invoice it settled, so the invoice
+-- no longer shows paid while the client is asked to pay again
+CREATE OR REPLACE FUNCTION public.mark_invoice_paid()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'paid' AND OLD.status IS DISTINCT FROM 'paid' THEN
+    UPDATE public.invoices SET status = 'paid'
+    WHERE payment_request_id = NEW.id AND kind = 'invoice' AND status = 'issued';
+  ELSIF OLD.status = 'paid' AND NEW.status IS DISTINCT FROM 'paid' THEN
+    UPDATE public.invoices SET status = 'issued'
+    WHERE payment_request_id = NEW.id AND kind = 'invoice' AND status = 'paid';
+  END IF;
+  RETURN NULL;
+END;
+$$;
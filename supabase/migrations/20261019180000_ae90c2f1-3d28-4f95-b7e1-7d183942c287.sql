@@ -0,0 +1,144 @@
+-- OTP hardening: hashed codes, attempt limits and send throttles
+
+-- The original policies let anyone read, create and update OTP rows through the public API.
+-- Only the edge functions (service role) touch this table now.
+DROP POLICY IF EXISTS "Anyone can create OTP" ON public.otp_verifications;
+DROP POLICY IF EXISTS "Anyone can verify OTP" ON public.otp_verifications;
+DROP POLICY IF EXISTS "Anyone can update OTP" ON public.otp_verifications;
+
+-- Outstanding plaintext codes are discarded; users simply request a new one
+DELETE FROM public.otp_verifications;
+
+ALTER TABLE public.otp_verifications DROP COLUMN otp_code;
+
+ALTER TABLE public.otp_verifications
+  ADD COLUMN code_hash TEXT NOT NULL,
+  ADD COLUMN purpose TEXT NOT NULL CHECK (purpose IN ('signup', 'login', 'password_reset', 'pm_login')),
+  ADD COLUMN attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN locked_until TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_otp_verifications_email_purpose ON public.otp_verifications(email, purpose, created_at DESC);
+
+-- One row per code sent, for the per-email and per-IP throttles
+CREATE TABLE public.otp_send_log (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  email TEXT NOT NULL,
+  ip TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.otp_send_log ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_otp_send_log_email ON public.otp_send_log(email, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_otp_send_log_ip ON public.otp_send_log(ip, created_at DESC);
+
+-- Records a send if the throttles allow it. Returns 0 when allowed, otherwise the number of
+-- seconds until the caller may try again.
+--   * an email locked after too many wrong codes gets no new code until the lock ends
+--   * 60 seconds between codes for the same email
+--   * at most 5 codes per email and 20 per IP address in any hour
+CREATE OR REPLACE FUNCTION public.register_otp_send(_email TEXT, _ip TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _normalized TEXT := lower(trim(_email));
+  _until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  -- Serialise sends per email so concurrent requests can't slip past the counters
+  PERFORM pg_advisory_xact_lock(hashtext('otp:' || _normalized));
+
+  DELETE FROM public.otp_send_log WHERE created_at < now() - interval '1 day';
+
+  SELECT max(locked_until) INTO _until
+  FROM public.otp_verifications
+  WHERE email = _normalized AND locked_until > now();
+
+  IF _until IS NULL THEN
+    SELECT max(created_at) + interval '60 seconds' INTO _until
+    FROM public.otp_send_log
+    WHERE email = _normalized AND created_at > now() - interval '60 seconds';
+  END IF;
+
+  IF _until IS NULL THEN
+    SELECT created_at + interval '1 hour' INTO _until
+    FROM public.otp_send_log
+    WHERE email = _normalized AND created_at > now() - interval '1 hour'
+    ORDER BY created_at DESC
+    OFFSET 4 LIMIT 1;
+  END IF;
+
+  IF _until IS NULL THEN
+    SELECT created_at + interval '1 hour' INTO _until
+    FROM public.otp_send_log
+    WHERE ip = _ip AND created_at > now() - interval '1 hour'
+    ORDER BY created_at DESC
+    OFFSET 19 LIMIT 1;
+  END IF;
+
+  IF _until IS NOT NULL THEN
+    RETURN greatest(ceil(extract(epoch FROM _until - now()))::integer, 1);
+  END IF;
+
+  INSERT INTO public.otp_send_log (email, ip) VALUES (_normalized, _ip);
+  RETURN 0;
+END;
+$$;
+
+-- Checks a code against the latest one sent for the email and purpose. Every wrong guess
+-- counts; the fifth burns the code and locks the email for 15 minutes.
+CREATE OR REPLACE FUNCTION public.consume_otp(_email TEXT, _purpose TEXT, _code_hash TEXT)
+RETURNS TABLE (result TEXT, retry_after INTEGER, attempts_left INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _max_attempts CONSTANT INTEGER := 5;
+  _otp public.otp_verifications;
+BEGIN
+  SELECT * INTO _otp
+  FROM public.otp_verifications
+  WHERE email = lower(trim(_email)) AND purpose = _purpose AND verified = false
+  ORDER BY created_at DESC
+  LIMIT 1
+  FOR UPDATE;
+
+  IF _otp.id IS NULL THEN
+    RETURN QUERY SELECT 'invalid'::text, NULL::integer, 0;
+    RETURN;
+  END IF;
+
+  IF _otp.locked_until > now() THEN
+    RETURN QUERY SELECT 'locked'::text, greatest(ceil(extract(epoch FROM _otp.locked_until - now()))::integer, 1), 0;
+    RETURN;
+  END IF;
+
+  IF _otp.expires_at <= now() THEN
+    RETURN QUERY SELECT 'expired'::text, NULL::integer, 0;
+    RETURN;
+  END IF;
+
+  IF _otp.code_hash = _code_hash THEN
+    UPDATE public.otp_verifications SET verified = true WHERE id = _otp.id;
+    RETURN QUERY SELECT 'ok'::text, NULL::integer, _max_attempts - _otp.attempts;
+    RETURN;
+  END IF;
+
+  IF _otp.attempts + 1 >= _max_attempts THEN
+    UPDATE public.otp_verifications
+    SET attempts = attempts + 1, locked_until = now() + interval '15 minutes'
+    WHERE id = _otp.id;
+    RETURN QUERY SELECT 'locked'::text, 15 * 60, 0;
+    RETURN;
+  END IF;
+
+  UPDATE public.otp_verifications SET attempts = attempts + 1 WHERE id = _otp.id;
+  RETURN QUERY SELECT 'invalid'::text, NULL::integer, _max_attempts - _otp.attempts - 1;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.register_otp_send(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.consume_otp(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,25 @@
+-- Step-up verification for sensitive account operations
+
+-- Codes sent to signed-in users to confirm it's really them
+ALTER TABLE public.otp_verifications DROP CONSTRAINT IF EXISTS otp_verifications_purpose_check;
+ALTER TABLE public.otp_verifications
+  ADD CONSTRAINT otp_verifications_purpose_check
+  CHECK (purpose IN ('signup', 'login', 'password_reset', 'pm_login', 'step_up'));
+
+-- Single-use proof that the user passed a second factor moments ago, scoped to one operation.
+-- Only a hash of the token is stored.
+CREATE TABLE public.step_up_tokens (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  purpose TEXT NOT NULL CHECK (purpose IN ('change_password', 'change_email', 'delete_account')),
+  method TEXT NOT NULL DEFAULT 'email_otp',
+  token_hash TEXT NOT NULL UNIQUE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Service role only
+ALTER TABLE public.step_up_tokens ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_step_up_tokens_user_id ON public.step_up_tokens(user_id, purpose);
@@ -0,0 +1,15 @@
+-- Indexed email lookup for the auth edge functions, replacing listUsers() scans that only saw the first page
+
+-- auth.users stores emails lowercased, so this hits its email index
+CREATE OR REPLACE FUNCTION public.find_user_id_by_email(_email TEXT)
+RETURNS UUID
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT id FROM auth.users WHERE email = lower(trim(_email)) LIMIT 1
+$$;
+
+-- Answers "is this email registered?", so only the service role may call it
+REVOKE EXECUTE ON FUNCTION public.find_user_id_by_email(TEXT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,316 @@
+-- TOTP two-factor authentication for clients, admins and project managers
+
+-- One authenticator per account. A factor belongs to either an auth user or a PM (PMs have no auth user).
+-- enabled_at stays null until the first code is confirmed, so abandoned enrollments never gate a login.
+CREATE TABLE public.totp_factors (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  pm_id UUID UNIQUE REFERENCES public.project_managers(id) ON DELETE CASCADE,
+  -- AES-GCM encrypted by the two-factor edge function; the key never reaches the database
+  secret_ciphertext TEXT NOT NULL,
+  enabled_at TIMESTAMP WITH TIME ZONE,
+  -- Last accepted 30-second time step, so a code can't be replayed within its window
+  last_used_step BIGINT,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (num_nonnulls(user_id, pm_id) = 1)
+);
+
+-- Single-use codes for when the authenticator is lost; only hashes are stored
+CREATE TABLE public.totp_recovery_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  factor_id UUID NOT NULL REFERENCES public.totp_factors(id) ON DELETE CASCADE,
+  code_hash TEXT NOT NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Auth sessions that passed the second factor. Rows go away with the session on sign-out.
+CREATE TABLE public.two_factor_sessions (
+  session_id UUID NOT NULL PRIMARY KEY REFERENCES auth.sessions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  method TEXT NOT NULL CHECK (method IN ('totp', 'recovery_code')),
+  verified_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- PM sessions carry the same mark
+ALTER TABLE public.pm_sessions ADD COLUMN two_factor_verified_at TIMESTAMP WITH TIME ZONE;
+
+-- Service role only
+ALTER TABLE public.totp_factors ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.totp_recovery_codes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.two_factor_sessions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX IF NOT EXISTS idx_totp_recovery_codes_factor_id ON public.totp_recovery_codes(factor_id);
+CREATE INDEX IF NOT EXISTS idx_two_factor_sessions_user_id ON public.two_factor_sessions(user_id);
+
+CREATE TRIGGER update_totp_factors_updated_at
+BEFORE UPDATE ON public.totp_factors
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Whether each kind of account must have 2FA before it can use the app
+CREATE TABLE public.two_factor_policies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  role TEXT NOT NULL UNIQUE CHECK (role IN ('client', 'project_manager', 'admin')),
+  required BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.two_factor_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view two-factor policies"
+ON public.two_factor_policies
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE TRIGGER update_two_factor_policies_updated_at
+BEFORE UPDATE ON public.two_factor_policies
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+INSERT INTO public.two_factor_policies (role, required)
+VALUES ('client', false), ('project_manager', false), ('admin', false);
+
+-- True when the caller's session may use the app: it passed 2FA, or the account has no authenticator
+-- and its role doesn't require one. Reads the session id from the JWT.
+CREATE OR REPLACE FUNCTION public.two_factor_satisfied()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN auth.uid() IS NULL THEN true
+    WHEN EXISTS (
+      SELECT 1 FROM public.two_factor_sessions
+      WHERE session_id = NULLIF(auth.jwt() ->> 'session_id', '')::uuid AND user_id = auth.uid()
+    ) THEN true
+    WHEN EXISTS (
+      SELECT 1 FROM public.totp_factors WHERE user_id = auth.uid() AND enabled_at IS NOT NULL
+    ) THEN false
+    ELSE NOT COALESCE((
+      SELECT required FROM public.two_factor_policies
+      WHERE role = CASE WHEN has_role(auth.uid(), 'admin'::app_role) THEN 'admin' ELSE 'client' END
+    ), false)
+  END
+$$;
+
+-- Data tables are off limits to sessions that still owe a second factor. RESTRICTIVE policies are ANDed
+-- with the existing ones, so they only ever narrow access. Public catalogue tables are left alone.
+DO $$
+DECLARE
+  _table TEXT;
+BEGIN
+  FOREACH _table IN ARRAY ARRAY[
+    'profiles', 'service_requests', 'payment_requests', 'request_messages', 'request_status_history',
+    'invoices', 'invoice_items', 'billing_settings', 'audit_events', 'contact_messages',
+    'project_managers', 'pm_assignment_settings', 'two_factor_policies'
+  ] LOOP
+    EXECUTE format(
+      'CREATE POLICY "Require completed two-factor sign-in" ON public.%I AS RESTRICTIVE FOR ALL TO authenticated '
+      'USING ((SELECT public.two_factor_satisfied())) WITH CHECK ((SELECT public.two_factor_satisfied()))',
+      _table
+    );
+  END LOOP;
+END $$;
+
+-- Same for the request files bucket
+CREATE POLICY "Require completed two-factor sign-in for request files"
+ON storage.objects
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING (bucket_id <> 'request-files' OR (SELECT public.two_factor_satisfied()))
+WITH CHECK (bucket_id <> 'request-files' OR (SELECT public.two_factor_satisfied()));
+
+-- Client RPCs are SECURITY DEFINER and bypass the restrictive two-factor policies on the tables
+-- they write, so each checks the sign-in itself like revoke_my_session
+
+CREATE OR REPLACE FUNCTION public.client_transition_request_status(
+  _request_id UUID,
+  _to_status request_status,
+  _reason TEXT DEFAULT NULL
+)
+RETURNS public.request_status_history
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.two_factor_satisfied() THEN
+    RAISE EXCEPTION 'Two-factor verification required';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.service_requests
+    WHERE id = _request_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  RETURN public.transition_request_status(
+    _request_id,
+    _to_status,
+    'client',
+    auth.uid(),
+    (SELECT email FROM public.profiles WHERE user_id = auth.uid()),
+    _reason
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.submit_payment_proof(
+  _payment_id UUID,
+  _transaction_id TEXT,
+  _screenshot_path TEXT DEFAULT NULL
+)
+RETURNS public.payment_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _payment public.payment_requests;
+  _txn TEXT := trim(_transaction_id);
+BEGIN
+  IF NOT public.two_factor_satisfied() THEN
+    RAISE EXCEPTION 'Two-factor verification required';
+  END IF;
+
+  SELECT * INTO _payment FROM public.payment_requests WHERE id = _payment_id FOR UPDATE;
+
+  IF _payment.id IS NULL OR _payment.user_id IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Payment request not found';
+  END IF;
+  IF _payment.status <> 'pending' THEN
+    RAISE EXCEPTION 'This payment is not awaiting a transaction ID';
+  END IF;
+  IF _txn IS NULL OR _txn !~ '^[A-Za-z0-9-]{6,40}$' THEN
+    RAISE EXCEPTION 'Enter the transaction ID (UTR) shown in your UPI app';
+  END IF;
+  -- Screenshots are uploaded to the payment's folder of the request in the private request-files bucket
+  IF _screenshot_path IS NOT NULL
+     AND _screenshot_path !~ ('^' || _payment.service_request_id || '/payments/' || _payment.id || '/[^/]+$') THEN
+    RAISE EXCEPTION 'Invalid screenshot';
+  END IF;
+  IF EXISTS (
+    SELECT 1 FROM public.payment_requests
+    WHERE lower(transaction_id) = lower(_txn) AND status IN ('awaiting_verification', 'paid') AND id <> _payment_id
+  ) THEN
+    RAISE EXCEPTION 'This transaction ID has already been submitted';
+  END IF;
+
+  PERFORM set_config('app.payment_review', 'on', true);
+  UPDATE public.payment_requests
+  SET status = 'awaiting_verification',
+      transaction_id = _txn,
+      screenshot_path = _screenshot_path,
+      submitted_at = now(),
+      rejection_reason = NULL,
+      rejected_at = NULL
+  WHERE id = _payment_id
+  RETURNING * INTO _payment;
+  PERFORM set_config('app.payment_review', 'off', true);
+
+  RETURN _payment;
+END;
+$$;
+
+-- Mark a thread as read for the calling client or admin
+CREATE OR REPLACE FUNCTION public.mark_request_messages_read(_request_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.two_factor_satisfied() THEN
+    RAISE EXCEPTION 'Two-factor verification required';
+  END IF;
+
+  IF public.has_role(auth.uid(), 'admin') THEN
+    UPDATE public.request_messages
+    SET read_by_admin_at = now()
+    WHERE service_request_id = _request_id
+      AND author_type <> 'admin'
+      AND read_by_admin_at IS NULL;
+  ELSIF EXISTS (
+    SELECT 1 FROM public.service_requests
+    WHERE id = _request_id AND user_id = auth.uid()
+  ) THEN
+    UPDATE public.request_messages
+    SET read_by_client_at = now()
+    WHERE service_request_id = _request_id
+      AND author_type <> 'client'
+      AND visibility = 'client_visible'
+      AND read_by_client_at IS NULL;
+  END IF;
+END;
+$$;
+
+-- Counter updates for the two-factor edge function. Each locks the factor row first, so concurrent
+-- checks can't lose a failure, skip the lock, or spend the same time step twice.
+-- Same limits as email OTPs: 5 wrong codes, then a 15 minute lock.
+CREATE OR REPLACE FUNCTION public.record_totp_failure(_factor_id UUID)
+RETURNS TABLE (retry_after INTEGER, attempts_left INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _max_attempts CONSTANT INTEGER := 5;
+  _factor public.totp_factors;
+BEGIN
+  SELECT * INTO _factor FROM public.totp_factors WHERE id = _factor_id FOR UPDATE;
+
+  IF _factor.locked_until > now() THEN
+    RETURN QUERY SELECT greatest(ceil(extract(epoch FROM _factor.locked_until - now()))::integer, 1), 0;
+    RETURN;
+  END IF;
+
+  IF _factor.failed_attempts + 1 >= _max_attempts THEN
+    UPDATE public.totp_factors
+    SET failed_attempts = 0, locked_until = now() + interval '15 minutes'
+    WHERE id = _factor_id;
+    RETURN QUERY SELECT 15 * 60, 0;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.totp_factors SET failed_attempts = failed_attempts + 1
+  WHERE id = _factor_id
+  RETURNING NULL::integer, _max_attempts - failed_attempts;
+END;
+$$;
+
+-- Clears the failure count after a good code. With _step, also records the authenticator time step
+-- and returns false when that step (or a later one) was already used or the factor got locked meanwhile.
+CREATE OR REPLACE FUNCTION public.record_totp_success(_factor_id UUID, _step BIGINT DEFAULT NULL)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _factor public.totp_factors;
+BEGIN
+  SELECT * INTO _factor FROM public.totp_factors WHERE id = _factor_id FOR UPDATE;
+
+  IF _factor.id IS NULL OR _factor.locked_until > now() OR _step <= _factor.last_used_step THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.totp_factors
+  SET last_used_step = coalesce(_step, last_used_step), failed_attempts = 0, locked_until = NULL
+  WHERE id = _factor_id;
+  RETURN true;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_totp_failure(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.record_totp_success(UUID, BIGINT) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,135 @@
+-- Login history and active session management
+
+-- Every sign-in related attempt, successful or not. Written by edge functions only.
+CREATE TABLE public.login_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  pm_id UUID REFERENCES public.project_managers(id) ON DELETE CASCADE,
+  -- As typed, lowercased; kept for failures against unknown accounts
+  email TEXT,
+  event TEXT NOT NULL CHECK (event IN (
+    'password_login', 'otp_verification', 'password_reset', 'password_change', 'two_factor', 'step_up', 'pm_login'
+  )),
+  success BOOLEAN NOT NULL,
+  failure_reason TEXT,
+  ip TEXT,
+  user_agent TEXT,
+  -- Approximate "City, Region, Country" resolved from the IP when the event was recorded
+  location TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.login_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own login events"
+ON public.login_events
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view all login events"
+ON public.login_events
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Require completed two-factor sign-in"
+ON public.login_events
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING ((SELECT public.two_factor_satisfied()))
+WITH CHECK ((SELECT public.two_factor_satisfied()));
+
+CREATE INDEX IF NOT EXISTS idx_login_events_user_id ON public.login_events(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_login_events_pm_id ON public.login_events(pm_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_login_events_email ON public.login_events(email, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_login_events_ip ON public.login_events(ip, created_at DESC);
+
+-- Cache of IP geolocation lookups, so each address is only sent to the lookup service once a month
+CREATE TABLE public.ip_locations (
+  ip TEXT NOT NULL PRIMARY KEY,
+  location TEXT,
+  looked_up_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Service role only
+ALTER TABLE public.ip_locations ENABLE ROW LEVEL SECURITY;
+
+-- The caller's live auth sessions, newest activity first. refreshed_at moves each time the
+-- client refreshes its token (about hourly while the app is open), so it doubles as "last seen".
+CREATE OR REPLACE FUNCTION public.list_my_sessions()
+RETURNS TABLE (
+  id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  user_agent TEXT,
+  ip TEXT,
+  is_current BOOLEAN
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    s.id,
+    s.created_at,
+    COALESCE(s.refreshed_at AT TIME ZONE 'UTC', s.updated_at, s.created_at),
+    s.user_agent,
+    host(s.ip),
+    s.id = NULLIF(auth.jwt() ->> 'session_id', '')::uuid
+  FROM auth.sessions s
+  WHERE s.user_id = auth.uid()
+    AND (s.not_after IS NULL OR s.not_after > now())
+    AND public.two_factor_satisfied()
+  ORDER BY 3 DESC
+$$;
+
+-- Ends one of the caller's sessions. Its refresh token stops working at once; an access token
+-- already issued to it stays valid until it expires (at most an hour).
+CREATE OR REPLACE FUNCTION public.revoke_my_session(_session_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.two_factor_satisfied() THEN
+    RAISE EXCEPTION 'Two-factor verification required';
+  END IF;
+
+  DELETE FROM auth.sessions WHERE id = _session_id AND user_id = auth.uid();
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.list_my_sessions() FROM PUBLIC, anon;
+REVOKE EXECUTE ON FUNCTION public.revoke_my_session(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.list_my_sessions() TO authenticated;
+GRANT EXECUTE ON FUNCTION public.revoke_my_session(UUID) TO authenticated;
+
+-- Failed password sign-ins are recorded by Supabase Auth itself through the password verification
+-- hook; a browser report could be filed by anyone against any address. Auth only passes the account
+-- and the outcome, so these rows carry no IP or device, and attempts against addresses without an
+-- account are not logged.
+CREATE OR REPLACE FUNCTION public.hook_password_verification_attempt(event JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID := (event ->> 'user_id')::uuid;
+BEGIN
+  IF NOT (event ->> 'valid')::boolean THEN
+    INSERT INTO public.login_events (user_id, email, event, success, failure_reason)
+    SELECT id, lower(email), 'password_login', false, 'invalid_credentials'
+    FROM auth.users WHERE id = _user_id;
+  END IF;
+
+  -- Auth applies its own lockout and error; the hook only observes
+  RETURN jsonb_build_object('decision', 'continue');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.hook_password_verification_attempt(JSONB) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.hook_password_verification_attempt(JSONB) TO supabase_auth_admin;
@@ -0,0 +1,290 @@
+-- Self-service account deletion with a grace period. Personal data is erased; requests that carry
+-- payments or issued documents are kept, unlinked from the account, for the accounts.
+
+-- One pending deletion per account. Cancelling deletes the row; completing the deletion removes the
+-- auth user, which takes the row with it.
+CREATE TABLE public.account_deletion_requests (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  requested_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  scheduled_for TIMESTAMP WITH TIME ZONE NOT NULL,
+  reason TEXT
+);
+
+ALTER TABLE public.account_deletion_requests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own deletion request"
+ON public.account_deletion_requests
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view deletion requests"
+ON public.account_deletion_requests
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Require completed two-factor sign-in"
+ON public.account_deletion_requests
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING ((SELECT public.two_factor_satisfied()))
+WITH CHECK ((SELECT public.two_factor_satisfied()));
+
+CREATE INDEX IF NOT EXISTS idx_account_deletion_requests_scheduled_for
+ON public.account_deletion_requests(scheduled_for);
+
+-- Kept financial records outlive the account, so they must not cascade with it
+ALTER TABLE public.service_requests ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE public.service_requests DROP CONSTRAINT IF EXISTS service_requests_user_id_fkey;
+ALTER TABLE public.service_requests
+  ADD CONSTRAINT service_requests_user_id_fkey
+  FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.payment_requests ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE public.invoices ALTER COLUMN user_id DROP NOT NULL;
+
+-- Erasure may detach a confirmed payment from its owner and drop the screenshot
+CREATE OR REPLACE FUNCTION public.guard_payment_request()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(current_setting('app.payment_review', true), 'off') = 'on'
+     OR coalesce(current_setting('app.account_erasure', true), 'off') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status IS DISTINCT FROM OLD.status
+     AND NOT (OLD.status IN ('pending', 'cancelled') AND NEW.status IN ('pending', 'cancelled')) THEN
+    RAISE EXCEPTION 'Payments are confirmed or rejected through payment review';
+  END IF;
+
+  IF OLD.status <> 'pending' AND (
+    NEW.amount IS DISTINCT FROM OLD.amount
+    OR NEW.upi_id IS DISTINCT FROM OLD.upi_id
+    OR NEW.transaction_id IS DISTINCT FROM OLD.transaction_id
+    OR NEW.screenshot_path IS DISTINCT FROM OLD.screenshot_path
+    OR NEW.paid_at IS DISTINCT FROM OLD.paid_at
+  ) THEN
+    RAISE EXCEPTION 'Only pending payment requests can be edited';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Same as before, except that erasure may anonymise the buyer on an issued document
+CREATE OR REPLACE FUNCTION public.prepare_invoice()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.billing_settings;
+  _fy_start INTEGER;
+  _fy TEXT;
+  _next INTEGER;
+BEGIN
+  IF TG_OP = 'UPDATE' AND coalesce(current_setting('app.account_erasure', true), 'off') = 'on' THEN
+    IF (to_jsonb(NEW) - ARRAY['user_id', 'buyer_name', 'buyer_address', 'updated_at'])
+       IS DISTINCT FROM (to_jsonb(OLD) - ARRAY['user_id', 'buyer_name', 'buyer_address', 'updated_at']) THEN
+      RAISE EXCEPTION 'Erasure can only anonymise the buyer';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO _settings FROM public.billing_settings LIMIT 1;
+
+  IF TG_OP = 'UPDATE' AND OLD.status <> 'draft' THEN
+    -- Only the lifecycle may move once issued: issued -> accepted (quotes) / paid (invoices) / void
+    IF (to_jsonb(NEW) - ARRAY['status', 'payment_request_id', 'updated_at'])
+       IS DISTINCT FROM (to_jsonb(OLD) - ARRAY['status', 'payment_request_id', 'updated_at']) THEN
+      RAISE EXCEPTION 'Issued documents cannot be edited';
+    END IF;
+    IF NEW.status = 'draft' THEN
+      RAISE EXCEPTION 'Issued documents cannot go back to draft';
+    END IF;
+    IF (NEW.status = 'accepted' AND NEW.kind <> 'quote') OR (NEW.status = 'paid' AND NEW.kind <> 'invoice') THEN
+      RAISE EXCEPTION 'A % cannot be marked %', NEW.kind, NEW.status;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  NEW.supply_type := CASE
+    WHEN _settings.state IS NULL OR lower(trim(NEW.place_of_supply)) = lower(trim(_settings.state)) THEN 'intra'
+    ELSE 'inter'
+  END;
+
+  IF NEW.status <> 'draft' THEN
+    IF NOT EXISTS (SELECT 1 FROM public.invoice_items WHERE invoice_id = NEW.id) THEN
+      RAISE EXCEPTION 'Add at least one line item before issuing';
+    END IF;
+    IF NEW.status <> 'issued' THEN
+      RAISE EXCEPTION 'A draft can only be issued';
+    END IF;
+
+    NEW.issue_date := coalesce(NEW.issue_date, current_date);
+    NEW.due_date := coalesce(NEW.due_date, NEW.issue_date + _settings.default_payment_terms_days);
+    NEW.issued_at := now();
+    NEW.seller_name := _settings.legal_name;
+    NEW.seller_gstin := _settings.gstin;
+    NEW.seller_address := _settings.address;
+    NEW.seller_state := _settings.state;
+
+    _fy_start := extract(year FROM NEW.issue_date)::integer - CASE WHEN extract(month FROM NEW.issue_date) < 4 THEN 1 ELSE 0 END;
+    _fy := _fy_start || '-' || lpad(((_fy_start + 1) % 100)::text, 2, '0');
+
+    INSERT INTO public.invoice_number_counters (kind, financial_year, last_number)
+    VALUES (NEW.kind, _fy, 1)
+    ON CONFLICT (kind, financial_year) DO UPDATE SET last_number = invoice_number_counters.last_number + 1
+    RETURNING last_number INTO _next;
+
+    NEW.invoice_number := format('%s/%s/%s',
+      CASE WHEN NEW.kind = 'quote' THEN _settings.quote_prefix ELSE _settings.invoice_prefix END,
+      _fy, lpad(_next::text, 4, '0'));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Erases everything tied to the account except the financial record, in one transaction.
+-- Requests with a submitted or confirmed payment, or an issued quote or invoice, are kept with the
+-- personal fields cleared and their threads removed; all other requests are deleted outright.
+-- Business buyers (with a GSTIN) keep their name on issued invoices because GST returns report it.
+-- Returns the storage objects that should now be removed; the caller deletes those and then the
+-- auth user itself.
+CREATE OR REPLACE FUNCTION public.erase_account_data(_user_id UUID)
+RETURNS TABLE (bucket TEXT, path TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _email TEXT;
+BEGIN
+  SELECT lower(email) INTO _email FROM auth.users WHERE id = _user_id;
+
+  CREATE TEMP TABLE _account_requests ON COMMIT DROP AS
+  SELECT id FROM public.service_requests WHERE user_id = _user_id;
+
+  CREATE TEMP TABLE _kept_requests ON COMMIT DROP AS
+  SELECT sr.id FROM _account_requests sr
+  WHERE EXISTS (SELECT 1 FROM public.payment_requests p
+                WHERE p.service_request_id = sr.id AND p.status IN ('awaiting_verification', 'paid'))
+     OR EXISTS (SELECT 1 FROM public.invoices i WHERE i.service_request_id = sr.id AND i.status <> 'draft');
+
+  -- Collect files before the rows that point at them disappear
+  CREATE TEMP TABLE _account_files ON COMMIT DROP AS
+  SELECT 'uploads' AS bucket, substring(split_part(avatar_url, '?', 1) FROM '/storage/v1/object/public/uploads/(.+)$') AS path
+  FROM public.profiles WHERE user_id = _user_id
+  UNION ALL
+  SELECT 'request-files', attachment ->> 'path'
+  FROM public.request_messages m
+  CROSS JOIN LATERAL jsonb_array_elements(m.attachments) AS attachment
+  WHERE m.service_request_id IN (SELECT id FROM _account_requests)
+  UNION ALL
+  SELECT 'request-files', screenshot_path FROM public.payment_requests WHERE user_id = _user_id;
+
+  -- Audit entries for the account's records keep who did what and when, but lose the row snapshots.
+  -- A record belongs to the account when it is one of its requests, payments, invoices or profile, or
+  -- was first logged with one of its requests or invoices.
+  UPDATE public.audit_events
+  SET before = NULL, after = NULL
+  WHERE (table_name, record_id) IN (
+    SELECT a.table_name, a.record_id FROM public.audit_events a
+    WHERE (a.table_name = 'service_requests' AND a.record_id IN (SELECT id FROM _account_requests))
+       OR (a.table_name = 'payment_requests' AND a.record_id IN (SELECT id FROM public.payment_requests WHERE user_id = _user_id))
+       OR (a.table_name = 'invoices' AND a.record_id IN (SELECT id FROM public.invoices WHERE user_id = _user_id))
+       OR (a.table_name = 'profiles' AND a.record_id IN (SELECT id FROM public.profiles WHERE user_id = _user_id))
+       OR (a.table_name = 'contact_messages' AND lower(coalesce(a.after, a.before) ->> 'email') = _email)
+       OR coalesce(a.after, a.before) ->> 'service_request_id' IN (SELECT id::text FROM _account_requests)
+       OR coalesce(a.after, a.before) ->> 'invoice_id' IN (SELECT id::text FROM public.invoices WHERE user_id = _user_id)
+  );
+
+  PERFORM set_config('app.account_erasure', 'on', true);
+
+  DELETE FROM public.service_requests
+  WHERE id IN (SELECT id FROM _account_requests) AND id NOT IN (SELECT id FROM _kept_requests);
+
+  DELETE FROM public.request_messages WHERE service_request_id IN (SELECT id FROM _kept_requests);
+
+  UPDATE public.request_status_history
+  SET actor_id = NULL, actor_label = 'Former client'
+  WHERE service_request_id IN (SELECT id FROM _kept_requests) AND actor_type = 'client';
+
+  UPDATE public.service_requests
+  SET user_id = NULL, description = NULL, notes = NULL,
+      company_name = NULL, contact_email = NULL, contact_phone = NULL
+  WHERE id IN (SELECT id FROM _kept_requests);
+
+  UPDATE public.payment_requests
+  SET user_id = NULL, screenshot_path = NULL
+  WHERE user_id = _user_id;
+
+  UPDATE public.invoices
+  SET user_id = NULL,
+      buyer_name = CASE WHEN buyer_gstin IS NULL THEN 'Former client' ELSE buyer_name END,
+      buyer_address = CASE WHEN buyer_gstin IS NULL THEN NULL ELSE buyer_address END
+  WHERE user_id = _user_id;
+
+  PERFORM set_config('app.account_erasure', 'off', true);
+
+  IF _email IS NOT NULL THEN
+    DELETE FROM public.contact_messages WHERE lower(email) = _email;
+    DELETE FROM public.otp_verifications WHERE email = _email;
+    DELETE FROM public.otp_send_log WHERE email = _email;
+  END IF;
+
+  DELETE FROM public.step_up_tokens WHERE user_id = _user_id;
+  -- profiles, user_roles, login_events, two-factor data and the deletion request itself
+  -- cascade when the auth user is deleted
+
+  RETURN QUERY SELECT f.bucket, f.path FROM _account_files f WHERE f.path IS NOT NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.erase_account_data(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Scheduled jobs call edge functions through pg_cron and pg_net. The project URL and service role
+-- key are read from Vault at call time, so neither is stored in a migration:
+--   SELECT vault.create_secret('https://<project ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- Posts to an edge function as the service role; returns the pg_net request id
+CREATE OR REPLACE FUNCTION public.invoke_edge_function(_function TEXT, _body JSONB DEFAULT '{}'::jsonb)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _url TEXT;
+  _key TEXT;
+BEGIN
+  SELECT decrypted_secret INTO _url FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO _key FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+  IF _url IS NULL OR _key IS NULL THEN
+    RAISE EXCEPTION 'Add the project_url and service_role_key secrets to Vault to run scheduled jobs';
+  END IF;
+
+  RETURN net.http_post(
+    url := rtrim(_url, '/') || '/functions/v1/' || _function,
+    headers := jsonb_build_object('Content-Type', 'application/json', 'Authorization', 'Bearer ' || _key),
+    body := _body,
+    timeout_milliseconds := 60000
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.invoke_edge_function(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Delete accounts whose grace period has ended
+SELECT cron.schedule(
+  'process-account-deletions',
+  '17 * * * *',
+  $$SELECT public.invoke_edge_function('account-data', '{"action": "process_due"}'::jsonb)$$
+);
@@ -0,0 +1,34 @@
+-- Admin-edited versions of the built-in email templates. A template without a row here is sent
+-- with its default from the edge functions' emailTemplates.ts, so deleting a row resets it.
+CREATE TABLE public.email_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  key TEXT NOT NULL UNIQUE,
+  subject TEXT NOT NULL,
+  html_body TEXT NOT NULL,
+  text_body TEXT NOT NULL,
+  -- The template's variables when it was saved, for reference if the defaults change later
+  variables JSONB NOT NULL DEFAULT '{}'::jsonb,
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.email_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view email templates"
+ON public.email_templates
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Require completed two-factor sign-in"
+ON public.email_templates
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING ((SELECT public.two_factor_satisfied()))
+WITH CHECK ((SELECT public.two_factor_satisfied()));
+
+CREATE TRIGGER update_email_templates_updated_at
+BEFORE UPDATE ON public.email_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,153 @@
+-- Client email notifications for project events
+
+-- Outbox of events the client should hear about. Triggers add rows in the same transaction as
+-- the change; the process-notifications function emails them and stamps processed_at.
+CREATE TABLE public.notification_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'request_status_changed', 'admin_response', 'pm_assigned', 'payment_requested', 'payment_received'
+  )),
+  service_request_id UUID NOT NULL REFERENCES public.service_requests(id) ON DELETE CASCADE,
+  payment_request_id UUID REFERENCES public.payment_requests(id) ON DELETE CASCADE,
+  -- What changed, as of the event; the rest is read fresh when the email is built
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  processed_at TIMESTAMP WITH TIME ZONE,
+  error TEXT
+);
+
+ALTER TABLE public.notification_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view notification events"
+ON public.notification_events
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Require completed two-factor sign-in"
+ON public.notification_events
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING ((SELECT public.two_factor_satisfied()))
+WITH CHECK ((SELECT public.two_factor_satisfied()));
+
+CREATE INDEX IF NOT EXISTS idx_notification_events_pending
+ON public.notification_events(created_at)
+WHERE processed_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_notification_events_service_request_id
+ON public.notification_events(service_request_id);
+
+-- Status changes, read from the history so the reason travels with them. The history row written
+-- when a request is created has no from_status and isn't news to the client.
+CREATE OR REPLACE FUNCTION public.notify_request_status_changed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.from_status IS NOT NULL THEN
+    INSERT INTO public.notification_events (event_type, service_request_id, payload)
+    VALUES (
+      'request_status_changed',
+      NEW.service_request_id,
+      jsonb_build_object('from_status', NEW.from_status, 'to_status', NEW.to_status, 'reason', NEW.reason)
+    );
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_request_status_changed
+AFTER INSERT ON public.request_status_history
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_request_status_changed();
+
+-- A PM being assigned, manually or by the engine
+CREATE OR REPLACE FUNCTION public.notify_service_request_updated()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Erasing an account scrubs kept requests; nobody is left to tell
+  IF coalesce(current_setting('app.account_erasure', true), 'off') = 'on' OR NEW.user_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF NEW.assigned_pm_id IS NOT NULL AND NEW.assigned_pm_id IS DISTINCT FROM OLD.assigned_pm_id THEN
+    INSERT INTO public.notification_events (event_type, service_request_id, payload)
+    VALUES ('pm_assigned', NEW.id, jsonb_build_object('pm_id', NEW.assigned_pm_id));
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_service_request_updated
+AFTER UPDATE OF assigned_pm_id ON public.service_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_service_request_updated();
+
+-- A reply from the team in the request thread. Internal notes stay internal.
+CREATE OR REPLACE FUNCTION public.notify_request_message_posted()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.service_requests WHERE id = NEW.service_request_id AND user_id IS NOT NULL) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Confirming a payment posts to the thread too, but the receipt email already covers it
+  IF EXISTS (
+    SELECT 1 FROM public.notification_events
+    WHERE service_request_id = NEW.service_request_id AND event_type = 'payment_received' AND created_at = now()
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.notification_events (event_type, service_request_id, payload)
+  VALUES ('admin_response', NEW.service_request_id, jsonb_build_object('response', NEW.body, 'message_id', NEW.id));
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_request_message_posted
+AFTER INSERT ON public.request_messages
+FOR EACH ROW
+WHEN (NEW.visibility = 'client_visible' AND NEW.author_type IN ('admin', 'pm'))
+EXECUTE FUNCTION public.notify_request_message_posted();
+
+-- A payment asked of the client, and the receipt once an admin confirms it
+CREATE OR REPLACE FUNCTION public.notify_payment_request_changed()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(current_setting('app.account_erasure', true), 'off') = 'on' OR NEW.user_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF TG_OP = 'INSERT' AND NEW.status = 'pending' THEN
+    INSERT INTO public.notification_events (event_type, service_request_id, payment_request_id)
+    VALUES ('payment_requested', NEW.service_request_id, NEW.id);
+  ELSIF TG_OP = 'UPDATE' AND NEW.status = 'paid' AND OLD.status IS DISTINCT FROM 'paid' THEN
+    INSERT INTO public.notification_events (event_type, service_request_id, payment_request_id)
+    VALUES ('payment_received', NEW.service_request_id, NEW.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_payment_request_changed
+AFTER INSERT OR UPDATE OF status ON public.payment_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_payment_request_changed();
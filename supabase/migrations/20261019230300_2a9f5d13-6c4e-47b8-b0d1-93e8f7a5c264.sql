@@ -0,0 +1,229 @@
+-- Outbox for every notification email, drained by process-notifications with retries
+
+-- One row per email to send. idempotency_key names what the email is about (e.g. the
+-- notification event and recipient), so enqueuing the same email twice is a no-op.
+CREATE TABLE public.outbound_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  idempotency_key TEXT NOT NULL UNIQUE,
+  channel TEXT NOT NULL DEFAULT 'email' CHECK (channel IN ('email')),
+  template TEXT NOT NULL,
+  recipient TEXT NOT NULL,
+  -- Template variables; the email is rendered when it is sent
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  service_request_id UUID REFERENCES public.service_requests(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 6,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- A claimed message whose worker died is picked up again after this
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.outbound_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view outbound messages"
+ON public.outbound_messages
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Require completed two-factor sign-in"
+ON public.outbound_messages
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING ((SELECT public.two_factor_satisfied()))
+WITH CHECK ((SELECT public.two_factor_satisfied()));
+
+CREATE INDEX IF NOT EXISTS idx_outbound_messages_due
+ON public.outbound_messages(next_attempt_at)
+WHERE status IN ('pending', 'sending');
+
+CREATE INDEX IF NOT EXISTS idx_outbound_messages_recipient ON public.outbound_messages(recipient);
+CREATE INDEX IF NOT EXISTS idx_outbound_messages_created_at ON public.outbound_messages(created_at);
+
+CREATE TRIGGER update_outbound_messages_updated_at
+BEFORE UPDATE ON public.outbound_messages
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Takes up to _limit due messages for sending, counting the attempt. SKIP LOCKED lets overlapping
+-- worker runs share the queue without sending anything twice.
+CREATE OR REPLACE FUNCTION public.claim_outbound_messages(_limit INTEGER)
+RETURNS SETOF public.outbound_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- A worker stopped mid-send on the last allowed attempt; don't try again
+  UPDATE public.outbound_messages
+  SET status = 'dead', locked_until = NULL, last_error = coalesce(last_error, 'Sending did not complete')
+  WHERE status = 'sending' AND locked_until < now() AND attempts >= max_attempts;
+
+  RETURN QUERY
+  UPDATE public.outbound_messages m
+  SET status = 'sending', attempts = m.attempts + 1, locked_until = now() + interval '5 minutes'
+  WHERE m.id IN (
+    SELECT id FROM public.outbound_messages
+    WHERE (status = 'pending' AND next_attempt_at <= now())
+       OR (status = 'sending' AND locked_until < now())
+    ORDER BY next_attempt_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING m.*;
+END;
+$$;
+
+-- Admin resend from the email log: a fresh set of attempts, due now
+CREATE OR REPLACE FUNCTION public.requeue_outbound_message(_message_id UUID)
+RETURNS public.outbound_messages
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _message public.outbound_messages;
+BEGIN
+  UPDATE public.outbound_messages
+  SET status = 'pending', attempts = 0, next_attempt_at = now(), locked_until = NULL, last_error = NULL, sent_at = NULL
+  WHERE id = _message_id AND status <> 'sending'
+  RETURNING * INTO _message;
+
+  IF _message.id IS NULL THEN
+    RAISE EXCEPTION 'This email is being sent right now or no longer exists';
+  END IF;
+
+  RETURN _message;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_outbound_messages(INTEGER) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.requeue_outbound_message(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Account erasure also drops the emails queued or sent to the address
+CREATE OR REPLACE FUNCTION public.erase_account_data(_user_id UUID)
+RETURNS TABLE (bucket TEXT, path TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _email TEXT;
+BEGIN
+  SELECT lower(email) INTO _email FROM auth.users WHERE id = _user_id;
+
+  CREATE TEMP TABLE _account_requests ON COMMIT DROP AS
+  SELECT id FROM public.service_requests WHERE user_id = _user_id;
+
+  CREATE TEMP TABLE _kept_requests ON COMMIT DROP AS
+  SELECT sr.id FROM _account_requests sr
+  WHERE EXISTS (SELECT 1 FROM public.payment_requests p
+                WHERE p.service_request_id = sr.id AND p.status IN ('awaiting_verification', 'paid'))
+     OR EXISTS (SELECT 1 FROM public.invoices i WHERE i.service_request_id = sr.id AND i.status <> 'draft');
+
+  -- Collect files before the rows that point at them disappear
+  CREATE TEMP TABLE _account_files ON COMMIT DROP AS
+  SELECT 'uploads' AS bucket, substring(split_part(avatar_url, '?', 1) FROM '/storage/v1/object/public/uploads/(.+)$') AS path
+  FROM public.profiles WHERE user_id = _user_id
+  UNION ALL
+  SELECT 'request-files', attachment ->> 'path'
+  FROM public.request_messages m
+  CROSS JOIN LATERAL jsonb_array_elements(m.attachments) AS attachment
+  WHERE m.service_request_id IN (SELECT id FROM _account_requests)
+  UNION ALL
+  SELECT 'request-files', screenshot_path FROM public.payment_requests WHERE user_id = _user_id;
+
+  -- Audit entries for the account's records keep who did what and when, but lose the row snapshots.
+  -- A record belongs to the account when it is one of its requests, payments, invoices or profile, or
+  -- was first logged with one of its requests or invoices.
+  UPDATE public.audit_events
+  SET before = NULL, after = NULL
+  WHERE (table_name, record_id) IN (
+    SELECT a.table_name, a.record_id FROM public.audit_events a
+    WHERE (a.table_name = 'service_requests' AND a.record_id IN (SELECT id FROM _account_requests))
+       OR (a.table_name = 'payment_requests' AND a.record_id IN (SELECT id FROM public.payment_requests WHERE user_id = _user_id))
+       OR (a.table_name = 'invoices' AND a.record_id IN (SELECT id FROM public.invoices WHERE user_id = _user_id))
+       OR (a.table_name = 'profiles' AND a.record_id IN (SELECT id FROM public.profiles WHERE user_id = _user_id))
+       OR (a.table_name = 'contact_messages' AND lower(coalesce(a.after, a.before) ->> 'email') = _email)
+       OR coalesce(a.after, a.before) ->> 'service_request_id' IN (SELECT id::text FROM _account_requests)
+       OR coalesce(a.after, a.before) ->> 'invoice_id' IN (SELECT id::text FROM public.invoices WHERE user_id = _user_id)
+  );
+
+  PERFORM set_config('app.account_erasure', 'on', true);
+
+  DELETE FROM public.service_requests
+  WHERE id IN (SELECT id FROM _account_requests) AND id NOT IN (SELECT id FROM _kept_requests);
+
+  DELETE FROM public.request_messages WHERE service_request_id IN (SELECT id FROM _kept_requests);
+
+  UPDATE public.request_status_history
+  SET actor_id = NULL, actor_label = 'Former client'
+  WHERE service_request_id IN (SELECT id FROM _kept_requests) AND actor_type = 'client';
+
+  UPDATE public.service_requests
+  SET user_id = NULL, description = NULL, notes = NULL,
+      company_name = NULL, contact_email = NULL, contact_phone = NULL
+  WHERE id IN (SELECT id FROM _kept_requests);
+
+  UPDATE public.payment_requests
+  SET user_id = NULL, screenshot_path = NULL
+  WHERE user_id = _user_id;
+
+  UPDATE public.invoices
+  SET user_id = NULL,
+      buyer_name = CASE WHEN buyer_gstin IS NULL THEN 'Former client' ELSE buyer_name END,
+      buyer_address = CASE WHEN buyer_gstin IS NULL THEN NULL ELSE buyer_address END
+  WHERE user_id = _user_id;
+
+  PERFORM set_config('app.account_erasure', 'off', true);
+
+  IF _email IS NOT NULL THEN
+    DELETE FROM public.contact_messages WHERE lower(email) = _email;
+    DELETE FROM public.otp_verifications WHERE email = _email;
+    DELETE FROM public.otp_send_log WHERE email = _email;
+    -- Queued and sent notification emails hold the address and template data such as the name
+    DELETE FROM public.outbound_messages WHERE lower(recipient) = _email;
+  END IF;
+
+  DELETE FROM public.step_up_tokens WHERE user_id = _user_id;
+  -- profiles, user_roles, login_events, two-factor data and the deletion request itself
+  -- cascade when the auth user is deleted
+
+  RETURN QUERY SELECT f.bucket, f.path FROM _account_files f WHERE f.path IS NOT NULL;
+END;
+$$;
+
+-- Run the notification worker every minute, so queued emails go out without anyone calling it
+SELECT cron.schedule(
+  'process-notifications',
+  '* * * * *',
+  $$SELECT public.invoke_edge_function('process-notifications')$$
+);
+
+-- A newly assigned PM is emailed straight away rather than on the next scheduled run. pg_net sends
+-- the request after the assignment commits; if it cannot be queued, the schedule still delivers it.
+CREATE OR REPLACE FUNCTION public.process_notifications_now()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.invoke_edge_function('process-notifications');
+  RETURN NULL;
+EXCEPTION WHEN OTHERS THEN
+  RAISE WARNING 'Could not start the notification worker: %', SQLERRM;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER process_pm_assignment_now
+AFTER INSERT ON public.notification_events
+FOR EACH ROW
+WHEN (NEW.event_type = 'pm_assigned')
+EXECUTE FUNCTION public.process_notifications_now();
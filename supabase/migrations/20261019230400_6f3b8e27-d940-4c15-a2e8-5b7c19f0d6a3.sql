@@ -0,0 +1,185 @@
+-- Private file attachments on service requests
+
+-- The request-files bucket now also holds briefs, logos, wireframes and documents, one folder per
+-- request: <request id>/<uuid>-<file name>
+UPDATE storage.buckets
+SET
+  file_size_limit = 26214400,
+  allowed_mime_types = ARRAY[
+    'image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml',
+    'application/pdf',
+    'application/zip', 'application/x-zip-compressed',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'text/plain', 'text/csv'
+  ]
+WHERE id = 'request-files';
+
+-- Clients may remove files they uploaded themselves
+CREATE POLICY "Clients can delete own uploads"
+ON storage.objects FOR DELETE
+USING (
+  bucket_id = 'request-files' AND
+  owner = auth.uid() AND
+  (storage.foldername(name))[1] IN (SELECT id::text FROM public.service_requests WHERE user_id = auth.uid())
+);
+
+-- What is in each request's folder and who put it there
+CREATE TABLE public.request_files (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  service_request_id UUID NOT NULL REFERENCES public.service_requests(id) ON DELETE CASCADE,
+  path TEXT NOT NULL UNIQUE,
+  name TEXT NOT NULL CHECK (length(name) BETWEEN 1 AND 200),
+  content_type TEXT,
+  size_bytes BIGINT,
+  uploaded_by_type TEXT NOT NULL CHECK (uploaded_by_type IN ('client', 'pm', 'admin')),
+  uploaded_by_id UUID,
+  uploaded_by_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT request_files_path_in_request_folder CHECK (path LIKE service_request_id::text || '/%')
+);
+
+ALTER TABLE public.request_files ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own request files"
+ON public.request_files
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.service_requests sr
+    WHERE sr.id = service_request_id AND sr.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can add files to own requests"
+ON public.request_files
+FOR INSERT
+WITH CHECK (
+  uploaded_by_type = 'client' AND
+  uploaded_by_id = auth.uid() AND
+  EXISTS (
+    SELECT 1 FROM public.service_requests sr
+    WHERE sr.id = service_request_id AND sr.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can delete own uploads"
+ON public.request_files
+FOR DELETE
+USING (uploaded_by_type = 'client' AND uploaded_by_id = auth.uid());
+
+CREATE POLICY "Admins can view request files"
+ON public.request_files
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Require completed two-factor sign-in"
+ON public.request_files
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING ((SELECT public.two_factor_satisfied()))
+WITH CHECK ((SELECT public.two_factor_satisfied()));
+
+CREATE INDEX IF NOT EXISTS idx_request_files_service_request_id
+ON public.request_files(service_request_id);
+
+-- Account erasure also removes the files of the account's requests, including those kept for invoicing
+CREATE OR REPLACE FUNCTION public.erase_account_data(_user_id UUID)
+RETURNS TABLE (bucket TEXT, path TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _email TEXT;
+BEGIN
+  SELECT lower(email) INTO _email FROM auth.users WHERE id = _user_id;
+
+  CREATE TEMP TABLE _account_requests ON COMMIT DROP AS
+  SELECT id FROM public.service_requests WHERE user_id = _user_id;
+
+  CREATE TEMP TABLE _kept_requests ON COMMIT DROP AS
+  SELECT sr.id FROM _account_requests sr
+  WHERE EXISTS (SELECT 1 FROM public.payment_requests p
+                WHERE p.service_request_id = sr.id AND p.status IN ('awaiting_verification', 'paid'))
+     OR EXISTS (SELECT 1 FROM public.invoices i WHERE i.service_request_id = sr.id AND i.status <> 'draft');
+
+  -- Collect files before the rows that point at them disappear
+  CREATE TEMP TABLE _account_files ON COMMIT DROP AS
+  SELECT 'uploads' AS bucket, substring(split_part(avatar_url, '?', 1) FROM '/storage/v1/object/public/uploads/(.+)$') AS path
+  FROM public.profiles WHERE user_id = _user_id
+  UNION ALL
+  SELECT 'request-files', f.path FROM public.request_files f WHERE f.service_request_id IN (SELECT id FROM _account_requests)
+  UNION ALL
+  SELECT 'request-files', attachment ->> 'path'
+  FROM public.request_messages m
+  CROSS JOIN LATERAL jsonb_array_elements(m.attachments) AS attachment
+  WHERE m.service_request_id IN (SELECT id FROM _account_requests)
+  UNION ALL
+  SELECT 'request-files', screenshot_path FROM public.payment_requests WHERE user_id = _user_id;
+
+  -- Audit entries for the account's records keep who did what and when, but lose the row snapshots.
+  -- A record belongs to the account when it is one of its requests, payments, invoices or profile, or
+  -- was first logged with one of its requests or invoices.
+  UPDATE public.audit_events
+  SET before = NULL, after = NULL
+  WHERE (table_name, record_id) IN (
+    SELECT a.table_name, a.record_id FROM public.audit_events a
+    WHERE (a.table_name = 'service_requests' AND a.record_id IN (SELECT id FROM _account_requests))
+       OR (a.table_name = 'payment_requests' AND a.record_id IN (SELECT id FROM public.payment_requests WHERE user_id = _user_id))
+       OR (a.table_name = 'invoices' AND a.record_id IN (SELECT id FROM public.invoices WHERE user_id = _user_id))
+       OR (a.table_name = 'profiles' AND a.record_id IN (SELECT id FROM public.profiles WHERE user_id = _user_id))
+       OR (a.table_name = 'contact_messages' AND lower(coalesce(a.after, a.before) ->> 'email') = _email)
+       OR coalesce(a.after, a.before) ->> 'service_request_id' IN (SELECT id::text FROM _account_requests)
+       OR coalesce(a.after, a.before) ->> 'invoice_id' IN (SELECT id::text FROM public.invoices WHERE user_id = _user_id)
+  );
+
+  PERFORM set_config('app.account_erasure', 'on', true);
+
+  DELETE FROM public.service_requests
+  WHERE id IN (SELECT id FROM _account_requests) AND id NOT IN (SELECT id FROM _kept_requests);
+
+  DELETE FROM public.request_messages WHERE service_request_id IN (SELECT id FROM _kept_requests);
+  DELETE FROM public.request_files WHERE service_request_id IN (SELECT id FROM _kept_requests);
+
+  UPDATE public.request_status_history
+  SET actor_id = NULL, actor_label = 'Former client'
+  WHERE service_request_id IN (SELECT id FROM _kept_requests) AND actor_type = 'client';
+
+  UPDATE public.service_requests
+  SET user_id = NULL, description = NULL, notes = NULL,
+      company_name = NULL, contact_email = NULL, contact_phone = NULL
+  WHERE id IN (SELECT id FROM _kept_requests);
+
+  UPDATE public.payment_requests
+  SET user_id = NULL, screenshot_path = NULL
+  WHERE user_id = _user_id;
+
+  UPDATE public.invoices
+  SET user_id = NULL,
+      buyer_name = CASE WHEN buyer_gstin IS NULL THEN 'Former client' ELSE buyer_name END,
+      buyer_address = CASE WHEN buyer_gstin IS NULL THEN NULL ELSE buyer_address END
+  WHERE user_id = _user_id;
+
+  PERFORM set_config('app.account_erasure', 'off', true);
+
+  IF _email IS NOT NULL THEN
+    DELETE FROM public.contact_messages WHERE lower(email) = _email;
+    DELETE FROM public.otp_verifications WHERE email = _email;
+    DELETE FROM public.otp_send_log WHERE email = _email;
+    -- Queued and sent notification emails hold the address and template data such as the name
+    DELETE FROM public.outbound_messages WHERE lower(recipient) = _email;
+  END IF;
+
+  DELETE FROM public.step_up_tokens WHERE user_id = _user_id;
+  -- profiles, user_roles, login_events, two-factor data and the deletion request itself
+  -- cascade when the auth user is deleted
+
+  RETURN QUERY SELECT f.bucket, f.path FROM _account_files f WHERE f.path IS NOT NULL;
+END;
+$$;
@@ -0,0 +1,287 @@
+-- Milestones and deliverables on service requests, with client sign-off
+
+-- The plan for a request. PMs create and update milestones through pm-api; the client moves a
+-- delivered milestone to approved or changes_requested through review_milestone.
+CREATE TABLE public.project_milestones (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  service_request_id UUID NOT NULL REFERENCES public.service_requests(id) ON DELETE CASCADE,
+  title TEXT NOT NULL CHECK (length(title) BETWEEN 1 AND 200),
+  description TEXT CHECK (length(description) <= 2000),
+  due_date DATE,
+  status TEXT NOT NULL DEFAULT 'planned'
+    CHECK (status IN ('planned', 'in_progress', 'delivered', 'changes_requested', 'approved')),
+  created_by_pm_id UUID REFERENCES public.project_managers(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.project_milestones ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own request milestones"
+ON public.project_milestones
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.service_requests sr
+    WHERE sr.id = service_request_id AND sr.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can view milestones"
+ON public.project_milestones
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Require completed two-factor sign-in"
+ON public.project_milestones
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING ((SELECT public.two_factor_satisfied()))
+WITH CHECK ((SELECT public.two_factor_satisfied()));
+
+CREATE INDEX IF NOT EXISTS idx_project_milestones_service_request_id
+ON public.project_milestones(service_request_id);
+
+CREATE TRIGGER update_project_milestones_updated_at
+BEFORE UPDATE ON public.project_milestones
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Only the client's review decides whether a milestone is approved, and an approved milestone is final
+CREATE OR REPLACE FUNCTION public.guard_milestone_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF coalesce(current_setting('app.milestone_review', true), 'off') = 'on' THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND OLD.status = 'approved' THEN
+    RAISE EXCEPTION 'An approved milestone can no longer be changed';
+  END IF;
+
+  IF NEW.status IN ('approved', 'changes_requested')
+     AND (TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status) THEN
+    RAISE EXCEPTION 'Only the client can approve a milestone or request changes';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_project_milestone_status
+BEFORE INSERT OR UPDATE ON public.project_milestones
+FOR EACH ROW
+EXECUTE FUNCTION public.guard_milestone_status_change();
+
+-- Deliverables are request files linked to a milestone
+ALTER TABLE public.request_files
+ADD COLUMN milestone_id UUID REFERENCES public.project_milestones(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_request_files_milestone_id
+ON public.request_files(milestone_id)
+WHERE milestone_id IS NOT NULL;
+
+-- Every client decision on a delivered milestone, with the deliverables it covered at the time
+CREATE TABLE public.milestone_reviews (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  milestone_id UUID NOT NULL REFERENCES public.project_milestones(id) ON DELETE CASCADE,
+  decision TEXT NOT NULL CHECK (decision IN ('approved', 'changes_requested')),
+  comment TEXT CHECK (length(comment) <= 2000),
+  -- [{ id, name }] of the linked files when the decision was made
+  deliverables JSONB NOT NULL DEFAULT '[]'::jsonb,
+  reviewer_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.milestone_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own milestone reviews"
+ON public.milestone_reviews
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.project_milestones m
+    JOIN public.service_requests sr ON sr.id = m.service_request_id
+    WHERE m.id = milestone_id AND sr.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Admins can view milestone reviews"
+ON public.milestone_reviews
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Require completed two-factor sign-in"
+ON public.milestone_reviews
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING ((SELECT public.two_factor_satisfied()))
+WITH CHECK ((SELECT public.two_factor_satisfied()));
+
+CREATE INDEX IF NOT EXISTS idx_milestone_reviews_milestone_id
+ON public.milestone_reviews(milestone_id);
+
+-- The client's sign-off: approve a delivered milestone or send it back with a comment.
+-- As SECURITY DEFINER it bypasses the restrictive two-factor policies, so it checks the sign-in itself.
+CREATE OR REPLACE FUNCTION public.review_milestone(
+  _milestone_id UUID,
+  _decision TEXT,
+  _comment TEXT DEFAULT NULL
+)
+RETURNS public.milestone_reviews
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _milestone public.project_milestones;
+  _review public.milestone_reviews;
+BEGIN
+  IF NOT public.two_factor_satisfied() THEN
+    RAISE EXCEPTION 'Two-factor verification required';
+  END IF;
+
+  SELECT m.* INTO _milestone
+  FROM public.project_milestones m
+  JOIN public.service_requests sr ON sr.id = m.service_request_id
+  WHERE m.id = _milestone_id AND sr.user_id = auth.uid()
+  FOR UPDATE OF m;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Milestone not found';
+  END IF;
+
+  IF _milestone.status <> 'delivered' THEN
+    RAISE EXCEPTION 'Only delivered milestones can be reviewed';
+  END IF;
+
+  IF _decision NOT IN ('approved', 'changes_requested') THEN
+    RAISE EXCEPTION 'Unknown decision %', _decision;
+  END IF;
+
+  _comment := nullif(btrim(_comment), '');
+  IF _decision = 'changes_requested' AND _comment IS NULL THEN
+    RAISE EXCEPTION 'Describe the changes you need';
+  END IF;
+
+  INSERT INTO public.milestone_reviews (milestone_id, decision, comment, deliverables, reviewer_id)
+  VALUES (
+    _milestone_id,
+    _decision,
+    _comment,
+    (SELECT coalesce(jsonb_agg(jsonb_build_object('id', f.id, 'name', f.name) ORDER BY f.created_at), '[]'::jsonb)
+     FROM public.request_files f WHERE f.milestone_id = _milestone_id),
+    auth.uid()
+  )
+  RETURNING * INTO _review;
+
+  PERFORM set_config('app.milestone_review', 'on', true);
+  UPDATE public.project_milestones SET status = _decision WHERE id = _milestone_id;
+  PERFORM set_config('app.milestone_review', 'off', true);
+
+  RETURN _review;
+END;
+$$;
+
+-- Account erasure also clears the client's review comments
+CREATE OR REPLACE FUNCTION public.erase_account_data(_user_id UUID)
+RETURNS TABLE (bucket TEXT, path TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _email TEXT;
+BEGIN
+  SELECT lower(email) INTO _email FROM auth.users WHERE id = _user_id;
+
+  CREATE TEMP TABLE _account_requests ON COMMIT DROP AS
+  SELECT id FROM public.service_requests WHERE user_id = _user_id;
+
+  CREATE TEMP TABLE _kept_requests ON COMMIT DROP AS
+  SELECT sr.id FROM _account_requests sr
+  WHERE EXISTS (SELECT 1 FROM public.payment_requests p
+                WHERE p.service_request_id = sr.id AND p.status IN ('awaiting_verification', 'paid'))
+     OR EXISTS (SELECT 1 FROM public.invoices i WHERE i.service_request_id = sr.id AND i.status <> 'draft');
+
+  -- Collect files before the rows that point at them disappear
+  CREATE TEMP TABLE _account_files ON COMMIT DROP AS
+  SELECT 'uploads' AS bucket, substring(split_part(avatar_url, '?', 1) FROM '/storage/v1/object/public/uploads/(.+)$') AS path
+  FROM public.profiles WHERE user_id = _user_id
+  UNION ALL
+  SELECT 'request-files', f.path FROM public.request_files f WHERE f.service_request_id IN (SELECT id FROM _account_requests)
+  UNION ALL
+  SELECT 'request-files', attachment ->> 'path'
+  FROM public.request_messages m
+  CROSS JOIN LATERAL jsonb_array_elements(m.attachments) AS attachment
+  WHERE m.service_request_id IN (SELECT id FROM _account_requests)
+  UNION ALL
+  SELECT 'request-files', screenshot_path FROM public.payment_requests WHERE user_id = _user_id;
+
+  -- Audit entries for the account's records keep who did what and when, but lose the row snapshots.
+  -- A record belongs to the account when it is one of its requests, payments, invoices or profile, or
+  -- was first logged with one of its requests or invoices.
+  UPDATE public.audit_events
+  SET before = NULL, after = NULL
+  WHERE (table_name, record_id) IN (
+    SELECT a.table_name, a.record_id FROM public.audit_events a
+    WHERE (a.table_name = 'service_requests' AND a.record_id IN (SELECT id FROM _account_requests))
+       OR (a.table_name = 'payment_requests' AND a.record_id IN (SELECT id FROM public.payment_requests WHERE user_id = _user_id))
+       OR (a.table_name = 'invoices' AND a.record_id IN (SELECT id FROM public.invoices WHERE user_id = _user_id))
+       OR (a.table_name = 'profiles' AND a.record_id IN (SELECT id FROM public.profiles WHERE user_id = _user_id))
+       OR (a.table_name = 'contact_messages' AND lower(coalesce(a.after, a.before) ->> 'email') = _email)
+       OR coalesce(a.after, a.before) ->> 'service_request_id' IN (SELECT id::text FROM _account_requests)
+       OR coalesce(a.after, a.before) ->> 'invoice_id' IN (SELECT id::text FROM public.invoices WHERE user_id = _user_id)
+  );
+
+  PERFORM set_config('app.account_erasure', 'on', true);
+
+  DELETE FROM public.service_requests
+  WHERE id IN (SELECT id FROM _account_requests) AND id NOT IN (SELECT id FROM _kept_requests);
+
+  DELETE FROM public.request_messages WHERE service_request_id IN (SELECT id FROM _kept_requests);
+  DELETE FROM public.request_files WHERE service_request_id IN (SELECT id FROM _kept_requests);
+
+  UPDATE public.request_status_history
+  SET actor_id = NULL, actor_label = 'Former client'
+  WHERE service_request_id IN (SELECT id FROM _kept_requests) AND actor_type = 'client';
+
+  -- Review comments are the client's own words
+  UPDATE public.milestone_reviews SET comment = NULL WHERE reviewer_id = _user_id;
+
+  UPDATE public.service_requests
+  SET user_id = NULL, description = NULL, notes = NULL,
+      company_name = NULL, contact_email = NULL, contact_phone = NULL
+  WHERE id IN (SELECT id FROM _kept_requests);
+
+  UPDATE public.payment_requests
+  SET user_id = NULL, screenshot_path = NULL
+  WHERE user_id = _user_id;
+
+  UPDATE public.invoices
+  SET user_id = NULL,
+      buyer_name = CASE WHEN buyer_gstin IS NULL THEN 'Former client' ELSE buyer_name END,
+      buyer_address = CASE WHEN buyer_gstin IS NULL THEN NULL ELSE buyer_address END
+  WHERE user_id = _user_id;
+
+  PERFORM set_config('app.account_erasure', 'off', true);
+
+  IF _email IS NOT NULL THEN
+    DELETE FROM public.contact_messages WHERE lower(email) = _email;
+    DELETE FROM public.otp_verifications WHERE email = _email;
+    DELETE FROM public.otp_send_log WHERE email = _email;
+    -- Queued and sent notification emails hold the address and template data such as the name
+    DELETE FROM public.outbound_messages WHERE lower(recipient) = _email;
+  END IF;
+
+  DELETE FROM public.step_up_tokens WHERE user_id = _user_id;
+  -- profiles, user_roles, login_events, two-factor data and the deletion request itself
+  -- cascade when the auth user is deleted
+
+  RETURN QUERY SELECT f.bucket, f.path FROM _account_files f WHERE f.path IS NOT NULL;
+END;
+$$;
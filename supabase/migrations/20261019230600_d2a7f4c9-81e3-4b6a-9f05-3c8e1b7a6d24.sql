@@ -0,0 +1,108 @@
+-- Per-project task boards for PMs
+
+-- One card on a request's board. PMs manage cards through pm-api; admins can read them and
+-- clients only get the counts from request_task_summary.
+CREATE TABLE public.project_tasks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  service_request_id UUID NOT NULL REFERENCES public.service_requests(id) ON DELETE CASCADE,
+  title TEXT NOT NULL CHECK (length(title) BETWEEN 1 AND 200),
+  description TEXT CHECK (length(description) <= 4000),
+  status TEXT NOT NULL DEFAULT 'todo' CHECK (status IN ('todo', 'doing', 'review', 'done')),
+  -- Order within the column; a moved card takes a value between its new neighbours
+  position DOUBLE PRECISION NOT NULL DEFAULT 0,
+  -- Names of the people working on the card
+  assignees TEXT[] NOT NULL DEFAULT '{}' CHECK (cardinality(assignees) <= 10),
+  -- [{ id, text, done }]
+  checklist JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(checklist) = 'array'),
+  due_date DATE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_by_pm_id UUID REFERENCES public.project_managers(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.project_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view project tasks"
+ON public.project_tasks
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Require completed two-factor sign-in"
+ON public.project_tasks
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING ((SELECT public.two_factor_satisfied()))
+WITH CHECK ((SELECT public.two_factor_satisfied()));
+
+CREATE INDEX IF NOT EXISTS idx_project_tasks_service_request_id
+ON public.project_tasks(service_request_id, status, position);
+
+CREATE TRIGGER update_project_tasks_updated_at
+BEFORE UPDATE ON public.project_tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Stamps when a card reaches Done, and clears it if the card moves back
+CREATE OR REPLACE FUNCTION public.set_project_task_completed_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'done' AND (TG_OP = 'INSERT' OR OLD.status <> 'done') THEN
+    NEW.completed_at := now();
+  ELSIF NEW.status <> 'done' THEN
+    NEW.completed_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_project_task_completed_at
+BEFORE INSERT OR UPDATE OF status ON public.project_tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.set_project_task_completed_at();
+
+-- What the client sees of the board: how many cards are in each column and what is overdue,
+-- without the cards themselves, which are the team's working notes. It reads project_tasks past
+-- the restrictive two-factor policy, so it checks the sign-in itself.
+CREATE OR REPLACE FUNCTION public.request_task_summary(_request_id UUID)
+RETURNS TABLE (
+  todo INTEGER,
+  doing INTEGER,
+  review INTEGER,
+  done INTEGER,
+  overdue INTEGER,
+  last_completed_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.two_factor_satisfied() THEN
+    RAISE EXCEPTION 'Two-factor verification required';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.service_requests
+    WHERE id = _request_id AND (user_id = auth.uid() OR has_role(auth.uid(), 'admin'::app_role))
+  ) THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    count(*) FILTER (WHERE t.status = 'todo')::INTEGER,
+    count(*) FILTER (WHERE t.status = 'doing')::INTEGER,
+    count(*) FILTER (WHERE t.status = 'review')::INTEGER,
+    count(*) FILTER (WHERE t.status = 'done')::INTEGER,
+    count(*) FILTER (WHERE t.status <> 'done' AND t.due_date < current_date)::INTEGER,
+    max(t.completed_at)
+  FROM public.project_tasks t
+  WHERE t.service_request_id = _request_id;
+END;
+$$;
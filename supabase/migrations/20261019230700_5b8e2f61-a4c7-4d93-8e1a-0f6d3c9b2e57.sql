@@ -0,0 +1,158 @@
+-- Time tracking for hourly projects, billed through payment requests
+
+-- Rate offered when turning hours into a payment request; admins can change it per bill
+ALTER TABLE public.billing_settings
+ADD COLUMN default_hourly_rate NUMERIC(12,2) NOT NULL DEFAULT 0 CHECK (default_hourly_rate >= 0);
+
+-- Time a PM spent on a project, optionally against one of its tasks. A running timer has no
+-- ended_at yet; a manual entry is stored with both ends. payment_request_id is set once the time
+-- has been billed.
+CREATE TABLE public.time_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  service_request_id UUID NOT NULL REFERENCES public.service_requests(id) ON DELETE CASCADE,
+  task_id UUID REFERENCES public.project_tasks(id) ON DELETE SET NULL,
+  pm_id UUID REFERENCES public.project_managers(id) ON DELETE SET NULL,
+  source TEXT NOT NULL DEFAULT 'timer' CHECK (source IN ('timer', 'manual')),
+  description TEXT CHECK (length(description) <= 1000),
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  ended_at TIMESTAMP WITH TIME ZONE,
+  duration_minutes INTEGER GENERATED ALWAYS AS (
+    CASE WHEN ended_at IS NULL THEN NULL
+    ELSE ceil(extract(epoch FROM ended_at - started_at) / 60)::INTEGER END
+  ) STORED,
+  payment_request_id UUID REFERENCES public.payment_requests(id) ON DELETE SET NULL,
+  billed_hourly_rate NUMERIC(12,2),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT time_entries_valid_range CHECK (
+    ended_at IS NULL OR (ended_at > started_at AND ended_at - started_at <= interval '24 hours')
+  )
+);
+
+ALTER TABLE public.time_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view time entries"
+ON public.time_entries
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE POLICY "Require completed two-factor sign-in"
+ON public.time_entries
+AS RESTRICTIVE
+FOR ALL
+TO authenticated
+USING ((SELECT public.two_factor_satisfied()))
+WITH CHECK ((SELECT public.two_factor_satisfied()));
+
+-- A PM runs at most one timer at a time
+CREATE UNIQUE INDEX IF NOT EXISTS idx_time_entries_running_timer
+ON public.time_entries(pm_id)
+WHERE ended_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_time_entries_service_request_id ON public.time_entries(service_request_id);
+CREATE INDEX IF NOT EXISTS idx_time_entries_pm_started_at ON public.time_entries(pm_id, started_at);
+CREATE INDEX IF NOT EXISTS idx_time_entries_unbilled
+ON public.time_entries(service_request_id)
+WHERE payment_request_id IS NULL AND ended_at IS NOT NULL;
+
+CREATE TRIGGER update_time_entries_updated_at
+BEFORE UPDATE ON public.time_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Hours on a cancelled payment request can be billed again
+CREATE OR REPLACE FUNCTION public.release_cancelled_time_entries()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.time_entries
+  SET payment_request_id = NULL, billed_hourly_rate = NULL
+  WHERE payment_request_id = NEW.id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER release_cancelled_time_entries
+AFTER UPDATE OF status ON public.payment_requests
+FOR EACH ROW
+WHEN (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled')
+EXECUTE FUNCTION public.release_cancelled_time_entries();
+
+-- Turns a project's unbilled time (all of it, or the given entries) into one pending payment
+-- request at _hourly_rate. Called by admin-api with the service role.
+CREATE OR REPLACE FUNCTION public.bill_time_entries(
+  _request_id UUID,
+  _hourly_rate NUMERIC,
+  _upi_id TEXT,
+  _payment_note TEXT DEFAULT NULL,
+  _entry_ids UUID[] DEFAULT NULL
+)
+RETURNS public.payment_requests
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _user_id UUID;
+  _minutes INTEGER;
+  _payment public.payment_requests;
+BEGIN
+  IF _hourly_rate IS NULL OR _hourly_rate <= 0 THEN
+    RAISE EXCEPTION 'Set an hourly rate above zero';
+  END IF;
+
+  SELECT user_id INTO _user_id FROM public.service_requests WHERE id = _request_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Request not found';
+  END IF;
+  IF _user_id IS NULL THEN
+    RAISE EXCEPTION 'This request no longer has a client to bill';
+  END IF;
+
+  -- Lock the entries so a concurrent bill can't take the same time
+  PERFORM 1 FROM public.time_entries
+  WHERE service_request_id = _request_id
+    AND ended_at IS NOT NULL
+    AND payment_request_id IS NULL
+    AND (_entry_ids IS NULL OR id = ANY(_entry_ids))
+  FOR UPDATE;
+
+  SELECT coalesce(sum(duration_minutes), 0) INTO _minutes
+  FROM public.time_entries
+  WHERE service_request_id = _request_id
+    AND ended_at IS NOT NULL
+    AND payment_request_id IS NULL
+    AND (_entry_ids IS NULL OR id = ANY(_entry_ids));
+  IF _minutes = 0 THEN
+    RAISE EXCEPTION 'There is no unbilled time to bill';
+  END IF;
+
+  INSERT INTO public.payment_requests (service_request_id, user_id, amount, upi_id, payment_note, status)
+  VALUES (
+    _request_id,
+    _user_id,
+    round(_minutes / 60.0 * _hourly_rate, 2),
+    _upi_id,
+    coalesce(
+      nullif(btrim(_payment_note), ''),
+      format('%s h %s min at ₹%s/hour', _minutes / 60, _minutes % 60, _hourly_rate)
+    ),
+    'pending'
+  )
+  RETURNING * INTO _payment;
+
+  UPDATE public.time_entries
+  SET payment_request_id = _payment.id, billed_hourly_rate = _hourly_rate
+  WHERE service_request_id = _request_id
+    AND ended_at IS NOT NULL
+    AND payment_request_id IS NULL
+    AND (_entry_ids IS NULL OR id = ANY(_entry_ids));
+
+  RETURN _payment;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.bill_time_entries(UUID, NUMERIC, TEXT, TEXT, UUID[]) FROM PUBLIC, anon, authenticated;
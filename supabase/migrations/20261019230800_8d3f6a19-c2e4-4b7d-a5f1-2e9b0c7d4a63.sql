@@ -0,0 +1,238 @@
+-- Per-service intake questionnaires and the answers given on each request
+
+-- The questions asked when a client requests this service, in order. Each entry is
+-- { id, label, type: text|choice|multi|file|number, required, help?, multiline?, options?,
+--   min?, max?, show_if?: { field, values } }. admin-api validates the shape on write.
+ALTER TABLE public.services
+ADD COLUMN intake_schema JSONB NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(intake_schema) = 'array');
+
+-- The answered questions as [{ id, label, type, value }], so they still read correctly after the
+-- service's questionnaire changes. File answers are [{ file_id, name }] pointing at request_files.
+ALTER TABLE public.service_requests
+ADD COLUMN intake_answers JSONB CHECK (intake_answers IS NULL OR jsonb_typeof(intake_answers) = 'array');
+
+-- Checks answers against the service's questionnaire and stores them in schema order, dropping
+-- questions that were hidden by show_if or are not part of it. Files can only be uploaded once
+-- the request exists, so required file questions are left to the form; file answers must name
+-- files already attached to the request. Clearing the answers is always allowed.
+CREATE OR REPLACE FUNCTION public.validate_intake_answers()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _schema JSONB;
+  _field JSONB;
+  _label TEXT;
+  _condition JSONB;
+  _depends JSONB;
+  _value JSONB;
+  _files JSONB;
+  _shown JSONB := '{}'::jsonb;
+  _result JSONB := '[]'::jsonb;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.intake_answers IS NULL OR (
+      NEW.intake_answers IS NOT DISTINCT FROM OLD.intake_answers
+      AND NEW.service_id IS NOT DISTINCT FROM OLD.service_id
+    ) THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  SELECT intake_schema INTO _schema FROM public.services WHERE id = NEW.service_id;
+  IF _schema IS NULL OR jsonb_array_length(_schema) = 0 THEN
+    NEW.intake_answers := NULL;
+    RETURN NEW;
+  END IF;
+
+  FOR _field IN SELECT * FROM jsonb_array_elements(_schema) LOOP
+    _label := _field ->> 'label';
+
+    -- Only questions whose condition is met by an earlier visible answer are asked
+    _condition := _field -> 'show_if';
+    IF _condition IS NOT NULL THEN
+      _depends := _shown -> (_condition ->> 'field');
+      IF _depends IS NULL OR NOT CASE jsonb_typeof(_depends)
+        WHEN 'string' THEN (_condition -> 'values') ? (_depends #>> '{}')
+        WHEN 'array' THEN (_condition -> 'values') ?| ARRAY(SELECT jsonb_array_elements_text(_depends))
+        ELSE false
+      END THEN
+        CONTINUE;
+      END IF;
+    END IF;
+
+    SELECT answer -> 'value' INTO _value
+    FROM jsonb_array_elements(coalesce(NEW.intake_answers, '[]'::jsonb)) AS answer
+    WHERE answer ->> 'id' = _field ->> 'id'
+    LIMIT 1;
+
+    IF _value IS NULL OR _value IN ('null'::jsonb, '""'::jsonb, '[]'::jsonb) THEN
+      IF coalesce((_field ->> 'required')::boolean, false) AND _field ->> 'type' <> 'file' THEN
+        RAISE EXCEPTION '"%" is required', _label;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    CASE _field ->> 'type'
+      WHEN 'text' THEN
+        IF jsonb_typeof(_value) <> 'string' OR length(_value #>> '{}') > 5000 THEN
+          RAISE EXCEPTION '"%" must be text of at most 5000 characters', _label;
+        END IF;
+      WHEN 'number' THEN
+        IF jsonb_typeof(_value) <> 'number' THEN
+          RAISE EXCEPTION '"%" must be a number', _label;
+        END IF;
+        IF (_field ? 'min' AND (_value #>> '{}')::numeric < (_field ->> 'min')::numeric)
+          OR (_field ? 'max' AND (_value #>> '{}')::numeric > (_field ->> 'max')::numeric) THEN
+          RAISE EXCEPTION '"%" is out of range', _label;
+        END IF;
+      WHEN 'choice' THEN
+        IF jsonb_typeof(_value) <> 'string' OR NOT (_field -> 'options') ? (_value #>> '{}') THEN
+          RAISE EXCEPTION '"%" must be one of the listed options', _label;
+        END IF;
+      WHEN 'multi' THEN
+        IF jsonb_typeof(_value) <> 'array' OR EXISTS (
+          SELECT 1 FROM jsonb_array_elements(_value) AS v
+          WHERE jsonb_typeof(v) <> 'string' OR NOT (_field -> 'options') ? (v #>> '{}')
+        ) THEN
+          RAISE EXCEPTION '"%" must only contain listed options', _label;
+        END IF;
+      WHEN 'file' THEN
+        IF jsonb_typeof(_value) <> 'array' OR EXISTS (
+          SELECT 1 FROM jsonb_array_elements(_value) AS v
+          WHERE NOT coalesce(v ->> 'file_id' ~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$', false)
+        ) THEN
+          RAISE EXCEPTION '"%" must list uploaded files', _label;
+        END IF;
+        -- Names come from the file records, not the client
+        SELECT jsonb_agg(jsonb_build_object('file_id', f.id, 'name', f.name) ORDER BY f.created_at) INTO _files
+        FROM public.request_files f
+        WHERE f.service_request_id = NEW.id
+          AND f.id IN (SELECT (v ->> 'file_id')::uuid FROM jsonb_array_elements(_value) AS v);
+        IF coalesce(jsonb_array_length(_files), 0) <> (
+          SELECT count(DISTINCT v ->> 'file_id') FROM jsonb_array_elements(_value) AS v
+        ) THEN
+          RAISE EXCEPTION '"%" lists files that are not attached to this request', _label;
+        END IF;
+        _value := _files;
+      ELSE
+        CONTINUE;
+    END CASE;
+
+    _shown := _shown || jsonb_build_object(_field ->> 'id', _value);
+    _result := _result || jsonb_build_array(jsonb_build_object(
+      'id', _field ->> 'id', 'label', _label, 'type', _field ->> 'type', 'value', _value
+    ));
+  END LOOP;
+
+  NEW.intake_answers := nullif(_result, '[]'::jsonb);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_intake_answers
+BEFORE INSERT OR UPDATE OF intake_answers, service_id ON public.service_requests
+FOR EACH ROW
+EXECUTE FUNCTION public.validate_intake_answers();
+
+-- Account erasure also clears the questionnaire answers of requests kept for invoicing
+CREATE OR REPLACE FUNCTION public.erase_account_data(_user_id UUID)
+RETURNS TABLE (bucket TEXT, path TEXT)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _email TEXT;
+BEGIN
+  SELECT lower(email) INTO _email FROM auth.users WHERE id = _user_id;
+
+  CREATE TEMP TABLE _account_requests ON COMMIT DROP AS
+  SELECT id FROM public.service_requests WHERE user_id = _user_id;
+
+  CREATE TEMP TABLE _kept_requests ON COMMIT DROP AS
+  SELECT sr.id FROM _account_requests sr
+  WHERE EXISTS (SELECT 1 FROM public.payment_requests p
+                WHERE p.service_request_id = sr.id AND p.status IN ('awaiting_verification', 'paid'))
+     OR EXISTS (SELECT 1 FROM public.invoices i WHERE i.service_request_id = sr.id AND i.status <> 'draft');
+
+  -- Collect files before the rows that point at them disappear
+  CREATE TEMP TABLE _account_files ON COMMIT DROP AS
+  SELECT 'uploads' AS bucket, substring(split_part(avatar_url, '?', 1) FROM '/storage/v1/object/public/uploads/(.+)$') AS path
+  FROM public.profiles WHERE user_id = _user_id
+  UNION ALL
+  SELECT 'request-files', f.path FROM public.request_files f WHERE f.service_request_id IN (SELECT id FROM _account_requests)
+  UNION ALL
+  SELECT 'request-files', attachment ->> 'path'
+  FROM public.request_messages m
+  CROSS JOIN LATERAL jsonb_array_elements(m.attachments) AS attachment
+  WHERE m.service_request_id IN (SELECT id FROM _account_requests)
+  UNION ALL
+  SELECT 'request-files', screenshot_path FROM public.payment_requests WHERE user_id = _user_id;
+
+  -- Audit entries for the account's records keep who did what and when, but lose the row snapshots.
+  -- A record belongs to the account when it is one of its requests, payments, invoices or profile, or
+  -- was first logged with one of its requests or invoices.
+  UPDATE public.audit_events
+  SET before = NULL, after = NULL
+  WHERE (table_name, record_id) IN (
+    SELECT a.table_name, a.record_id FROM public.audit_events a
+    WHERE (a.table_name = 'service_requests' AND a.record_id IN (SELECT id FROM _account_requests))
+       OR (a.table_name = 'payment_requests' AND a.record_id IN (SELECT id FROM public.payment_requests WHERE user_id = _user_id))
+       OR (a.table_name = 'invoices' AND a.record_id IN (SELECT id FROM public.invoices WHERE user_id = _user_id))
+       OR (a.table_name = 'profiles' AND a.record_id IN (SELECT id FROM public.profiles WHERE user_id = _user_id))
+       OR (a.table_name = 'contact_messages' AND lower(coalesce(a.after, a.before) ->> 'email') = _email)
+       OR coalesce(a.after, a.before) ->> 'service_request_id' IN (SELECT id::text FROM _account_requests)
+       OR coalesce(a.after, a.before) ->> 'invoice_id' IN (SELECT id::text FROM public.invoices WHERE user_id = _user_id)
+  );
+
+  PERFORM set_config('app.account_erasure', 'on', true);
+
+  DELETE FROM public.service_requests
+  WHERE id IN (SELECT id FROM _account_requests) AND id NOT IN (SELECT id FROM _kept_requests);
+
+  DELETE FROM public.request_messages WHERE service_request_id IN (SELECT id FROM _kept_requests);
+  DELETE FROM public.request_files WHERE service_request_id IN (SELECT id FROM _kept_requests);
+
+  UPDATE public.request_status_history
+  SET actor_id = NULL, actor_label = 'Former client'
+  WHERE service_request_id IN (SELECT id FROM _kept_requests) AND actor_type = 'client';
+
+  -- Review comments are the client's own words
+  UPDATE public.milestone_reviews SET comment = NULL WHERE reviewer_id = _user_id;
+
+  UPDATE public.service_requests
+  SET user_id = NULL, description = NULL, notes = NULL,
+      intake_answers = NULL,
+      company_name = NULL, contact_email = NULL, contact_phone = NULL
+  WHERE id IN (SELECT id FROM _kept_requests);
+
+  UPDATE public.payment_requests
+  SET user_id = NULL, screenshot_path = NULL
+  WHERE user_id = _user_id;
+
+  UPDATE public.invoices
+  SET user_id = NULL,
+      buyer_name = CASE WHEN buyer_gstin IS NULL THEN 'Former client' ELSE buyer_name END,
+      buyer_address = CASE WHEN buyer_gstin IS NULL THEN NULL ELSE buyer_address END
+  WHERE user_id = _user_id;
+
+  PERFORM set_config('app.account_erasure', 'off', true);
+
+  IF _email IS NOT NULL THEN
+    DELETE FROM public.contact_messages WHERE lower(email) = _email;
+    DELETE FROM public.otp_verifications WHERE email = _email;
+    DELETE FROM public.otp_send_log WHERE email = _email;
+    -- Queued and sent notification emails hold the address and template data such as the name
+    DELETE FROM public.outbound_messages WHERE lower(recipient) = _email;
+  END IF;
+
+  DELETE FROM public.step_up_tokens WHERE user_id = _user_id;
+  -- profiles, user_roles, login_events, two-factor data and the deletion request itself
+  -- cascade when the auth user is deleted
+
+  RETURN QUERY SELECT f.bucket, f.path FROM _account_files f WHERE f.path IS NOT NULL;
+END;
+$$;